@@ -0,0 +1,18 @@
+BEGIN;
+
+-- Monotonic row version for optimistic concurrency on transactions
+ALTER TABLE public.transactions
+  ADD COLUMN IF NOT EXISTS version bigint NOT NULL DEFAULT 1;
+
+CREATE OR REPLACE FUNCTION bump_transaction_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.version = OLD.version + 1;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS bump_version ON public.transactions;
+CREATE TRIGGER bump_version BEFORE UPDATE ON public.transactions FOR EACH ROW EXECUTE FUNCTION bump_transaction_version();
+
+COMMIT;
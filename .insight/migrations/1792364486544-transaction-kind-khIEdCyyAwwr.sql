@@ -0,0 +1,16 @@
+BEGIN;
+
+-- Direction of a transaction; amount stays a non-negative magnitude
+DO $$ BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'transaction_kind') THEN
+    CREATE TYPE public.transaction_kind AS ENUM ('expense', 'income', 'refund', 'transfer');
+  END IF;
+END $$;
+
+ALTER TABLE public.transactions
+  ADD COLUMN IF NOT EXISTS kind public.transaction_kind NOT NULL DEFAULT 'expense';
+
+CREATE INDEX IF NOT EXISTS idx_transactions_user_kind_occurred_at
+  ON public.transactions (user_id, kind, occurred_at);
+
+COMMIT;
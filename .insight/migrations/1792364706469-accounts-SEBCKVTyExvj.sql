@@ -0,0 +1,37 @@
+BEGIN;
+
+DO $$ BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'account_type') THEN
+    CREATE TYPE public.account_type AS ENUM ('cash', 'checking', 'savings', 'credit_card', 'e_wallet', 'other');
+  END IF;
+END $$;
+
+-- User-defined money containers; balances are derived from opening_balance plus transactions
+CREATE TABLE IF NOT EXISTS public.accounts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE ON UPDATE CASCADE,
+  name text NOT NULL,
+  type public.account_type NOT NULL DEFAULT 'checking',
+  currency public.currency_code NOT NULL DEFAULT 'KRW',
+  opening_balance bigint NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+CREATE INDEX IF NOT EXISTS idx_accounts_user ON public.accounts(user_id);
+
+DROP TRIGGER IF EXISTS set_timestamp ON public.accounts;
+CREATE TRIGGER set_timestamp BEFORE UPDATE ON public.accounts FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+
+-- account_id is the source account; transfer_account_id is the destination of a transfer
+ALTER TABLE public.transactions
+  ADD COLUMN IF NOT EXISTS account_id uuid REFERENCES public.accounts(id) ON DELETE SET NULL ON UPDATE CASCADE,
+  ADD COLUMN IF NOT EXISTS transfer_account_id uuid REFERENCES public.accounts(id) ON DELETE SET NULL ON UPDATE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_user_account ON public.transactions(user_id, account_id);
+CREATE INDEX IF NOT EXISTS idx_transactions_user_transfer_account ON public.transactions(user_id, transfer_account_id);
+
+ALTER TABLE public.recurring_transactions
+  ADD COLUMN IF NOT EXISTS account_id uuid REFERENCES public.accounts(id) ON DELETE SET NULL ON UPDATE CASCADE;
+
+COMMIT;
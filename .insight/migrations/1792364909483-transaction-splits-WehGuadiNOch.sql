@@ -0,0 +1,34 @@
+BEGIN;
+
+-- Split lines divide one transaction across categories/tags; their amounts must sum to the parent amount
+-- (enforced by the API, which replaces a transaction's lines as a whole)
+CREATE TABLE IF NOT EXISTS public.transaction_splits (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  transaction_id uuid NOT NULL REFERENCES public.transactions(id) ON DELETE CASCADE ON UPDATE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE ON UPDATE CASCADE,
+  amount bigint NOT NULL CHECK (amount >= 0),
+  category_id uuid REFERENCES public.categories(id) ON DELETE SET NULL ON UPDATE CASCADE,
+  notes text,
+  position integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS idx_transaction_splits_transaction ON public.transaction_splits(transaction_id, position);
+CREATE INDEX IF NOT EXISTS idx_transaction_splits_user_category ON public.transaction_splits(user_id, category_id);
+
+DROP TRIGGER IF EXISTS set_timestamp ON public.transaction_splits;
+CREATE TRIGGER set_timestamp BEFORE UPDATE ON public.transaction_splits FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+
+CREATE TABLE IF NOT EXISTS public.transaction_split_tags (
+  split_id uuid NOT NULL REFERENCES public.transaction_splits(id) ON DELETE CASCADE ON UPDATE CASCADE,
+  tag_id uuid NOT NULL REFERENCES public.tags(id) ON DELETE CASCADE ON UPDATE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (split_id, tag_id)
+);
+CREATE INDEX IF NOT EXISTS idx_transaction_split_tags_tag ON public.transaction_split_tags(tag_id);
+
+-- Reports attribute split transactions by line; this flag lets them skip the parent row cheaply
+ALTER TABLE public.transactions
+  ADD COLUMN IF NOT EXISTS has_splits boolean NOT NULL DEFAULT false;
+
+COMMIT;
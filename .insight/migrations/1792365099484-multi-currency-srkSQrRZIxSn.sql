@@ -0,0 +1,73 @@
+BEGIN;
+
+-- Currencies beyond KRW; new enum values are only used by later transactions
+ALTER TYPE public.currency_code ADD VALUE IF NOT EXISTS 'USD';
+ALTER TYPE public.currency_code ADD VALUE IF NOT EXISTS 'EUR';
+ALTER TYPE public.currency_code ADD VALUE IF NOT EXISTS 'JPY';
+ALTER TYPE public.currency_code ADD VALUE IF NOT EXISTS 'CNY';
+ALTER TYPE public.currency_code ADD VALUE IF NOT EXISTS 'GBP';
+ALTER TYPE public.currency_code ADD VALUE IF NOT EXISTS 'HKD';
+ALTER TYPE public.currency_code ADD VALUE IF NOT EXISTS 'SGD';
+ALTER TYPE public.currency_code ADD VALUE IF NOT EXISTS 'AUD';
+ALTER TYPE public.currency_code ADD VALUE IF NOT EXISTS 'CAD';
+ALTER TYPE public.currency_code ADD VALUE IF NOT EXISTS 'THB';
+ALTER TYPE public.currency_code ADD VALUE IF NOT EXISTS 'VND';
+ALTER TYPE public.currency_code ADD VALUE IF NOT EXISTS 'TWD';
+
+-- amount stays denominated in the user's primary currency so every sum keeps working;
+-- original_amount (minor units of currency) and the exchange_rate used record what was actually paid
+ALTER TABLE public.transactions
+  ADD COLUMN IF NOT EXISTS currency public.currency_code NOT NULL DEFAULT 'KRW',
+  ADD COLUMN IF NOT EXISTS original_amount bigint CHECK (original_amount >= 0),
+  ADD COLUMN IF NOT EXISTS exchange_rate numeric(20, 10) NOT NULL DEFAULT 1 CHECK (exchange_rate > 0);
+
+-- Backfilling is bookkeeping, not an edit: keep versions and updated_at so offline edits don't turn into conflicts
+ALTER TABLE public.transactions DISABLE TRIGGER bump_version;
+ALTER TABLE public.transactions DISABLE TRIGGER set_timestamp;
+UPDATE public.transactions SET original_amount = amount WHERE original_amount IS NULL;
+ALTER TABLE public.transactions ENABLE TRIGGER set_timestamp;
+ALTER TABLE public.transactions ENABLE TRIGGER bump_version;
+
+-- Writers that only know about amount (recurring occurrences, restores) keep original_amount in step
+-- for rows recorded in the primary currency (exchange_rate = 1)
+CREATE OR REPLACE FUNCTION public.sync_transaction_original_amount()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.original_amount IS NULL THEN
+      NEW.original_amount := NEW.amount;
+    END IF;
+  ELSIF NEW.exchange_rate = 1
+    AND NEW.amount IS DISTINCT FROM OLD.amount
+    AND NEW.original_amount IS NOT DISTINCT FROM OLD.original_amount THEN
+    NEW.original_amount := NEW.amount;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS sync_original_amount ON public.transactions;
+CREATE TRIGGER sync_original_amount BEFORE INSERT OR UPDATE ON public.transactions
+  FOR EACH ROW EXECUTE FUNCTION public.sync_transaction_original_amount();
+
+-- User-maintained rates: 1 unit of base_currency = rate units of quote_currency, effective from effective_on
+CREATE TABLE IF NOT EXISTS public.exchange_rates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE ON UPDATE CASCADE,
+  base_currency public.currency_code NOT NULL,
+  quote_currency public.currency_code NOT NULL,
+  rate numeric(20, 10) NOT NULL CHECK (rate > 0),
+  effective_on date NOT NULL,
+  source text NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'import')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (base_currency <> quote_currency),
+  UNIQUE (user_id, base_currency, quote_currency, effective_on)
+);
+CREATE INDEX IF NOT EXISTS idx_exchange_rates_lookup
+  ON public.exchange_rates(user_id, base_currency, quote_currency, effective_on DESC);
+
+DROP TRIGGER IF EXISTS set_timestamp ON public.exchange_rates;
+CREATE TRIGGER set_timestamp BEFORE UPDATE ON public.exchange_rates FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+
+COMMIT;
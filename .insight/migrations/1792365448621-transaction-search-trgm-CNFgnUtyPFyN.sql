@@ -0,0 +1,12 @@
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Server-side search matches payee/notes with ILIKE '%term%'; trigram GIN indexes on the raw columns
+-- serve ILIKE directly (unlike the lower(name) indexes on categories/tags, which serve lower() lookups)
+CREATE INDEX IF NOT EXISTS transactions_payee_trgm_idx
+  ON public.transactions USING gin (payee gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS transactions_notes_trgm_idx
+  ON public.transactions USING gin (notes gin_trgm_ops);
+
+COMMIT;
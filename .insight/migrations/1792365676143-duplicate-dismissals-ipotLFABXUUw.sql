@@ -0,0 +1,20 @@
+BEGIN;
+
+-- Pairs the user marked as "not a duplicate" so the suspected-duplicates listing stops showing them.
+-- Stored once per unordered pair: transaction_a_id is always the smaller uuid.
+CREATE TABLE IF NOT EXISTS public.transaction_duplicate_dismissals (
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE ON UPDATE CASCADE,
+  transaction_a_id uuid NOT NULL REFERENCES public.transactions(id) ON DELETE CASCADE,
+  transaction_b_id uuid NOT NULL REFERENCES public.transactions(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (transaction_a_id, transaction_b_id),
+  CHECK (transaction_a_id < transaction_b_id)
+);
+CREATE INDEX IF NOT EXISTS idx_transaction_duplicate_dismissals_user
+  ON public.transaction_duplicate_dismissals(user_id);
+
+-- Candidate lookup on create: same user and amount, close occurred_at
+CREATE INDEX IF NOT EXISTS idx_transactions_user_amount_occurred_at
+  ON public.transactions(user_id, amount, occurred_at);
+
+COMMIT;
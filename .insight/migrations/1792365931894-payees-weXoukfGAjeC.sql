@@ -0,0 +1,96 @@
+BEGIN;
+
+-- Canonical merchants. normalized_name (lower-cased, whitespace collapsed) is what free-text payees are matched on;
+-- name is the spelling shown everywhere and written back to transactions/presets/recurring rules on rename.
+CREATE TABLE IF NOT EXISTS public.payees (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE ON UPDATE CASCADE,
+  name text NOT NULL CHECK (length(btrim(name)) BETWEEN 1 AND 200),
+  normalized_name text NOT NULL,
+  default_category_id uuid REFERENCES public.categories(id) ON DELETE SET NULL ON UPDATE CASCADE,
+  default_payment_method payment_method,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (user_id, normalized_name)
+);
+DROP TRIGGER IF EXISTS set_timestamp ON public.payees;
+CREATE TRIGGER set_timestamp BEFORE UPDATE ON public.payees FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+
+-- Other spellings that resolve to a payee ("STARBUCKS KOREA" → 스타벅스). An alias can belong to one payee only.
+CREATE TABLE IF NOT EXISTS public.payee_aliases (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE ON UPDATE CASCADE,
+  payee_id uuid NOT NULL REFERENCES public.payees(id) ON DELETE CASCADE ON UPDATE CASCADE,
+  alias text NOT NULL CHECK (length(btrim(alias)) BETWEEN 1 AND 200),
+  normalized_alias text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (user_id, normalized_alias)
+);
+CREATE INDEX IF NOT EXISTS idx_payee_aliases_payee ON public.payee_aliases(payee_id);
+DROP TRIGGER IF EXISTS set_timestamp ON public.payee_aliases;
+CREATE TRIGGER set_timestamp BEFORE UPDATE ON public.payee_aliases FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+
+-- Tags applied to new transactions for this payee when the entry names none
+CREATE TABLE IF NOT EXISTS public.payee_tags (
+  payee_id uuid NOT NULL REFERENCES public.payees(id) ON DELETE CASCADE ON UPDATE CASCADE,
+  tag_id uuid NOT NULL REFERENCES public.tags(id) ON DELETE CASCADE ON UPDATE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (payee_id, tag_id)
+);
+CREATE INDEX IF NOT EXISTS idx_payee_tags_tag ON public.payee_tags(tag_id);
+DROP TRIGGER IF EXISTS set_timestamp ON public.payee_tags;
+CREATE TRIGGER set_timestamp BEFORE UPDATE ON public.payee_tags FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+
+-- The free-text payee column stays as the display copy; payee_id links it to the canonical payee
+ALTER TABLE public.transactions
+  ADD COLUMN IF NOT EXISTS payee_id uuid REFERENCES public.payees(id) ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE public.presets
+  ADD COLUMN IF NOT EXISTS payee_id uuid REFERENCES public.payees(id) ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE public.recurring_transactions
+  ADD COLUMN IF NOT EXISTS payee_id uuid REFERENCES public.payees(id) ON DELETE SET NULL ON UPDATE CASCADE;
+CREATE INDEX IF NOT EXISTS idx_transactions_user_payee ON public.transactions(user_id, payee_id);
+CREATE INDEX IF NOT EXISTS idx_presets_payee ON public.presets(payee_id);
+CREATE INDEX IF NOT EXISTS idx_recurring_tx_payee ON public.recurring_transactions(payee_id);
+
+-- Backfill: one payee per distinct normalized spelling, named after its most frequent spelling
+WITH spellings AS (
+  SELECT user_id, btrim(regexp_replace(payee, '\s+', ' ', 'g')) AS name
+  FROM public.transactions WHERE payee IS NOT NULL AND btrim(payee) <> ''
+  UNION ALL
+  SELECT user_id, btrim(regexp_replace(payee, '\s+', ' ', 'g')) FROM public.presets WHERE payee IS NOT NULL AND btrim(payee) <> ''
+  UNION ALL
+  SELECT user_id, btrim(regexp_replace(payee, '\s+', ' ', 'g')) FROM public.recurring_transactions WHERE payee IS NOT NULL AND btrim(payee) <> ''
+), ranked AS (
+  SELECT user_id, name, lower(name) AS normalized_name, count(*) AS uses
+  FROM spellings
+  WHERE length(name) <= 200
+  GROUP BY user_id, name
+)
+INSERT INTO public.payees (user_id, name, normalized_name)
+SELECT DISTINCT ON (user_id, normalized_name) user_id, name, normalized_name
+FROM ranked
+ORDER BY user_id, normalized_name, uses DESC, name
+ON CONFLICT (user_id, normalized_name) DO NOTHING;
+
+-- Linking is bookkeeping, not an edit: keep versions and updated_at so offline edits don't turn into conflicts
+ALTER TABLE public.transactions DISABLE TRIGGER bump_version;
+ALTER TABLE public.transactions DISABLE TRIGGER set_timestamp;
+UPDATE public.transactions t SET payee_id = p.id
+FROM public.payees p
+WHERE t.payee_id IS NULL AND p.user_id = t.user_id
+  AND p.normalized_name = lower(btrim(regexp_replace(t.payee, '\s+', ' ', 'g')));
+ALTER TABLE public.transactions ENABLE TRIGGER set_timestamp;
+ALTER TABLE public.transactions ENABLE TRIGGER bump_version;
+
+UPDATE public.presets r SET payee_id = p.id
+FROM public.payees p
+WHERE r.payee_id IS NULL AND p.user_id = r.user_id
+  AND p.normalized_name = lower(btrim(regexp_replace(r.payee, '\s+', ' ', 'g')));
+UPDATE public.recurring_transactions r SET payee_id = p.id
+FROM public.payees p
+WHERE r.payee_id IS NULL AND p.user_id = r.user_id
+  AND p.normalized_name = lower(btrim(regexp_replace(r.payee, '\s+', ' ', 'g')));
+
+COMMIT;
@@ -0,0 +1,22 @@
+BEGIN;
+
+-- One row per client-generated idempotency key, so a replayed /api/sync/push operation returns the stored outcome
+-- instead of being applied again. status is 'processing' while the operation runs and 'completed' once result holds
+-- its final outcome; request_hash detects a key being reused for a different operation.
+CREATE TABLE IF NOT EXISTS public.sync_operations (
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE ON UPDATE CASCADE,
+  idempotency_key text NOT NULL CHECK (char_length(idempotency_key) BETWEEN 8 AND 200),
+  operation text NOT NULL,
+  request_hash text NOT NULL,
+  status text NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'completed')),
+  result jsonb,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, idempotency_key)
+);
+CREATE INDEX IF NOT EXISTS idx_sync_operations_user_created_at
+  ON public.sync_operations(user_id, created_at);
+DROP TRIGGER IF EXISTS set_timestamp ON public.sync_operations;
+CREATE TRIGGER set_timestamp BEFORE UPDATE ON public.sync_operations FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+
+COMMIT;
@@ -0,0 +1,50 @@
+BEGIN;
+
+-- Deleted-row tracking for /api/sync/pull: every delete of a synced entity leaves a tombstone so offline copies can
+-- drop the row. Rows are pruned by the pull endpoint once they are older than its retention window.
+CREATE TABLE IF NOT EXISTS public.sync_tombstones (
+  id bigserial PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE ON UPDATE CASCADE,
+  entity text NOT NULL CHECK (entity IN ('transactions', 'categories', 'tags', 'presets', 'recurring_transactions', 'category_budgets', 'overall_budgets')),
+  entity_id uuid NOT NULL,
+  deleted_at timestamptz NOT NULL DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS idx_sync_tombstones_user_deleted_at
+  ON public.sync_tombstones(user_id, deleted_at);
+
+CREATE OR REPLACE FUNCTION public.record_sync_tombstone()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  INSERT INTO public.sync_tombstones (user_id, entity, entity_id)
+  VALUES (OLD.user_id, TG_TABLE_NAME, OLD.id);
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_sync_tombstone ON public.transactions;
+CREATE TRIGGER record_sync_tombstone AFTER DELETE ON public.transactions FOR EACH ROW EXECUTE FUNCTION public.record_sync_tombstone();
+DROP TRIGGER IF EXISTS record_sync_tombstone ON public.categories;
+CREATE TRIGGER record_sync_tombstone AFTER DELETE ON public.categories FOR EACH ROW EXECUTE FUNCTION public.record_sync_tombstone();
+DROP TRIGGER IF EXISTS record_sync_tombstone ON public.tags;
+CREATE TRIGGER record_sync_tombstone AFTER DELETE ON public.tags FOR EACH ROW EXECUTE FUNCTION public.record_sync_tombstone();
+DROP TRIGGER IF EXISTS record_sync_tombstone ON public.presets;
+CREATE TRIGGER record_sync_tombstone AFTER DELETE ON public.presets FOR EACH ROW EXECUTE FUNCTION public.record_sync_tombstone();
+DROP TRIGGER IF EXISTS record_sync_tombstone ON public.recurring_transactions;
+CREATE TRIGGER record_sync_tombstone AFTER DELETE ON public.recurring_transactions FOR EACH ROW EXECUTE FUNCTION public.record_sync_tombstone();
+DROP TRIGGER IF EXISTS record_sync_tombstone ON public.category_budgets;
+CREATE TRIGGER record_sync_tombstone AFTER DELETE ON public.category_budgets FOR EACH ROW EXECUTE FUNCTION public.record_sync_tombstone();
+DROP TRIGGER IF EXISTS record_sync_tombstone ON public.overall_budgets;
+CREATE TRIGGER record_sync_tombstone AFTER DELETE ON public.overall_budgets FOR EACH ROW EXECUTE FUNCTION public.record_sync_tombstone();
+
+-- Delta reads: changed rows per user ordered by updated_at
+CREATE INDEX IF NOT EXISTS idx_transactions_user_updated_at ON public.transactions(user_id, updated_at, id);
+CREATE INDEX IF NOT EXISTS idx_categories_user_updated_at ON public.categories(user_id, updated_at);
+CREATE INDEX IF NOT EXISTS idx_tags_user_updated_at ON public.tags(user_id, updated_at);
+CREATE INDEX IF NOT EXISTS idx_presets_user_updated_at ON public.presets(user_id, updated_at);
+CREATE INDEX IF NOT EXISTS idx_recurring_transactions_user_updated_at ON public.recurring_transactions(user_id, updated_at);
+CREATE INDEX IF NOT EXISTS idx_category_budgets_user_updated_at ON public.category_budgets(user_id, updated_at);
+CREATE INDEX IF NOT EXISTS idx_overall_budgets_user_updated_at ON public.overall_budgets(user_id, updated_at);
+
+COMMIT;
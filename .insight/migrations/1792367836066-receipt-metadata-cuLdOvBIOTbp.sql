@@ -0,0 +1,13 @@
+BEGIN;
+
+-- Metadata for /api/transactions/[id]/receipts: the validated size and original file name, and the storage path of the
+-- server-generated thumbnail (NULL for PDFs and files that could not be thumbnailed).
+ALTER TABLE public.transaction_receipts
+  ADD COLUMN IF NOT EXISTS size_bytes bigint CHECK (size_bytes IS NULL OR size_bytes >= 0),
+  ADD COLUMN IF NOT EXISTS file_name text,
+  ADD COLUMN IF NOT EXISTS thumbnail_url text;
+
+CREATE INDEX IF NOT EXISTS idx_transaction_receipts_tx_created_at
+  ON public.transaction_receipts(transaction_id, created_at DESC);
+
+COMMIT;
@@ -0,0 +1,8 @@
+BEGIN;
+
+-- Amount (minor units of the primary currency) at or above which an expense should have a receipt attached.
+-- NULL turns the "missing receipts" view off. Used by /transactions/receipts for expense claims.
+ALTER TABLE public.user_settings
+  ADD COLUMN IF NOT EXISTS receipt_threshold bigint CHECK (receipt_threshold IS NULL OR receipt_threshold >= 0);
+
+COMMIT;
@@ -0,0 +1,63 @@
+BEGIN;
+
+-- Subcategories ("식비 > 카페"). A parent with children cannot be deleted until they are moved or removed.
+ALTER TABLE public.categories
+  ADD COLUMN IF NOT EXISTS parent_id uuid REFERENCES public.categories(id) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+ALTER TABLE public.categories
+  DROP CONSTRAINT IF EXISTS categories_parent_not_self;
+ALTER TABLE public.categories
+  ADD CONSTRAINT categories_parent_not_self CHECK (parent_id IS NULL OR parent_id <> id);
+
+CREATE INDEX IF NOT EXISTS idx_categories_parent_id
+  ON public.categories(parent_id);
+
+-- Keeps trees within one user, acyclic and at most 3 levels deep (MAX_CATEGORY_LEVELS in @/utils/category-tree).
+-- Runs on insert and whenever parent_id changes, so moving a subtree also counts the levels below it.
+CREATE OR REPLACE FUNCTION check_category_parent()
+RETURNS TRIGGER AS $$
+DECLARE
+  max_levels CONSTANT int := 3;
+  parent_user uuid;
+  levels_above int;
+  levels_below int;
+  is_cycle boolean;
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT user_id INTO parent_user FROM public.categories WHERE id = NEW.parent_id;
+  IF parent_user IS NULL OR parent_user <> NEW.user_id THEN
+    RAISE EXCEPTION 'Parent category not found' USING ERRCODE = 'foreign_key_violation';
+  END IF;
+
+  WITH RECURSIVE up AS (
+    SELECT id, parent_id, 1 AS lvl FROM public.categories WHERE id = NEW.parent_id
+    UNION ALL
+    SELECT c.id, c.parent_id, up.lvl + 1 FROM public.categories c JOIN up ON c.id = up.parent_id WHERE up.lvl <= max_levels
+  )
+  SELECT max(lvl), bool_or(id = NEW.id) INTO levels_above, is_cycle FROM up;
+  IF is_cycle THEN
+    RAISE EXCEPTION 'A category cannot be moved under its own subcategory' USING ERRCODE = 'check_violation';
+  END IF;
+
+  WITH RECURSIVE down AS (
+    SELECT NEW.id AS id, 1 AS lvl
+    UNION ALL
+    SELECT c.id, down.lvl + 1 FROM public.categories c JOIN down ON c.parent_id = down.id WHERE down.lvl <= max_levels
+  )
+  SELECT max(lvl) INTO levels_below FROM down;
+
+  IF levels_above + levels_below > max_levels THEN
+    RAISE EXCEPTION 'Categories can be nested at most % levels deep', max_levels USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS check_parent ON public.categories;
+CREATE TRIGGER check_parent BEFORE INSERT OR UPDATE OF parent_id ON public.categories
+  FOR EACH ROW EXECUTE FUNCTION check_category_parent();
+
+COMMIT;
@@ -0,0 +1,17 @@
+BEGIN;
+
+-- Archived categories and tags drop out of pickers but keep their rows, so history, reports and exports still name them.
+-- NULL means active.
+ALTER TABLE public.categories
+  ADD COLUMN IF NOT EXISTS archived_at timestamptz;
+
+ALTER TABLE public.tags
+  ADD COLUMN IF NOT EXISTS archived_at timestamptz;
+
+-- Pickers list only the active ones
+CREATE INDEX IF NOT EXISTS idx_categories_user_active
+  ON public.categories(user_id) WHERE archived_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_tags_user_active
+  ON public.tags(user_id) WHERE archived_at IS NULL;
+
+COMMIT;
@@ -0,0 +1,39 @@
+BEGIN;
+
+-- Computed fields for /api/transactions/search, so tag: and category: tokens filter inside the transactions query
+-- (?search_tag_ids=cs.{…}) instead of shipping every matching transaction id back in the URL.
+-- Tags count whether they sit on the transaction or on any of its split lines.
+CREATE OR REPLACE FUNCTION public.search_tag_ids(t public.transactions)
+RETURNS uuid[]
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT coalesce(array_agg(DISTINCT tag_id), '{}')
+  FROM (
+    SELECT tt.tag_id FROM public.transaction_tags tt WHERE tt.transaction_id = t.id
+    UNION
+    SELECT st.tag_id
+    FROM public.transaction_split_tags st
+    JOIN public.transaction_splits s ON s.id = st.split_id
+    WHERE s.transaction_id = t.id
+  ) links;
+$$;
+
+-- A split transaction is filed under its lines' categories; any other under its own category_id
+CREATE OR REPLACE FUNCTION public.search_category_ids(t public.transactions)
+RETURNS uuid[]
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE
+    WHEN t.has_splits THEN (
+      SELECT coalesce(array_agg(DISTINCT s.category_id), '{}')
+      FROM public.transaction_splits s
+      WHERE s.transaction_id = t.id AND s.category_id IS NOT NULL
+    )
+    WHEN t.category_id IS NOT NULL THEN ARRAY[t.category_id]
+    ELSE '{}'::uuid[]
+  END;
+$$;
+
+COMMIT;
@@ -0,0 +1,187 @@
+BEGIN;
+
+-- Transactions can opt out of the version bump for the rest of the current database transaction. Used by bookkeeping
+-- rewrites (re-denominating amounts) that must not turn pending offline edits into conflicts; updated_at still moves
+-- so /api/sync/pull hands out the new amounts.
+CREATE OR REPLACE FUNCTION bump_transaction_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_setting('tris.keep_versions', true) = 'on' THEN
+    NEW.version = OLD.version;
+  ELSE
+    NEW.version = OLD.version + 1;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Minor-unit precision per currency_code; mirrors currencyDecimals in @/utils/currency
+CREATE OR REPLACE FUNCTION public.currency_decimals(code text)
+RETURNS int
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE WHEN code IN ('KRW', 'JPY', 'VND') THEN 0 ELSE 2 END;
+$$;
+
+-- rate = units of to_code per one unit of from_code; mirrors convertMinorUnits in @/utils/currency
+CREATE OR REPLACE FUNCTION public.convert_minor_units(amount bigint, from_code text, to_code text, rate numeric)
+RETURNS bigint
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN from_code = to_code THEN amount
+    ELSE round(amount::numeric / 10 ^ public.currency_decimals(from_code) * rate * 10 ^ public.currency_decimals(to_code))::bigint
+  END;
+$$;
+
+-- Latest user rate converting from_code into to_code on or before on_date, trying the inverse pair; NULL when neither
+-- exists. Mirrors lookupExchangeRate in @/utils/currency.
+CREATE OR REPLACE FUNCTION public.exchange_rate_on(p_user_id uuid, from_code text, to_code text, on_date date)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE
+    WHEN from_code = to_code THEN 1::numeric
+    ELSE coalesce(
+      (SELECT r.rate FROM public.exchange_rates r
+        WHERE r.user_id = p_user_id AND r.base_currency::text = from_code AND r.quote_currency::text = to_code
+          AND r.effective_on <= on_date
+        ORDER BY r.effective_on DESC LIMIT 1),
+      (SELECT 1 / r.rate FROM public.exchange_rates r
+        WHERE r.user_id = p_user_id AND r.base_currency::text = to_code AND r.quote_currency::text = from_code
+          AND r.effective_on <= on_date
+        ORDER BY r.effective_on DESC LIMIT 1)
+    )
+  END;
+$$;
+
+-- Earliest user rate for the pair or its inverse, whatever its date; NULL when the user has never entered one
+CREATE OR REPLACE FUNCTION public.earliest_exchange_rate(p_user_id uuid, from_code text, to_code text)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT x.rate FROM (
+    SELECT r.rate, r.effective_on FROM public.exchange_rates r
+    WHERE r.user_id = p_user_id AND r.base_currency::text = from_code AND r.quote_currency::text = to_code
+    UNION ALL
+    SELECT 1 / r.rate, r.effective_on FROM public.exchange_rates r
+    WHERE r.user_id = p_user_id AND r.base_currency::text = to_code AND r.quote_currency::text = from_code
+  ) x
+  ORDER BY x.effective_on
+  LIMIT 1;
+$$;
+
+-- Switches the signed-in user's primary currency in one transaction. Transactions are re-converted from original_amount
+-- at the rate on their date (split lines scaled to match, the last line absorbing rounding); budgets, account opening
+-- balances, preset and recurring amounts and the receipt threshold are converted from the old primary currency at
+-- today's rate. A date older than the pair's first rate uses that first rate. Nothing changes when a pair has no rate
+-- at all: the result lists each such pair with the earliest date that needs it, oldest first, instead.
+CREATE OR REPLACE FUNCTION public.change_primary_currency(p_currency public.currency_code)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  uid uuid := auth.uid();
+  old_currency text;
+  next_currency text := p_currency::text;
+  today_rate numeric;
+  missing text[];
+  converted int;
+BEGIN
+  IF uid IS NULL THEN
+    RAISE EXCEPTION 'Unauthorized' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT coalesce((SELECT primary_currency::text FROM public.user_settings WHERE user_id = uid), 'KRW') INTO old_currency;
+  today_rate := coalesce(
+    public.exchange_rate_on(uid, old_currency, next_currency, current_date),
+    public.earliest_exchange_rate(uid, old_currency, next_currency)
+  );
+
+  CREATE TEMP TABLE currency_plan ON COMMIT DROP AS
+  SELECT t.id,
+         t.amount AS old_amount,
+         t.has_splits,
+         coalesce(
+           public.exchange_rate_on(uid, t.currency::text, next_currency, (t.occurred_at AT TIME ZONE 'UTC')::date),
+           public.earliest_exchange_rate(uid, t.currency::text, next_currency)
+         ) AS rate,
+         t.currency::text AS currency,
+         (t.occurred_at AT TIME ZONE 'UTC')::date AS on_date,
+         NULL::bigint AS amount
+  FROM public.transactions t
+  WHERE t.user_id = uid;
+
+  SELECT array_agg(format('%s→%s (needed from %s)', currency, next_currency, first_date) ORDER BY first_date, currency)
+  INTO missing
+  FROM (
+    SELECT currency, min(on_date) AS first_date
+    FROM (
+      SELECT currency, on_date FROM currency_plan WHERE rate IS NULL
+      UNION ALL
+      SELECT old_currency, current_date WHERE today_rate IS NULL
+    ) m
+    GROUP BY currency
+  ) firsts;
+  IF missing IS NOT NULL THEN
+    RETURN jsonb_build_object('ok', false, 'converted', 0, 'missing', to_jsonb(missing));
+  END IF;
+
+  UPDATE currency_plan p
+  SET amount = public.convert_minor_units(coalesce(t.original_amount, t.amount), p.currency, next_currency, p.rate)
+  FROM public.transactions t
+  WHERE t.id = p.id;
+
+  PERFORM set_config('tris.keep_versions', 'on', true);
+
+  UPDATE public.transactions t
+  SET amount = p.amount, exchange_rate = p.rate
+  FROM currency_plan p
+  WHERE t.id = p.id;
+
+  WITH lines AS (
+    SELECT s.id, s.transaction_id, p.amount AS parent_amount,
+           row_number() OVER (PARTITION BY s.transaction_id ORDER BY s.position DESC, s.id DESC) AS from_last,
+           CASE WHEN p.old_amount > 0 THEN round(s.amount::numeric * p.amount / p.old_amount)::bigint ELSE 0 END AS scaled
+    FROM public.transaction_splits s
+    JOIN currency_plan p ON p.id = s.transaction_id AND p.has_splits
+  ), fitted AS (
+    SELECT id,
+           CASE WHEN from_last = 1
+             THEN greatest(0, parent_amount - (sum(scaled) OVER (PARTITION BY transaction_id) - scaled))
+             ELSE scaled
+           END AS amount
+    FROM lines
+  )
+  UPDATE public.transaction_splits s SET amount = f.amount FROM fitted f WHERE s.id = f.id;
+
+  PERFORM set_config('tris.keep_versions', 'off', true);
+
+  UPDATE public.category_budgets SET amount = public.convert_minor_units(amount, old_currency, next_currency, today_rate)
+  WHERE user_id = uid;
+  UPDATE public.overall_budgets SET amount = public.convert_minor_units(amount, old_currency, next_currency, today_rate)
+  WHERE user_id = uid;
+  UPDATE public.accounts SET opening_balance = public.convert_minor_units(opening_balance, old_currency, next_currency, today_rate)
+  WHERE user_id = uid;
+  UPDATE public.presets SET amount = public.convert_minor_units(amount, old_currency, next_currency, today_rate)
+  WHERE user_id = uid AND amount IS NOT NULL;
+  UPDATE public.recurring_transactions SET amount = public.convert_minor_units(amount, old_currency, next_currency, today_rate)
+  WHERE user_id = uid;
+
+  SELECT count(*) INTO converted FROM currency_plan;
+
+  INSERT INTO public.user_settings (user_id, primary_currency)
+  VALUES (uid, p_currency)
+  ON CONFLICT (user_id) DO UPDATE
+  SET primary_currency = EXCLUDED.primary_currency,
+      receipt_threshold = public.convert_minor_units(public.user_settings.receipt_threshold, old_currency, next_currency, today_rate);
+
+  RETURN jsonb_build_object('ok', true, 'converted', converted, 'missing', '[]'::jsonb);
+END;
+$$;
+
+COMMIT;
@@ -0,0 +1,127 @@
+BEGIN;
+
+-- Transaction writes as single database transactions: the row, its tag links and its split lines (with their tags)
+-- either all land or none do. Names arrive normalized (normalizeTagName in @/utils/transactions); missing tags are
+-- created. NULL for p_tag_names or p_splits leaves that part as it is, an empty array clears it.
+
+CREATE OR REPLACE FUNCTION public.write_transaction_lines(p_transaction_id uuid, p_tag_names text[], p_splits jsonb)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  uid uuid := auth.uid();
+  line jsonb;
+  line_no int;
+  new_split_id uuid;
+  names text[];
+BEGIN
+  names := coalesce(p_tag_names, '{}') || coalesce(
+    (SELECT array_agg(n) FROM jsonb_array_elements(coalesce(p_splits, '[]')) l, jsonb_array_elements_text(coalesce(l->'tag_names', '[]')) n),
+    '{}'
+  );
+  INSERT INTO public.tags (user_id, name)
+  SELECT DISTINCT uid, n FROM unnest(names) n
+  ON CONFLICT (user_id, name) DO NOTHING;
+
+  IF p_tag_names IS NOT NULL THEN
+    DELETE FROM public.transaction_tags WHERE transaction_id = p_transaction_id;
+    INSERT INTO public.transaction_tags (transaction_id, tag_id)
+    SELECT p_transaction_id, t.id FROM public.tags t WHERE t.user_id = uid AND t.name = ANY(p_tag_names);
+  END IF;
+
+  IF p_splits IS NOT NULL THEN
+    DELETE FROM public.transaction_splits WHERE transaction_id = p_transaction_id;
+    FOR line, line_no IN SELECT l, (o - 1)::int FROM jsonb_array_elements(p_splits) WITH ORDINALITY AS s(l, o) LOOP
+      INSERT INTO public.transaction_splits (transaction_id, user_id, amount, category_id, notes, position)
+      VALUES (p_transaction_id, uid, (line->>'amount')::bigint, (line->>'category_id')::uuid, line->>'notes', line_no)
+      RETURNING id INTO new_split_id;
+      INSERT INTO public.transaction_split_tags (split_id, tag_id)
+      SELECT new_split_id, t.id FROM public.tags t
+      WHERE t.user_id = uid AND t.name IN (SELECT jsonb_array_elements_text(coalesce(line->'tag_names', '[]')));
+    END LOOP;
+  END IF;
+
+  -- The API checks this up front too; here it also holds against a concurrent amount change
+  IF EXISTS (
+    SELECT 1 FROM public.transactions t
+    WHERE t.id = p_transaction_id AND t.has_splits
+      AND t.amount <> (SELECT coalesce(sum(s.amount), 0) FROM public.transaction_splits s WHERE s.transaction_id = t.id)
+  ) THEN
+    RAISE EXCEPTION 'split lines must sum to the transaction amount' USING ERRCODE = 'check_violation';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_transaction(p_row jsonb, p_tag_names text[], p_splits jsonb)
+RETURNS public.transactions
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  r public.transactions := jsonb_populate_record(NULL::public.transactions, p_row);
+  created public.transactions;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Unauthorized' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  INSERT INTO public.transactions (
+    user_id, kind, amount, currency, original_amount, exchange_rate, occurred_at, category_id, account_id,
+    transfer_account_id, payee, payee_id, payment_method, notes, has_splits
+  )
+  VALUES (
+    auth.uid(), r.kind, r.amount, r.currency, r.original_amount, r.exchange_rate, r.occurred_at, r.category_id, r.account_id,
+    r.transfer_account_id, r.payee, r.payee_id, r.payment_method, r.notes, coalesce(r.has_splits, false)
+  )
+  RETURNING * INTO created;
+
+  PERFORM public.write_transaction_lines(created.id, p_tag_names, p_splits);
+  RETURN created;
+END;
+$$;
+
+-- Applies the columns present in p_changes (always touching the row, so tag- or split-only edits advance the version)
+-- when p_expected_version is NULL or still current. Returns NULL when the row is missing or the version moved on.
+CREATE OR REPLACE FUNCTION public.update_transaction(
+  p_id uuid,
+  p_expected_version bigint,
+  p_changes jsonb,
+  p_tag_names text[],
+  p_splits jsonb
+)
+RETURNS public.transactions
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  r public.transactions := jsonb_populate_record(NULL::public.transactions, p_changes);
+  updated public.transactions;
+BEGIN
+  UPDATE public.transactions t SET
+    kind = CASE WHEN p_changes ? 'kind' THEN r.kind ELSE t.kind END,
+    amount = CASE WHEN p_changes ? 'amount' THEN r.amount ELSE t.amount END,
+    currency = CASE WHEN p_changes ? 'currency' THEN r.currency ELSE t.currency END,
+    original_amount = CASE WHEN p_changes ? 'original_amount' THEN r.original_amount ELSE t.original_amount END,
+    exchange_rate = CASE WHEN p_changes ? 'exchange_rate' THEN r.exchange_rate ELSE t.exchange_rate END,
+    occurred_at = CASE WHEN p_changes ? 'occurred_at' THEN r.occurred_at ELSE t.occurred_at END,
+    category_id = CASE WHEN p_changes ? 'category_id' THEN r.category_id ELSE t.category_id END,
+    account_id = CASE WHEN p_changes ? 'account_id' THEN r.account_id ELSE t.account_id END,
+    transfer_account_id = CASE WHEN p_changes ? 'transfer_account_id' THEN r.transfer_account_id ELSE t.transfer_account_id END,
+    payee = CASE WHEN p_changes ? 'payee' THEN r.payee ELSE t.payee END,
+    payee_id = CASE WHEN p_changes ? 'payee_id' THEN r.payee_id ELSE t.payee_id END,
+    payment_method = CASE WHEN p_changes ? 'payment_method' THEN r.payment_method ELSE t.payment_method END,
+    notes = CASE WHEN p_changes ? 'notes' THEN r.notes ELSE t.notes END,
+    has_splits = CASE WHEN p_changes ? 'has_splits' THEN r.has_splits ELSE t.has_splits END
+  WHERE t.id = p_id
+    AND t.user_id = auth.uid()
+    AND (p_expected_version IS NULL OR t.version = p_expected_version)
+  RETURNING t.* INTO updated;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM public.write_transaction_lines(p_id, p_tag_names, p_splits);
+  RETURN updated;
+END;
+$$;
+
+COMMIT;
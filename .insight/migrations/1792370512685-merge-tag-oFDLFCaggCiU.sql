@@ -0,0 +1,68 @@
+BEGIN;
+
+-- Tag merge as one database transaction: every link to the source tag (transactions, split lines, presets, payee
+-- defaults) is re-created on the target, skipping owners that already carry it so no (owner, tag) key collides, then
+-- the source tag is deleted and its old links cascade away. Transactions and presets whose tags changed are touched so
+-- the next sync pull re-sends their tag names. Returns the counts the dry run in @/utils/tag-merge reports.
+
+CREATE OR REPLACE FUNCTION public.merge_tag(p_source uuid, p_target uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  uid uuid := auth.uid();
+  counts jsonb;
+BEGIN
+  IF (SELECT count(*) FROM public.tags WHERE user_id = uid AND id IN (p_source, p_target)) <> 2 OR p_source = p_target THEN
+    RAISE EXCEPTION 'both tags must exist and differ' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  SELECT jsonb_build_object(
+    'transactions', (SELECT count(*) FROM public.transaction_tags WHERE tag_id = p_source),
+    'split_lines', (SELECT count(*) FROM public.transaction_split_tags WHERE tag_id = p_source),
+    'presets', (SELECT count(*) FROM public.preset_tags WHERE tag_id = p_source),
+    'payee_defaults', (SELECT count(*) FROM public.payee_tags WHERE tag_id = p_source),
+    'already_tagged',
+      (SELECT count(*) FROM public.transaction_tags s JOIN public.transaction_tags t USING (transaction_id)
+        WHERE s.tag_id = p_source AND t.tag_id = p_target)
+      + (SELECT count(*) FROM public.transaction_split_tags s JOIN public.transaction_split_tags t USING (split_id)
+        WHERE s.tag_id = p_source AND t.tag_id = p_target)
+      + (SELECT count(*) FROM public.preset_tags s JOIN public.preset_tags t USING (preset_id)
+        WHERE s.tag_id = p_source AND t.tag_id = p_target)
+      + (SELECT count(*) FROM public.payee_tags s JOIN public.payee_tags t USING (payee_id)
+        WHERE s.tag_id = p_source AND t.tag_id = p_target)
+  ) INTO counts;
+
+  INSERT INTO public.transaction_tags (transaction_id, tag_id)
+  SELECT transaction_id, p_target FROM public.transaction_tags WHERE tag_id = p_source
+  ON CONFLICT DO NOTHING;
+  INSERT INTO public.transaction_split_tags (split_id, tag_id)
+  SELECT split_id, p_target FROM public.transaction_split_tags WHERE tag_id = p_source
+  ON CONFLICT DO NOTHING;
+  INSERT INTO public.preset_tags (preset_id, tag_id)
+  SELECT preset_id, p_target FROM public.preset_tags WHERE tag_id = p_source
+  ON CONFLICT DO NOTHING;
+  INSERT INTO public.payee_tags (payee_id, tag_id)
+  SELECT payee_id, p_target FROM public.payee_tags WHERE tag_id = p_source
+  ON CONFLICT DO NOTHING;
+
+  -- Transactions sync with their split lines and tag names, so every one whose tags changed rides the next pull. Only
+  -- the tag's identity changed, so their versions stay and pending offline edits of them do not turn into conflicts.
+  PERFORM set_config('tris.keep_versions', 'on', true);
+  UPDATE public.transactions SET updated_at = now()
+  WHERE user_id = uid AND id IN (
+    SELECT transaction_id FROM public.transaction_tags WHERE tag_id = p_source
+    UNION
+    SELECT s.transaction_id FROM public.transaction_splits s JOIN public.transaction_split_tags l ON l.split_id = s.id
+    WHERE l.tag_id = p_source
+  );
+  PERFORM set_config('tris.keep_versions', 'off', true);
+  UPDATE public.presets SET updated_at = now()
+  WHERE user_id = uid AND id IN (SELECT preset_id FROM public.preset_tags WHERE tag_id = p_source);
+
+  DELETE FROM public.tags WHERE user_id = uid AND id = p_source;
+  RETURN counts;
+END;
+$$;
+
+COMMIT;
@@ -0,0 +1,154 @@
+BEGIN;
+
+-- Transaction writes made by /api/sync/push carry the operation's idempotency key, and its sync_operations claim is
+-- completed inside the same database transaction as the write. A request that dies after the write therefore leaves a
+-- completed claim to replay rather than a stale one that would apply the operation again, and a second request that
+-- took over the claim waits on its row lock and gets the first one's outcome instead of writing twice.
+
+-- Locks the caller's claim on p_key and returns its stored result when it is already completed, otherwise NULL
+CREATE OR REPLACE FUNCTION public.lock_sync_operation(p_key text)
+RETURNS jsonb
+LANGUAGE sql
+AS $$
+  SELECT CASE WHEN o.status = 'completed' THEN o.result END
+  FROM public.sync_operations o
+  WHERE o.user_id = auth.uid() AND o.idempotency_key = p_key
+  FOR UPDATE;
+$$;
+
+-- Stores an applied outcome on the caller's claim; the shape matches OperationResult in @/utils/sync-operations
+CREATE OR REPLACE FUNCTION public.complete_sync_operation(p_key text, p_type text, p_id uuid, p_version bigint)
+RETURNS void
+LANGUAGE sql
+AS $$
+  UPDATE public.sync_operations
+  SET status = 'completed',
+      result = jsonb_build_object(
+        'idempotency_key', p_key, 'type', p_type, 'status', 'applied', 'replayed', false, 'id', p_id, 'version', p_version
+      )
+  WHERE user_id = auth.uid() AND idempotency_key = p_key;
+$$;
+
+DROP FUNCTION IF EXISTS public.create_transaction(jsonb, text[], jsonb);
+CREATE OR REPLACE FUNCTION public.create_transaction(p_row jsonb, p_tag_names text[], p_splits jsonb, p_idempotency_key text DEFAULT NULL)
+RETURNS public.transactions
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  r public.transactions := jsonb_populate_record(NULL::public.transactions, p_row);
+  created public.transactions;
+  prior jsonb;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Unauthorized' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_idempotency_key IS NOT NULL THEN
+    prior := public.lock_sync_operation(p_idempotency_key);
+    IF prior IS NOT NULL THEN
+      SELECT * INTO created FROM public.transactions t WHERE t.id = (prior->>'id')::uuid AND t.user_id = auth.uid();
+      RETURN created;
+    END IF;
+  END IF;
+
+  INSERT INTO public.transactions (
+    user_id, kind, amount, currency, original_amount, exchange_rate, occurred_at, category_id, account_id,
+    transfer_account_id, payee, payee_id, payment_method, notes, has_splits
+  )
+  VALUES (
+    auth.uid(), r.kind, r.amount, r.currency, r.original_amount, r.exchange_rate, r.occurred_at, r.category_id, r.account_id,
+    r.transfer_account_id, r.payee, r.payee_id, r.payment_method, r.notes, coalesce(r.has_splits, false)
+  )
+  RETURNING * INTO created;
+
+  PERFORM public.write_transaction_lines(created.id, p_tag_names, p_splits);
+  IF p_idempotency_key IS NOT NULL THEN
+    PERFORM public.complete_sync_operation(p_idempotency_key, 'CREATE_TRANSACTION', created.id, created.version);
+  END IF;
+  RETURN created;
+END;
+$$;
+
+-- Applies the columns present in p_changes (always touching the row, so tag- or split-only edits advance the version)
+-- when p_expected_version is NULL or still current. Returns NULL when the row is missing or the version moved on, and
+-- the current row without writing when the push operation behind p_idempotency_key has already been applied.
+DROP FUNCTION IF EXISTS public.update_transaction(uuid, bigint, jsonb, text[], jsonb);
+CREATE OR REPLACE FUNCTION public.update_transaction(
+  p_id uuid,
+  p_expected_version bigint,
+  p_changes jsonb,
+  p_tag_names text[],
+  p_splits jsonb,
+  p_idempotency_key text DEFAULT NULL
+)
+RETURNS public.transactions
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  r public.transactions := jsonb_populate_record(NULL::public.transactions, p_changes);
+  updated public.transactions;
+BEGIN
+  IF p_idempotency_key IS NOT NULL AND public.lock_sync_operation(p_idempotency_key) IS NOT NULL THEN
+    SELECT * INTO updated FROM public.transactions t WHERE t.id = p_id AND t.user_id = auth.uid();
+    RETURN updated;
+  END IF;
+
+  UPDATE public.transactions t SET
+    kind = CASE WHEN p_changes ? 'kind' THEN r.kind ELSE t.kind END,
+    amount = CASE WHEN p_changes ? 'amount' THEN r.amount ELSE t.amount END,
+    currency = CASE WHEN p_changes ? 'currency' THEN r.currency ELSE t.currency END,
+    original_amount = CASE WHEN p_changes ? 'original_amount' THEN r.original_amount ELSE t.original_amount END,
+    exchange_rate = CASE WHEN p_changes ? 'exchange_rate' THEN r.exchange_rate ELSE t.exchange_rate END,
+    occurred_at = CASE WHEN p_changes ? 'occurred_at' THEN r.occurred_at ELSE t.occurred_at END,
+    category_id = CASE WHEN p_changes ? 'category_id' THEN r.category_id ELSE t.category_id END,
+    account_id = CASE WHEN p_changes ? 'account_id' THEN r.account_id ELSE t.account_id END,
+    transfer_account_id = CASE WHEN p_changes ? 'transfer_account_id' THEN r.transfer_account_id ELSE t.transfer_account_id END,
+    payee = CASE WHEN p_changes ? 'payee' THEN r.payee ELSE t.payee END,
+    payee_id = CASE WHEN p_changes ? 'payee_id' THEN r.payee_id ELSE t.payee_id END,
+    payment_method = CASE WHEN p_changes ? 'payment_method' THEN r.payment_method ELSE t.payment_method END,
+    notes = CASE WHEN p_changes ? 'notes' THEN r.notes ELSE t.notes END,
+    has_splits = CASE WHEN p_changes ? 'has_splits' THEN r.has_splits ELSE t.has_splits END
+  WHERE t.id = p_id
+    AND t.user_id = auth.uid()
+    AND (p_expected_version IS NULL OR t.version = p_expected_version)
+  RETURNING t.* INTO updated;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM public.write_transaction_lines(p_id, p_tag_names, p_splits);
+  IF p_idempotency_key IS NOT NULL THEN
+    PERFORM public.complete_sync_operation(p_idempotency_key, 'UPDATE_TRANSACTION', p_id, updated.version);
+  END IF;
+  RETURN updated;
+END;
+$$;
+
+-- Deletes the row when p_expected_version is NULL or still current (tags, splits and receipts cascade) and returns its
+-- id; NULL when the row is missing or the version moved on. An already-applied push operation returns p_id again.
+CREATE OR REPLACE FUNCTION public.delete_transaction(p_id uuid, p_expected_version bigint, p_idempotency_key text DEFAULT NULL)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  deleted uuid;
+BEGIN
+  IF p_idempotency_key IS NOT NULL AND public.lock_sync_operation(p_idempotency_key) IS NOT NULL THEN
+    RETURN p_id;
+  END IF;
+
+  DELETE FROM public.transactions t
+  WHERE t.id = p_id
+    AND t.user_id = auth.uid()
+    AND (p_expected_version IS NULL OR t.version = p_expected_version)
+  RETURNING t.id INTO deleted;
+
+  IF deleted IS NOT NULL AND p_idempotency_key IS NOT NULL THEN
+    PERFORM public.complete_sync_operation(p_idempotency_key, 'DELETE_TRANSACTION', deleted, NULL);
+  END IF;
+  RETURN deleted;
+END;
+$$;
+
+COMMIT;
@@ -0,0 +1,76 @@
+BEGIN;
+
+-- Category merge as one database transaction: transactions, split lines, presets, recurring rules, payee default
+-- categories and subcategories move from the source to the target, budgets are combined per month (amounts added, the
+-- target's alert threshold kept) or re-pointed, and the source is deleted. The parent trigger still refuses a cycle or
+-- a tree that would end up too deep, rolling the whole merge back. category_merge_counts() is also the dry run.
+
+CREATE OR REPLACE FUNCTION public.category_merge_counts(p_source uuid, p_target uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT jsonb_build_object(
+    'transactions', (SELECT count(*) FROM public.transactions WHERE user_id = auth.uid() AND category_id = p_source),
+    'split_lines', (SELECT count(*) FROM public.transaction_splits WHERE user_id = auth.uid() AND category_id = p_source),
+    'presets', (SELECT count(*) FROM public.presets WHERE user_id = auth.uid() AND category_id = p_source),
+    'recurring', (SELECT count(*) FROM public.recurring_transactions WHERE user_id = auth.uid() AND category_id = p_source),
+    'budgets_moved',
+      (SELECT count(*) FROM public.category_budgets s
+        WHERE s.user_id = auth.uid() AND s.category_id = p_source
+          AND NOT EXISTS (SELECT 1 FROM public.category_budgets t
+            WHERE t.user_id = s.user_id AND t.category_id = p_target AND t.period_start = s.period_start)),
+    'budgets_combined',
+      (SELECT count(*) FROM public.category_budgets s
+        WHERE s.user_id = auth.uid() AND s.category_id = p_source
+          AND EXISTS (SELECT 1 FROM public.category_budgets t
+            WHERE t.user_id = s.user_id AND t.category_id = p_target AND t.period_start = s.period_start)),
+    'payee_defaults', (SELECT count(*) FROM public.payees WHERE user_id = auth.uid() AND default_category_id = p_source),
+    'subcategories', (SELECT count(*) FROM public.categories WHERE user_id = auth.uid() AND parent_id = p_source)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.merge_category(p_source uuid, p_target uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  uid uuid := auth.uid();
+  counts jsonb;
+BEGIN
+  IF (SELECT count(*) FROM public.categories WHERE user_id = uid AND id IN (p_source, p_target)) <> 2 OR p_source = p_target THEN
+    RAISE EXCEPTION 'both categories must exist and differ' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  counts := public.category_merge_counts(p_source, p_target);
+
+  UPDATE public.category_budgets t SET amount = t.amount + s.amount
+  FROM public.category_budgets s
+  WHERE t.user_id = uid AND t.category_id = p_target
+    AND s.user_id = uid AND s.category_id = p_source AND s.period_start = t.period_start;
+  DELETE FROM public.category_budgets s
+  WHERE s.user_id = uid AND s.category_id = p_source
+    AND EXISTS (SELECT 1 FROM public.category_budgets t
+      WHERE t.user_id = uid AND t.category_id = p_target AND t.period_start = s.period_start);
+  UPDATE public.category_budgets SET category_id = p_target WHERE user_id = uid AND category_id = p_source;
+
+  -- Split lines sync with their transaction, so the parents are touched to ride the next pull; their own fields are
+  -- unchanged, so the touch keeps their versions and pending offline edits of them stay clean
+  PERFORM set_config('tris.keep_versions', 'on', true);
+  UPDATE public.transactions SET updated_at = now()
+  WHERE user_id = uid AND id IN (SELECT transaction_id FROM public.transaction_splits WHERE user_id = uid AND category_id = p_source);
+  PERFORM set_config('tris.keep_versions', 'off', true);
+  UPDATE public.transaction_splits SET category_id = p_target WHERE user_id = uid AND category_id = p_source;
+
+  UPDATE public.transactions SET category_id = p_target WHERE user_id = uid AND category_id = p_source;
+  UPDATE public.presets SET category_id = p_target WHERE user_id = uid AND category_id = p_source;
+  UPDATE public.recurring_transactions SET category_id = p_target WHERE user_id = uid AND category_id = p_source;
+  UPDATE public.payees SET default_category_id = p_target WHERE user_id = uid AND default_category_id = p_source;
+  UPDATE public.categories SET parent_id = p_target WHERE user_id = uid AND parent_id = p_source;
+
+  DELETE FROM public.categories WHERE user_id = uid AND id = p_source;
+  RETURN counts;
+END;
+$$;
+
+COMMIT;
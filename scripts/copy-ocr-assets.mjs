@@ -0,0 +1,29 @@
+// Copies the receipt OCR engine into public/ocr so it is served from this origin instead of a CDN (see
+// src/utils/receipt-ocr.ts): the tesseract.js worker, the LSTM-only wasm cores it picks from by SIMD support, and the
+// Korean/English language data. public/ocr is generated, so it is not committed; this runs after install and before build.
+import { cpSync, mkdirSync, readdirSync, rmSync } from 'node:fs'
+import { createRequire } from 'node:module'
+import { dirname, join } from 'node:path'
+import { fileURLToPath } from 'node:url'
+
+const require = createRequire(import.meta.url)
+const root = join(dirname(fileURLToPath(import.meta.url)), '..')
+const out = join(root, 'public', 'ocr')
+const packageDir = (name) => dirname(require.resolve(`${name}/package.json`))
+
+rmSync(out, { recursive: true, force: true })
+mkdirSync(join(out, 'core'), { recursive: true })
+mkdirSync(join(out, 'lang'), { recursive: true })
+
+cpSync(join(packageDir('tesseract.js'), 'dist', 'worker.min.js'), join(out, 'worker.min.js'))
+
+// The core tesseract.js itself depends on, wherever the package manager put it
+const core = dirname(createRequire(require.resolve('tesseract.js/package.json')).resolve('tesseract.js-core/package.json'))
+for (const file of readdirSync(core).filter((f) => /^tesseract-core.*-lstm\.wasm\.js$/.test(f))) {
+  cpSync(join(core, file), join(out, 'core', file))
+}
+
+for (const lang of ['kor', 'eng']) {
+  const file = `${lang}.traineddata.gz`
+  cpSync(join(packageDir(`@tesseract.js-data/${lang}`), '4.0.0_best_int', file), join(out, 'lang', file))
+}
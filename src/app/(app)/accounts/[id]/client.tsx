@@ -0,0 +1,147 @@
+'use client'
+
+/**
+ * CODE INSIGHT
+ * This client component renders one account with its current balance and a running-balance ledger (newest first).
+ * Pages are fetched via SWR infinite from /api/accounts/[id] and followed with "Load more"; each entry carries its signed
+ * delta and the balance right after it, in the primary currency the API reports as balance_currency.
+ * UI is mobile-first with a summary card, tabular numbers, and accessible loading/error states.
+ */
+
+import useSWRInfinite from 'swr/infinite'
+import Link from 'next/link'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { Skeleton } from '@/components/ui/skeleton'
+import { cn } from '@/utils/utils'
+import { formatMoney } from '@/utils/currency'
+
+type LedgerEntry = {
+  id: string
+  kind: 'expense' | 'income' | 'refund' | 'transfer'
+  occurred_at: string
+  payee: string | null
+  payment_method: string
+  category_name: string | null
+  delta: number
+  balance: number
+}
+
+type AccountDetail = {
+  id: string
+  name: string
+  type: string
+  currency: string
+  opening_balance: number
+  balance: number
+  balance_currency: string
+  entries: LedgerEntry[]
+  entry_count: number
+  nextCursor: string | null
+}
+
+const fetcher = async (url: string) => {
+  const res = await fetch(url, { cache: 'no-store' })
+  if (!res.ok) throw new Error(`Request failed: ${res.status}`)
+  return (await res.json()) as AccountDetail
+}
+
+const PAGE_SIZE = 50
+
+function formatDate(iso: string) {
+  try {
+    return new Intl.DateTimeFormat('ko-KR', { month: 'short', day: 'numeric' }).format(new Date(iso))
+  } catch {
+    return iso
+  }
+}
+
+export default function Client({ id }: { id: string }) {
+  const getKey = (pageIndex: number, previous: AccountDetail | null) => {
+    if (previous && previous.nextCursor === null) return null
+    const params = new URLSearchParams({ limit: String(PAGE_SIZE) })
+    if (pageIndex > 0 && previous?.nextCursor) params.set('cursor', previous.nextCursor)
+    return `/api/accounts/${id}?${params.toString()}`
+  }
+  const { data: pages, error, isLoading, isValidating, setSize } = useSWRInfinite<AccountDetail>(getKey, fetcher, {
+    revalidateOnFocus: false,
+  })
+  const data = pages?.[0]
+  const entries = pages ? pages.flatMap((p) => p.entries) : []
+  const hasMore = !!pages && pages[pages.length - 1]?.nextCursor !== null
+  const isLoadingMore = isValidating && !!pages
+
+  if (error) {
+    return (
+      <Alert className="border-destructive/30">
+        <AlertTitle>We couldn’t load this account</AlertTitle>
+        <AlertDescription>Please check your connection and try again.</AlertDescription>
+      </Alert>
+    )
+  }
+
+  if (isLoading || !data) {
+    return (
+      <div className="space-y-3" aria-hidden>
+        <Skeleton className="h-20 w-full rounded-2xl" />
+        <Skeleton className="h-10 w-full" />
+        <Skeleton className="h-10 w-full" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="rounded-2xl border border-border bg-card p-4">
+        <div className="text-sm text-muted-foreground">{data.name}</div>
+        <div className={cn('mt-1 text-2xl font-semibold tabular-nums', data.balance < 0 && 'text-destructive')}>
+          {formatMoney(data.balance, data.balance_currency)}
+        </div>
+        <div className="mt-1 text-xs text-muted-foreground">
+          Opening balance {formatMoney(data.opening_balance, data.balance_currency)} · {data.entry_count} transactions
+        </div>
+      </div>
+
+      {entries.length === 0 ? (
+        <div className="rounded-2xl border border-dashed border-border p-6 text-center bg-card text-sm text-muted-foreground">
+          No transactions are assigned to this account yet.
+        </div>
+      ) : (
+        <ul role="list" className="divide-y divide-border rounded-2xl border border-border bg-card">
+          {entries.map((e) => (
+            <li key={e.id} className="flex items-center justify-between gap-3 px-4 py-3">
+              <div className="min-w-0">
+                <Link href={`/transactions/${e.id}`} className="block text-sm font-medium truncate hover:underline">
+                  {e.payee || 'Untitled'}
+                </Link>
+                <div className="mt-0.5 text-xs text-muted-foreground">
+                  {formatDate(e.occurred_at)}
+                  {e.category_name ? ` · ${e.category_name}` : ''}
+                  {e.kind !== 'expense' ? ` · ${e.kind}` : ''}
+                </div>
+              </div>
+              <div className="text-right">
+                <div className={cn('text-sm font-semibold tabular-nums', e.delta > 0 && 'text-emerald-600')}>
+                  {e.delta > 0 ? '+' : ''}
+                  {formatMoney(e.delta, data.balance_currency)}
+                </div>
+                <div className="text-xs text-muted-foreground tabular-nums">{formatMoney(e.balance, data.balance_currency)}</div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {hasMore && (
+        <div className="flex items-center justify-center">
+          <button
+            onClick={() => setSize((s) => s + 1)}
+            disabled={isLoadingMore}
+            className="inline-flex items-center rounded-lg border border-border bg-background px-4 py-2 text-sm hover:bg-accent hover:text-accent-foreground transition disabled:opacity-50"
+          >
+            {isLoadingMore ? 'Loading…' : 'Load more'}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,22 @@
+/**
+ * CODE INSIGHT
+ * This code's use case is the Account Detail page that reads the :id param and mounts a client component showing the account's running-balance ledger.
+ * This code's full epic context is the Accounts flow where /api/accounts/[id] walks the account's transactions from its opening balance.
+ * This code's ui feel is clean and calm with a card header and a dense, tabular ledger.
+ */
+
+import Link from 'next/link'
+import Client from './client'
+
+export default async function Page({ params }: { params: { id: string } }) {
+  return (
+    <section className="mx-auto w-full max-w-2xl p-4 sm:p-6">
+      <div className="mb-4 flex items-center gap-3 text-sm text-muted-foreground">
+        <Link href="/accounts" className="inline-flex items-center rounded-md px-2 py-1 transition-colors hover:bg-muted" aria-label="Back to accounts">
+          ← Back
+        </Link>
+      </div>
+      <Client id={params.id} />
+    </section>
+  )
+}
@@ -0,0 +1,8 @@
+/**
+ * CODE INSIGHT
+ * Server actions are not required for the accounts pages. All interactions are handled via client-side fetches to /api/accounts.
+ * This file intentionally exports no actions to keep the surface minimal.
+ */
+'use server'
+
+export {}
@@ -0,0 +1,190 @@
+'use client'
+
+/**
+ * CODE INSIGHT
+ * This client component lists the user's accounts with their current balance and offers an inline form to add an account.
+ * Data is fetched via SWR from /api/accounts; creating an account POSTs and revalidates the list.
+ * Balances come back in the primary currency (balance_currency). UI is mobile-first with card rows and accessible
+ * loading/empty/error states.
+ */
+
+import { useState } from 'react'
+import useSWR from 'swr'
+import Link from 'next/link'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { Skeleton } from '@/components/ui/skeleton'
+import { cn } from '@/utils/utils'
+import { formatMoney } from '@/utils/currency'
+import type { AccountType } from '@/utils/accounts'
+
+type Account = {
+  id: string
+  name: string
+  type: AccountType
+  currency: string
+  opening_balance: number
+  balance: number
+  balance_currency: string
+}
+
+const ACCOUNT_TYPES: { value: AccountType; label: string }[] = [
+  { value: 'checking', label: 'Checking' },
+  { value: 'savings', label: 'Savings' },
+  { value: 'credit_card', label: 'Credit card' },
+  { value: 'cash', label: 'Cash' },
+  { value: 'e_wallet', label: 'E-wallet' },
+  { value: 'other', label: 'Other' },
+]
+
+const fetcher = async (url: string) => {
+  const res = await fetch(url, { cache: 'no-store' })
+  if (!res.ok) throw new Error(`Request failed: ${res.status}`)
+  return (await res.json()) as Account[]
+}
+
+function parseSignedInt(input: string): number {
+  const negative = input.trim().startsWith('-')
+  const digits = input.replace(/[^0-9]/g, '')
+  if (!digits) return 0
+  const n = Number(digits)
+  return Number.isFinite(n) ? (negative ? -n : n) : 0
+}
+
+export default function Client() {
+  const { data, error, isLoading, mutate } = useSWR<Account[]>('/api/accounts', fetcher, { revalidateOnFocus: false })
+  const [name, setName] = useState('')
+  const [type, setType] = useState<AccountType>('checking')
+  const [opening, setOpening] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [formError, setFormError] = useState<string | null>(null)
+
+  async function handleCreate(e: React.FormEvent) {
+    e.preventDefault()
+    setFormError(null)
+    if (!name.trim()) {
+      setFormError('Please enter a name.')
+      return
+    }
+    setSaving(true)
+    try {
+      const res = await fetch('/api/accounts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: name.trim(), type, currency: 'KRW', opening_balance: parseSignedInt(opening) }),
+      })
+      if (!res.ok) {
+        const body = await res.json().catch(() => null)
+        throw new Error(body?.error || 'Could not create the account.')
+      }
+      setName('')
+      setOpening('')
+      await mutate()
+    } catch (err: any) {
+      setFormError(err?.message || 'Could not create the account.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const accounts = data ?? []
+  const total = accounts.reduce((sum, a) => sum + (a.balance || 0), 0)
+  const balanceCurrency = accounts[0]?.balance_currency ?? 'KRW'
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <Alert className="border-destructive/30">
+          <AlertTitle>We couldn’t load your accounts</AlertTitle>
+          <AlertDescription>Please check your connection and try again.</AlertDescription>
+        </Alert>
+      )}
+
+      {isLoading && (
+        <div className="space-y-2" aria-hidden>
+          {Array.from({ length: 3 }).map((_, i) => (
+            <div key={i} className="rounded-xl border border-border bg-card p-3">
+              <Skeleton className="h-4 w-1/3" />
+              <Skeleton className="mt-2 h-3 w-20" />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {!isLoading && !error && accounts.length === 0 && (
+        <div className="rounded-2xl border border-dashed border-border p-6 text-center bg-card">
+          <h2 className="text-lg font-medium">No accounts yet</h2>
+          <p className="text-sm text-muted-foreground mt-1">Add a card or bank account to track balances separately.</p>
+        </div>
+      )}
+
+      {accounts.length > 0 && (
+        <>
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-muted-foreground">Net across accounts</span>
+            <span className={cn('font-semibold tabular-nums', total < 0 && 'text-destructive')}>{formatMoney(total, balanceCurrency)}</span>
+          </div>
+          <ul role="list" className="space-y-2">
+            {accounts.map((a) => (
+              <li key={a.id} className="rounded-xl border border-border bg-card p-3">
+                <Link href={`/accounts/${a.id}`} className="flex items-center justify-between gap-3" prefetch>
+                  <div className="min-w-0">
+                    <div className="text-sm font-medium truncate">{a.name}</div>
+                    <div className="mt-1 text-xs text-muted-foreground">
+                      {ACCOUNT_TYPES.find((t) => t.value === a.type)?.label ?? a.type} · {a.currency}
+                    </div>
+                  </div>
+                  <div className={cn('text-sm font-semibold tabular-nums', a.balance < 0 && 'text-destructive')}>
+                    {formatMoney(a.balance, a.balance_currency)}
+                  </div>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      <form onSubmit={handleCreate} className="rounded-2xl border border-border bg-card p-4 space-y-3">
+        <h2 className="text-sm font-semibold">Add account</h2>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <input
+            aria-label="Account name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g., Shinhan card"
+            className="w-full rounded-lg border border-input bg-background px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-primary"
+          />
+          <select
+            aria-label="Account type"
+            value={type}
+            onChange={(e) => setType(e.target.value as AccountType)}
+            className="w-full rounded-lg border border-input bg-background px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-primary"
+          >
+            {ACCOUNT_TYPES.map((t) => (
+              <option key={t.value} value={t.value}>
+                {t.label}
+              </option>
+            ))}
+          </select>
+          <input
+            aria-label="Opening balance"
+            inputMode="numeric"
+            value={opening}
+            onChange={(e) => setOpening(e.target.value.replace(/[^0-9-]/g, ''))}
+            placeholder="Opening balance (₩)"
+            className="w-full rounded-lg border border-input bg-background px-3 py-2 text-sm text-right outline-none focus:ring-2 focus:ring-primary"
+          />
+        </div>
+        {formError && <p className="text-sm text-destructive">{formError}</p>}
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={saving}
+            className="inline-flex items-center rounded-lg bg-primary px-4 py-2 text-sm font-medium text-primary-foreground hover:opacity-90 transition disabled:opacity-60"
+          >
+            {saving ? 'Saving…' : 'Add account'}
+          </button>
+        </div>
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,22 @@
+/**
+ * CODE INSIGHT
+ * This code's use case is the Accounts page shell that renders server-side and mounts a client component listing the user's accounts with current balances and a create form.
+ * This code's full epic context is the Accounts flow, where transactions and recurring rules are assigned to user-defined accounts fetched from /api/accounts.
+ * This code's ui feel is clean, calm, and mobile-first with card rows and KRW formatting.
+ */
+
+import Client from './client'
+
+export default async function Page() {
+  return (
+    <section className="w-full">
+      <div className="px-4 sm:px-6 lg:px-8 py-4 sm:py-6">
+        <div className="mb-2 sm:mb-4">
+          <h1 className="text-xl sm:text-2xl font-semibold tracking-tight">Accounts</h1>
+          <p className="text-sm text-muted-foreground mt-1">Cards, bank accounts and wallets with their running balances.</p>
+        </div>
+        <Client />
+      </div>
+    </section>
+  )
+}
@@ -6,6 +6,7 @@ import Link from 'next/link'
 import { useRouter } from 'next/navigation'
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
 import { Skeleton } from '@/components/ui/skeleton'
+import { readOffline } from '@/utils/offline-store'
 import { acknowledgeBudgetAlert } from './action'
 
 type BudgetStatus = 'ok' | 'approaching' | 'exceeded' | 'no_budget'
@@ -23,9 +24,14 @@ type OverallSummary = {
 type CategorySummary = {
   category_id: string
   name: string
+  category_name?: string
+  parent_id?: string | null
+  depth?: number
   is_favorite?: boolean
   budget_amount: number | null
+  // Includes subcategories; own_spent is the category alone
   spent: number
+  own_spent?: number
   remaining: number | null
   percent: number | null
   threshold_pct: number | null
@@ -40,7 +46,15 @@ type SummaryResponse = {
 }
 
 const fetcher = async (url: string) => {
-  const res = await fetch(url, { cache: 'no-store' })
+  let res: Response
+  try {
+    res = await fetch(url, { cache: 'no-store' })
+  } catch (e) {
+    // Offline: compute the summary from the locally synced budgets and transactions
+    const local = await readOffline(url)
+    if (local) return local as SummaryResponse
+    throw e
+  }
   if (!res.ok) {
     const text = await res.text().catch(() => '')
     throw new Error(text || 'Failed to load')
@@ -405,16 +419,22 @@ export default function BudgetsMonthClient({ month }: { month: string }) {
                       .sort((a, b) => Number(Boolean(b.is_favorite)) - Number(Boolean(a.is_favorite)))
                       .map((c) => {
                         const colors = getStatusColors(c.status)
+                        const parent = c.parent_id ? data.categories.find((p) => p.category_id === c.parent_id) : undefined
+                        const hasChildren = data.categories.some((k) => k.parent_id === c.category_id)
                         return (
                           <div key={c.category_id} className="rounded-lg border border-border p-3 hover:shadow-sm transition bg-card">
                             <div className="flex items-start justify-between gap-2 mb-2">
                               <div className="min-w-0">
                                 <div className="flex items-center gap-2">
-                                  <span className="font-medium truncate">{c.name}</span>
+                                  <span className="font-medium truncate">
+                                    {parent && <span className="text-muted-foreground font-normal">{parent.category_name ?? parent.name} › </span>}
+                                    {c.category_name ?? c.name}
+                                  </span>
                                   <StatusBadge status={c.status} />
                                 </div>
                                 <div className="text-xs text-muted-foreground mt-0.5">
                                   {c.budget_amount ? `예산 ${formatKRW(c.budget_amount)}` : '예산 미설정'}
+                                  {hasChildren && ' · 하위 카테고리 포함'}
                                 </div>
                               </div>
                               <div className="flex items-center gap-1">
@@ -14,6 +14,7 @@ import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
 import { Skeleton } from '@/components/ui/skeleton'
 import { Separator } from '@/components/ui/separator'
 import { cn } from '@/utils/utils'
+import { buildCategoryTree, flattenCategoryTree } from '@/utils/category-tree'
 import { putBudgets, deleteBudgets } from './action'
 
 type UUID = string
@@ -22,6 +23,7 @@ type Category = {
   id: UUID
   name: string
   is_favorite?: boolean
+  parent_id?: UUID | null
 }
 
 type BudgetRow = {
@@ -78,6 +80,17 @@ export default function ClientEditor({ month }: EditorProps) {
     return Array.isArray(categoriesData) ? categoriesData : categoriesData.categories ?? []
   }, [categoriesData])
 
+  // Parents are listed with their subcategories indented below; a parent's budget covers its subcategories' spend too
+  const categoryTree = useMemo(
+    () =>
+      flattenCategoryTree(
+        buildCategoryTree(
+          categories.slice().sort((a, b) => Number(b.is_favorite) - Number(a.is_favorite) || a.name.localeCompare(b.name)),
+        ),
+      ),
+    [categories],
+  )
+
   const parsedBudgets: BudgetRow[] = useMemo(() => {
     if (!budgetsData) return []
     if (Array.isArray(budgetsData)) return budgetsData
@@ -373,73 +386,78 @@ export default function ClientEditor({ month }: EditorProps) {
             </div>
           ) : (
             <div className="space-y-4">
-              {categories
-                .slice()
-                .sort((a, b) => Number(b.is_favorite) - Number(a.is_favorite) || a.name.localeCompare(b.name))
-                .map((cat) => {
-                  const key = cat.id
-                  const row = rows[key]
-                  const err = errors[key]
-                  return (
-                    <div key={key} className="grid grid-cols-1 items-start gap-3 rounded-lg border border-transparent bg-card/50 p-3 transition hover:border-border sm:grid-cols-7">
-                      <div className="sm:col-span-2">
-                        <div className="flex items-center gap-2">
-                          <span className={cn('inline-block h-2 w-2 rounded-full bg-primary/70', cat.is_favorite && 'bg-amber-500')} />
-                          <span className="text-sm font-medium">{cat.name}</span>
-                        </div>
-                        <p className="mt-1 text-xs text-muted-foreground">
-                          {row?.amount ? KRW.format(Number(row.amount)) : ''}
-                        </p>
+              {categoryTree.map((cat) => {
+                const key = cat.id
+                const row = rows[key]
+                const err = errors[key]
+                return (
+                  <div
+                    key={key}
+                    className="grid grid-cols-1 items-start gap-3 rounded-lg border border-transparent bg-card/50 p-3 transition hover:border-border sm:grid-cols-7"
+                    style={cat.depth > 0 ? { marginLeft: cat.depth * 16 } : undefined}
+                  >
+                    <div className="sm:col-span-2">
+                      <div className="flex items-center gap-2">
+                        <span className={cn('inline-block h-2 w-2 rounded-full bg-primary/70', cat.is_favorite && 'bg-amber-500')} />
+                        <span className="text-sm font-medium">
+                          {cat.depth > 0 && <span className="text-muted-foreground">└ </span>}
+                          {cat.name}
+                        </span>
                       </div>
-                      <div className="sm:col-span-3">
-                        <label className="mb-1 block text-xs text-muted-foreground">금액 (KRW)</label>
+                      {cat.children.length > 0 && <p className="mt-1 text-xs text-muted-foreground">하위 카테고리 지출 포함</p>}
+                      <p className="mt-1 text-xs text-muted-foreground">
+                        {row?.amount ? KRW.format(Number(row.amount)) : ''}
+                      </p>
+                    </div>
+                    <div className="sm:col-span-3">
+                      <label className="mb-1 block text-xs text-muted-foreground">금액 (KRW)</label>
+                      <input
+                        ref={(el) => (inputRefs.current[key] = el)}
+                        inputMode="numeric"
+                        pattern="[0-9]*"
+                        placeholder="0"
+                        value={row?.amount ?? ''}
+                        onChange={(e) => handleAmountChange(key, e.target.value)}
+                        className={cn(
+                          'h-11 w-full rounded-lg border border-input bg-background px-3 text-base outline-none ring-2 ring-transparent transition-shadow focus:ring-primary',
+                          err && 'border-destructive/60'
+                        )}
+                      />
+                      {err ? (
+                        <p className="mt-1 text-xs text-destructive">{err}</p>
+                      ) : (
+                        <p className="mt-1 text-xs text-muted-foreground">원 단위 (숫자만)</p>
+                      )}
+                    </div>
+                    <div className="sm:col-span-2">
+                      <label className="mb-1 block text-xs text-muted-foreground">임계치 (%)</label>
+                      <div className="flex items-center gap-3">
                         <input
-                          ref={(el) => (inputRefs.current[key] = el)}
-                          inputMode="numeric"
-                          pattern="[0-9]*"
-                          placeholder="0"
-                          value={row?.amount ?? ''}
-                          onChange={(e) => handleAmountChange(key, e.target.value)}
+                          type="range"
+                          min={50}
+                          max={100}
+                          step={1}
+                          value={row?.threshold ?? defaultThreshold}
+                          onChange={(e) => handleThresholdChange(key, Number(e.target.value))}
+                          className="w-full accent-primary"
+                        />
+                        <input
+                          type="number"
+                          min={50}
+                          max={100}
+                          step={1}
+                          value={row?.threshold ?? defaultThreshold}
+                          onChange={(e) => handleThresholdChange(key, Number(e.target.value))}
                           className={cn(
-                            'h-11 w-full rounded-lg border border-input bg-background px-3 text-base outline-none ring-2 ring-transparent transition-shadow focus:ring-primary',
+                            'h-11 w-20 rounded-lg border border-input bg-background px-3 text-base outline-none ring-2 ring-transparent transition-shadow focus:ring-primary',
                             err && 'border-destructive/60'
                           )}
                         />
-                        {err ? (
-                          <p className="mt-1 text-xs text-destructive">{err}</p>
-                        ) : (
-                          <p className="mt-1 text-xs text-muted-foreground">원 단위 (숫자만)</p>
-                        )}
-                      </div>
-                      <div className="sm:col-span-2">
-                        <label className="mb-1 block text-xs text-muted-foreground">임계치 (%)</label>
-                        <div className="flex items-center gap-3">
-                          <input
-                            type="range"
-                            min={50}
-                            max={100}
-                            step={1}
-                            value={row?.threshold ?? defaultThreshold}
-                            onChange={(e) => handleThresholdChange(key, Number(e.target.value))}
-                            className="w-full accent-primary"
-                          />
-                          <input
-                            type="number"
-                            min={50}
-                            max={100}
-                            step={1}
-                            value={row?.threshold ?? defaultThreshold}
-                            onChange={(e) => handleThresholdChange(key, Number(e.target.value))}
-                            className={cn(
-                              'h-11 w-20 rounded-lg border border-input bg-background px-3 text-base outline-none ring-2 ring-transparent transition-shadow focus:ring-primary',
-                              err && 'border-destructive/60'
-                            )}
-                          />
-                        </div>
                       </div>
                     </div>
-                  )
-                })}
+                  </div>
+                )
+              })}
             </div>
           )}
         </div>
@@ -2,7 +2,7 @@
 
 /**
  * CODE INSIGHT
- * This client component fetches demo summary and recent transactions using SWR, renders KPI cards, category chips, and a recent list with skeletons, error handling, and empty states.
+ * This client component fetches the demo summary and recent persisted transactions using SWR, renders KPI cards, category chips, and a recent list with skeletons, error handling, and empty states.
  * The component aligns with the PWA/mobile-first flow, provides deep links to Transactions and Reports, and shows a FAB to add a new transaction.
  */
 
@@ -20,7 +20,7 @@ type SummaryResponse = {
   currency?: string
 }
 
-type DemoTransaction = {
+type RecentTransaction = {
   id?: string
   amount?: number
   occurred_at?: string
@@ -31,7 +31,7 @@ type DemoTransaction = {
   payment_method?: string | null
 }
 
-type TransactionsResponse = { items?: DemoTransaction[]; nextCursor?: string } | DemoTransaction[]
+type TransactionsResponse = { items?: RecentTransaction[]; nextCursor?: string | null } | RecentTransaction[]
 
 const fetcher = async <T,>(url: string): Promise<T> => {
   const res = await fetch(url, { cache: 'no-store' })
@@ -71,9 +71,9 @@ export default function ClientHomeWidget() {
     error: txError,
     isLoading: isLoadingTx,
     mutate: refetchTx,
-  } = useSWR<TransactionsResponse>('/api/demo/transactions?limit=5', fetcher)
+  } = useSWR<TransactionsResponse>('/api/transactions?limit=5', fetcher)
 
-  const transactions: DemoTransaction[] = Array.isArray(txData) ? txData : txData?.items ?? []
+  const transactions: RecentTransaction[] = Array.isArray(txData) ? txData : txData?.items ?? []
   const totals = summary?.totals || { today: 0, week: 0, month: 0 }
   const hasAnyTotals = (totals.today || 0) > 0 || (totals.week || 0) > 0 || (totals.month || 0) > 0
   const hasAnyTx = transactions.length > 0
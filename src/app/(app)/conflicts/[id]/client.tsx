@@ -5,25 +5,27 @@
  * This code's use case is to load a specific conflict by id from IndexedDB, compare local (mine) vs server versions,
  * and allow the user to resolve via Keep Mine, Keep Server, or Merge per-field choices. It updates local stores and
  * re-enqueues sync operations to be processed by the global SyncProvider.
+ * Conflicts recorded by the SyncProvider's three-way merge list the overlapping fields; only those are shown, since every
+ * other field (and tags/receipts) was already merged onto the server row.
  * This code's ui feel is modern, minimal, focused and mobile-first with clear highlighting of differences.
  */
 
 import React, { useEffect, useMemo, useState } from 'react'
-import localforage from 'localforage'
 import { useRouter } from 'next/navigation'
 import { supabaseBrowser } from '@/utils/supabase/client-browser'
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
 import { Separator } from '@/components/ui/separator'
 import { Skeleton } from '@/components/ui/skeleton'
-
-// LocalForage store instances
-const conflictsDB = localforage.createInstance({ name: 'tris', storeName: 'conflicts' })
-const transactionsDB = localforage.createInstance({ name: 'tris', storeName: 'transactions' })
-const queueDB = localforage.createInstance({ name: 'tris', storeName: 'syncQueue' })
-const syncMetaDB = localforage.createInstance({ name: 'tris', storeName: 'syncMeta' })
+import {
+  conflictsStore as conflictsDB,
+  queueStore as queueDB,
+  syncMetaStore as syncMetaDB,
+  txStore as transactionsDB,
+} from '@/utils/local-db'
 
 // Types
 type TransactionPayload = {
+  kind?: string
   amount?: number | string
   occurred_at?: string
   category_id?: string | null
@@ -43,6 +45,9 @@ interface ConflictItem {
     version?: number | null
     updated_at?: string
   }
+  base?: Record<string, unknown>
+  // Set by the SyncProvider's three-way merge: only these fields overlap, everything else was merged already
+  fields?: string[]
   decided?: 'mine' | 'server' | 'merge'
 }
 
@@ -78,6 +83,7 @@ const formatDateTime = (v?: string) => {
 }
 
 const fieldLabels: Record<keyof Required<TransactionPayload>, string> = {
+  kind: 'Kind',
   amount: 'Amount',
   occurred_at: 'Date',
   category_id: 'Category',
@@ -87,6 +93,7 @@ const fieldLabels: Record<keyof Required<TransactionPayload>, string> = {
 }
 
 const pickFields: (keyof Required<TransactionPayload>)[] = [
+  'kind',
   'amount',
   'occurred_at',
   'category_id',
@@ -107,7 +114,7 @@ function shallowEqual(a: any, b: any) {
 }
 
 function useServerTransaction(remoteId: string | null) {
-  const [server, setServer] = useState<Required<TransactionPayload> & { updated_at?: string } | null>(null)
+  const [server, setServer] = useState<Required<TransactionPayload> & { updated_at?: string; version?: number | null } | null>(null)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
@@ -122,7 +129,7 @@ function useServerTransaction(remoteId: string | null) {
       setError(null)
       const { data, error } = await supabaseBrowser
         .from('transactions')
-        .select('id, amount, occurred_at, category_id, payee, payment_method, notes, updated_at')
+        .select('id, kind, amount, occurred_at, category_id, payee, payment_method, notes, version, updated_at')
         .eq('id', remoteId)
         .maybeSingle()
       if (!active) return
@@ -130,6 +137,7 @@ function useServerTransaction(remoteId: string | null) {
         setError(error.message || 'Failed to fetch from server')
       } else if (data) {
         setServer({
+          kind: (data.kind ?? 'expense') as string,
           amount: data.amount as unknown as number,
           occurred_at: data.occurred_at as string,
           category_id: (data.category_id ?? null) as string | null,
@@ -137,6 +145,7 @@ function useServerTransaction(remoteId: string | null) {
           payment_method: data.payment_method as string,
           notes: (data.notes ?? null) as string | null,
           updated_at: data.updated_at as string,
+          version: (data.version ?? null) as number | null,
         })
       }
       setLoading(false)
@@ -168,6 +177,7 @@ export default function Client({ conflictId }: { conflictId: string }) {
   const [localTx, setLocalTx] = useState<Required<TransactionPayload> | null>(null)
   const [mergeOpen, setMergeOpen] = useState(false)
   const [selection, setSelection] = useState<Record<keyof Required<TransactionPayload>, 'mine' | 'server'>>({
+    kind: 'mine',
     amount: 'mine',
     occurred_at: 'mine',
     category_id: 'mine',
@@ -197,6 +207,7 @@ export default function Client({ conflictId }: { conflictId: string }) {
         const local = (await transactionsDB.getItem(c.id)) as any
         if (local) {
           const mine: Required<TransactionPayload> = {
+            kind: (local.kind ?? 'expense') as any,
             amount: (local.amount ?? null) as any,
             occurred_at: (local.occurred_at ?? local.date ?? null) as any, // allow legacy 'date' field if exists
             category_id: (local.category_id ?? null) as any,
@@ -208,6 +219,7 @@ export default function Client({ conflictId }: { conflictId: string }) {
         } else {
           // Fallback: approximate mine by applying myChanges on top of serverVersion payload
           const approxMine: Required<TransactionPayload> = {
+            kind: (c.myChanges.payload.kind ?? c.serverVersion.payload.kind ?? 'expense') as any,
             amount: (c.myChanges.payload.amount ?? c.serverVersion.payload.amount ?? null) as any,
             occurred_at: (c.myChanges.payload.occurred_at ?? c.serverVersion.payload.occurred_at ?? null) as any,
             category_id: (c.myChanges.payload.category_id ?? c.serverVersion.payload.category_id ?? null) as any,
@@ -238,6 +250,11 @@ export default function Client({ conflictId }: { conflictId: string }) {
   const remoteId = useMemo(() => conflict?.id ?? null, [conflict])
   const { server, loading: serverLoading, error: serverError } = useServerTransaction(remoteId)
 
+  const visibleFields = useMemo(
+    () => (conflict?.fields?.length ? pickFields.filter((f) => conflict.fields!.includes(f)) : pickFields),
+    [conflict]
+  )
+
   const differences = useMemo(() => {
     const diffs: Record<string, boolean> = {}
     if (!localTx && !server) return diffs
@@ -371,9 +388,10 @@ export default function Client({ conflictId }: { conflictId: string }) {
     setActionError(null)
     try {
       const payload = { ...mergedPayload }
-      // Update local transaction and enqueue guarded update (baseVersion unknown here; let processor decide)
+      // The merge was built against the server snapshot, so guard the update with that snapshot's version
+      const mergedBase = server?.version ?? conflict.serverVersion.version ?? null
       await updateLocalTransaction(remoteId, payload, { pending: true, conflict: false })
-      await enqueueUpdate(remoteId, payload, null, false)
+      await enqueueUpdate(remoteId, payload, mergedBase, false)
       await removeConflictEntry(conflict.id)
       await triggerSync()
       router.replace('/queue')
@@ -456,9 +474,12 @@ export default function Client({ conflictId }: { conflictId: string }) {
         <>
           <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
             <div className="rounded-lg border bg-card p-4">
-              <SectionHeader title="My changes" subtitle="Your local version" />
+              <SectionHeader
+                title="My changes"
+                subtitle={conflict.fields?.length ? 'Only fields changed on both sides; the rest was merged automatically' : 'Your local version'}
+              />
               <div className="space-y-3">
-                {pickFields.map((f) => (
+                {visibleFields.map((f) => (
                   <div key={f} className={
                     'rounded-md p-3 transition-colors ' + (differences[f] ? 'bg-accent/40' : 'bg-muted/30')
                   }>
@@ -476,7 +497,7 @@ export default function Client({ conflictId }: { conflictId: string }) {
             <div className="rounded-lg border bg-card p-4">
               <SectionHeader title="Server version" subtitle="Current on server" />
               <div className="space-y-3">
-                {pickFields.map((f) => (
+                {visibleFields.map((f) => (
                   <div key={f} className={
                     'rounded-md p-3 transition-colors ' + (differences[f] ? 'bg-accent/40' : 'bg-muted/30')
                   }>
@@ -503,7 +524,7 @@ export default function Client({ conflictId }: { conflictId: string }) {
               <>
                 <Separator />
                 <div className="grid grid-cols-1 gap-3 p-4 sm:grid-cols-2">
-                  {pickFields.map((f) => (
+                  {visibleFields.map((f) => (
                     <div key={f} className="rounded-md border p-3">
                       <div className="mb-2 flex items-center justify-between">
                         <div className="text-xs font-medium text-muted-foreground">{fieldLabels[f]}</div>
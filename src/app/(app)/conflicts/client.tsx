@@ -11,15 +11,10 @@
 import React, { useCallback, useEffect, useMemo, useState, useTransition } from 'react'
 import Link from 'next/link'
 import { useRouter } from 'next/navigation'
-import localforage from 'localforage'
 import { Separator } from '@/components/ui/separator'
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
 import { Skeleton } from '@/components/ui/skeleton'
-
-// Local store instances
-const conflictsStore = localforage.createInstance({ name: 'tris', storeName: 'conflicts' })
-const queueStore = localforage.createInstance({ name: 'tris', storeName: 'syncQueue' })
-const transactionsStore = localforage.createInstance({ name: 'tris', storeName: 'transactions' })
+import { conflictsStore, queueStore, txStore as transactionsStore } from '@/utils/local-db'
 
 // Types for our local stores
 export type QueueItemType = 'CREATE_TRANSACTION' | 'UPDATE_TRANSACTION' | 'DELETE_TRANSACTION' | 'UPLOAD_RECEIPT'
@@ -4,6 +4,7 @@
  * This code's full epic context is to provide a consistent mobile-first header, persistent bottom tab navigation,
  * and a floating action button to add transactions, while remaining server-only as per project rules. It prepares
  * landmarks, skip link, and accessible structure so client pages can hydrate with SWR and other client logic.
+ * It also mounts the client-side SyncProvider, so the offline queue drains on every signed-in page.
  * This code's ui feel is calm, modern, and thumb-friendly with large touch targets, subtle elevation, and
  * accessible contrast using the design token classes.
  */
@@ -11,6 +12,7 @@
 import React from 'react'
 import Link from 'next/link'
 import { cn } from '@/utils/utils'
+import { SyncProvider } from '@/components/sync-provider'
 
 export default function AppLayout({ children }: { children: React.ReactNode }) {
   return (
@@ -62,7 +64,7 @@ export default function AppLayout({ children }: { children: React.ReactNode }) {
         tabIndex={-1}
         className="flex-1 mx-auto w-full max-w-screen-md px-3 sm:px-6 py-4 pb-28"
       >
-        {children}
+        <SyncProvider>{children}</SyncProvider>
       </main>
 
       {/* Floating Action Button */}
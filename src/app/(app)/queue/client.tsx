@@ -6,16 +6,18 @@
  * Pending, Failed, Conflicts, and Completed items with retry/remove/preview controls.
  * This code's full epic context is the Offline-first Sync feature processing create/update/delete transactions
  * and receipt uploads against Supabase, with a SyncProvider elsewhere coordinating actual processing.
+ * Receipt uploads run in resumable chunks; the SyncProvider mirrors the confirmed bytes onto the item (progress) and the
+ * card shows them as a progress bar, which also survives a reload while the upload is paused.
  * This code's ui feel is calm, reliable, and mobile-first with subtle motion, KRW-friendly, and clear status signals.
  */
 
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react'
-import localforage, { LocalForage } from 'localforage'
 import Link from 'next/link'
 import { useRouter } from 'next/navigation'
 import { cn } from '@/utils/utils'
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
 import { Separator } from '@/components/ui/separator'
+import { queueStore, receiptsStore, syncMetaStore, txStore } from '@/utils/local-db'
 
 // Types reflecting the sync queue model from the Epic
 
@@ -37,6 +39,7 @@ interface QueueItem {
   error?: string | null
   createdAt?: number
   updatedAt?: number
+  progress?: { uploaded: number; total: number }
 }
 
 interface SyncMetaState {
@@ -51,30 +54,10 @@ interface ReceiptBlobEntry {
   mime?: string
   size?: number
   transactionRef?: { localId?: string; remoteId?: string }
+  prepared?: boolean
 }
 
-const DB_NAME = 'tris'
-const STORES = {
-  queue: 'syncQueue',
-  receipts: 'receipts',
-  transactions: 'transactions',
-  syncMeta: 'syncMeta',
-  conflicts: 'conflicts',
-}
-
-function useLocalforageInstances() {
-  const instances = useMemo(() => {
-    const make = (storeName: string) => localforage.createInstance({ name: DB_NAME, storeName })
-    return {
-      queue: make(STORES.queue),
-      receipts: make(STORES.receipts),
-      transactions: make(STORES.transactions),
-      syncMeta: make(STORES.syncMeta),
-      conflicts: make(STORES.conflicts),
-    }
-  }, [])
-  return instances
-}
+const LOCAL = { queue: queueStore, receipts: receiptsStore, transactions: txStore, syncMeta: syncMetaStore }
 
 function formatTime(ts?: number | null) {
   if (!ts) return '-'
@@ -108,7 +91,7 @@ function entityLabel(t: QueueType) {
 }
 
 export default function QueueClient() {
-  const { queue, receipts, transactions, syncMeta } = useLocalforageInstances()
+  const { queue, receipts, transactions, syncMeta } = LOCAL
   const [items, setItems] = useState<QueueItem[] | null>(null)
   const [meta, setMeta] = useState<SyncMetaState>({ isOnline: typeof navigator !== 'undefined' ? navigator.onLine : true })
   const [previewUrl, setPreviewUrl] = useState<string | null>(null)
@@ -447,6 +430,7 @@ function QueueCard({ item, onRetry, onRemove, onPreview }: { item: QueueItem; on
           </div>
           <div className="text-sm font-medium truncate">ID: {truncateId(item.ref?.remoteId || item.ref?.localId)}</div>
           <div className="text-xs text-muted-foreground">Updated {formatTime(item.updatedAt)} • Created {formatTime(item.createdAt)}</div>
+          {isReceipt && item.progress && item.status !== 'done' ? <UploadProgress {...item.progress} /> : null}
           {item.error ? (
             <div className="text-xs text-red-600 dark:text-red-400 line-clamp-2">{item.error}</div>
           ) : null}
@@ -466,3 +450,30 @@ function QueueCard({ item, onRetry, onRemove, onPreview }: { item: QueueItem; on
     </div>
   )
 }
+
+function formatBytes(n: number) {
+  if (n < 1024) return `${n} B`
+  if (n < 1024 * 1024) return `${(n / 1024).toFixed(1)} KB`
+  return `${(n / (1024 * 1024)).toFixed(1)} MB`
+}
+
+function UploadProgress({ uploaded, total }: { uploaded: number; total: number }) {
+  const pct = total > 0 ? Math.min(100, Math.round((uploaded / total) * 100)) : 0
+  return (
+    <div className="flex flex-col gap-1 w-48 max-w-full">
+      <div
+        role="progressbar"
+        aria-label="Receipt upload"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={pct}
+        className="h-1.5 w-full overflow-hidden rounded-full bg-muted"
+      >
+        <div className="h-full rounded-full bg-primary transition-[width] duration-300" style={{ width: `${pct}%` }} />
+      </div>
+      <div className="text-xs text-muted-foreground tabular-nums">
+        {formatBytes(uploaded)} / {formatBytes(total)} ({pct}%)
+      </div>
+    </div>
+  )
+}
@@ -5,7 +5,8 @@
  * This client component powers the category breakdown report. It reads URL search params, fetches
  * aggregated spend by category from the API, renders a donut chart and legend with sorting, and
  * navigates to drilldown on chart/legend interactions. It also wires a Supabase Realtime
- * subscription on transactions to auto-invalidate the current dataset.
+ * subscription on transactions to auto-invalidate the current dataset. Without a network the same breakdown is
+ * computed from the locally synced transactions (@/utils/offline-store).
  */
 
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react'
@@ -16,6 +17,7 @@ import { supabaseBrowser } from '@/utils/supabase/client-browser'
 import { cn } from '@/utils/utils'
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
 import { Skeleton } from '@/components/ui/skeleton'
+import { readOffline } from '@/utils/offline-store'
 
 import {
   Chart as ChartJS,
@@ -31,6 +33,8 @@ interface CategoryDatum {
   id: string
   name: string
   amount: number
+  // Subcategories with spend; amount already includes them
+  children?: CategoryDatum[]
 }
 
 interface ApiCategoriesResponse {
@@ -39,13 +43,25 @@ interface ApiCategoriesResponse {
   total?: number
 }
 
-const fetcher = async (url: string): Promise<{ items: CategoryDatum[]; total: number }> => {
-  const res = await fetch(url, { cache: 'no-store' })
+const loadJson = async (url: string): Promise<ApiCategoriesResponse | CategoryDatum[]> => {
+  let res: Response
+  try {
+    res = await fetch(url, { cache: 'no-store' })
+  } catch (e) {
+    // Offline: aggregate the locally synced transactions instead
+    const local = await readOffline(url)
+    if (local) return local as CategoryDatum[]
+    throw e
+  }
   if (!res.ok) {
     const text = await res.text().catch(() => '')
     throw new Error(text || 'Failed to load categories')
   }
-  const json: ApiCategoriesResponse | CategoryDatum[] = await res.json()
+  return res.json()
+}
+
+const fetcher = async (url: string): Promise<{ items: CategoryDatum[]; total: number }> => {
+  const json = await loadJson(url)
 
   // Normalize possible shapes to { items, total }
   let items: CategoryDatum[] = []
@@ -58,11 +74,13 @@ const fetcher = async (url: string): Promise<{ items: CategoryDatum[]; total: nu
       const amount = Number(
         r.amount ?? r.total_amount ?? r.total ?? r.sum ?? r.value ?? 0
       )
-      return { id, name, amount }
+      const children = Array.isArray(r.children) ? tryNormalize(r.children).filter((c) => c.amount > 0) : []
+      return { id, name, amount, children }
     })
 
   if (Array.isArray(json)) {
-    items = tryNormalize(json)
+    // Income-only categories (and those fully offset by refunds) carry no spend to chart
+    items = tryNormalize(json).filter((it) => it.amount > 0)
   } else if (json) {
     if (Array.isArray(json.data)) items = tryNormalize(json.data)
     else if (Array.isArray(json.categories)) items = tryNormalize(json.categories)
@@ -352,14 +370,14 @@ export default function CategoriesClient() {
                   const pct = total > 0 ? Math.round((item.amount / total) * 100) : 0
                   const color = colorForId(item.id)
                   return (
-                    <li key={item.id} className="flex items-center gap-3 p-3">
+                    <li key={item.id} className="p-3">
                       <button
                         onClick={() => {
                           const next = new URLSearchParams(searchParams.toString())
                           next.set('categoryId', item.id)
                           router.push(`/reports/drilldown?${next.toString()}`)
                         }}
-                        className="group flex flex-1 items-center justify-between"
+                        className="group flex w-full items-center justify-between"
                         aria-label={`${item.name} 상세 보기`}
                       >
                         <div className="flex items-center gap-3">
@@ -379,6 +397,26 @@ export default function CategoriesClient() {
                           <div className="font-semibold">{KRW.format(item.amount)}</div>
                         </div>
                       </button>
+                      {item.children && item.children.length > 0 && (
+                        <ul className="mt-2 space-y-1 pl-6">
+                          {item.children.map((child) => (
+                            <li key={child.id}>
+                              <button
+                                onClick={() => {
+                                  const next = new URLSearchParams(searchParams.toString())
+                                  next.set('categoryId', child.id)
+                                  router.push(`/reports/drilldown?${next.toString()}`)
+                                }}
+                                className="flex w-full items-center justify-between text-sm text-muted-foreground hover:text-foreground hover:underline"
+                                aria-label={`${item.name} > ${child.name} 상세 보기`}
+                              >
+                                <span>└ {child.name}</span>
+                                <span>{KRW.format(child.amount)}</span>
+                              </button>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
                     </li>
                   )
                 })}
@@ -128,6 +128,8 @@ export default function Client() {
   const end = searchParams.get('end');
   const categoryIdParam = searchParams.get('categoryId');
   const method = searchParams.get('method');
+  const payeeId = searchParams.get('payeeId');
+  const payeeLabel = searchParams.get('payee');
   const orderBy = searchParams.get('orderBy') || 'date'; // 'date' | 'amount'
   const order = searchParams.get('order') || 'desc'; // 'asc' | 'desc'
   const tz = useTimezoneParam(searchParams.get('tz'));
@@ -145,6 +147,7 @@ export default function Client() {
     params.set('end', end);
     if (categoryIdParam) params.set('categoryId', categoryIdParam);
     if (method) params.set('method', method);
+    if (payeeId) params.set('payeeId', payeeId);
     if (orderBy) params.set('orderBy', orderBy);
     if (order) params.set('order', order);
     params.set('page', String(page));
@@ -235,6 +238,11 @@ export default function Client() {
   };
 
   const clearMethod = () => updateParams((p) => p.delete('method'));
+  const clearPayee = () =>
+    updateParams((p) => {
+      p.delete('payeeId');
+      p.delete('payee');
+    });
 
   const setSort = (by: 'date' | 'amount') => {
     updateParams((p) => {
@@ -294,6 +302,17 @@ export default function Client() {
               <svg className="h-4 w-4 text-muted-foreground group-hover:text-foreground" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18M6 6l12 12" /></svg>
             </button>
           )}
+          {payeeId && (
+            <button
+              onClick={clearPayee}
+              className="group inline-flex items-center gap-2 rounded-full border border-border bg-background px-3 py-1 text-sm text-foreground shadow-sm transition-colors hover:bg-muted"
+              aria-label="가맹점 필터 제거"
+            >
+              <span className="truncate max-w-[10rem]">{payeeLabel || '가맹점'}</span>
+              <span className="rounded-full bg-muted px-1.5 py-0.5 text-xs text-muted-foreground">가맹점</span>
+              <svg className="h-4 w-4 text-muted-foreground group-hover:text-foreground" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18M6 6l12 12" /></svg>
+            </button>
+          )}
         </div>
 
         <div className="flex items-center justify-between">
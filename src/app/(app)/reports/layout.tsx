@@ -183,7 +183,7 @@ export default async function ReportsLayout({
         </div>
 
         <div className="px-4 pb-3">
-          <nav className="grid grid-cols-3 gap-2" aria-label="Reports sections">
+          <nav className="grid grid-cols-4 gap-2" aria-label="Reports sections">
             <Link
               href="/reports/overview"
               className="inline-flex items-center justify-center rounded-full border px-3 py-2 text-sm hover:bg-accent hover:text-accent-foreground transition"
@@ -196,6 +196,12 @@ export default async function ReportsLayout({
             >
               Categories
             </Link>
+            <Link
+              href="/reports/payees"
+              className="inline-flex items-center justify-center rounded-full border px-3 py-2 text-sm hover:bg-accent hover:text-accent-foreground transition"
+            >
+              Payees
+            </Link>
             <Link
               href="/reports/trends"
               className="inline-flex items-center justify-center rounded-full border px-3 py-2 text-sm hover:bg-accent hover:text-accent-foreground transition"
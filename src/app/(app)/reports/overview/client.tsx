@@ -37,8 +37,9 @@ type Granularity = 'daily' | 'weekly' | 'monthly'
 
 type AggregatePoint = {
   bucket: string // ISO string or YYYY-MM-DD representing bucket start (in tz)
-  total: number
+  total: number // net spend: expenses minus refunds, transfers excluded
   count: number
+  income?: number
   // Optional fields if API provides explicit boundaries
   start?: string
   end?: string
@@ -205,6 +206,8 @@ function OverviewInner() {
   const primaryColor = 'rgba(37, 99, 235, 0.9)'
   const primaryHover = 'rgba(37, 99, 235, 1)'
   const datasetValues = points.map((p) => p.total)
+  const incomeValues = points.map((p) => p.income ?? 0)
+  const hasIncome = incomeValues.some((v) => v > 0)
 
   const chartData = {
     labels,
@@ -217,6 +220,18 @@ function OverviewInner() {
         hoverBackgroundColor: primaryHover,
         borderSkipped: false as const,
       },
+      ...(hasIncome
+        ? [
+            {
+              label: '수입 합계 (KRW)',
+              data: incomeValues,
+              backgroundColor: 'rgba(22, 163, 74, 0.85)',
+              borderRadius: 8,
+              hoverBackgroundColor: 'rgba(22, 163, 74, 1)',
+              borderSkipped: false as const,
+            },
+          ]
+        : []),
     ],
   }
 
@@ -227,7 +242,7 @@ function OverviewInner() {
     maintainAspectRatio: false,
     animation: { duration: 300, easing: 'easeOutQuart' },
     plugins: {
-      legend: { display: false },
+      legend: { display: hasIncome },
       tooltip: {
         callbacks: {
           label: (ctx: any) => `${formatKRW(ctx.parsed.y || 0)}`,
@@ -270,7 +285,7 @@ function OverviewInner() {
       // move to drilldown
       router.push(`/reports/drilldown?${params.toString()}`)
     },
-  }), [points, granularity, searchParams, router])
+  }), [points, granularity, searchParams, router, hasIncome])
 
   const categoriesLink = useMemo(() => {
     const params = new URLSearchParams(searchParams.toString())
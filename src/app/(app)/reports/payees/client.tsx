@@ -0,0 +1,187 @@
+'use client'
+
+/**
+ * CODE INSIGHT
+ * This client component powers the payee breakdown report. It reads URL search params, fetches spend grouped by
+ * canonical payee from /api/reports/payees, and lists merchants with proportional bars; a linked payee opens the
+ * drilldown filtered by payeeId. Aliases are already folded together server-side, so one merchant is one row.
+ */
+
+import React, { useMemo, useState } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import Link from 'next/link'
+import useSWR from 'swr'
+import { cn } from '@/utils/utils'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { Skeleton } from '@/components/ui/skeleton'
+
+interface PayeeDatum {
+  payeeId: string | null
+  payeeName: string
+  total: number
+  count: number
+  refunded: number
+  income: number
+  percentage: number
+}
+
+const fetcher = async (url: string): Promise<PayeeDatum[]> => {
+  const res = await fetch(url, { cache: 'no-store' })
+  if (!res.ok) {
+    const text = await res.text().catch(() => '')
+    throw new Error(text || 'Failed to load payees')
+  }
+  return res.json()
+}
+
+const KRW = new Intl.NumberFormat('ko-KR', {
+  style: 'currency',
+  currency: 'KRW',
+  maximumFractionDigits: 0,
+})
+
+export default function PayeesClient() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const [sortBy, setSortBy] = useState<'amount' | 'count'>('amount')
+
+  const apiKey = useMemo(() => {
+    const params = new URLSearchParams()
+    for (const key of ['start', 'end', 'categoryId', 'method', 'tz']) {
+      const value = searchParams.get(key)
+      if (value) params.set(key, value)
+    }
+    return `/api/reports/payees?${params.toString()}`
+  }, [searchParams])
+
+  const { data, error, isLoading, mutate } = useSWR(apiKey, fetcher, {
+    revalidateOnFocus: true,
+    dedupingInterval: 5000,
+  })
+
+  // Income-only payees (and those fully offset by refunds) carry no spend to rank
+  const items = useMemo(() => {
+    const arr = (data || []).filter((p) => p.total > 0)
+    if (sortBy === 'count') arr.sort((a, b) => b.count - a.count || b.total - a.total)
+    else arr.sort((a, b) => b.total - a.total)
+    return arr
+  }, [data, sortBy])
+
+  const top = items.reduce((max, p) => Math.max(max, p.total), 0)
+  const total = items.reduce((sum, p) => sum + p.total, 0)
+
+  const openDrilldown = (item: PayeeDatum) => {
+    if (!item.payeeId) return
+    const next = new URLSearchParams(searchParams.toString())
+    next.set('payeeId', item.payeeId)
+    next.set('payee', item.payeeName)
+    router.push(`/reports/drilldown?${next.toString()}`)
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-xl font-semibold tracking-tight">가맹점별 지출</h1>
+          <p className="text-sm text-muted-foreground">별칭을 하나로 묶은 가맹점 기준 지출 요약</p>
+        </div>
+        <div className="flex items-center gap-2 rounded-lg bg-muted p-1">
+          {(['amount', 'count'] as const).map((key) => (
+            <button
+              key={key}
+              onClick={() => setSortBy(key)}
+              className={cn(
+                'px-3 py-1.5 text-sm rounded-md transition',
+                sortBy === key ? 'bg-background shadow-sm text-foreground' : 'text-muted-foreground hover:text-foreground'
+              )}
+              aria-pressed={sortBy === key}
+            >
+              {key === 'amount' ? '금액순' : '건수순'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="rounded-xl border bg-card/50 backdrop-blur supports-[backdrop-filter]:bg-card/60 p-4 shadow-sm">
+        {isLoading ? (
+          <div className="space-y-3">
+            {Array.from({ length: 6 }).map((_, i) => (
+              <Skeleton key={i} className="h-10 w-full" />
+            ))}
+          </div>
+        ) : error ? (
+          <Alert variant="destructive">
+            <AlertTitle>불러오기 실패</AlertTitle>
+            <AlertDescription className="mt-1">데이터를 불러오는 중 문제가 발생했어요. 다시 시도해 주세요.</AlertDescription>
+            <div className="mt-3">
+              <button
+                onClick={() => mutate()}
+                className="inline-flex items-center gap-2 rounded-md bg-primary px-3 py-1.5 text-sm text-primary-foreground shadow hover:opacity-90"
+              >
+                다시 시도
+              </button>
+            </div>
+          </Alert>
+        ) : items.length === 0 ? (
+          <div className="flex flex-col items-center justify-center text-center p-8">
+            <div className="text-4xl mb-2">🏪</div>
+            <p className="font-medium">표시할 지출이 없어요</p>
+            <p className="text-sm text-muted-foreground mt-1">선택된 기간과 필터에 해당하는 지출이 없습니다.</p>
+          </div>
+        ) : (
+          <>
+            <div className="mb-3 flex items-baseline justify-between">
+              <span className="text-xs uppercase tracking-wider text-muted-foreground">총 지출</span>
+              <span className="text-lg font-semibold">{KRW.format(total)}</span>
+            </div>
+            <ul className="divide-y divide-border rounded-lg border">
+              {items.map((item) => {
+                const width = top > 0 ? Math.max(2, Math.round((item.total / top) * 100)) : 0
+                const body = (
+                  <>
+                    <div className="flex items-center justify-between gap-3">
+                      <div className="min-w-0">
+                        <div className={cn('truncate font-medium', item.payeeId && 'group-hover:underline')}>{item.payeeName}</div>
+                        <div className="text-xs text-muted-foreground mt-0.5">
+                          {item.count.toLocaleString('ko-KR')}건 · {Math.round(item.percentage)}%
+                          {item.refunded > 0 && ` · 환불 ${KRW.format(item.refunded)}`}
+                        </div>
+                      </div>
+                      <div className="shrink-0 font-semibold">{KRW.format(item.total)}</div>
+                    </div>
+                    <div className="mt-2 h-1.5 w-full rounded-full bg-muted" aria-hidden>
+                      <div className="h-1.5 rounded-full bg-primary" style={{ width: `${width}%` }} />
+                    </div>
+                  </>
+                )
+                return (
+                  <li key={item.payeeId ?? `text:${item.payeeName}`} className="p-3">
+                    {item.payeeId ? (
+                      <button
+                        onClick={() => openDrilldown(item)}
+                        className="group block w-full text-left"
+                        aria-label={`${item.payeeName} 상세 보기`}
+                      >
+                        {body}
+                      </button>
+                    ) : (
+                      body
+                    )}
+                  </li>
+                )
+              })}
+            </ul>
+          </>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+        <Link href="/payees" className="hover:underline">가맹점 관리</Link>
+        <span>•</span>
+        <Link href="/reports/categories" className="hover:underline">카테고리</Link>
+        <span>•</span>
+        <Link href="/reports/drilldown" className="hover:underline">목록</Link>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,13 @@
+/**
+ * CODE INSIGHT
+ * This code's use case is the Reports > Payees page, rendering the main content area only.
+ * This code's full epic context is to fetch spend grouped by canonical payee from /api/reports/payees based on URL filters,
+ * list merchants by net spend, and open the drilldown filtered to a payee.
+ * This code's ui feel is calm, modern, and mobile-first with clean cards and simple proportional bars.
+ */
+
+import PayeesClient from './client'
+
+export default async function Page() {
+  return <PayeesClient />
+}
@@ -4,6 +4,8 @@
  * CODE INSIGHT
  * This client component renders the Settings UI, manages local state, persists to localStorage, and sets a compact SSR cookie via a server action.
  * It also captures the PWA beforeinstallprompt (if available), offers a fallback install link, and provides demo/data utilities.
+ * The Offline Storage card shows the local database schema version and quota usage, can ask the browser to keep the
+ * offline copy (persistent storage) and exports a JSON snapshot of the local database for support (@/utils/local-db).
  * The UI is mobile-first with card sections, accessible controls, and subtle transitions.
  */
 
@@ -14,6 +16,14 @@ import { setPrefsCookie } from './action'
 import { cn } from '@/utils/utils'
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
 import { Separator } from '@/components/ui/separator'
+import {
+  LOCAL_SCHEMA_VERSION,
+  exportLocalSnapshot,
+  localSchemaVersion,
+  requestPersistentStorage,
+  storageEstimate,
+  type StorageEstimate,
+} from '@/utils/local-db'
 
 export type Prefs = {
   theme: 'light' | 'dark' | 'system'
@@ -404,13 +414,131 @@ export default function Client({ initialPrefs }: { initialPrefs: Prefs }) {
         </div>
       </section>
 
+      <OfflineStorageSection />
+
       {/* Helpful links */}
       <div className="flex flex-wrap items-center gap-3 text-sm">
         <Link href="/" className="text-primary underline-offset-4 hover:underline">Home</Link>
         <Link href="/transactions" className="text-primary underline-offset-4 hover:underline">Transactions</Link>
         <Link href="/reports" className="text-primary underline-offset-4 hover:underline">Reports</Link>
+        <Link href="/accounts" className="text-primary underline-offset-4 hover:underline">Accounts</Link>
+        <Link href="/settings/exchange-rates" className="text-primary underline-offset-4 hover:underline">Exchange Rates</Link>
         <Link href="/pwa/install" className="text-primary underline-offset-4 hover:underline">Install Guide</Link>
       </div>
     </div>
   )
 }
+
+function formatBytes(n: number) {
+  if (n < 1024 * 1024) return `${(n / 1024).toFixed(0)} KB`
+  if (n < 1024 * 1024 * 1024) return `${(n / (1024 * 1024)).toFixed(1)} MB`
+  return `${(n / (1024 * 1024 * 1024)).toFixed(2)} GB`
+}
+
+function OfflineStorageSection() {
+  const [estimate, setEstimate] = useState<StorageEstimate | null>(null)
+  const [version, setVersion] = useState<number | null>(null)
+  const [exporting, setExporting] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+
+  const load = React.useCallback(async () => {
+    try {
+      const [e, v] = await Promise.all([storageEstimate(), localSchemaVersion()])
+      setEstimate(e)
+      setVersion(v)
+    } catch {
+      setEstimate({ usage: null, quota: null, persisted: null })
+    }
+  }, [])
+
+  useEffect(() => {
+    void load()
+  }, [load])
+
+  async function onPersist() {
+    const granted = await requestPersistentStorage()
+    setMessage(granted ? 'Offline data will be kept when the device runs low on space.' : 'The browser did not grant persistent storage.')
+    void load()
+  }
+
+  async function onExport() {
+    setExporting(true)
+    setMessage(null)
+    try {
+      const blob = await exportLocalSnapshot()
+      const url = URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = `tris-local-${new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-')}.json`
+      document.body.appendChild(a)
+      a.click()
+      a.remove()
+      URL.revokeObjectURL(url)
+    } catch {
+      setMessage('Could not export the local database.')
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  const pct = estimate?.usage != null && estimate.quota ? Math.min(100, (estimate.usage / estimate.quota) * 100) : null
+
+  return (
+    <section className="rounded-xl border bg-card p-4 shadow-sm">
+      <div className="mb-3 flex items-center justify-between">
+        <h2 className="text-base font-medium">Offline Storage</h2>
+        <span className="text-xs text-muted-foreground">
+          Schema v{version ?? '–'}
+          {version !== null && version > LOCAL_SCHEMA_VERSION ? ' (newer than this app)' : ''}
+        </span>
+      </div>
+      {estimate === null ? (
+        <div className="h-10 animate-pulse rounded-md bg-muted" />
+      ) : pct === null ? (
+        <p className="text-sm text-muted-foreground">This browser does not report storage usage.</p>
+      ) : (
+        <div className="space-y-1.5">
+          <div
+            role="progressbar"
+            aria-label="Storage used"
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={Math.round(pct)}
+            className="h-2 w-full overflow-hidden rounded-full bg-muted"
+          >
+            <div className={cn('h-full rounded-full transition-[width]', pct >= 80 ? 'bg-destructive' : 'bg-primary')} style={{ width: `${pct}%` }} />
+          </div>
+          <div className="flex justify-between text-xs text-muted-foreground tabular-nums">
+            <span>
+              {formatBytes(estimate.usage ?? 0)} of {formatBytes(estimate.quota ?? 0)} used
+            </span>
+            <span>{estimate.persisted ? 'Persistent' : 'May be cleared by the browser'}</span>
+          </div>
+        </div>
+      )}
+      <div className="mt-4 flex flex-col gap-2 sm:flex-row">
+        {estimate?.persisted === false && (
+          <button
+            type="button"
+            onClick={onPersist}
+            className="inline-flex items-center justify-center rounded-md border border-input bg-background px-4 py-2 text-sm font-medium shadow-sm transition hover:bg-accent hover:text-accent-foreground focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2"
+          >
+            Keep offline data
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={onExport}
+          disabled={exporting}
+          className="inline-flex items-center justify-center rounded-md bg-primary px-4 py-2 text-sm font-medium text-primary-foreground shadow transition hover:opacity-90 focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 disabled:opacity-60"
+        >
+          {exporting ? 'Exporting…' : 'Export local snapshot'}
+        </button>
+      </div>
+      <p className="mt-2 text-xs text-muted-foreground">
+        The snapshot contains your offline transactions and sync queue; receipt images are listed by size only. Share it only with support.
+      </p>
+      {message && <p className="mt-2 text-xs text-muted-foreground" aria-live="polite">{message}</p>}
+    </section>
+  )
+}
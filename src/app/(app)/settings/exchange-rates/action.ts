@@ -0,0 +1,36 @@
+'use server'
+
+/**
+ * CODE INSIGHT
+ * Server actions for the Exchange Rates settings page: read the primary currency and switch it. Switching runs the
+ * change_primary_currency database function, which re-converts every transaction (and its split lines) from
+ * original_amount plus budgets, opening balances, preset and recurring amounts in one transaction. Dates before a pair's
+ * first rate use that rate; the switch is refused only for a pair with no rate at all, listing it with the oldest date
+ * that needs it.
+ */
+
+import { revalidatePath } from 'next/cache'
+import { supabaseServer } from '@/utils/supabase/client-server'
+import { DEFAULT_PRIMARY_CURRENCY, getPrimaryCurrency, isCurrencyCode } from '@/utils/currency'
+
+export async function currentPrimaryCurrency() {
+  const { data: auth } = await supabaseServer.auth.getUser()
+  if (!auth?.user) return DEFAULT_PRIMARY_CURRENCY
+  return getPrimaryCurrency(supabaseServer, auth.user.id)
+}
+
+export async function changePrimaryCurrency(next: string) {
+  const { data: auth, error: authError } = await supabaseServer.auth.getUser()
+  if (authError || !auth?.user) throw new Error('Unauthorized')
+  if (!isCurrencyCode(next)) return { ok: false as const, message: 'Unsupported currency', missing: [] as string[] }
+
+  const { data, error } = await supabaseServer.rpc('change_primary_currency', { p_currency: next })
+  if (error) throw error
+  const result = data as { ok: boolean; converted: number; missing: string[] }
+  if (!result.ok) {
+    return { ok: false as const, message: 'Add an exchange rate for', missing: result.missing }
+  }
+
+  revalidatePath('/settings/exchange-rates')
+  return { ok: true as const, converted: result.converted }
+}
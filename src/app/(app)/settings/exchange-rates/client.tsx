@@ -0,0 +1,271 @@
+'use client'
+
+/**
+ * CODE INSIGHT
+ * This client component lists the user's exchange rates, offers a form to record one by hand, a file import (CSV or JSON)
+ * with a per-line error summary, and a primary-currency switcher that re-converts existing transactions via a server action.
+ * Data is fetched via SWR from /api/exchange-rates and revalidated after each change.
+ */
+
+import { useRef, useState, useTransition } from 'react'
+import useSWR from 'swr'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { Skeleton } from '@/components/ui/skeleton'
+import { CURRENCY_CODES } from '@/utils/currency'
+import { changePrimaryCurrency } from './action'
+
+type Rate = {
+  id: string
+  base_currency: string
+  quote_currency: string
+  rate: number
+  effective_on: string
+  source: 'manual' | 'import'
+}
+
+type ImportResult = { imported: number; skipped: number; errors: { line: number; message: string }[] }
+
+const fetcher = async (url: string) => {
+  const res = await fetch(url, { cache: 'no-store' })
+  if (!res.ok) throw new Error(`Request failed: ${res.status}`)
+  return (await res.json()) as Rate[]
+}
+
+const inputClass =
+  'w-full rounded-lg border border-input bg-background px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-primary'
+
+export default function Client({ primaryCurrency }: { primaryCurrency: string }) {
+  const { data, error, isLoading, mutate } = useSWR<Rate[]>('/api/exchange-rates', fetcher, { revalidateOnFocus: false })
+  const [base, setBase] = useState(CURRENCY_CODES.find((c) => c !== primaryCurrency) ?? 'USD')
+  const [rate, setRate] = useState('')
+  const [effectiveOn, setEffectiveOn] = useState(() => new Date().toISOString().slice(0, 10))
+  const [saving, setSaving] = useState(false)
+  const [formError, setFormError] = useState<string | null>(null)
+  const fileRef = useRef<HTMLInputElement>(null)
+  const [importing, setImporting] = useState(false)
+  const [importResult, setImportResult] = useState<ImportResult | null>(null)
+  const [importError, setImportError] = useState<string | null>(null)
+  const [primary, setPrimary] = useState(primaryCurrency)
+  const [switchMessage, setSwitchMessage] = useState<string | null>(null)
+  const [isSwitching, startSwitch] = useTransition()
+
+  async function handleAdd(e: React.FormEvent) {
+    e.preventDefault()
+    setFormError(null)
+    const value = Number(rate)
+    if (!Number.isFinite(value) || value <= 0) {
+      setFormError('Please enter a positive rate.')
+      return
+    }
+    setSaving(true)
+    try {
+      const res = await fetch('/api/exchange-rates', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ base_currency: base, quote_currency: primary, rate: value, effective_on: effectiveOn }),
+      })
+      if (!res.ok) {
+        const body = await res.json().catch(() => null)
+        throw new Error(body?.error || 'Could not save the rate.')
+      }
+      setRate('')
+      await mutate()
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Could not save the rate.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function handleImport() {
+    const file = fileRef.current?.files?.[0]
+    if (!file) return
+    setImporting(true)
+    setImportError(null)
+    setImportResult(null)
+    try {
+      const form = new FormData()
+      form.append('file', file)
+      const res = await fetch('/api/exchange-rates/import', { method: 'POST', body: form })
+      const body = await res.json().catch(() => null)
+      if (!res.ok) throw new Error(body?.details || body?.error || 'Import failed.')
+      setImportResult(body as ImportResult)
+      await mutate()
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : 'Import failed.')
+    } finally {
+      setImporting(false)
+      if (fileRef.current) fileRef.current.value = ''
+    }
+  }
+
+  async function handleDelete(id: string) {
+    const res = await fetch(`/api/exchange-rates/${id}`, { method: 'DELETE' })
+    if (res.ok || res.status === 404) await mutate()
+  }
+
+  function handleSwitch(next: string) {
+    if (next === primary) return
+    if (!window.confirm(`Convert every transaction to ${next}? Amounts are recalculated from what was originally paid.`)) return
+    setSwitchMessage(null)
+    startSwitch(async () => {
+      try {
+        const res = await changePrimaryCurrency(next)
+        if (res.ok) {
+          setPrimary(next)
+          setSwitchMessage(`Converted ${res.converted} transactions to ${next}.`)
+        } else {
+          setSwitchMessage(`${res.message}${res.missing.length ? `: ${res.missing.join(', ')}` : ''}`)
+        }
+      } catch {
+        setSwitchMessage('Could not change the primary currency. Please try again.')
+      }
+    })
+  }
+
+  const rates = data ?? []
+
+  return (
+    <div className="space-y-4">
+      <div className="rounded-2xl border border-border bg-card p-4 space-y-2">
+        <h2 className="text-sm font-semibold">Primary currency</h2>
+        <p className="text-xs text-muted-foreground">Reports, budgets and exports are shown in this currency.</p>
+        <select
+          aria-label="Primary currency"
+          value={primary}
+          disabled={isSwitching}
+          onChange={(e) => handleSwitch(e.target.value)}
+          className={inputClass}
+        >
+          {CURRENCY_CODES.map((c) => (
+            <option key={c} value={c}>
+              {c}
+            </option>
+          ))}
+        </select>
+        {isSwitching && <p className="text-xs text-muted-foreground">Converting transactions…</p>}
+        {switchMessage && <p className="text-xs text-muted-foreground" role="status">{switchMessage}</p>}
+      </div>
+
+      <form onSubmit={handleAdd} className="rounded-2xl border border-border bg-card p-4 space-y-3">
+        <h2 className="text-sm font-semibold">Add rate</h2>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <select aria-label="Currency" value={base} onChange={(e) => setBase(e.target.value as typeof base)} className={inputClass}>
+            {CURRENCY_CODES.filter((c) => c !== primary).map((c) => (
+              <option key={c} value={c}>
+                1 {c} =
+              </option>
+            ))}
+          </select>
+          <input
+            aria-label={`Rate in ${primary}`}
+            inputMode="decimal"
+            value={rate}
+            onChange={(e) => setRate(e.target.value.replace(/[^0-9.]/g, ''))}
+            placeholder={`Rate in ${primary}`}
+            className={`${inputClass} text-right`}
+          />
+          <input
+            aria-label="Effective from"
+            type="date"
+            value={effectiveOn}
+            onChange={(e) => setEffectiveOn(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+        {formError && <p className="text-sm text-destructive">{formError}</p>}
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={saving}
+            className="inline-flex items-center rounded-lg bg-primary px-4 py-2 text-sm font-medium text-primary-foreground hover:opacity-90 transition disabled:opacity-60"
+          >
+            {saving ? 'Saving…' : 'Save rate'}
+          </button>
+        </div>
+      </form>
+
+      <div className="rounded-2xl border border-border bg-card p-4 space-y-3">
+        <h2 className="text-sm font-semibold">Import from file</h2>
+        <p className="text-xs text-muted-foreground">
+          CSV with a <code>date,base,quote,rate</code> header, or a JSON array of the same fields.
+        </p>
+        <div className="flex flex-wrap items-center gap-2">
+          <input ref={fileRef} type="file" accept=".csv,.json,text/csv,application/json" aria-label="Rates file" className="text-sm" />
+          <button
+            type="button"
+            onClick={handleImport}
+            disabled={importing}
+            className="inline-flex items-center rounded-lg border border-border px-3 py-2 text-sm hover:bg-muted transition disabled:opacity-60"
+          >
+            {importing ? 'Importing…' : 'Import'}
+          </button>
+        </div>
+        {importError && <p className="text-sm text-destructive">{importError}</p>}
+        {importResult && (
+          <div className="text-sm" role="status">
+            <p>
+              Imported {importResult.imported} rates{importResult.skipped > 0 ? `, skipped ${importResult.skipped}` : ''}.
+            </p>
+            {importResult.errors.length > 0 && (
+              <ul className="mt-1 space-y-0.5 text-xs text-muted-foreground">
+                {importResult.errors.map((e) => (
+                  <li key={e.line}>
+                    Line {e.line}: {e.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <Alert className="border-destructive/30">
+          <AlertTitle>We couldn’t load your exchange rates</AlertTitle>
+          <AlertDescription>Please check your connection and try again.</AlertDescription>
+        </Alert>
+      )}
+
+      {isLoading && (
+        <div className="space-y-2" aria-hidden>
+          {Array.from({ length: 3 }).map((_, i) => (
+            <Skeleton key={i} className="h-10 w-full rounded-xl" />
+          ))}
+        </div>
+      )}
+
+      {!isLoading && !error && rates.length === 0 && (
+        <div className="rounded-2xl border border-dashed border-border p-6 text-center bg-card">
+          <h2 className="text-lg font-medium">No rates yet</h2>
+          <p className="text-sm text-muted-foreground mt-1">Add a rate before recording spending in another currency.</p>
+        </div>
+      )}
+
+      {rates.length > 0 && (
+        <ul role="list" className="space-y-2">
+          {rates.map((r) => (
+            <li key={r.id} className="flex items-center justify-between gap-3 rounded-xl border border-border bg-card p-3">
+              <div className="min-w-0">
+                <div className="text-sm font-medium tabular-nums">
+                  1 {r.base_currency} = {r.rate.toLocaleString('ko-KR', { maximumFractionDigits: 6 })} {r.quote_currency}
+                </div>
+                <div className="mt-1 text-xs text-muted-foreground">
+                  From {r.effective_on} · {r.source === 'import' ? 'Imported' : 'Manual'}
+                </div>
+              </div>
+              <button
+                type="button"
+                onClick={() => handleDelete(r.id)}
+                className="text-xs text-muted-foreground hover:text-destructive"
+                aria-label={`Delete ${r.base_currency}/${r.quote_currency} rate from ${r.effective_on}`}
+              >
+                Delete
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,27 @@
+/**
+ * CODE INSIGHT
+ * This code's use case is the Exchange Rates settings page shell: it reads the user's primary currency on the server and mounts
+ * a client component for maintaining rates by hand, importing them from a file, and switching the primary currency.
+ * This code's full epic context is multi-currency transactions, where foreign spending is converted into the primary currency
+ * with these rates so reports, budgets and exports stay in one currency.
+ * This code's ui feel is calm, minimal, mobile-first cards with clear feedback after imports and conversions.
+ */
+
+import Client from './client'
+import { currentPrimaryCurrency } from './action'
+
+export default async function Page() {
+  const primaryCurrency = await currentPrimaryCurrency()
+
+  return (
+    <section className="mx-auto w-full max-w-3xl space-y-6 py-4">
+      <div className="space-y-1">
+        <h1 className="text-2xl font-semibold tracking-tight">Exchange rates</h1>
+        <p className="text-sm text-muted-foreground">
+          Rates used to convert foreign-currency spending into {primaryCurrency}. Enter them by hand or import a file.
+        </p>
+      </div>
+      <Client primaryCurrency={primaryCurrency} />
+    </section>
+  )
+}
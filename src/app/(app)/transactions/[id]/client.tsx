@@ -8,6 +8,8 @@ import { Separator } from '@/components/ui/separator'
 import { Skeleton } from '@/components/ui/skeleton'
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible'
 import { cn } from '@/utils/utils'
+import { formatMoney } from '@/utils/currency'
+import { ReceiptItem, ReceiptPreview } from '@/components/receipt-preview'
 
 type Props = { id: string }
 
@@ -32,6 +34,13 @@ function formatKRW(value: number | string | null | undefined) {
   }
 }
 
+const KIND_LABELS: Record<string, string> = {
+  expense: '지출',
+  income: '수입',
+  refund: '환불',
+  transfer: '이체',
+}
+
 function formatDate(value?: string | null) {
   if (!value) return '—'
   const d = new Date(value)
@@ -41,20 +50,101 @@ function formatDate(value?: string | null) {
   })
 }
 
+// Signed receipt urls expire after a few minutes; refetch the list shortly before they do
+const RECEIPTS_REFRESH_MS = 4 * 60 * 1000
+
+function ReceiptsSection({ id }: { id: string }) {
+  const key = `/api/transactions/${encodeURIComponent(id)}/receipts`
+  const { data, mutate } = useSWR<{ items: ReceiptItem[] }>(key, fetcher, { refreshInterval: RECEIPTS_REFRESH_MS })
+  const [busy, setBusy] = useState(false)
+  const [uploadError, setUploadError] = useState<string | null>(null)
+  const items = data?.items ?? []
+
+  const upload = async (file: File) => {
+    setBusy(true)
+    setUploadError(null)
+    try {
+      const form = new FormData()
+      form.append('file', file)
+      const res = await fetch(key, { method: 'POST', body: form })
+      if (!res.ok) {
+        const body = await res.json().catch(() => null)
+        throw new Error(body?.errors?.[0]?.message || body?.message || '업로드에 실패했습니다')
+      }
+      await mutate()
+    } catch (e: any) {
+      setUploadError(e?.message || '업로드에 실패했습니다')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const remove = async (receiptId: string) => {
+    if (!window.confirm('이 영수증을 삭제할까요?')) return
+    const res = await fetch(`${key}/${encodeURIComponent(receiptId)}`, { method: 'DELETE' })
+    if (res.ok || res.status === 204) await mutate()
+  }
+
+  return (
+    <div className="mt-4">
+      <div className="flex items-center justify-between">
+        <div className="text-xs uppercase tracking-wide text-muted-foreground">영수증</div>
+        <label className={cn('cursor-pointer text-sm text-primary hover:underline', busy && 'pointer-events-none opacity-60')}>
+          {busy ? '업로드 중…' : '영수증 추가'}
+          <input
+            type="file"
+            accept="image/jpeg,image/png,image/webp,image/heic,image/heif,application/pdf"
+            className="sr-only"
+            disabled={busy}
+            onChange={(e) => {
+              const f = e.target.files?.[0]
+              e.target.value = ''
+              if (f) void upload(f)
+            }}
+          />
+        </label>
+      </div>
+      {uploadError && <p className="mt-1 text-sm text-destructive" role="alert">{uploadError}</p>}
+      {items.length === 0 ? (
+        <div className="mt-1 text-base">—</div>
+      ) : (
+        <ul className="mt-2 flex flex-wrap gap-3">
+          {items.map((r) => (
+            <li key={r.id} className="flex flex-col items-start gap-1">
+              <a href={r.url ?? undefined} target="_blank" rel="noopener noreferrer" aria-label={`${r.file_name || '영수증'} 열기`}>
+                <ReceiptPreview receipt={r} size={112} onExpired={() => void mutate()} />
+              </a>
+              <button type="button" onClick={() => void remove(r.id)} className="text-xs text-muted-foreground hover:text-destructive">
+                삭제
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
 export default function Client({ id }: Props) {
   const router = useRouter()
   const [deleting, setDeleting] = useState(false)
-  const { data, error, isLoading, mutate } = useSWR(`/api/demo/transactions/${encodeURIComponent(id)}`, fetcher)
+  const { data, error, isLoading, mutate } = useSWR(`/api/transactions/${encodeURIComponent(id)}`, fetcher)
 
   const txn = data as any | undefined
 
   const amount = useMemo(() => formatKRW(txn?.amount ?? txn?.total ?? 0), [txn])
+  // Converted from a foreign currency when recorded; show the paid amount and the rate used
+  const original = useMemo(() => {
+    if (!txn?.currency || txn?.exchange_rate === undefined || Number(txn.exchange_rate) === 1) return null
+    return `${formatMoney(txn.original_amount, txn.currency)} · 1 ${txn.currency} = ${Number(txn.exchange_rate).toLocaleString('ko-KR', { maximumFractionDigits: 4 })}`
+  }, [txn])
   const occurredAt = useMemo(() => formatDate(txn?.occurred_at ?? txn?.date ?? txn?.created_at ?? null), [txn])
   const category = txn?.category?.name ?? txn?.category_name ?? txn?.category ?? 'Uncategorized'
   const payee = txn?.payee ?? '—'
   const method = txn?.payment_method ?? txn?.method ?? txn?.paymentMethod ?? '—'
   const notes = txn?.notes ?? ''
-  const receiptUrl = txn?.receipt_url ?? txn?.receiptUrl ?? txn?.receipt ?? null
+  const kindLabel = KIND_LABELS[txn?.kind ?? 'expense'] ?? '지출'
+  const splits: any[] = Array.isArray(txn?.splits) ? txn.splits : []
 
   const handleDelete = async () => {
     if (deleting) return
@@ -62,7 +152,7 @@ export default function Client({ id }: Props) {
     if (!ok) return
     setDeleting(true)
     try {
-      const res = await fetch(`/api/demo/transactions/${encodeURIComponent(id)}`, { method: 'DELETE' })
+      const res = await fetch(`/api/transactions/${encodeURIComponent(id)}`, { method: 'DELETE' })
       if (!res.ok && res.status !== 204) {
         throw new Error('Delete failed')
       }
@@ -142,8 +232,9 @@ export default function Client({ id }: Props) {
         <div className="rounded-xl border bg-card p-5 shadow-sm">
           <div className="mb-3 flex items-start justify-between gap-3">
             <div>
-              <div className="text-xs uppercase tracking-wide text-muted-foreground">금액</div>
+              <div className="text-xs uppercase tracking-wide text-muted-foreground">금액 · {kindLabel}</div>
               <div className="mt-1 text-3xl font-semibold text-foreground">{amount}</div>
+              {original && <div className="mt-1 text-sm text-muted-foreground tabular-nums">원래 금액 {original}</div>}
             </div>
             <div className="flex gap-2">
               <button
@@ -192,6 +283,30 @@ export default function Client({ id }: Props) {
             </div>
           </div>
 
+          {splits.length > 0 && (
+            <>
+              <Separator className="my-4" />
+              <div>
+                <div className="text-xs uppercase tracking-wide text-muted-foreground">분할</div>
+                <ul className="mt-2 divide-y divide-border rounded-lg border border-border">
+                  {splits.map((line) => (
+                    <li key={line.id} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+                      <div className="min-w-0">
+                        <span className="inline-flex items-center rounded-full bg-secondary px-2.5 py-1 text-xs text-secondary-foreground">
+                          {line.category?.name ?? '미분류'}
+                        </span>
+                        {(line.tag_names || []).map((t: string) => (
+                          <span key={t} className="ml-1 text-xs text-muted-foreground">#{t}</span>
+                        ))}
+                      </div>
+                      <span className="tabular-nums">{formatKRW(line.amount)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </>
+          )}
+
           <Separator className="my-4" />
 
           <div>
@@ -213,19 +328,7 @@ export default function Client({ id }: Props) {
             )}
           </div>
 
-          {receiptUrl ? (
-            <div className="mt-4">
-              <div className="text-xs uppercase tracking-wide text-muted-foreground">영수증</div>
-              <a
-                href={receiptUrl}
-                target="_blank"
-                rel="noopener noreferrer"
-                className="mt-1 inline-flex items-center text-sm text-primary hover:underline"
-              >
-                View receipt
-              </a>
-            </div>
-          ) : null}
+          <ReceiptsSection id={id} />
         </div>
       )}
 
@@ -5,36 +5,49 @@
  * This code's use case is a client-side edit form that loads a transaction by id (local or remote) from IndexedDB, allows editing, and queues sync actions.
  * This code's full epic context is the offline-first Transaction CRUD flow with localForage stores: transactions, syncQueue, receipts, and conflict handling.
  * This code's ui feel is calm and confident, with clear field grouping, inline validation, subtle animations, and mobile-first ergonomics.
+ * The payee field suggests known payees from /api/payees while online; picking one only fills the category if it is still empty.
+ * Queued updates carry the changed fields plus the base snapshot they were made against (tags included), so the SyncProvider
+ * can three-way merge them when the row changed on the server in the meantime.
+ * An attached receipt photo is resized and stripped of EXIF (@/utils/receipt-image) as soon as it is picked, so only the
+ * prepared file is queued.
  */
 
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react'
-import localforage from 'localforage'
 import { useRouter } from 'next/navigation'
 import { supabaseBrowser } from '@/utils/supabase/client-browser'
 import { cn } from '@/utils/utils'
+import { prepareReceipt } from '@/utils/receipt-image'
+import { queueStore, receiptsStore, txStore } from '@/utils/local-db'
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
 import { Separator } from '@/components/ui/separator'
 import { Skeleton } from '@/components/ui/skeleton'
-
-// LocalForage instances
-const txStore = localforage.createInstance({ name: 'tris', storeName: 'transactions' })
-const queueStore = localforage.createInstance({ name: 'tris', storeName: 'syncQueue' })
-const receiptsStore = localforage.createInstance({ name: 'tris', storeName: 'receipts' })
+import { CategoryOptions } from '@/components/category-options'
+import type { TransactionKind } from '@/utils/transactions'
 
 // Types
+interface PayeeSuggestion {
+  id: string
+  name: string
+  aliases: string[]
+  default_category_id: string | null
+}
+
 interface LocalTransaction {
   id: string // can be local-uuid or remote uuid
   remoteId?: string | null
+  kind?: TransactionKind
   amount: number
   occurred_at: string // ISO string
   category_id?: string | null
+  account_id?: string | null
+  transfer_account_id?: string | null
   payee?: string | null
   payment_method: string
   notes?: string | null
   pending?: boolean
   deleted?: boolean
   conflict?: boolean
-  baseVersion?: number | null // a timestamp or server version number if known
+  baseVersion?: number | null // server row version (transactions.version) if known
   lastSyncedAt?: string | null
   receipt_url?: string | null
   receiptPending?: boolean
@@ -56,15 +69,19 @@ interface QueueItem<T = any> {
   ref: { localId?: string; remoteId?: string | null }
   payload?: T
   baseVersion?: number | null
+  // Values the edit started from, for the three-way merge when the server changed meanwhile
+  base?: Record<string, unknown>
   status: QueueStatus
   error?: string | null
-  createdAt: string
-  updatedAt?: string
+  createdAt: number
+  updatedAt?: number
 }
 
 interface Category {
   id: string
   name: string
+  parent_id: string | null
+  archived_at: string | null
 }
 
 function isoToLocalInput(iso?: string) {
@@ -97,6 +114,12 @@ function formatKRW(n: number) {
   }
 }
 
+// Comma-separated input → unique tag names, normalized like the server does
+function parseTags(text: string) {
+  const names = text.split(',').map((t) => t.replace(/\s+/g, ' ').trim().toLowerCase()).filter(Boolean)
+  return Array.from(new Set(names))
+}
+
 function isLocalId(id: string) {
   return id.startsWith('local-')
 }
@@ -106,6 +129,13 @@ function generateId(prefix?: string) {
   return prefix ? `${prefix}${id}` : id
 }
 
+const KINDS: { value: TransactionKind; label: string }[] = [
+  { value: 'expense', label: '지출' },
+  { value: 'income', label: '수입' },
+  { value: 'refund', label: '환불' },
+  { value: 'transfer', label: '이체' },
+]
+
 const PAYMENT_METHODS: { value: string; label: string }[] = [
   { value: 'card', label: '카드' },
   { value: 'cash', label: '현금' },
@@ -168,15 +198,20 @@ export default function Client({ id }: { id: string }) {
   const [toast, setToast] = useState<{ message: string; type?: 'success' | 'error' | 'info' } | null>(null)
 
   const [categories, setCategories] = useState<Category[]>([])
+  const [accounts, setAccounts] = useState<{ id: string; name: string }[]>([])
 
   const [tx, setTx] = useState<LocalTransaction | null>(null)
   const [form, setForm] = useState({
+    kind: 'expense' as TransactionKind,
     amount: '',
     occurred_at: '',
     category_id: '' as string | null,
+    account_id: '' as string | null,
+    transfer_account_id: '' as string | null,
     payee: '' as string,
     payment_method: 'card',
     notes: '' as string,
+    tags: '' as string,
   })
   const [receiptFile, setReceiptFile] = useState<File | null>(null)
   const initialRef = useRef<typeof form | null>(null)
@@ -210,12 +245,16 @@ export default function Client({ id }: { id: string }) {
 
         setTx(item)
         const f = {
+          kind: item.kind ?? 'expense',
           amount: item.amount?.toString() ?? '',
           occurred_at: isoToLocalInput(item.occurred_at),
           category_id: item.category_id ?? '',
+          account_id: item.account_id ?? '',
+          transfer_account_id: item.transfer_account_id ?? '',
           payee: item.payee ?? '',
           payment_method: item.payment_method ?? 'card',
           notes: item.notes ?? '',
+          tags: (item.tag_names ?? []).join(', '),
         }
         setForm(f)
         initialRef.current = f
@@ -239,7 +278,7 @@ export default function Client({ id }: { id: string }) {
       try {
         const { data, error } = await supabaseBrowser
           .from('categories')
-          .select('id,name')
+          .select('id,name,parent_id,archived_at')
           .order('name', { ascending: true })
         if (!mounted) return
         if (error) {
@@ -247,6 +286,8 @@ export default function Client({ id }: { id: string }) {
           return
         }
         setCategories(data || [])
+        const { data: accts } = await supabaseBrowser.from('accounts').select('id,name').order('name', { ascending: true })
+        if (mounted) setAccounts(accts || [])
       } catch {
         // ignore
       }
@@ -261,12 +302,16 @@ export default function Client({ id }: { id: string }) {
     if (!initialRef.current) return false
     const i = initialRef.current
     return (
+      i.kind !== form.kind ||
       i.amount !== form.amount ||
       i.occurred_at !== form.occurred_at ||
       (i.category_id ?? '') !== (form.category_id ?? '') ||
+      (i.account_id ?? '') !== (form.account_id ?? '') ||
+      (i.transfer_account_id ?? '') !== (form.transfer_account_id ?? '') ||
       i.payee !== form.payee ||
       i.payment_method !== form.payment_method ||
       i.notes !== form.notes ||
+      i.tags !== form.tags ||
       !!receiptFile
     )
   }, [form, receiptFile])
@@ -280,13 +325,45 @@ export default function Client({ id }: { id: string }) {
     setForm((p) => ({ ...p, [key]: value }))
   }, [])
 
+  // Payee suggestions (online only; offline edits keep the free text and the server links it on sync)
+  const [payeeSuggestions, setPayeeSuggestions] = useState<PayeeSuggestion[]>([])
+  useEffect(() => {
+    const q = form.payee.trim()
+    if (!q || (typeof navigator !== 'undefined' && !navigator.onLine)) return
+    let cancelled = false
+    const t = setTimeout(async () => {
+      try {
+        const res = await fetch(`/api/payees?search=${encodeURIComponent(q)}`, { cache: 'no-store' })
+        if (res.ok && !cancelled) setPayeeSuggestions(await res.json())
+      } catch {
+        // suggestions are best-effort
+      }
+    }, 250)
+    return () => {
+      cancelled = true
+      clearTimeout(t)
+    }
+  }, [form.payee])
+
+  useEffect(() => {
+    const typed = form.payee.replace(/\s+/g, ' ').trim().toLowerCase()
+    if (!typed || form.category_id) return
+    const match = payeeSuggestions.find(
+      (p) => p.name.toLowerCase() === typed || p.aliases.some((a) => a.toLowerCase() === typed)
+    )
+    if (match?.default_category_id) setField('category_id', match.default_category_id)
+  }, [form.payee, form.category_id, payeeSuggestions, setField])
+
   const validate = useCallback(() => {
     const errs: string[] = []
     if (!amountNumber || amountNumber <= 0) errs.push('금액을 입력하세요 (0원보다 커야 해요).')
     if (!form.occurred_at) errs.push('날짜와 시간을 선택하세요.')
     if (!form.payment_method) errs.push('결제 수단을 선택하세요.')
+    if (form.kind === 'transfer' && form.transfer_account_id && form.transfer_account_id === form.account_id) {
+      errs.push('출금 계좌와 입금 계좌는 달라야 해요.')
+    }
     return errs
-  }, [amountNumber, form.occurred_at, form.payment_method])
+  }, [amountNumber, form.occurred_at, form.payment_method, form.kind, form.account_id, form.transfer_account_id])
 
   const showToast = useCallback((message: string, type?: 'success' | 'error' | 'info') => {
     setToast({ message, type })
@@ -307,42 +384,57 @@ export default function Client({ id }: { id: string }) {
     try {
       const next: LocalTransaction = {
         ...tx,
+        kind: form.kind,
         amount: amountNumber,
         occurred_at: localInputToIso(form.occurred_at),
         category_id: form.category_id || null,
+        account_id: form.account_id || null,
+        transfer_account_id: form.kind === 'transfer' ? form.transfer_account_id || null : null,
         payee: form.payee || null,
         payment_method: form.payment_method,
         notes: form.notes || null,
+        tag_names: parseTags(form.tags),
         pending: true,
         updatedAt: new Date().toISOString(),
       }
 
       // Compute diff payload for queue
       const keys: (keyof LocalTransaction)[] = [
+        'kind',
         'amount',
         'occurred_at',
         'category_id',
+        'account_id',
+        'transfer_account_id',
         'payee',
         'payment_method',
         'notes',
       ]
       const baseForDiff = {
+        kind: tx.kind ?? 'expense',
         amount: tx.amount,
         occurred_at: tx.occurred_at,
         category_id: tx.category_id ?? null,
+        account_id: tx.account_id ?? null,
+        transfer_account_id: tx.transfer_account_id ?? null,
         payee: tx.payee ?? null,
         payment_method: tx.payment_method,
         notes: tx.notes ?? null,
       } as any
       const nextForDiff = {
+        kind: next.kind,
         amount: next.amount,
         occurred_at: next.occurred_at,
         category_id: next.category_id ?? null,
+        account_id: next.account_id ?? null,
+        transfer_account_id: next.transfer_account_id ?? null,
         payee: next.payee ?? null,
         payment_method: next.payment_method,
         notes: next.notes ?? null,
       } as any
-      const payload = computeDiff(baseForDiff, nextForDiff, keys as any)
+      const payload: Record<string, unknown> = computeDiff(baseForDiff, nextForDiff, keys as any)
+      const baseTags: string[] = tx.tag_names ?? []
+      if (parseTags(baseTags.join(',')).join(',') !== next.tag_names.join(',')) payload.tag_names = next.tag_names
 
       // Persist transaction locally (optimistic)
       await txStore.setItem<LocalTransaction>(tx.id, next)
@@ -358,8 +450,9 @@ export default function Client({ id }: { id: string }) {
           },
           payload,
           baseVersion: typeof tx.baseVersion === 'number' ? tx.baseVersion : null,
+          base: { ...baseForDiff, tag_names: baseTags },
           status: 'pending',
-          createdAt: new Date().toISOString(),
+          createdAt: Date.now(),
         }
         await queueStore.setItem(q.id, q)
       }
@@ -374,7 +467,7 @@ export default function Client({ id }: { id: string }) {
           createdAt: new Date().toISOString(),
           transactionRef: { localId: isLocalId(tx.id) ? tx.id : undefined, remoteId: tx.remoteId || (!isLocalId(tx.id) ? tx.id : undefined) },
         }
-        await receiptsStore.setItem(receiptQueueId, { blob: receiptFile, metadata: meta })
+        await receiptsStore.setItem(receiptQueueId, { blob: receiptFile, metadata: meta, prepared: true })
         const q: QueueItem<{ receiptQueueId: string }> = {
           id: generateId('q-'),
           type: 'UPLOAD_RECEIPT',
@@ -385,7 +478,7 @@ export default function Client({ id }: { id: string }) {
           payload: { receiptQueueId },
           baseVersion: typeof tx.baseVersion === 'number' ? tx.baseVersion : null,
           status: 'pending',
-          createdAt: new Date().toISOString(),
+          createdAt: Date.now(),
         }
         await queueStore.setItem(q.id, q)
 
@@ -393,6 +486,13 @@ export default function Client({ id }: { id: string }) {
         await txStore.setItem<LocalTransaction>(tx.id, { ...next, receiptPending: true })
       }
 
+      // Ask the SyncProvider to drain the queue now rather than on its next poll
+      try {
+        const bc = new BroadcastChannel('tris-sync')
+        bc.postMessage({ type: 'PROCESS_REQUEST' })
+        bc.close()
+      } catch {}
+
       showToast('변경 사항이 동기화 대기열에 추가됐어요.', 'success')
       // Navigate back to detail page using the same id in URL (supports localId)
       router.push(`/transactions/${id}`)
@@ -420,7 +520,7 @@ export default function Client({ id }: { id: string }) {
       if (remoteId && online) {
         const { data, error } = await supabaseBrowser
           .from('transactions')
-          .select('id, amount, occurred_at, category_id, payee, payment_method, notes, updated_at')
+          .select('id, kind, amount, occurred_at, category_id, account_id, transfer_account_id, payee, payment_method, notes, version, updated_at')
           .eq('id', remoteId)
           .maybeSingle()
         if (!error && data) {
@@ -428,15 +528,18 @@ export default function Client({ id }: { id: string }) {
             ...tx,
             remoteId: remoteId,
             id: tx.id, // keep local key stable
+            kind: data.kind ?? 'expense',
             amount: Number(data.amount ?? 0),
             occurred_at: data.occurred_at,
             category_id: data.category_id,
+            account_id: data.account_id,
+            transfer_account_id: data.transfer_account_id,
             payee: data.payee,
             payment_method: data.payment_method,
             notes: data.notes,
             pending: false,
             conflict: false,
-            baseVersion: data.updated_at ? Date.parse(data.updated_at) : null,
+            baseVersion: typeof data.version === 'number' ? data.version : null,
             lastSyncedAt: new Date().toISOString(),
           }
         }
@@ -450,12 +553,16 @@ export default function Client({ id }: { id: string }) {
       await txStore.setItem<LocalTransaction>(tx.id, restored)
       setTx(restored)
       const resetForm = {
+        kind: restored.kind ?? 'expense',
         amount: restored.amount.toString(),
         occurred_at: isoToLocalInput(restored.occurred_at),
         category_id: restored.category_id ?? '',
+        account_id: restored.account_id ?? '',
+        transfer_account_id: restored.transfer_account_id ?? '',
         payee: restored.payee ?? '',
         payment_method: restored.payment_method ?? 'card',
         notes: restored.notes ?? '',
+        tags: (restored.tag_names ?? []).join(', '),
       }
       setForm(resetForm)
       initialRef.current = resetForm
@@ -585,6 +692,29 @@ export default function Client({ id }: { id: string }) {
             if (!saving) onSubmit()
           }}
         >
+          {/* Kind */}
+          <div className="grid gap-2">
+            <label className="text-sm font-medium">유형</label>
+            <div className="flex flex-wrap gap-2">
+              {KINDS.map((k) => (
+                <button
+                  type="button"
+                  key={k.value}
+                  onClick={() => setField('kind', k.value)}
+                  className={cn(
+                    'inline-flex items-center rounded-full border px-3 py-1.5 text-sm transition',
+                    form.kind === k.value
+                      ? 'border-primary bg-primary text-primary-foreground shadow-sm'
+                      : 'border-input bg-background hover:bg-accent hover:text-accent-foreground'
+                  )}
+                  aria-pressed={form.kind === k.value}
+                >
+                  {k.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
           {/* Amount */}
           <div className="grid gap-2">
             <label htmlFor="amount" className="text-sm font-medium">
@@ -636,15 +766,56 @@ export default function Client({ id }: { id: string }) {
                 onChange={(e) => setField('category_id', e.target.value || '')}
               >
                 <option value="">분류 없음</option>
-                {categories.map((c) => (
-                  <option key={c.id} value={c.id}>
-                    {c.name}
-                  </option>
-                ))}
+                {/* Archived categories stay hidden unless this transaction already uses one */}
+                <CategoryOptions categories={categories.filter((c) => !c.archived_at || c.id === form.category_id)} />
               </select>
             </div>
           </div>
 
+          {/* Account (transfers also pick a destination) */}
+          {accounts.length > 0 && (
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+              <div className="grid gap-2">
+                <label htmlFor="account" className="text-sm font-medium">
+                  {form.kind === 'transfer' ? '출금 계좌' : '계좌'}
+                </label>
+                <select
+                  id="account"
+                  className="h-11 w-full rounded-lg border border-input bg-background px-3 text-base outline-none ring-offset-background transition focus:ring-2 focus:ring-primary/30"
+                  value={form.account_id ?? ''}
+                  onChange={(e) => setField('account_id', e.target.value || '')}
+                >
+                  <option value="">선택 안 함</option>
+                  {accounts.map((a) => (
+                    <option key={a.id} value={a.id}>
+                      {a.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {form.kind === 'transfer' && (
+                <div className="grid gap-2">
+                  <label htmlFor="transfer_account" className="text-sm font-medium">
+                    입금 계좌
+                  </label>
+                  <select
+                    id="transfer_account"
+                    className="h-11 w-full rounded-lg border border-input bg-background px-3 text-base outline-none ring-offset-background transition focus:ring-2 focus:ring-primary/30"
+                    value={form.transfer_account_id ?? ''}
+                    onChange={(e) => setField('transfer_account_id', e.target.value || '')}
+                  >
+                    <option value="">선택 안 함</option>
+                    {accounts.map((a) => (
+                      <option key={a.id} value={a.id}>
+                        {a.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Payee */}
           <div className="grid gap-2">
             <label htmlFor="payee" className="text-sm font-medium">
@@ -654,9 +825,18 @@ export default function Client({ id }: { id: string }) {
               id="payee"
               className="h-11 w-full rounded-lg border border-input bg-background px-3 text-base outline-none ring-offset-background transition focus:ring-2 focus:ring-primary/30"
               placeholder="예: 스타벅스"
+              autoComplete="off"
+              list="payee-suggestions"
               value={form.payee}
               onChange={(e) => setField('payee', e.target.value)}
             />
+            <datalist id="payee-suggestions">
+              {payeeSuggestions.map((p) => (
+                <option key={p.id} value={p.name}>
+                  {p.aliases.length > 0 ? p.aliases.join(', ') : undefined}
+                </option>
+              ))}
+            </datalist>
           </div>
 
           {/* Payment Method */}
@@ -697,6 +877,20 @@ export default function Client({ id }: { id: string }) {
             />
           </div>
 
+          {/* Tags */}
+          <div className="grid gap-2">
+            <label htmlFor="tags" className="text-sm font-medium">
+              태그
+            </label>
+            <input
+              id="tags"
+              className="w-full rounded-lg border border-input bg-background px-3 py-2 text-base outline-none ring-offset-background transition focus:ring-2 focus:ring-primary/30"
+              placeholder="쉼표로 구분 (예: 여행, 출장)"
+              value={form.tags}
+              onChange={(e) => setField('tags', e.target.value)}
+            />
+          </div>
+
           <Separator />
 
           {/* Receipt */}
@@ -708,9 +902,9 @@ export default function Client({ id }: { id: string }) {
                   type="file"
                   accept="image/*"
                   className="hidden"
-                  onChange={(e) => {
+                  onChange={async (e) => {
                     const f = e.target.files?.[0] || null
-                    setReceiptFile(f)
+                    setReceiptFile(f ? await prepareReceipt(f) : null)
                   }}
                 />
                 <span>영수증 첨부/교체</span>
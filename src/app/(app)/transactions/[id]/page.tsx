@@ -1,10 +1,12 @@
 /**
  * CODE INSIGHT
  * This code's use case is the Transaction Detail page that reads the :id param, validates existence server-side,
- * and renders a client-driven detail view fetching from the demo API. It presents read-only fields with actions
+ * and renders a client-driven detail view fetching from the transactions API. It presents read-only fields with actions
  * to edit (placeholder) and delete (functional via API), matching the mobile-first PWA design.
- * This code's full epic context is the demo CRUD flow where data is fetched via /api/demo/transactions and
+ * This code's full epic context is the transactions CRUD flow where data is fetched via /api/transactions/[id] and
  * client-side SWR manages cache and optimistic UX. Server performs a notFound() on 404 to align with routing.
+ * Receipts are listed from /api/transactions/[id]/receipts with thumbnails (first-page previews for PDFs) and can be
+ * added or removed here while online.
  * This code's ui feel is clean, calm, and confident with card-based layout, subtle motion, and accessible patterns.
  */
 
@@ -17,7 +19,7 @@ export default async function Page({ params }: { params: { id: string } }) {
 
   // Validate existence server-side to enable segment-level notFound
   try {
-    const res = await fetch(`/api/demo/transactions/${encodeURIComponent(id)}`, { cache: 'no-store' })
+    const res = await fetch(`/api/transactions/${encodeURIComponent(id)}`, { cache: 'no-store' })
     if (res.status === 404) {
       notFound()
     }
@@ -1,6 +1,6 @@
 /**
  * CODE INSIGHT
- * Server actions are not required for this demo list page. All interactions are handled via client-side fetches to /api/demo/transactions.
+ * Server actions are not required for this list page. All interactions are handled via client-side fetches to /api/transactions.
  * This file intentionally exports no actions to keep the surface minimal and aligned with the epic.
  */
 'use server'
@@ -2,12 +2,16 @@
 
 /**
  * CODE INSIGHT
- * This client component powers the Transactions list with search, filters, infinite scroll, and quick actions using the demo API.
- * Data flow adheres to the epic: fetch via SWR from /api/demo/transactions using cursor pagination; update URL cursor via shallow push; handle back/forward via popstate.
+ * This client component powers the Transactions list with search, filters, infinite scroll, and quick actions against the persisted transactions API.
+ * Data flow adheres to the epic: fetch via SWR from /api/transactions using cursor pagination (payment method filtered server-side); update URL cursor via shallow push; handle back/forward via popstate.
+ * A non-empty search box switches to /api/transactions/search (debounced), which understands tokens like amount:>30000, tag:여행 and before:2026-01-01.
+ * Offline, the list and category filters are served from the copy the SyncProvider pulls into localForage (@/utils/offline-store).
+ * Select mode adds checkboxes and a bulk action bar that posts to /api/transactions/bulk and reports per-row failures; a header link opens the suspected-duplicates review.
  * UI is mobile-first with smooth feedback, KRW formatting, and accessible states (loading, empty, error).
  */
 
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import useSWR from 'swr'
 import useSWRInfinite from 'swr/infinite'
 import Link from 'next/link'
 import { useRouter } from 'next/navigation'
@@ -15,40 +19,109 @@ import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
 import { Skeleton } from '@/components/ui/skeleton'
 import { Separator } from '@/components/ui/separator'
 import { cn } from '@/utils/utils'
+import { formatMoney } from '@/utils/currency'
+import { readOffline } from '@/utils/offline-store'
 
 interface ClientProps {
   initialCursor: string | null
 }
 
-type PaymentMethod = 'cash' | 'card' | 'transfer' | 'other' | string
+type PaymentMethod = 'cash' | 'card' | 'bank_transfer' | 'mobile' | 'other' | string
 
-type DemoTransaction = {
+type Transaction = {
   id: string
+  kind?: 'expense' | 'income' | 'refund' | 'transfer'
   amount: number
+  currency?: string
+  original_amount?: number
+  exchange_rate?: number
   occurred_at: string
-  category?: string | null
+  category?: { id: string; name: string } | null
   category_id?: string | null
   payee?: string | null
   payment_method: PaymentMethod
   notes?: string | null
+  tag_names?: string[]
 }
 
-type DemoPage = {
-  items: DemoTransaction[]
+type TransactionsPage = {
+  items: Transaction[]
   nextCursor: string | null
 }
 
+type BulkOperation = 'recategorize' | 'add_tags' | 'remove_tags' | 'set_payment_method' | 'shift_date' | 'delete'
+
+type BulkResponse = {
+  results: { id: string; status: 'ok' | 'not_found' | 'skipped' | 'error'; message?: string }[]
+  succeeded: number
+  failed: number
+}
+
+const BULK_OPERATIONS: { value: BulkOperation; label: string }[] = [
+  { value: 'recategorize', label: 'Set category' },
+  { value: 'add_tags', label: 'Add tags' },
+  { value: 'remove_tags', label: 'Remove tags' },
+  { value: 'set_payment_method', label: 'Set payment method' },
+  { value: 'shift_date', label: 'Shift date' },
+  { value: 'delete', label: 'Delete' },
+]
+
+const categoriesFetcher = async (url: string) => {
+  let res: Response
+  try {
+    res = await fetch(url, { cache: 'no-store' })
+  } catch (e) {
+    const local = await readOffline(url)
+    if (local) return local as { id: string; name: string }[]
+    throw e
+  }
+  if (!res.ok) throw new Error(`Request failed: ${res.status}`)
+  return (await res.json()) as { id: string; name: string }[]
+}
+
+class FetchError extends Error {
+  status: number
+  constructor(message: string, status: number) {
+    super(message)
+    this.status = status
+  }
+}
+
 const fetcher = async (url: string) => {
-  const res = await fetch(url, { cache: 'no-store' })
+  let res: Response
+  try {
+    res = await fetch(url, { cache: 'no-store' })
+  } catch (e) {
+    // Offline: page through the locally synced copy (search has no offline equivalent and keeps failing)
+    const local = await readOffline(url)
+    if (local) return local as TransactionsPage
+    throw e
+  }
   if (!res.ok) {
-    const text = await res.text().catch(() => '')
-    throw new Error(text || `Request failed: ${res.status}`)
+    const body = await res.json().catch(() => null)
+    const firstError = Array.isArray(body?.errors) ? body.errors[0]?.message : null
+    throw new FetchError(firstError || body?.message || `Request failed: ${res.status}`, res.status)
   }
-  return (await res.json()) as DemoPage
+  return (await res.json()) as TransactionsPage
 }
 
+const SEARCH_DEBOUNCE_MS = 300
+
 const KRW = new Intl.NumberFormat('ko-KR', { style: 'currency', currency: 'KRW' })
 
+// Income and refunds bring money in; transfers move it between own accounts
+function formatSignedAmount(t: Transaction) {
+  const formatted = KRW.format(t.amount || 0)
+  if (t.kind === 'income' || t.kind === 'refund') return `+${formatted}`
+  return formatted
+}
+
+// Foreign-currency rows were converted when recorded; show what was actually paid under the converted amount
+function formatOriginalAmount(t: Transaction) {
+  if (!t.currency || t.original_amount === undefined || t.exchange_rate === undefined || t.exchange_rate === 1) return null
+  return formatMoney(t.original_amount, t.currency)
+}
+
 function formatDate(iso: string) {
   try {
     const d = new Date(iso)
@@ -68,7 +141,8 @@ const FILTERS: { key: string; label: string; method?: PaymentMethod }[] = [
   { key: 'all', label: 'All' },
   { key: 'cash', label: 'Cash', method: 'cash' },
   { key: 'card', label: 'Card', method: 'card' },
-  { key: 'transfer', label: 'Transfer', method: 'transfer' },
+  { key: 'bank_transfer', label: 'Transfer', method: 'bank_transfer' },
+  { key: 'mobile', label: 'Mobile', method: 'mobile' },
   { key: 'other', label: 'Other', method: 'other' },
 ]
 
@@ -76,9 +150,17 @@ export default function Client({ initialCursor }: ClientProps) {
   const router = useRouter()
   const [baseCursor, setBaseCursor] = useState<string | null>(initialCursor)
   const [query, setQuery] = useState('')
+  const [searchQuery, setSearchQuery] = useState('')
   const [methodFilter, setMethodFilter] = useState<string>('all')
   const [online, setOnline] = useState<boolean>(typeof navigator !== 'undefined' ? navigator.onLine : true)
   const [deletingIds, setDeletingIds] = useState<Record<string, boolean>>({})
+  const [selectMode, setSelectMode] = useState(false)
+  const [selected, setSelected] = useState<Record<string, boolean>>({})
+  const [bulkOp, setBulkOp] = useState<BulkOperation>('recategorize')
+  const [bulkValue, setBulkValue] = useState('')
+  const [bulkBusy, setBulkBusy] = useState(false)
+  const [bulkMessage, setBulkMessage] = useState<string | null>(null)
+  const { data: categories } = useSWR(selectMode ? '/api/categories' : null, categoriesFetcher, { revalidateOnFocus: false })
 
   useEffect(() => {
     const onOnline = () => setOnline(true)
@@ -91,20 +173,34 @@ export default function Client({ initialCursor }: ClientProps) {
     }
   }, [])
 
+  useEffect(() => {
+    const t = setTimeout(() => setSearchQuery(query.trim()), SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(t)
+  }, [query])
+
+  const searching = searchQuery.length > 0
+
   const getKey = useCallback(
-    (pageIndex: number, previousPageData: DemoPage | null) => {
+    (pageIndex: number, previousPageData: TransactionsPage | null) => {
       if (previousPageData && previousPageData.nextCursor === null) return null
       const limit = 20
-      const cursor = pageIndex === 0 ? baseCursor : previousPageData?.nextCursor
       const params = new URLSearchParams()
       params.set('limit', String(limit))
+      if (searching) {
+        // Search results always start from the newest match; the method chip becomes a query token
+        if (pageIndex > 0 && previousPageData?.nextCursor) params.set('cursor', previousPageData.nextCursor)
+        params.set('q', methodFilter !== 'all' ? `${searchQuery} method:${methodFilter}` : searchQuery)
+        return `/api/transactions/search?${params.toString()}`
+      }
+      const cursor = pageIndex === 0 ? baseCursor : previousPageData?.nextCursor
       if (cursor) params.set('cursor', cursor)
-      return `/api/demo/transactions?${params.toString()}`
+      if (methodFilter !== 'all') params.set('payment_method', methodFilter)
+      return `/api/transactions?${params.toString()}`
     },
-    [baseCursor]
+    [baseCursor, methodFilter, searching, searchQuery]
   )
 
-  const { data, error, isValidating, size, setSize, mutate } = useSWRInfinite<DemoPage>(getKey, fetcher, {
+  const { data, error, isValidating, size, setSize, mutate } = useSWRInfinite<TransactionsPage, FetchError>(getKey, fetcher, {
     revalidateOnFocus: false,
     revalidateFirstPage: true,
   })
@@ -117,7 +213,7 @@ export default function Client({ initialCursor }: ClientProps) {
   // URL cursor shallow update on pagination
   const pushedCursorRef = useRef<string | null>(initialCursor || null)
   useEffect(() => {
-    if (!data || data.length === 0) return
+    if (!data || data.length === 0 || searching) return
     const currentCursor = data[data.length - 1]?.nextCursor
     if (currentCursor && pushedCursorRef.current !== currentCursor) {
       const url = new URL(window.location.href)
@@ -134,7 +230,7 @@ export default function Client({ initialCursor }: ClientProps) {
         pushedCursorRef.current = null
       }
     }
-  }, [data])
+  }, [data, searching])
 
   // Handle back/forward to rebuild list from a base cursor
   useEffect(() => {
@@ -168,24 +264,21 @@ export default function Client({ initialCursor }: ClientProps) {
     return () => io.disconnect()
   }, [isLoadingMore, hasMore, error, setSize])
 
-  const filtered = useMemo(() => {
-    const q = query.trim().toLowerCase()
-    return items.filter((t) => {
-      const matchMethod = methodFilter === 'all' ? true : (t.payment_method || '').toLowerCase() === methodFilter
-      if (!q) return matchMethod
-      const hay = `${t.payee || ''} ${t.notes || ''} ${t.category || ''}`.toLowerCase()
-      return matchMethod && hay.includes(q)
-    })
-  }, [items, query, methodFilter])
+  // Text search and method filtering both happen on the server; this only guards stale pages during refetch
+  const filtered = useMemo(
+    () =>
+      items.filter((t) => methodFilter === 'all' || (t.payment_method || '').toLowerCase() === methodFilter),
+    [items, methodFilter]
+  )
 
   const handleDelete = useCallback(
     async (id: string) => {
-      const ok = window.confirm('Delete this transaction? This cannot be undone in the demo.')
+      const ok = window.confirm('Delete this transaction? This cannot be undone.')
       if (!ok) return
       setDeletingIds((s) => ({ ...s, [id]: true }))
       try {
-        const res = await fetch(`/api/demo/transactions/${id}`, { method: 'DELETE' })
-        if (!res.ok) throw new Error('Failed to delete')
+        const res = await fetch(`/api/transactions/${id}`, { method: 'DELETE' })
+        if (!res.ok && res.status !== 404) throw new Error('Failed to delete')
         await mutate(
           (pages) => {
             if (!pages) return pages
@@ -202,6 +295,59 @@ export default function Client({ initialCursor }: ClientProps) {
     [mutate]
   )
 
+  const selectedIds = useMemo(() => Object.keys(selected).filter((id) => selected[id]), [selected])
+
+  const toggleSelectMode = useCallback(() => {
+    setSelectMode((on) => !on)
+    setSelected({})
+    setBulkMessage(null)
+  }, [])
+
+  const handleBulkApply = useCallback(async () => {
+    if (selectedIds.length === 0) return
+    const body: Record<string, unknown> = { ids: selectedIds, operation: bulkOp }
+    if (bulkOp === 'recategorize') body.category_id = bulkValue || null
+    if (bulkOp === 'add_tags' || bulkOp === 'remove_tags') {
+      body.tag_names = bulkValue.split(',').map((t) => t.trim()).filter(Boolean)
+    }
+    if (bulkOp === 'set_payment_method') body.payment_method = bulkValue || 'card'
+    if (bulkOp === 'shift_date') body.days = Number.parseInt(bulkValue, 10)
+    if (bulkOp === 'delete' && !window.confirm(`Delete ${selectedIds.length} transactions? This cannot be undone.`)) return
+
+    setBulkBusy(true)
+    setBulkMessage(null)
+    try {
+      const res = await fetch('/api/transactions/bulk', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      const json = await res.json().catch(() => null)
+      if (!res.ok) {
+        const firstError = Array.isArray(json?.errors) ? json.errors[0]?.message : null
+        throw new Error(firstError || json?.message || 'Bulk update failed')
+      }
+      const result = json as BulkResponse
+      const problems = result.results.filter((r) => r.status !== 'ok')
+      const byId = new Map(items.map((t) => [t.id, t]))
+      setBulkMessage(
+        [
+          `${result.succeeded} updated${result.failed ? `, ${result.failed} failed` : ''}${
+            problems.length > result.failed ? `, ${problems.length - result.failed} skipped` : ''
+          }.`,
+          ...problems.slice(0, 5).map((r) => `${byId.get(r.id)?.payee || r.id.slice(0, 8)}: ${r.message || r.status}`),
+        ].join(' ')
+      )
+      // Keep the rows that did not go through selected so they can be retried
+      setSelected(Object.fromEntries(problems.map((r) => [r.id, true])))
+      await mutate()
+    } catch (e: any) {
+      setBulkMessage(e?.message || 'Bulk update failed')
+    } finally {
+      setBulkBusy(false)
+    }
+  }, [selectedIds, bulkOp, bulkValue, items, mutate])
+
   return (
     <div className="relative">
       {/* Status bar */}
@@ -213,7 +359,7 @@ export default function Client({ initialCursor }: ClientProps) {
                 aria-label="Search transactions"
                 value={query}
                 onChange={(e) => setQuery(e.target.value)}
-                placeholder="Search payee, notes…"
+                placeholder="Search payee, notes… (amount:>30000, tag:여행)"
                 className="w-full rounded-xl bg-muted/60 text-sm px-10 py-2 outline-none ring-1 ring-input focus:ring-2 focus:ring-primary transition"
               />
               <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground select-none">🔎</span>
@@ -250,6 +396,33 @@ export default function Client({ initialCursor }: ClientProps) {
               Offline
             </span>
           )}
+          <button
+            onClick={toggleSelectMode}
+            aria-pressed={selectMode}
+            disabled={!online}
+            className={cn(
+              'shrink-0 rounded-lg border px-3 py-1.5 text-xs font-medium transition disabled:opacity-50',
+              selectMode ? 'bg-primary text-primary-foreground border-primary' : 'bg-background border-border hover:bg-accent'
+            )}
+          >
+            {selectMode ? 'Done' : 'Select'}
+          </button>
+          {!selectMode && (
+            <Link
+              href="/transactions/duplicates"
+              className="shrink-0 rounded-lg border border-border bg-background px-3 py-1.5 text-xs font-medium hover:bg-accent transition"
+            >
+              Duplicates
+            </Link>
+          )}
+          {!selectMode && (
+            <Link
+              href="/transactions/receipts"
+              className="shrink-0 rounded-lg border border-border bg-background px-3 py-1.5 text-xs font-medium hover:bg-accent transition"
+            >
+              Receipts
+            </Link>
+          )}
         </div>
       </div>
 
@@ -257,10 +430,12 @@ export default function Client({ initialCursor }: ClientProps) {
       {error && (
         <div className="mt-4">
           <Alert className="border-destructive/30">
-            <AlertTitle>We couldn’t load your transactions</AlertTitle>
+            <AlertTitle>{error?.status === 400 ? 'We couldn’t understand that search' : 'We couldn’t load your transactions'}</AlertTitle>
             <AlertDescription>
               <div className="mt-2 flex items-center gap-3">
-                <span className="text-muted-foreground">Please check your connection and try again.</span>
+                <span className="text-muted-foreground">
+                  {error?.status === 400 ? error.message : 'Please check your connection and try again.'}
+                </span>
                 <button
                   onClick={() => mutate()}
                   className="ml-auto inline-flex items-center rounded-lg bg-primary px-3 py-1.5 text-sm text-primary-foreground hover:opacity-90 transition"
@@ -299,9 +474,11 @@ export default function Client({ initialCursor }: ClientProps) {
 
         {!isLoadingInitial && filtered.length === 0 && (
           <div className="rounded-2xl border border-dashed border-border p-6 text-center bg-card">
-            <h2 className="text-lg font-medium">No transactions yet</h2>
+            <h2 className="text-lg font-medium">{searching ? 'No matching transactions' : 'No transactions yet'}</h2>
             <p className="text-sm text-muted-foreground mt-1">
-              Add your first transaction to get started. You can attach a receipt later.
+              {searching
+                ? 'Try fewer words, or tokens like category:Food, method:card or before:2026-01-01.'
+                : 'Add your first transaction to get started. You can attach a receipt later.'}
             </p>
             <div className="mt-4 flex items-center justify-center gap-3">
               <Link
@@ -325,9 +502,25 @@ export default function Client({ initialCursor }: ClientProps) {
 
         <ul role="list" className="space-y-2">
           {filtered.map((t) => (
-            <li key={t.id} className="group relative overflow-hidden rounded-xl border border-border bg-card p-3">
+            <li
+              key={t.id}
+              className={cn(
+                'group relative overflow-hidden rounded-xl border border-border bg-card p-3',
+                selectMode && selected[t.id] && 'ring-2 ring-primary'
+              )}
+            >
               <div className="flex items-start gap-3">
-                <div className="mt-1 h-8 w-1 rounded-full bg-primary/70" aria-hidden />
+                {selectMode ? (
+                  <input
+                    type="checkbox"
+                    className="mt-1 h-5 w-5 accent-primary"
+                    aria-label={`Select ${t.payee || 'transaction'}`}
+                    checked={!!selected[t.id]}
+                    onChange={(e) => setSelected((s) => ({ ...s, [t.id]: e.target.checked }))}
+                  />
+                ) : (
+                  <div className="mt-1 h-8 w-1 rounded-full bg-primary/70" aria-hidden />
+                )}
                 <div className="flex-1 min-w-0">
                   <div className="flex items-start justify-between gap-3">
                     <div className="min-w-0">
@@ -339,17 +532,31 @@ export default function Client({ initialCursor }: ClientProps) {
                         {t.payee || 'Untitled'}
                       </Link>
                       <div className="mt-1 flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                        {t.kind && t.kind !== 'expense' && (
+                          <span className="inline-flex items-center rounded-full bg-muted/70 px-2 py-0.5 capitalize">{t.kind}</span>
+                        )}
                         {t.category && (
-                          <span className="inline-flex items-center rounded-full bg-muted/70 px-2 py-0.5">{t.category}</span>
+                          <span className="inline-flex items-center rounded-full bg-muted/70 px-2 py-0.5">{t.category.name}</span>
                         )}
                         <span className="inline-flex items-center rounded-full bg-muted/70 px-2 py-0.5 capitalize">
-                          {t.payment_method || 'other'}
+                          {(t.payment_method || 'other').replace('_', ' ')}
                         </span>
                         {t.notes && <span className="truncate max-w-[12rem]">{t.notes}</span>}
                       </div>
                     </div>
                     <div className="text-right">
-                      <div className="text-sm font-semibold tabular-nums">{KRW.format(t.amount || 0)}</div>
+                      <div
+                        className={cn(
+                          'text-sm font-semibold tabular-nums',
+                          (t.kind === 'income' || t.kind === 'refund') && 'text-emerald-600',
+                          t.kind === 'transfer' && 'text-muted-foreground'
+                        )}
+                      >
+                        {formatSignedAmount(t)}
+                      </div>
+                      {formatOriginalAmount(t) && (
+                        <div className="text-xs text-muted-foreground tabular-nums">{formatOriginalAmount(t)}</div>
+                      )}
                       <div className="text-xs text-muted-foreground mt-1">{formatDate(t.occurred_at)}</div>
                     </div>
                   </div>
@@ -410,8 +617,103 @@ export default function Client({ initialCursor }: ClientProps) {
         )}
       </div>
 
+      {/* Bulk action bar */}
+      {selectMode && (
+        <div className="fixed inset-x-0 bottom-16 sm:bottom-4 z-20 px-4">
+          <div className="mx-auto max-w-2xl rounded-2xl border border-border bg-card p-3 shadow-lg space-y-2">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-sm font-medium">{selectedIds.length} selected</span>
+              <button
+                onClick={() => setSelected(Object.fromEntries(filtered.map((t) => [t.id, true])))}
+                className="text-xs text-primary underline-offset-4 hover:underline"
+              >
+                Select all loaded
+              </button>
+              <select
+                aria-label="Bulk operation"
+                value={bulkOp}
+                onChange={(e) => {
+                  setBulkOp(e.target.value as BulkOperation)
+                  setBulkValue('')
+                }}
+                className="ml-auto rounded-lg border border-input bg-background px-2 py-1.5 text-sm"
+              >
+                {BULK_OPERATIONS.map((o) => (
+                  <option key={o.value} value={o.value}>
+                    {o.label}
+                  </option>
+                ))}
+              </select>
+              {bulkOp === 'recategorize' && (
+                <select
+                  aria-label="Category"
+                  value={bulkValue}
+                  onChange={(e) => setBulkValue(e.target.value)}
+                  className="rounded-lg border border-input bg-background px-2 py-1.5 text-sm"
+                >
+                  <option value="">Uncategorized</option>
+                  {(categories ?? []).map((c) => (
+                    <option key={c.id} value={c.id}>
+                      {c.name}
+                    </option>
+                  ))}
+                </select>
+              )}
+              {(bulkOp === 'add_tags' || bulkOp === 'remove_tags') && (
+                <input
+                  aria-label="Tags"
+                  value={bulkValue}
+                  onChange={(e) => setBulkValue(e.target.value)}
+                  placeholder="tag1, tag2"
+                  className="w-32 rounded-lg border border-input bg-background px-2 py-1.5 text-sm"
+                />
+              )}
+              {bulkOp === 'set_payment_method' && (
+                <select
+                  aria-label="Payment method"
+                  value={bulkValue || 'card'}
+                  onChange={(e) => setBulkValue(e.target.value)}
+                  className="rounded-lg border border-input bg-background px-2 py-1.5 text-sm"
+                >
+                  {FILTERS.filter((f) => f.method).map((f) => (
+                    <option key={f.key} value={f.method}>
+                      {f.label}
+                    </option>
+                  ))}
+                </select>
+              )}
+              {bulkOp === 'shift_date' && (
+                <input
+                  aria-label="Days to shift"
+                  inputMode="numeric"
+                  value={bulkValue}
+                  onChange={(e) => setBulkValue(e.target.value.replace(/[^0-9-]/g, ''))}
+                  placeholder="± days"
+                  className="w-20 rounded-lg border border-input bg-background px-2 py-1.5 text-sm text-right"
+                />
+              )}
+              <button
+                onClick={handleBulkApply}
+                disabled={bulkBusy || selectedIds.length === 0}
+                className={cn(
+                  'inline-flex items-center rounded-lg px-3 py-1.5 text-sm font-medium transition disabled:opacity-50',
+                  bulkOp === 'delete' ? 'bg-destructive text-destructive-foreground' : 'bg-primary text-primary-foreground'
+                )}
+              >
+                {bulkBusy ? 'Applying…' : 'Apply'}
+              </button>
+            </div>
+            {bulkMessage && (
+              <p className="text-xs text-muted-foreground" role="status">
+                {bulkMessage}
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Floating Action Button */}
-      <div className="pointer-events-none fixed inset-x-0 bottom-20 sm:bottom-8 flex justify-center">
+      <div className={cn('pointer-events-none fixed inset-x-0 bottom-20 sm:bottom-8 flex justify-center', selectMode && 'hidden')}>
         <Link
           href="/transactions/new"
           className="pointer-events-auto inline-flex items-center justify-center rounded-full bg-primary text-primary-foreground shadow-lg w-14 h-14 text-2xl hover:opacity-90 active:scale-95 transition"
@@ -0,0 +1,8 @@
+/**
+ * CODE INSIGHT
+ * Server actions are not required for the duplicates review. Merging and dismissing go through /api/transactions/[id]/merge
+ * and /api/transactions/duplicates/dismiss from the client so the list can update pair by pair.
+ */
+'use server'
+
+export {}
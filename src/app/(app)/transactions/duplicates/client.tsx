@@ -0,0 +1,241 @@
+'use client'
+
+/**
+ * CODE INSIGHT
+ * This client component lists suspected duplicate pairs from /api/transactions/duplicates and resolves them one at a time:
+ * "Keep this" posts to /api/transactions/[id]/merge with the other row's id, "Not a duplicate" posts to
+ * /api/transactions/duplicates/dismiss. Resolved pairs, and any other pair that mentioned a merged-away row, drop out locally
+ * before SWR revalidates. UI is mobile-first with accessible loading, empty and error states.
+ */
+
+import { useState } from 'react'
+import useSWR from 'swr'
+import Link from 'next/link'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { Skeleton } from '@/components/ui/skeleton'
+import { cn } from '@/utils/utils'
+import { formatMoney } from '@/utils/currency'
+
+type DuplicateRow = {
+  id: string
+  kind?: string
+  amount: number
+  currency: string
+  original_amount: number
+  occurred_at: string
+  payee?: string | null
+  payment_method?: string | null
+  notes?: string | null
+  category?: { id: string; name: string } | null
+}
+
+type DuplicatePair = { score: number; reasons: string[]; a: DuplicateRow; b: DuplicateRow }
+
+type DuplicatesResponse = { pairs: DuplicatePair[]; total: number; days: number; truncated: boolean }
+
+const fetcher = async (url: string) => {
+  const res = await fetch(url, { cache: 'no-store' })
+  if (!res.ok) throw new Error(`Request failed: ${res.status}`)
+  return (await res.json()) as DuplicatesResponse
+}
+
+const KRW = new Intl.NumberFormat('ko-KR', { style: 'currency', currency: 'KRW' })
+
+function formatDate(iso: string) {
+  try {
+    return new Intl.DateTimeFormat('ko-KR', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    }).format(new Date(iso))
+  } catch {
+    return iso
+  }
+}
+
+async function readError(res: Response) {
+  const body = await res.json().catch(() => null)
+  const firstError = Array.isArray(body?.errors) ? body.errors[0]?.message : null
+  return firstError || body?.message || `Request failed: ${res.status}`
+}
+
+function RowSummary({ row }: { row: DuplicateRow }) {
+  return (
+    <div className="min-w-0 space-y-1">
+      <Link href={`/transactions/${row.id}`} className="block truncate font-medium hover:underline">
+        {row.payee || 'No payee'}
+      </Link>
+      <div className="text-sm font-semibold">
+        {KRW.format(row.amount || 0)}
+        {row.currency !== 'KRW' && (
+          <span className="ml-1 text-xs font-normal text-muted-foreground">{formatMoney(row.original_amount, row.currency)}</span>
+        )}
+      </div>
+      <div className="text-xs text-muted-foreground">{formatDate(row.occurred_at)}</div>
+      <div className="text-xs text-muted-foreground truncate">
+        {[row.category?.name, row.payment_method].filter(Boolean).join(' · ') || '—'}
+      </div>
+      {row.notes && <div className="text-xs text-muted-foreground line-clamp-2">{row.notes}</div>}
+    </div>
+  )
+}
+
+export default function Client() {
+  const { data, error, isLoading, mutate } = useSWR('/api/transactions/duplicates', fetcher, { revalidateOnFocus: false })
+  const [busyPair, setBusyPair] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  const pairs = data?.pairs ?? []
+
+  // Removes pairs locally; after a merge every pair touching the deleted row is stale too
+  const dropPairs = (predicate: (p: DuplicatePair) => boolean) => {
+    mutate((curr) => (curr ? { ...curr, pairs: curr.pairs.filter((p) => !predicate(p)) } : curr), false)
+  }
+
+  const keep = async (pair: DuplicatePair, keepRow: DuplicateRow, other: DuplicateRow) => {
+    const key = `${pair.a.id}:${pair.b.id}`
+    setBusyPair(key)
+    setMessage(null)
+    try {
+      const res = await fetch(`/api/transactions/${encodeURIComponent(keepRow.id)}/merge`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ other_id: other.id }),
+      })
+      if (!res.ok) throw new Error(await readError(res))
+      const result = await res.json()
+      dropPairs((p) => p.a.id === other.id || p.b.id === other.id)
+      setMessage(
+        `Merged. Moved ${result.moved_tags ?? 0} tag(s) and ${result.moved_receipts ?? 0} receipt(s) into the kept transaction.`
+      )
+      mutate()
+    } catch (err: any) {
+      setMessage(err?.message || 'Merge failed.')
+    } finally {
+      setBusyPair(null)
+    }
+  }
+
+  const dismiss = async (pair: DuplicatePair) => {
+    const key = `${pair.a.id}:${pair.b.id}`
+    setBusyPair(key)
+    setMessage(null)
+    try {
+      const res = await fetch('/api/transactions/duplicates/dismiss', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids: [pair.a.id, pair.b.id] }),
+      })
+      if (!res.ok) throw new Error(await readError(res))
+      dropPairs((p) => p.a.id === pair.a.id && p.b.id === pair.b.id)
+    } catch (err: any) {
+      setMessage(err?.message || 'Could not dismiss this pair.')
+    } finally {
+      setBusyPair(null)
+    }
+  }
+
+  if (error) {
+    return (
+      <Alert className="border-destructive/30">
+        <AlertTitle>We couldn’t check for duplicates</AlertTitle>
+        <AlertDescription>
+          <div className="mt-2 flex items-center gap-3">
+            <span className="text-muted-foreground">Please check your connection and try again.</span>
+            <button
+              onClick={() => mutate()}
+              className="ml-auto inline-flex items-center rounded-lg bg-primary px-3 py-1.5 text-sm text-primary-foreground hover:opacity-90 transition"
+            >
+              Retry
+            </button>
+          </div>
+        </AlertDescription>
+      </Alert>
+    )
+  }
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3" aria-hidden>
+        {Array.from({ length: 3 }).map((_, i) => (
+          <div key={i} className="rounded-xl border border-border bg-card p-4">
+            <Skeleton className="h-4 w-1/3" />
+            <div className="mt-3 grid grid-cols-2 gap-3">
+              <Skeleton className="h-16 w-full" />
+              <Skeleton className="h-16 w-full" />
+            </div>
+          </div>
+        ))}
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      {message && (
+        <div role="status" className="rounded-lg border border-border bg-muted/50 px-3 py-2 text-sm">
+          {message}
+        </div>
+      )}
+
+      {pairs.length === 0 ? (
+        <div className="rounded-2xl border border-dashed border-border p-6 text-center bg-card">
+          <h2 className="text-lg font-medium">No duplicates found</h2>
+          <p className="text-sm text-muted-foreground mt-1">
+            Nothing in the last {data?.days ?? 90} days looks recorded twice.
+          </p>
+          <Link href="/transactions" className="mt-4 inline-flex text-sm text-primary hover:underline">
+            Back to transactions
+          </Link>
+        </div>
+      ) : (
+        pairs.map((pair) => {
+          const key = `${pair.a.id}:${pair.b.id}`
+          const busy = busyPair === key
+          return (
+            <article key={key} className={cn('rounded-xl border border-border bg-card p-4 transition', busy && 'opacity-60')}>
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-xs text-muted-foreground">{pair.reasons.join(' · ')}</span>
+                <span className="shrink-0 rounded-full bg-amber-500/15 px-2 py-0.5 text-xs text-amber-700 ring-1 ring-amber-500/30">
+                  {Math.round(pair.score * 100)}% match
+                </span>
+              </div>
+              <div className="mt-3 grid grid-cols-2 gap-3">
+                {[
+                  [pair.a, pair.b],
+                  [pair.b, pair.a],
+                ].map(([row, other]) => (
+                  <div key={row.id} className="flex flex-col justify-between gap-3 rounded-lg bg-muted/40 p-3">
+                    <RowSummary row={row} />
+                    <button
+                      onClick={() => keep(pair, row, other)}
+                      disabled={busy}
+                      className="rounded-lg bg-primary px-3 py-1.5 text-xs font-medium text-primary-foreground hover:opacity-90 disabled:opacity-50 transition"
+                    >
+                      Keep this
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <div className="mt-3 flex justify-end">
+                <button
+                  onClick={() => dismiss(pair)}
+                  disabled={busy}
+                  className="rounded-lg border border-border px-3 py-1.5 text-xs font-medium hover:bg-accent disabled:opacity-50 transition"
+                >
+                  Not a duplicate
+                </button>
+              </div>
+            </article>
+          )
+        })
+      )}
+
+      {data?.truncated && (
+        <p className="text-xs text-muted-foreground text-center">Showing the strongest matches first; resolve these to see more.</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,24 @@
+/**
+ * CODE INSIGHT
+ * This code's use case is the Duplicates review page shell: it mounts a client component that lists suspected duplicate
+ * transaction pairs side by side so the user can keep one (merging the other into it) or mark the pair as not a duplicate.
+ * This code's full epic context is data hygiene for the offline-first tracker, where re-queued writes and manual entry of
+ * the same receipt can leave two rows for one purchase; pairs come from /api/transactions/duplicates.
+ * This code's ui feel is calm and careful: each pair is a card with both rows compared and clear, reversible-feeling actions.
+ */
+
+import Client from './client'
+
+export default async function Page() {
+  return (
+    <section className="w-full">
+      <div className="mb-4">
+        <h1 className="text-xl sm:text-2xl font-semibold tracking-tight">Possible duplicates</h1>
+        <p className="text-sm text-muted-foreground mt-1">
+          Transactions with the same amount recorded close together. Keep one to merge its twin into it.
+        </p>
+      </div>
+      <Client />
+    </section>
+  )
+}
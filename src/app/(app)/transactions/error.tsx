@@ -1,7 +1,7 @@
 /**
  * CODE INSIGHT
  * This code's use case is to render a resilient, accessible error boundary UI for the Transactions list route.
- * This code's full epic context is the demo data flow where SWR fetches /api/demo/transactions and on failure this component offers a retry that revalidates SWR caches and resets the segment, plus an offline pathway.
+ * This code's full epic context is the transactions data flow where SWR fetches /api/transactions and on failure this component offers a retry that revalidates SWR caches and resets the segment, plus an offline pathway.
  * This code's ui feel is calm, minimal, and mobile-first with clear actions, subtle motion, and prominent trust signals.
  */
 'use client'
@@ -2,17 +2,39 @@
 
 /**
  * CODE INSIGHT
- * This client component renders the New Transaction form using React Hook Form. It posts to /api/demo/transactions,
- * updates SWR caches, mirrors to localStorage, shows accessible feedback, and navigates to /transactions on success.
+ * This client component renders the New Transaction form using React Hook Form. It posts to /api/transactions,
+ * updates SWR caches, shows accessible feedback, and navigates to /transactions on success.
+ * An optional split section divides the amount across categories; lines must add up to the amount before saving.
+ * Picking a currency records a foreign-currency amount; the server converts it into the primary currency with the user's rates.
+ * When the server reports possible duplicates, the success toast stays up with a link to the duplicates review instead of redirecting.
+ * The payee field suggests known payees (names and aliases); picking one fills an empty category and the payment method from
+ * its defaults, and an untouched category is left out of the payload so the server can apply the payee default itself.
+ * A receipt photo (camera or gallery) is resized and stripped of EXIF when picked (@/utils/receipt-image); after the
+ * transaction is created it is queued as UPLOAD_RECEIPT so the SyncProvider uploads it in the background and /queue shows progress.
+ * The photo is also read on the device (@/utils/receipt-ocr): the total, date/time and merchant prefill fields the user has
+ * not touched, each with a confidence badge, and the runner-up readings are one tap away in the receipt section.
  */
 
 import * as React from 'react'
 import Link from 'next/link'
 import { useRouter } from 'next/navigation'
 import { useForm } from 'react-hook-form'
-import { useSWRConfig } from 'swr'
+import useSWR, { useSWRConfig } from 'swr'
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { CategoryOptions } from '@/components/category-options'
 import { cn } from '@/utils/utils'
+import { CURRENCY_CODES, currencyDecimals, parseMajorToMinor } from '@/utils/currency'
+import { prepareReceipt } from '@/utils/receipt-image'
+import {
+  recognizeReceipt,
+  terminateReceiptOcr,
+  warmUpReceiptOcr,
+  type OcrCandidate,
+  type OcrField,
+  type ReceiptOcrResult,
+} from '@/utils/receipt-ocr'
+import { queueStore, receiptsStore } from '@/utils/local-db'
+import type { TransactionKind } from '@/utils/transactions'
 
 function formatKRW(value: number) {
   try {
@@ -30,22 +52,175 @@ function todayISODate() {
   return `${year}-${month}-${day}`
 }
 
+type Option = { id: string; name: string; parent_id?: string | null }
+
+const optionsFetcher = async (url: string) => {
+  const res = await fetch(url, { cache: 'no-store' })
+  if (!res.ok) throw new Error(`Request failed: ${res.status}`)
+  return (await res.json()) as Option[]
+}
+
+type PayeeSuggestion = {
+  id: string
+  name: string
+  aliases: string[]
+  default_category_id: string | null
+  default_payment_method: string | null
+}
+
+const payeesFetcher = async (url: string) => {
+  const res = await fetch(url, { cache: 'no-store' })
+  if (!res.ok) throw new Error(`Request failed: ${res.status}`)
+  return (await res.json()) as PayeeSuggestion[]
+}
+
+const KINDS: { value: TransactionKind; label: string }[] = [
+  { value: 'expense', label: '지출' },
+  { value: 'income', label: '수입' },
+  { value: 'refund', label: '환불' },
+  { value: 'transfer', label: '이체' },
+]
+
+type SplitDraft = { amount: string; category: string; tags: string }
+
 type FormValues = {
+  kind: TransactionKind
   amount: string
+  currency: string
   date: string
   category: string
+  account: string
+  toAccount: string
   payee: string
   method: 'card' | 'cash' | 'bank_transfer' | 'mobile'
   notes: string
 }
 
+function newId(prefix: string) {
+  const id = typeof crypto !== 'undefined' && 'randomUUID' in crypto ? crypto.randomUUID() : `${Date.now()}-${Math.random()}`
+  return `${prefix}${id}`
+}
+
+// The created row already has its server id, so the upload item can run as soon as the SyncProvider picks it up
+async function queueReceipt(remoteId: string, file: File) {
+  const receiptQueueId = newId('rq-')
+  const createdAt = new Date().toISOString()
+  await receiptsStore.setItem(receiptQueueId, {
+    blob: file,
+    metadata: { mime: file.type, size: file.size, name: file.name, createdAt, transactionRef: { remoteId } },
+    prepared: true,
+  })
+  const queueId = newId('q-')
+  await queueStore.setItem(queueId, {
+    id: queueId,
+    type: 'UPLOAD_RECEIPT',
+    ref: { remoteId },
+    payload: { receiptQueueId },
+    baseVersion: null,
+    status: 'pending',
+    createdAt: Date.now(),
+  })
+  try {
+    const bc = new BroadcastChannel('tris-sync')
+    bc.postMessage({ type: 'PROCESS_REQUEST' })
+    bc.close()
+  } catch {}
+}
+
+type OcrDate = { date: string; time: string | null }
+
+function ConfidenceBadge({ confidence }: { confidence: number }) {
+  const level = confidence >= 0.8 ? 'high' : confidence >= 0.5 ? 'medium' : 'low'
+  return (
+    <span
+      title={`인식 신뢰도 ${Math.round(confidence * 100)}%`}
+      className={cn(
+        'inline-flex items-center rounded-full px-2 py-0.5 text-[11px] font-medium',
+        level === 'high' && 'bg-emerald-100 text-emerald-800 dark:bg-emerald-900/30 dark:text-emerald-300',
+        level === 'medium' && 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300',
+        level === 'low' && 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300'
+      )}
+    >
+      {level === 'high' ? '정확도 높음' : level === 'medium' ? '확인 필요' : '정확도 낮음'}
+    </span>
+  )
+}
+
+// Confidence of the OCR reading the field currently holds, if it holds one
+function readingConfidence<T>(field: OcrField<T> | null | undefined, isCurrent: (value: T) => boolean) {
+  if (!field) return null
+  return [field, ...field.alternatives].find((c) => isCurrent(c.value))?.confidence ?? null
+}
+
+function OcrRow<T>({
+  label,
+  field,
+  format,
+  isCurrent,
+  onPick,
+}: {
+  label: string
+  field: OcrField<T> | null
+  format: (value: T) => string
+  isCurrent: (value: T) => boolean
+  onPick: (candidate: OcrCandidate<T>) => void
+}) {
+  if (!field) {
+    return (
+      <div className="flex items-center justify-between gap-2 text-sm">
+        <span className="text-muted-foreground">{label}</span>
+        <span className="text-xs text-muted-foreground">찾지 못했어요</span>
+      </div>
+    )
+  }
+  const options = [field, ...field.alternatives]
+  return (
+    <div className="flex flex-col gap-1.5">
+      <div className="flex items-center justify-between gap-2 text-sm">
+        <span className="text-muted-foreground">{label}</span>
+        <ConfidenceBadge confidence={field.confidence} />
+      </div>
+      <div className="flex flex-wrap gap-1.5">
+        {options.map((c, i) => {
+          const active = isCurrent(c.value)
+          return (
+            <button
+              key={i}
+              type="button"
+              onClick={() => onPick(c)}
+              aria-pressed={active}
+              className={cn(
+                'rounded-full border px-3 py-1 text-sm transition',
+                active ? 'border-primary bg-primary/10 font-medium text-primary' : 'border-input bg-background hover:bg-accent hover:text-accent-foreground'
+              )}
+            >
+              {format(c.value)}
+            </button>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
+
 export default function NewTransactionClient() {
   const router = useRouter()
   const { mutate } = useSWRConfig()
   const [submitting, setSubmitting] = React.useState(false)
   const [errorMsg, setErrorMsg] = React.useState<string | null>(null)
   const [showToast, setShowToast] = React.useState(false)
+  const [duplicateCount, setDuplicateCount] = React.useState(0)
   const [isOnline, setIsOnline] = React.useState<boolean>(true)
+  const [splits, setSplits] = React.useState<SplitDraft[]>([])
+  const [receiptFile, setReceiptFile] = React.useState<File | null>(null)
+  const [preparingReceipt, setPreparingReceipt] = React.useState(false)
+  const [ocr, setOcr] = React.useState<ReceiptOcrResult | null>(null)
+  const [ocrState, setOcrState] = React.useState<'idle' | 'reading' | 'failed'>('idle')
+  const [ocrProgress, setOcrProgress] = React.useState(0)
+  // Time printed on the receipt; used instead of "now" while the date field still holds the receipt's date
+  const [receiptTime, setReceiptTime] = React.useState<OcrDate | null>(null)
+  const { data: categories } = useSWR<Option[]>('/api/categories', optionsFetcher, { revalidateOnFocus: false })
+  const { data: accounts } = useSWR<Option[]>('/api/accounts', optionsFetcher, { revalidateOnFocus: false })
 
   React.useEffect(() => {
     const update = () => setIsOnline(navigator.onLine)
@@ -58,18 +233,34 @@ export default function NewTransactionClient() {
     }
   }, [])
 
+  // Fetch the OCR engine and language data while online so receipts can be read offline later
+  React.useEffect(() => {
+    const saveData = (navigator as any).connection?.saveData === true
+    const t = navigator.onLine && !saveData ? window.setTimeout(() => void warmUpReceiptOcr().catch(() => {}), 2000) : null
+    return () => {
+      if (t !== null) window.clearTimeout(t)
+      void terminateReceiptOcr()
+    }
+  }, [])
+
   const {
     register,
     handleSubmit,
     setValue,
+    getValues,
+    getFieldState,
     watch,
     formState: { errors, isValid, isSubmitting },
   } = useForm<FormValues>({
     mode: 'onChange',
     defaultValues: {
+      kind: 'expense',
       amount: '',
+      currency: '',
       date: todayISODate(),
-      category: 'Food',
+      category: '',
+      account: '',
+      toAccount: '',
       payee: '',
       method: 'card',
       notes: '',
@@ -77,17 +268,109 @@ export default function NewTransactionClient() {
   })
 
   const amountValue = watch('amount')
+  const dateValue = watch('date')
+  const kindValue = watch('kind')
+  const payeeValue = watch('payee')
+  const [payeeQuery, setPayeeQuery] = React.useState('')
+
+  React.useEffect(() => {
+    const t = setTimeout(() => setPayeeQuery((payeeValue || '').trim()), 250)
+    return () => clearTimeout(t)
+  }, [payeeValue])
+
+  const { data: payeeSuggestions } = useSWR<PayeeSuggestion[]>(
+    payeeQuery ? `/api/payees?search=${encodeURIComponent(payeeQuery)}` : null,
+    payeesFetcher,
+    { revalidateOnFocus: false, keepPreviousData: true }
+  )
+
+  // Typing or picking a known spelling applies that payee's defaults without overriding what the user already chose
+  React.useEffect(() => {
+    const typed = (payeeValue || '').replace(/\s+/g, ' ').trim().toLowerCase()
+    if (!typed) return
+    const match = (payeeSuggestions || []).find(
+      (p) => p.name.toLowerCase() === typed || p.aliases.some((a) => a.toLowerCase() === typed)
+    )
+    if (!match) return
+    if (match.default_category_id && !getValues('category') && splits.length === 0) {
+      setValue('category', match.default_category_id, { shouldValidate: true })
+    }
+    if (match.default_payment_method && !getFieldState('method').isDirty) {
+      setValue('method', match.default_payment_method as FormValues['method'], { shouldValidate: true })
+    }
+  }, [payeeValue, payeeSuggestions, getValues, setValue, getFieldState, splits])
+
+  // '' means the primary currency; anything else is sent as original_amount and converted on the server
+  const currencyValue = watch('currency')
 
   function sanitizeAmountInput(raw: string) {
     return raw.replace(/[^0-9]/g, '')
   }
 
+  function sanitizeMainAmount(raw: string) {
+    if (currencyValue && currencyDecimals(currencyValue) > 0) return raw.replace(/[^0-9.]/g, '')
+    return sanitizeAmountInput(raw)
+  }
+
+  const parentAmount = Number.parseInt(sanitizeAmountInput(amountValue || ''), 10) || 0
+  const splitTotal = splits.reduce((sum, l) => sum + (Number.parseInt(sanitizeAmountInput(l.amount), 10) || 0), 0)
+  const splitRemaining = parentAmount - splitTotal
+
+  function updateSplit(index: number, patch: Partial<SplitDraft>) {
+    setSplits((prev) => prev.map((l, i) => (i === index ? { ...l, ...patch } : l)))
+  }
+
+  function addSplit() {
+    setSplits((prev) => [...prev, { amount: prev.length === 0 ? '' : String(Math.max(0, splitRemaining)), category: '', tags: '' }])
+  }
+
+  function pickTotal(c: OcrCandidate<number>) {
+    setValue('currency', '')
+    setValue('amount', String(c.value), { shouldValidate: true })
+  }
+
+  function pickDate(c: OcrCandidate<OcrDate>) {
+    setValue('date', c.value.date, { shouldValidate: true })
+    setReceiptTime(c.value.time ? c.value : null)
+  }
+
+  function pickMerchant(c: OcrCandidate<string>) {
+    setValue('payee', c.value, { shouldValidate: true })
+  }
+
+  const isCurrentTotal = (v: number) => !currencyValue && sanitizeAmountInput(amountValue || '') === String(v)
+  const isCurrentDate = (v: OcrDate) => dateValue === v.date && (receiptTime?.time ?? null) === v.time
+  const isCurrentMerchant = (v: string) => (payeeValue || '') === v
+  const amountConfidence = readingConfidence(ocr?.total, isCurrentTotal)
+  const dateConfidence = readingConfidence(ocr?.date, (v) => dateValue === v.date)
+  const payeeConfidence = readingConfidence(ocr?.merchant, isCurrentMerchant)
+
+  async function readReceipt(file: File) {
+    if (!file.type.startsWith('image/')) return
+    setOcr(null)
+    setOcrProgress(0)
+    setOcrState('reading')
+    try {
+      const result = await recognizeReceipt(file, setOcrProgress)
+      setOcr(result)
+      setOcrState('idle')
+      // Only fill what the user has not typed themselves
+      if (result.total && !getValues('currency') && !getFieldState('amount').isDirty) pickTotal(result.total)
+      if (result.date && !getFieldState('date').isDirty) pickDate(result.date)
+      if (result.merchant && !getFieldState('payee').isDirty) pickMerchant(result.merchant)
+    } catch {
+      setOcrState('failed')
+    }
+  }
+
   async function onSubmit(values: FormValues) {
     setErrorMsg(null)
     setSubmitting(true)
 
-    const sanitized = sanitizeAmountInput(values.amount)
-    const amountNum = Number.parseInt(sanitized, 10)
+    const foreign = Boolean(values.currency)
+    const amountNum = foreign
+      ? parseMajorToMinor(values.amount, values.currency)
+      : Number.parseInt(sanitizeAmountInput(values.amount), 10)
 
     if (!Number.isFinite(amountNum) || amountNum <= 0) {
       setSubmitting(false)
@@ -95,37 +378,61 @@ export default function NewTransactionClient() {
       return
     }
 
+    if (foreign && splits.length > 0) {
+      setSubmitting(false)
+      setErrorMsg('분할은 기본 통화 거래에서만 사용할 수 있어요.')
+      return
+    }
+
+    if (splits.length > 0 && splitRemaining !== 0) {
+      setSubmitting(false)
+      setErrorMsg(`분할 금액의 합계가 총액과 같아야 해요. (남은 금액 ${formatKRW(splitRemaining)})`)
+      return
+    }
+
     const payload = {
-      amount: amountNum,
-      date: values.date,
-      category: values.category,
+      kind: values.kind,
+      ...(foreign ? { currency: values.currency, original_amount: amountNum } : { amount: amountNum }),
+      date: new Date(
+        `${values.date}T${receiptTime?.date === values.date ? `${receiptTime.time}:00` : new Date().toTimeString().slice(0, 8)}`
+      ).toISOString(),
+      // Omitted (not null) when empty so the payee's default category can apply server-side
+      category_id: values.category || undefined,
+      account_id: values.account || null,
+      transfer_account_id: values.kind === 'transfer' ? values.toAccount || null : null,
       payee: values.payee || null,
-      method: values.method,
+      payment_method: values.method,
       notes: values.notes || null,
+      splits: splits.map((l) => ({
+        amount: Number.parseInt(sanitizeAmountInput(l.amount), 10) || 0,
+        category_id: l.category || null,
+        tag_names: l.tags.split(',').map((t) => t.trim()).filter(Boolean),
+      })),
     }
 
     try {
-      const res = await fetch('/api/demo/transactions', {
+      const res = await fetch('/api/transactions', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(payload),
       })
 
       if (!res.ok) {
-        const text = await res.text().catch(() => '')
-        throw new Error(text || `요청이 실패했어요. (${res.status})`)
+        const body = await res.json().catch(() => null)
+        const firstError = Array.isArray(body?.errors) ? body.errors[0]?.message : null
+        if (res.status === 401) throw new Error('로그인이 필요해요.')
+        throw new Error(firstError || body?.message || `요청이 실패했어요. (${res.status})`)
       }
 
       const created = await res.json()
 
-      try {
-        // Mirror to localStorage for demo persistence
-        const key = 'tris:demo:transactions'
-        const existingRaw = localStorage.getItem(key)
-        const existing = existingRaw ? (JSON.parse(existingRaw) as any[]) : []
-        const next = [created, ...existing]
-        localStorage.setItem(key, JSON.stringify(next))
-      } catch {}
+      if (receiptFile && created?.id) {
+        try {
+          await queueReceipt(created.id, receiptFile)
+        } catch {
+          setErrorMsg('거래는 저장됐지만 영수증을 업로드 대기열에 넣지 못했어요. 거래 편집에서 다시 첨부해 주세요.')
+        }
+      }
 
       try {
         // Update SWR caches for any transactions keys
@@ -146,7 +453,13 @@ export default function NewTransactionClient() {
         }, false)
       } catch {}
 
+      // A likely duplicate holds the redirect so the user can review it instead
+      const possible = Array.isArray(created?.possible_duplicates) ? created.possible_duplicates.length : 0
       setShowToast(true)
+      if (possible > 0) {
+        setDuplicateCount(possible)
+        return
+      }
       setTimeout(() => {
         router.push('/transactions')
       }, 500)
@@ -160,7 +473,7 @@ export default function NewTransactionClient() {
   return (
     <div className="flex w-full flex-col gap-4">
       <div className="flex items-center justify-between">
-        <h1 className="text-xl font-semibold tracking-tight sm:text-2xl">새 지출 추가</h1>
+        <h1 className="text-xl font-semibold tracking-tight sm:text-2xl">새 거래 추가</h1>
         <Link href="/transactions" className="text-sm font-medium text-primary hover:underline focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 rounded-md px-2 py-1">
           취소
         </Link>
@@ -185,12 +498,54 @@ export default function NewTransactionClient() {
 
           <div className="mt-2 grid grid-cols-1 gap-4 sm:grid-cols-2">
             <div className="sm:col-span-2">
-              <label htmlFor="amount" className="mb-1 block text-sm font-medium">금액 (₩)</label>
+              <span className="mb-1 block text-sm font-medium">유형</span>
+              <div role="radiogroup" aria-label="거래 유형" className="grid grid-cols-4 gap-1 rounded-lg border border-input bg-muted/40 p-1">
+                {KINDS.map((k) => (
+                  <button
+                    key={k.value}
+                    type="button"
+                    role="radio"
+                    aria-checked={kindValue === k.value}
+                    onClick={() => setValue('kind', k.value)}
+                    className={cn(
+                      'rounded-md px-2 py-2 text-sm font-medium transition',
+                      kindValue === k.value ? 'bg-background text-foreground shadow-sm' : 'text-muted-foreground hover:text-foreground'
+                    )}
+                  >
+                    {k.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="sm:col-span-2">
+              <div className="mb-1 flex items-center justify-between gap-2">
+                <label htmlFor="amount" className="flex items-center gap-2 text-sm font-medium">
+                  금액 ({currencyValue || '₩'})
+                  {amountConfidence !== null && <ConfidenceBadge confidence={amountConfidence} />}
+                </label>
+                <select
+                  aria-label="통화"
+                  className="rounded-md border border-input bg-background px-2 py-1 text-xs outline-none focus:ring-2 focus:ring-primary"
+                  {...register('currency', {
+                    onChange: () => setValue('amount', '', { shouldValidate: false }),
+                  })}
+                >
+                  <option value="">기본 통화</option>
+                  {CURRENCY_CODES.map((c) => (
+                    <option key={c} value={c}>
+                      {c}
+                    </option>
+                  ))}
+                </select>
+              </div>
               <div className="relative">
-                <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3 text-muted-foreground">₩</div>
+                <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3 text-muted-foreground">
+                  {currencyValue ? '' : '₩'}
+                </div>
                 <input
                   id="amount"
-                  inputMode="numeric"
+                  inputMode={currencyValue && currencyDecimals(currencyValue) > 0 ? 'decimal' : 'numeric'}
                   autoComplete="off"
                   className={cn(
                     'block w-full rounded-lg border border-input bg-background px-3 py-3 pl-7 text-base shadow-sm outline-none transition focus:ring-2 focus:ring-primary',
@@ -200,26 +555,31 @@ export default function NewTransactionClient() {
                   aria-describedby="amount-help"
                   {...register('amount', {
                     required: '금액은 필수입니다.',
-                    validate: (val) => {
-                      const n = Number.parseInt(sanitizeAmountInput(val), 10)
-                      if (!Number.isFinite(n) || n <= 0) return '₩ 1 이상의 값을 입력하세요.'
+                    validate: (val, all) => {
+                      const n = all.currency ? parseMajorToMinor(val, all.currency) : Number.parseInt(sanitizeAmountInput(val), 10)
+                      if (!Number.isFinite(n) || n <= 0) return all.currency ? '0보다 큰 금액을 입력하세요.' : '₩ 1 이상의 값을 입력하세요.'
                       return true
                     },
                     onChange: (e) => {
-                      const clean = sanitizeAmountInput(e.target.value)
+                      const clean = sanitizeMainAmount(e.target.value)
                       setValue('amount', clean, { shouldValidate: true })
                     },
                   })}
                 />
               </div>
-              <p id="amount-help" className="mt-1 text-xs text-muted-foreground">예: {formatKRW(12000)}</p>
+              <p id="amount-help" className="mt-1 text-xs text-muted-foreground">
+                {currencyValue ? '저장할 때 등록된 환율로 기본 통화로 환산돼요.' : `예: ${formatKRW(12000)}`}
+              </p>
               {errors.amount && (
                 <p className="mt-1 text-sm text-destructive" role="alert">{errors.amount.message}</p>
               )}
             </div>
 
             <div>
-              <label htmlFor="date" className="mb-1 block text-sm font-medium">날짜</label>
+              <label htmlFor="date" className="mb-1 flex items-center gap-2 text-sm font-medium">
+                날짜
+                {dateConfidence !== null && <ConfidenceBadge confidence={dateConfidence} />}
+              </label>
               <input
                 id="date"
                 type="date"
@@ -242,30 +602,77 @@ export default function NewTransactionClient() {
                   'block w-full appearance-none rounded-lg border border-input bg-background px-3 py-3 text-base shadow-sm outline-none transition focus:ring-2 focus:ring-primary',
                   errors.category ? 'ring-2 ring-destructive focus:ring-destructive' : ''
                 )}
-                {...register('category', { required: '카테고리를 선택하세요.' })}
+                {...register('category')}
               >
-                <option value="Food">식비</option>
-                <option value="Transport">교통</option>
-                <option value="Groceries">장보기</option>
-                <option value="Bills">고지서/공과금</option>
-                <option value="Entertainment">엔터테인먼트</option>
-                <option value="Other">기타</option>
+                <option value="">미분류</option>
+                <CategoryOptions categories={categories} />
               </select>
               {errors.category && <p className="mt-1 text-sm text-destructive" role="alert">{errors.category.message}</p>}
             </div>
 
+            {(accounts || []).length > 0 && (
+              <div>
+                <label htmlFor="account" className="mb-1 block text-sm font-medium">{kindValue === 'transfer' ? '출금 계좌' : '계좌'}</label>
+                <select
+                  id="account"
+                  className={cn(
+                    'block w-full appearance-none rounded-lg border border-input bg-background px-3 py-3 text-base shadow-sm outline-none transition focus:ring-2 focus:ring-primary'
+                  )}
+                  {...register('account')}
+                >
+                  <option value="">선택 안 함</option>
+                  {(accounts || []).map((a) => (
+                    <option key={a.id} value={a.id}>{a.name}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {kindValue === 'transfer' && (accounts || []).length > 0 && (
+              <div>
+                <label htmlFor="toAccount" className="mb-1 block text-sm font-medium">입금 계좌</label>
+                <select
+                  id="toAccount"
+                  className={cn(
+                    'block w-full appearance-none rounded-lg border border-input bg-background px-3 py-3 text-base shadow-sm outline-none transition focus:ring-2 focus:ring-primary',
+                    errors.toAccount ? 'ring-2 ring-destructive focus:ring-destructive' : ''
+                  )}
+                  {...register('toAccount', {
+                    validate: (v, all) => !v || v !== all.account || '출금 계좌와 다른 계좌를 선택하세요.',
+                  })}
+                >
+                  <option value="">선택 안 함</option>
+                  {(accounts || []).map((a) => (
+                    <option key={a.id} value={a.id}>{a.name}</option>
+                  ))}
+                </select>
+                {errors.toAccount && <p className="mt-1 text-sm text-destructive" role="alert">{errors.toAccount.message}</p>}
+              </div>
+            )}
+
             <div>
-              <label htmlFor="payee" className="mb-1 block text-sm font-medium">가맹점/수취인</label>
+              <label htmlFor="payee" className="mb-1 flex items-center gap-2 text-sm font-medium">
+                가맹점/수취인
+                {payeeConfidence !== null && <ConfidenceBadge confidence={payeeConfidence} />}
+              </label>
               <input
                 id="payee"
                 type="text"
-                autoComplete="organization"
+                autoComplete="off"
+                list="payee-suggestions"
                 placeholder="예: 스타벅스"
                 className={cn(
                   'block w-full rounded-lg border border-input bg-background px-3 py-3 text-base shadow-sm outline-none transition focus:ring-2 focus:ring-primary'
                 )}
                 {...register('payee')}
               />
+              <datalist id="payee-suggestions">
+                {(payeeSuggestions || []).map((p) => (
+                  <option key={p.id} value={p.name}>
+                    {p.aliases.length > 0 ? p.aliases.join(', ') : undefined}
+                  </option>
+                ))}
+              </datalist>
             </div>
 
             <div>
@@ -299,6 +706,65 @@ export default function NewTransactionClient() {
           </div>
         </fieldset>
 
+        <fieldset className="rounded-xl border border-border bg-card p-4 shadow-sm">
+          <legend className="px-1 text-sm font-medium text-muted-foreground">분할</legend>
+          <p className="text-xs text-muted-foreground">한 영수증을 여러 카테고리로 나눠 기록해요. 분할 금액의 합계는 총액과 같아야 해요.</p>
+          {splits.length > 0 && (
+            <ul className="mt-3 space-y-2">
+              {splits.map((line, i) => (
+                <li key={i} className="grid grid-cols-1 gap-2 sm:grid-cols-[8rem_1fr_1fr_auto]">
+                  <input
+                    aria-label={`분할 ${i + 1} 금액`}
+                    inputMode="numeric"
+                    placeholder="금액"
+                    value={line.amount}
+                    onChange={(e) => updateSplit(i, { amount: sanitizeAmountInput(e.target.value) })}
+                    className="block w-full rounded-lg border border-input bg-background px-3 py-2 text-right text-sm shadow-sm outline-none transition focus:ring-2 focus:ring-primary"
+                  />
+                  <select
+                    aria-label={`분할 ${i + 1} 카테고리`}
+                    value={line.category}
+                    onChange={(e) => updateSplit(i, { category: e.target.value })}
+                    className="block w-full appearance-none rounded-lg border border-input bg-background px-3 py-2 text-sm shadow-sm outline-none transition focus:ring-2 focus:ring-primary"
+                  >
+                    <option value="">미분류</option>
+                    <CategoryOptions categories={categories} />
+                  </select>
+                  <input
+                    aria-label={`분할 ${i + 1} 태그`}
+                    placeholder="태그 (쉼표로 구분)"
+                    value={line.tags}
+                    onChange={(e) => updateSplit(i, { tags: e.target.value })}
+                    className="block w-full rounded-lg border border-input bg-background px-3 py-2 text-sm shadow-sm outline-none transition focus:ring-2 focus:ring-primary"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setSplits((prev) => prev.filter((_, j) => j !== i))}
+                    className="rounded-lg border border-input bg-background px-3 py-2 text-sm text-muted-foreground transition hover:bg-accent hover:text-accent-foreground"
+                    aria-label={`분할 ${i + 1} 삭제`}
+                  >
+                    삭제
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="mt-3 flex items-center justify-between gap-3">
+            <button
+              type="button"
+              onClick={addSplit}
+              className="inline-flex items-center rounded-lg border border-input bg-background px-3 py-2 text-sm font-medium transition hover:bg-accent hover:text-accent-foreground"
+            >
+              + 분할 추가
+            </button>
+            {splits.length > 0 && (
+              <span className={cn('text-sm tabular-nums', splitRemaining === 0 ? 'text-muted-foreground' : 'text-destructive')}>
+                남은 금액 {formatKRW(splitRemaining)}
+              </span>
+            )}
+          </div>
+        </fieldset>
+
         <fieldset className="rounded-xl border border-border bg-card p-4 shadow-sm">
           <legend className="px-1 text-sm font-medium text-muted-foreground">영수증</legend>
           <div>
@@ -308,10 +774,69 @@ export default function NewTransactionClient() {
               type="file"
               accept="image/*"
               capture="environment"
-              disabled
-              className="block w-full cursor-not-allowed rounded-lg border border-dashed border-input bg-muted/30 px-3 py-10 text-center text-sm text-muted-foreground"
+              disabled={preparingReceipt}
+              onChange={async (e) => {
+                const f = e.target.files?.[0] || null
+                if (!f) {
+                  setReceiptFile(null)
+                  return
+                }
+                setPreparingReceipt(true)
+                let prepared: File
+                try {
+                  prepared = await prepareReceipt(f)
+                  setReceiptFile(prepared)
+                } finally {
+                  setPreparingReceipt(false)
+                }
+                void readReceipt(prepared)
+              }}
+              className="block w-full rounded-lg border border-dashed border-input bg-muted/30 px-3 py-10 text-center text-sm text-muted-foreground file:mr-3 file:rounded-md file:border-0 file:bg-primary/10 file:px-3 file:py-1.5 file:text-sm file:font-medium file:text-primary"
             />
-            <p className="mt-1 text-xs text-muted-foreground">카메라/갤러리 첨부는 곧 제공될 예정입니다.</p>
+            <p className="mt-1 text-xs text-muted-foreground" aria-live="polite">
+              {preparingReceipt
+                ? '사진을 줄이는 중…'
+                : receiptFile
+                  ? `${receiptFile.name} • ${(receiptFile.size / 1024).toFixed(1)}KB · 위치 등 사진 정보는 지워져요.`
+                  : '저장 후 백그라운드에서 업로드돼요. 진행 상황은 동기화 대기열에서 볼 수 있어요.'}
+            </p>
+            {ocrState === 'reading' && (
+              <div className="mt-3 flex flex-col gap-1" aria-live="polite">
+                <div className="h-1.5 w-full overflow-hidden rounded-full bg-muted">
+                  <div className="h-full rounded-full bg-primary transition-[width] duration-300" style={{ width: `${Math.round(ocrProgress * 100)}%` }} />
+                </div>
+                <span className="text-xs text-muted-foreground">영수증 읽는 중… {Math.round(ocrProgress * 100)}%</span>
+              </div>
+            )}
+            {ocrState === 'failed' && (
+              <p className="mt-3 text-xs text-muted-foreground">영수증을 읽지 못했어요. 금액과 날짜를 직접 입력해 주세요.</p>
+            )}
+            {ocr && (
+              <div className="mt-3 flex flex-col gap-3 rounded-lg border border-border bg-muted/30 p-3">
+                <p className="text-xs text-muted-foreground">영수증에서 읽은 값이에요. 틀렸다면 다른 후보를 눌러 바꾸세요.</p>
+                <OcrRow
+                  label="금액"
+                  field={ocr.total}
+                  format={(v) => formatKRW(v)}
+                  isCurrent={isCurrentTotal}
+                  onPick={pickTotal}
+                />
+                <OcrRow
+                  label="날짜"
+                  field={ocr.date}
+                  format={(v) => (v.time ? `${v.date} ${v.time}` : v.date)}
+                  isCurrent={isCurrentDate}
+                  onPick={pickDate}
+                />
+                <OcrRow
+                  label="가맹점"
+                  field={ocr.merchant}
+                  format={(v) => v}
+                  isCurrent={isCurrentMerchant}
+                  onPick={pickMerchant}
+                />
+              </div>
+            )}
           </div>
         </fieldset>
 
@@ -324,7 +849,7 @@ export default function NewTransactionClient() {
           </Link>
           <button
             type="submit"
-            disabled={!isValid || submitting || isSubmitting}
+            disabled={!isValid || submitting || isSubmitting || preparingReceipt}
             className={cn(
               'inline-flex items-center justify-center rounded-lg bg-primary px-4 py-2 text-sm font-semibold text-primary-foreground shadow-sm transition focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2',
               (!isValid || submitting || isSubmitting) ? 'opacity-60' : 'hover:opacity-90'
@@ -355,6 +880,26 @@ export default function NewTransactionClient() {
               </svg>
               <p>추가되었습니다</p>
             </div>
+            {duplicateCount > 0 && (
+              <div className="mt-2 border-t border-green-200 pt-2">
+                <p className="text-amber-800">비슷한 거래가 {duplicateCount}건 있어요. 중복인지 확인해 보세요.</p>
+                <div className="mt-2 flex gap-2">
+                  <Link
+                    href="/transactions/duplicates"
+                    className="inline-flex items-center rounded-lg bg-amber-600 px-3 py-1.5 text-xs font-medium text-white hover:opacity-90"
+                  >
+                    중복 확인
+                  </Link>
+                  <button
+                    type="button"
+                    onClick={() => router.push('/transactions')}
+                    className="inline-flex items-center rounded-lg border border-green-300 px-3 py-1.5 text-xs font-medium hover:bg-green-100"
+                  >
+                    괜찮아요
+                  </button>
+                </div>
+              </div>
+            )}
           </div>
         )}
       </div>
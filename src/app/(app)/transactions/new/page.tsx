@@ -1,7 +1,7 @@
 /**
  * CODE INSIGHT
- * This code's use case is to render the New Transaction page shell and mount the client-side form for creating a demo transaction.
- * This code's full epic context is the Transactions demo CRUD flow where the client submits to /api/demo/transactions and updates SWR cache then navigates to /transactions.
+ * This code's use case is to render the New Transaction page shell and mount the client-side form for creating a transaction.
+ * This code's full epic context is the Transactions CRUD flow where the client submits to /api/transactions and updates SWR cache then navigates to /transactions.
  * This code's ui feel is clean, mobile-first, calm and confident, using accessible form patterns with inline validation and smooth feedback.
  */
 
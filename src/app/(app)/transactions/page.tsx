@@ -1,7 +1,7 @@
 /**
  * CODE INSIGHT
- * This code's use case is the Transactions List page shell that renders server-side and mounts a client component for fetching and displaying demo transactions with infinite pagination.
- * This code's full epic context is the PWA demo with SWR-driven data fetching from /api/demo/transactions, URL cursor management, and mobile-first interactions leading to detail and new transaction flows.
+ * This code's use case is the Transactions List page shell that renders server-side and mounts a client component for fetching and displaying the user's transactions with infinite pagination.
+ * This code's full epic context is the PWA with SWR-driven data fetching from /api/transactions, URL cursor management, and mobile-first interactions leading to detail and new transaction flows.
  * This code's ui feel is clean, modern, and calm with responsive spacing, KRW formatting, and subtle motion handled in the client component.
  */
 
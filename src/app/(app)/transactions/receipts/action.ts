@@ -0,0 +1,32 @@
+'use server'
+
+/**
+ * CODE INSIGHT
+ * Server actions for the Receipts page: save the amount (minor units of the primary currency) above which an expense is
+ * expected to have a receipt, or clear it with null. The gallery and the missing list themselves load from the API routes.
+ */
+
+import { revalidatePath } from 'next/cache'
+import { supabaseServer } from '@/utils/supabase/client-server'
+
+export async function saveReceiptThreshold(threshold: number | null) {
+  const { data: auth } = await supabaseServer.auth.getUser()
+  if (!auth?.user) return { ok: false as const, error: 'Unauthorized' }
+  const userId = auth.user.id
+  if (threshold !== null && (!Number.isSafeInteger(threshold) || threshold < 0)) {
+    return { ok: false as const, error: 'Threshold must be a whole, non-negative amount' }
+  }
+
+  const { data: existing } = await supabaseServer.from('user_settings').select('id').eq('user_id', userId).maybeSingle()
+  const { error } = existing?.id
+    ? await supabaseServer
+        .from('user_settings')
+        .update({ receipt_threshold: threshold, updated_at: new Date().toISOString() })
+        .eq('id', existing.id)
+        .eq('user_id', userId)
+    : await supabaseServer.from('user_settings').insert({ user_id: userId, receipt_threshold: threshold })
+  if (error) return { ok: false as const, error: 'Could not save the threshold' }
+
+  revalidatePath('/transactions/receipts')
+  return { ok: true as const, threshold }
+}
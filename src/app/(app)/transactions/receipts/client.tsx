@@ -0,0 +1,368 @@
+'use client'
+
+/**
+ * CODE INSIGHT
+ * This client component shows the Receipts page's two views. "Gallery" loads /api/transactions/receipts for the picked
+ * month, category and payment method and renders thumbnails grouped by day (PDFs as first-page previews), each with the
+ * transaction's payee and amount and a link back to it; the list refetches before its signed urls expire. "Missing"
+ * loads /api/transactions/receipts/missing for the same month and lets the user set the threshold (entered in major units
+ * of the primary currency, saved through saveReceiptThreshold), then lists the expenses that still need a receipt.
+ * UI is mobile-first with accessible loading, empty and error states.
+ */
+
+import { useMemo, useState, useTransition } from 'react'
+import useSWR from 'swr'
+import Link from 'next/link'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { Skeleton } from '@/components/ui/skeleton'
+import { ReceiptItem, ReceiptPreview } from '@/components/receipt-preview'
+import { cn } from '@/utils/utils'
+import { currencyDecimals, formatMoney, parseMajorToMinor } from '@/utils/currency'
+import { saveReceiptThreshold } from './action'
+
+type TransactionSummary = {
+  id: string
+  amount: number
+  currency: string
+  original_amount: number
+  occurred_at: string
+  payee: string | null
+  payment_method: string | null
+  notes?: string | null
+  category: { id: string; name: string } | null
+}
+
+type GalleryResponse = {
+  month: string
+  time_zone: string
+  items: (ReceiptItem & { transaction: TransactionSummary | null })[]
+  truncated: boolean
+}
+
+type MissingResponse = {
+  month: string
+  time_zone: string
+  currency: string
+  threshold: number | null
+  items: TransactionSummary[]
+  total_amount: number
+  truncated: boolean
+}
+
+type Category = { id: string; name: string }
+
+const PAYMENT_METHODS = [
+  { value: 'card', label: 'Card' },
+  { value: 'cash', label: 'Cash' },
+  { value: 'bank_transfer', label: 'Transfer' },
+  { value: 'mobile', label: 'Mobile' },
+  { value: 'other', label: 'Other' },
+]
+
+// Signed receipt urls expire after five minutes; refetch a little before that
+const REFRESH_MS = 4 * 60 * 1000
+
+const TILE_SIZE = 104
+
+const fetcher = async (url: string) => {
+  const res = await fetch(url, { cache: 'no-store' })
+  if (!res.ok) {
+    const body = await res.json().catch(() => null)
+    throw new Error(body?.errors?.[0]?.message || body?.message || body?.error || `Request failed: ${res.status}`)
+  }
+  return res.json()
+}
+
+function currentMonth() {
+  const d = new Date()
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`
+}
+
+function shiftMonth(month: string, delta: number) {
+  const [y, m] = month.split('-').map(Number)
+  const d = new Date(y, m - 1 + delta, 1)
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`
+}
+
+function formatDay(iso: string, timeZone: string) {
+  try {
+    return new Intl.DateTimeFormat('ko-KR', { month: 'short', day: 'numeric', weekday: 'short', timeZone }).format(new Date(iso))
+  } catch {
+    return iso.slice(0, 10)
+  }
+}
+
+function Gallery({ month, categoryId, method }: { month: string; categoryId: string; method: string }) {
+  const params = new URLSearchParams({ month })
+  if (categoryId) params.set('category_id', categoryId)
+  if (method) params.set('payment_method', method)
+  const { data, error, isLoading, mutate } = useSWR<GalleryResponse>(`/api/transactions/receipts?${params}`, fetcher, {
+    refreshInterval: REFRESH_MS,
+  })
+
+  const days = useMemo(() => {
+    const groups: { day: string; items: GalleryResponse['items'] }[] = []
+    for (const item of data?.items ?? []) {
+      const day = item.transaction ? formatDay(item.transaction.occurred_at, data!.time_zone) : '—'
+      const last = groups[groups.length - 1]
+      if (last?.day === day) last.items.push(item)
+      else groups.push({ day, items: [item] })
+    }
+    return groups
+  }, [data])
+
+  if (error) {
+    return (
+      <Alert variant="destructive" role="alert">
+        <AlertTitle>We couldn’t load your receipts</AlertTitle>
+        <AlertDescription>{error.message}</AlertDescription>
+      </Alert>
+    )
+  }
+  if (isLoading) {
+    return (
+      <div className="grid grid-cols-[repeat(auto-fill,minmax(104px,1fr))] gap-3" aria-busy="true">
+        {Array.from({ length: 8 }).map((_, i) => (
+          <Skeleton key={i} className="h-[104px] w-[104px] rounded-md" />
+        ))}
+      </div>
+    )
+  }
+  if (days.length === 0) {
+    return <p className="rounded-lg border border-dashed p-6 text-center text-sm text-muted-foreground">No receipts this month.</p>
+  }
+
+  return (
+    <div className="space-y-5">
+      {days.map((group) => (
+        <section key={group.day} aria-label={group.day}>
+          <h2 className="mb-2 text-xs font-medium uppercase tracking-wide text-muted-foreground">{group.day}</h2>
+          <ul className="grid grid-cols-[repeat(auto-fill,minmax(104px,1fr))] gap-3">
+            {group.items.map((item) => (
+              <li key={item.id} className="min-w-0">
+                <a href={item.url ?? undefined} target="_blank" rel="noopener noreferrer" aria-label={`Open ${item.file_name || 'receipt'}`}>
+                  <ReceiptPreview receipt={item} size={TILE_SIZE} onExpired={() => void mutate()} />
+                </a>
+                {item.transaction && (
+                  <Link href={`/transactions/${item.transaction.id}`} className="mt-1 block min-w-0 text-xs hover:underline">
+                    <span className="block truncate font-medium">{item.transaction.payee || 'No payee'}</span>
+                    <span className="block text-muted-foreground">
+                      {formatMoney(item.transaction.original_amount, item.transaction.currency)}
+                    </span>
+                  </Link>
+                )}
+              </li>
+            ))}
+          </ul>
+        </section>
+      ))}
+      {data?.truncated && <p className="text-xs text-muted-foreground">Showing the first receipts only; narrow the filters to see the rest.</p>}
+    </div>
+  )
+}
+
+function Missing({ month }: { month: string }) {
+  const { data, error, isLoading, mutate } = useSWR<MissingResponse>(
+    `/api/transactions/receipts/missing?month=${encodeURIComponent(month)}`,
+    fetcher,
+  )
+  const [draft, setDraft] = useState<string | null>(null)
+  const [saveError, setSaveError] = useState<string | null>(null)
+  const [isSaving, startSaving] = useTransition()
+
+  const currency = data?.currency ?? 'KRW'
+  const savedMajor =
+    data?.threshold === null || data?.threshold === undefined ? '' : String(data.threshold / 10 ** currencyDecimals(currency))
+  const value = draft ?? savedMajor
+
+  const save = (next: string) => {
+    setSaveError(null)
+    startSaving(async () => {
+      const threshold = next.trim() === '' ? null : parseMajorToMinor(next, currency)
+      const res = await saveReceiptThreshold(threshold)
+      if (!res.ok) {
+        setSaveError(res.error)
+        return
+      }
+      setDraft(null)
+      await mutate()
+    })
+  }
+
+  return (
+    <div className="space-y-4">
+      <form
+        className="flex flex-wrap items-end gap-2 rounded-lg border p-3"
+        onSubmit={(e) => {
+          e.preventDefault()
+          save(value)
+        }}
+      >
+        <label className="flex min-w-0 flex-1 flex-col gap-1 text-sm">
+          <span className="font-medium">Receipt needed from</span>
+          <input
+            inputMode="decimal"
+            value={value}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder={`e.g. ${formatMoney(30000 * 10 ** currencyDecimals(currency), currency)}`}
+            className="h-10 rounded-md border bg-background px-3"
+            aria-describedby="threshold-help"
+          />
+        </label>
+        <button
+          type="submit"
+          disabled={isSaving || draft === null}
+          className="h-10 rounded-md bg-primary px-4 text-sm font-medium text-primary-foreground disabled:opacity-50"
+        >
+          {isSaving ? 'Saving…' : 'Save'}
+        </button>
+        <p id="threshold-help" className="w-full text-xs text-muted-foreground">
+          Expenses at or above this amount ({currency}) without a receipt are listed below. Leave empty to turn this off.
+        </p>
+        {saveError && (
+          <p className="w-full text-xs text-destructive" role="alert">
+            {saveError}
+          </p>
+        )}
+      </form>
+
+      {error ? (
+        <Alert variant="destructive" role="alert">
+          <AlertTitle>We couldn’t load missing receipts</AlertTitle>
+          <AlertDescription>{error.message}</AlertDescription>
+        </Alert>
+      ) : isLoading ? (
+        <div className="space-y-2" aria-busy="true">
+          {Array.from({ length: 4 }).map((_, i) => (
+            <Skeleton key={i} className="h-14 w-full rounded-lg" />
+          ))}
+        </div>
+      ) : data?.threshold === null ? (
+        <p className="rounded-lg border border-dashed p-6 text-center text-sm text-muted-foreground">
+          Set a threshold to see which expenses still need a receipt.
+        </p>
+      ) : (data?.items.length ?? 0) === 0 ? (
+        <p className="rounded-lg border border-dashed p-6 text-center text-sm text-muted-foreground">
+          Every expense from {formatMoney(data!.threshold, currency)} this month has a receipt.
+        </p>
+      ) : (
+        <>
+          <p className="text-sm text-muted-foreground">
+            {data!.items.length} expense{data!.items.length === 1 ? '' : 's'} · {formatMoney(data!.total_amount, currency)} without a receipt
+          </p>
+          <ul className="divide-y rounded-lg border">
+            {data!.items.map((tx) => (
+              <li key={tx.id}>
+                <Link href={`/transactions/${tx.id}`} className="flex items-center justify-between gap-3 px-3 py-2.5 hover:bg-accent">
+                  <div className="min-w-0">
+                    <div className="truncate font-medium">{tx.payee || 'No payee'}</div>
+                    <div className="truncate text-xs text-muted-foreground">
+                      {[formatDay(tx.occurred_at, data!.time_zone), tx.category?.name, tx.payment_method].filter(Boolean).join(' · ')}
+                    </div>
+                  </div>
+                  <div className="shrink-0 text-right">
+                    <div className="text-sm font-semibold">{formatMoney(tx.amount, currency)}</div>
+                    {tx.currency !== currency && (
+                      <div className="text-xs text-muted-foreground">{formatMoney(tx.original_amount, tx.currency)}</div>
+                    )}
+                  </div>
+                </Link>
+              </li>
+            ))}
+          </ul>
+          {data!.truncated && <p className="text-xs text-muted-foreground">Only the largest expenses are shown.</p>}
+        </>
+      )}
+    </div>
+  )
+}
+
+export default function Client() {
+  const [view, setView] = useState<'gallery' | 'missing'>('gallery')
+  const [month, setMonth] = useState(currentMonth)
+  const [categoryId, setCategoryId] = useState('')
+  const [method, setMethod] = useState('')
+  const { data: categories } = useSWR<Category[]>('/api/categories', fetcher)
+
+  return (
+    <div className="space-y-4">
+      <div role="tablist" aria-label="Receipts view" className="inline-flex rounded-lg border p-1">
+        {(['gallery', 'missing'] as const).map((v) => (
+          <button
+            key={v}
+            role="tab"
+            aria-selected={view === v}
+            onClick={() => setView(v)}
+            className={cn(
+              'rounded-md px-3 py-1.5 text-sm font-medium transition',
+              view === v ? 'bg-primary text-primary-foreground' : 'hover:bg-accent'
+            )}
+          >
+            {v === 'gallery' ? 'Gallery' : 'Missing'}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="inline-flex items-center gap-1">
+          <button
+            type="button"
+            onClick={() => setMonth((m) => shiftMonth(m, -1))}
+            className="h-9 rounded-md border px-2 text-sm hover:bg-accent"
+            aria-label="Previous month"
+          >
+            ‹
+          </button>
+          <input
+            type="month"
+            value={month}
+            onChange={(e) => e.target.value && setMonth(e.target.value)}
+            className="h-9 rounded-md border bg-background px-2 text-sm"
+            aria-label="Month"
+          />
+          <button
+            type="button"
+            onClick={() => setMonth((m) => shiftMonth(m, 1))}
+            className="h-9 rounded-md border px-2 text-sm hover:bg-accent"
+            aria-label="Next month"
+          >
+            ›
+          </button>
+        </div>
+        {view === 'gallery' && (
+          <>
+            <select
+              value={categoryId}
+              onChange={(e) => setCategoryId(e.target.value)}
+              className="h-9 rounded-md border bg-background px-2 text-sm"
+              aria-label="Category"
+            >
+              <option value="">All categories</option>
+              <option value="none">Uncategorized</option>
+              {(categories ?? []).map((c) => (
+                <option key={c.id} value={c.id}>
+                  {c.name}
+                </option>
+              ))}
+            </select>
+            <select
+              value={method}
+              onChange={(e) => setMethod(e.target.value)}
+              className="h-9 rounded-md border bg-background px-2 text-sm"
+              aria-label="Payment method"
+            >
+              <option value="">All methods</option>
+              {PAYMENT_METHODS.map((m) => (
+                <option key={m.value} value={m.value}>
+                  {m.label}
+                </option>
+              ))}
+            </select>
+          </>
+        )}
+      </div>
+
+      {view === 'gallery' ? <Gallery month={month} categoryId={categoryId} method={method} /> : <Missing month={month} />}
+    </div>
+  )
+}
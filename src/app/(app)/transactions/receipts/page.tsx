@@ -0,0 +1,25 @@
+/**
+ * CODE INSIGHT
+ * This code's use case is the Receipts page shell: it mounts a client component with two views, a month-by-month gallery
+ * of receipt thumbnails (filterable by category and payment method, each linking back to its transaction) and a
+ * "Missing" list of expenses above the user's receipt threshold that have no receipt yet.
+ * This code's full epic context is receipt management and expense claims; data comes from /api/transactions/receipts and
+ * /api/transactions/receipts/missing, and the threshold is saved to user_settings through ./action.ts.
+ * This code's ui feel is calm and visual: a dense thumbnail grid grouped by day, and a plain checklist for what is missing.
+ */
+
+import Client from './client'
+
+export default async function Page() {
+  return (
+    <section className="w-full">
+      <div className="mb-4">
+        <h1 className="text-xl sm:text-2xl font-semibold tracking-tight">Receipts</h1>
+        <p className="text-sm text-muted-foreground mt-1">
+          Browse receipts by month, and find expenses above your threshold that still need one.
+        </p>
+      </div>
+      <Client />
+    </section>
+  )
+}
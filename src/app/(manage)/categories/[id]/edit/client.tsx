@@ -5,6 +5,8 @@
  * This client component powers the Edit Category form. It loads the category by id via SWR from /api/categories/[id],
  * merges any locally-stored icon/color from localForage, and supports PATCH updates. If offline or unauthorized (401),
  * it updates localForage('tris.categories') and informs the user with a demo mode banner, then navigates back to the list.
+ * The parent picker only offers categories the move is allowed into (not itself or below it, and within the depth limit);
+ * the server's 400/409 answers are shown in place rather than treated as offline.
  */
 
 import React, { useEffect, useMemo, useState } from 'react'
@@ -16,7 +18,9 @@ import { z } from 'zod'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
 import { Skeleton } from '@/components/ui/skeleton'
+import { CategoryOptions } from '@/components/category-options'
 import { cn } from '@/utils/utils'
+import { checkCategoryParent } from '@/utils/category-tree'
 import {
   Star,
   StarOff,
@@ -54,6 +58,7 @@ interface CategoryRecord {
   id: string
   name: string
   is_favorite: boolean
+  parent_id?: string | null
   created_at?: string
   updated_at?: string
 }
@@ -99,6 +104,7 @@ const FormSchema = z.object({
     .string()
     .regex(/^#([0-9A-Fa-f]{6})$/, 'Pick a color'),
   is_favorite: z.boolean(),
+  parent_id: z.string(),
 })
 
 type FormValues = z.infer<typeof FormSchema>
@@ -137,6 +143,12 @@ export default function EditCategoryClient({ id }: { id: string }) {
     }
   }, [error])
 
+  const { data: allCategories } = useSWR<CategoryRecord[]>('/api/categories', fetcher, { revalidateOnFocus: false })
+  const parentChoices = useMemo(() => {
+    const list = allCategories ?? localCategories
+    return list.filter((c) => c.id !== id && checkCategoryParent(list, id, c.id) === null)
+  }, [allCategories, localCategories, id])
+
   const localMatch = useMemo(() => localCategories.find((c) => c.id === id), [localCategories, id])
 
   const combined: LocalCategory | undefined = useMemo(() => {
@@ -158,6 +170,7 @@ export default function EditCategoryClient({ id }: { id: string }) {
       icon: 'ShoppingBag',
       color: '#2563EB',
       is_favorite: false,
+      parent_id: '',
     } as FormValues,
   })
 
@@ -169,6 +182,7 @@ export default function EditCategoryClient({ id }: { id: string }) {
         icon: (combined.icon as FormValues['icon']) ?? 'ShoppingBag',
         color: combined.color ?? '#2563EB',
         is_favorite: !!combined.is_favorite,
+        parent_id: combined.parent_id ?? '',
       })
     }
   }, [combined, form])
@@ -201,6 +215,7 @@ export default function EditCategoryClient({ id }: { id: string }) {
           is_favorite: values.is_favorite,
           icon: values.icon,
           color: values.color,
+          parent_id: values.parent_id || null,
         }),
       })
 
@@ -212,6 +227,7 @@ export default function EditCategoryClient({ id }: { id: string }) {
           is_favorite: values.is_favorite,
           icon: values.icon,
           color: values.color,
+          parent_id: values.parent_id || null,
         })
         setSaveState('saved')
         setSaveMessage('Saved locally. You can sync when online.')
@@ -220,6 +236,13 @@ export default function EditCategoryClient({ id }: { id: string }) {
         return
       }
 
+      if (res.status === 400 || res.status === 409) {
+        const body = await res.json().catch(() => null)
+        setSaveState('error')
+        setSaveMessage(body?.details || body?.error || 'Could not save this category.')
+        return
+      }
+
       if (!res.ok) {
         throw new Error(`Save failed: ${res.status}`)
       }
@@ -230,11 +253,12 @@ export default function EditCategoryClient({ id }: { id: string }) {
         is_favorite: values.is_favorite,
         icon: values.icon,
         color: values.color,
+        parent_id: values.parent_id || null,
       })
 
       // Revalidate SWR caches
       mutate()
-      globalMutate('/api/categories')
+      globalMutate('/api/categories?include_archived=1')
 
       setSaveState('saved')
       setSaveMessage('Category updated')
@@ -247,6 +271,7 @@ export default function EditCategoryClient({ id }: { id: string }) {
         is_favorite: values.is_favorite,
         icon: values.icon,
         color: values.color,
+        parent_id: values.parent_id || null,
       })
       setSaveState('saved')
       setSaveMessage('Saved locally (offline).')
@@ -358,6 +383,18 @@ export default function EditCategoryClient({ id }: { id: string }) {
                 </button>
               </div>
 
+              <div className="space-y-2">
+                <label htmlFor="parent_id" className="text-sm font-medium">Parent category</label>
+                <select
+                  id="parent_id"
+                  {...form.register('parent_id')}
+                  className="w-full rounded-lg border border-input bg-background px-3 py-2 text-sm outline-none transition focus:border-primary focus:ring-2 focus:ring-primary/20"
+                >
+                  <option value="">None (top level)</option>
+                  <CategoryOptions categories={parentChoices} />
+                </select>
+              </div>
+
               <div className="space-y-2">
                 <div className="flex items-center gap-2">
                   <span className="text-sm font-medium">Icon</span>
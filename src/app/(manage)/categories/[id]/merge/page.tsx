@@ -0,0 +1,13 @@
+/**
+ * CODE INSIGHT
+ * This code's use case is the Merge Category page for Tris: pick another category, review how many transactions, presets,
+ * recurring rules, budgets and subcategories would move, then merge and delete this one.
+ * This code's full epic context is the Manage > Categories flow; it is where a delete blocked by references ends up.
+ * This code's ui feel is calm and explicit: nothing moves until the counts have been shown and confirmed.
+ */
+
+import Client from './client'
+
+export default async function Page({ params }: { params: { id: string } }) {
+  return <Client id={params.id} />
+}
@@ -4,6 +4,10 @@
  * CODE INSIGHT
  * This client component renders Categories list with SWR fetching from /api/categories, and offline/demo fallback using localForage.
  * It supports: favorite toggle (PATCH), delete with confirmation (DELETE), optimistic UI, and demo seeding when no server session.
+ * Subcategories are listed indented under their parent; a parent with subcategories cannot be deleted (409) until they move.
+ * A delete blocked by references (409) points to ./[id]/merge, which moves everything to another category and deletes it.
+ * Archiving (PATCH { archived }) hides a category and its subcategories from pickers without touching history; archived
+ * ones are listed in their own section at the bottom, where they can be restored.
  */
 
 import useSWR from 'swr'
@@ -15,12 +19,15 @@ import { useRouter } from 'next/navigation'
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
 import { Separator } from '@/components/ui/separator'
 import { Skeleton } from '@/components/ui/skeleton'
+import { buildCategoryTree, categoryPathLabel, flattenCategoryTree } from '@/utils/category-tree'
 
 // Types aligned with DB plus optional demo-only UI fields
 interface Category {
   id: string
   name: string
   is_favorite: boolean
+  parent_id?: string | null
+  archived_at?: string | null
   created_at?: string
   updated_at?: string
   // demo-only extras
@@ -68,7 +75,7 @@ function seedCategories(): Category[] {
 
 export default function CategoriesClient() {
   const router = useRouter()
-  const { data, error, isLoading, mutate } = useSWR<Category[]>('/api/categories', fetcher, {
+  const { data, error, isLoading, mutate } = useSWR<Category[]>('/api/categories?include_archived=1', fetcher, {
     shouldRetryOnError: false,
     revalidateOnFocus: true,
   })
@@ -76,11 +83,14 @@ export default function CategoriesClient() {
   const [demoMode, setDemoMode] = useState(false)
   const [busyId, setBusyId] = useState<string | null>(null)
   const [errMsg, setErrMsg] = useState<string | null>(null)
+  // Category whose delete was refused because something still uses it
+  const [blockedId, setBlockedId] = useState<string | null>(null)
 
-  const sorted = useMemo(() => {
+  const { sorted, archived } = useMemo(() => {
     const list = (data ?? []).slice()
     list.sort((a, b) => (Number(b.is_favorite) - Number(a.is_favorite)) || a.name.localeCompare(b.name))
-    return list
+    const tree = flattenCategoryTree(buildCategoryTree(list))
+    return { sorted: tree.filter((c) => !c.archived_at), archived: tree.filter((c) => !!c.archived_at) }
   }, [data])
 
   const ensureLocalSeeded = useCallback(async () => {
@@ -141,7 +151,7 @@ export default function CategoriesClient() {
         if (res.status === 401) {
           // Offline/demo write
           const local = (await localforage.getItem<Category[]>(LF_KEY)) || []
-          const patched = local.map((c) => (c.id === cat.id ? { ...c, is_favorite: nextFav } : c))
+          const patched = local.map((c: Category) => (c.id === cat.id ? { ...c, is_favorite: nextFav } : c))
           await upsertLocal(patched)
           setDemoMode(true)
         } else {
@@ -156,10 +166,49 @@ export default function CategoriesClient() {
     }
   }
 
+  const handleArchive = async (cat: Category, archive: boolean) => {
+    if (!cat?.id) return
+    setErrMsg(null)
+    setBusyId(cat.id)
+    const previous = data ? [...data] : []
+    const archivedAt = archive ? new Date().toISOString() : null
+    await mutate((data || []).map((c) => (c.id === cat.id ? { ...c, archived_at: archivedAt } : c)), false)
+
+    try {
+      const res = await fetch(`/api/categories/${cat.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ archived: archive }),
+      })
+
+      if (!res.ok) {
+        if (res.status === 401) {
+          const local = (await localforage.getItem<Category[]>(LF_KEY)) || []
+          await upsertLocal(local.map((c: Category) => (c.id === cat.id ? { ...c, archived_at: archivedAt } : c)))
+          setDemoMode(true)
+        } else {
+          throw new Error((await res.text()) || (archive ? '보관하지 못했어요' : '복원하지 못했어요'))
+        }
+      } else {
+        // Subcategories (and, when restoring, parents) change with it
+        await mutate()
+      }
+    } catch (e: any) {
+      setErrMsg(e?.message || '보관 상태를 바꾸는 중 오류가 발생했어요')
+      await mutate(previous, false)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
   const handleDelete = async (cat: Category) => {
     if (!cat?.id) return
     setErrMsg(null)
-    const confirmed = window.confirm(`카테고리 \"${cat.name}\"를 삭제할까요? 이 작업은 되돌릴 수 없어요.`)
+    setBlockedId(null)
+    const confirmed = window.confirm(
+      `카테고리 \"${cat.name}\"를 삭제할까요? 이 작업은 되돌릴 수 없고, 지난 거래는 미분류가 돼요. 목록에서 숨기기만 하려면 보관을 사용하세요.`
+    )
     if (!confirmed) return
 
     setBusyId(cat.id)
@@ -177,12 +226,14 @@ export default function CategoriesClient() {
         if (res.status === 401) {
           // Offline/demo delete
           const local = (await localforage.getItem<Category[]>(LF_KEY)) || []
-          const filtered = local.filter((c) => c.id !== cat.id)
+          const filtered = local.filter((c: Category) => c.id !== cat.id)
           await upsertLocal(filtered)
           setDemoMode(true)
         } else if (res.status === 409) {
-          const msg = (await res.text()) || '이 카테고리는 프리셋에서 사용 중이어서 삭제할 수 없어요.'
+          const body = await res.json().catch(() => null)
+          const msg = body?.details || body?.error || '이 카테고리는 사용 중이어서 삭제할 수 없어요.'
           setErrMsg(msg)
+          setBlockedId(cat.id)
           await mutate(previous, false)
         } else {
           throw new Error((await res.text()) || '카테고리 삭제에 실패했어요')
@@ -232,7 +283,14 @@ export default function CategoriesClient() {
         <div className="mt-3">
           <Alert variant="destructive">
             <AlertTitle>문제가 발생했어요</AlertTitle>
-            <AlertDescription>{errMsg}</AlertDescription>
+            <AlertDescription>
+              {errMsg}
+              {blockedId && (
+                <Link href={`/(manage)/categories/${blockedId}/merge`} className="ml-1 font-medium underline underline-offset-2">
+                  다른 카테고리로 합치기
+                </Link>
+              )}
+            </AlertDescription>
           </Alert>
         </div>
       )}
@@ -274,7 +332,11 @@ export default function CategoriesClient() {
             const color = c.color || stringToColor(c.name)
             const initials = getInitials(c.name)
             return (
-              <li key={c.id} className="rounded-xl border border-border bg-card p-3 shadow-sm transition hover:shadow">
+              <li
+                key={c.id}
+                className="rounded-xl border border-border bg-card p-3 shadow-sm transition hover:shadow"
+                style={c.depth > 0 ? { marginLeft: c.depth * 20 } : undefined}
+              >
                 <div className="flex items-center justify-between gap-3">
                   <div className="flex min-w-0 items-center gap-3">
                     <div className="relative h-10 w-10 shrink-0 rounded-full" style={{ backgroundColor: color }}>
@@ -289,7 +351,9 @@ export default function CategoriesClient() {
                           <span className="rounded bg-amber-100 px-1.5 py-0.5 text-xs font-medium text-amber-800 dark:bg-amber-300/20 dark:text-amber-200">즐겨찾기</span>
                         )}
                       </div>
-                      <p className="text-xs text-muted-foreground">빠른 입력과 예산에 사용돼요</p>
+                      <p className="text-xs text-muted-foreground">
+                        {c.depth > 0 ? categoryPathLabel(c.path) : '빠른 입력과 예산에 사용돼요'}
+                      </p>
                     </div>
                   </div>
                   <div className="flex shrink-0 items-center gap-2">
@@ -317,6 +381,20 @@ export default function CategoriesClient() {
                       <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" className="h-4 w-4"><path d="M3 17.25V21h3.75L17.81 9.94l-3.75-3.75L3 17.25z"/><path d="M14.06 4.94l3.75 3.75"/></svg>
                       편집
                     </Link>
+                    <Link
+                      href={`/(manage)/categories/${c.id}/merge`}
+                      className="inline-flex h-9 items-center gap-1 rounded-md border border-border px-3 text-sm hover:bg-accent transition"
+                    >
+                      합치기
+                    </Link>
+                    <button
+                      type="button"
+                      onClick={() => handleArchive(c, true)}
+                      disabled={busyId === c.id}
+                      className="inline-flex h-9 items-center gap-1 rounded-md border border-border px-3 text-sm hover:bg-accent transition"
+                    >
+                      보관
+                    </button>
                     <button
                       type="button"
                       onClick={() => handleDelete(c)}
@@ -334,6 +412,28 @@ export default function CategoriesClient() {
         </ul>
       )}
 
+      {archived.length > 0 && (
+        <section className="mt-8">
+          <h2 className="text-sm font-medium text-muted-foreground">보관됨</h2>
+          <p className="mt-0.5 text-xs text-muted-foreground">선택 목록에서는 숨겨지지만 지난 거래와 리포트에는 그대로 표시돼요.</p>
+          <ul className="mt-3 space-y-2">
+            {archived.map((c) => (
+              <li key={c.id} className="flex items-center justify-between gap-3 rounded-xl border border-dashed border-border p-3">
+                <span className="min-w-0 truncate text-sm text-muted-foreground">{categoryPathLabel(c.path)}</span>
+                <button
+                  type="button"
+                  onClick={() => handleArchive(c, false)}
+                  disabled={busyId === c.id}
+                  className="inline-flex h-9 shrink-0 items-center rounded-md border border-border px-3 text-sm hover:bg-accent transition"
+                >
+                  복원
+                </button>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
       <div className="h-16" />
     </div>
   )
@@ -9,7 +9,9 @@ import localforage from 'localforage'
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible'
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
 import { Separator } from '@/components/ui/separator'
+import { CategoryOptions } from '@/components/category-options'
 import { cn } from '@/utils/utils'
+import { MAX_CATEGORY_LEVELS, buildCategoryTree, flattenCategoryTree } from '@/utils/category-tree'
 import { getSessionStatus } from './action'
 
 const schema = z.object({
@@ -17,6 +19,7 @@ const schema = z.object({
   icon: z.string().max(4).optional().or(z.literal('')),
   color: z.string().regex(/^#([0-9a-fA-F]{3}){1,2}$/).optional().or(z.literal('')),
   is_favorite: z.boolean().default(false),
+  parent_id: z.string().optional().or(z.literal('')),
 })
 
 type FormValues = z.infer<typeof schema>
@@ -27,6 +30,7 @@ type LocalCategory = {
   is_favorite: boolean
   icon?: string
   color?: string
+  parent_id?: string | null
   created_at: string
   updated_at: string
 }
@@ -47,6 +51,7 @@ export default function Client() {
       icon: '',
       color: '#2563EB',
       is_favorite: false,
+      parent_id: '',
     },
     mode: 'onChange',
   })
@@ -55,6 +60,25 @@ export default function Client() {
   const colorVal = watch('color')
   const favoriteVal = watch('is_favorite')
 
+  // Possible parents: any category that still has room for a level below it
+  const [parents, setParents] = React.useState<LocalCategory[]>([])
+  React.useEffect(() => {
+    let mounted = true
+    ;(async () => {
+      let list: LocalCategory[] = []
+      try {
+        const res = await fetch('/api/categories', { cache: 'no-store' })
+        if (res.ok) list = await res.json()
+        else list = (await localforage.getItem<LocalCategory[]>('tris.categories')) || []
+      } catch {
+        list = (await localforage.getItem<LocalCategory[]>('tris.categories')) || []
+      }
+      if (!mounted) return
+      setParents(flattenCategoryTree(buildCategoryTree(list)).filter((c) => c.depth < MAX_CATEGORY_LEVELS - 1))
+    })()
+    return () => { mounted = false }
+  }, [])
+
   React.useEffect(() => {
     let mounted = true
     ;(async () => {
@@ -82,9 +106,9 @@ export default function Client() {
     const payload = {
       name: values.name.trim(),
       is_favorite: !!values.is_favorite,
-      // Extra fields for future server support; ignored by current API, used in demo local storage
       icon: values.icon || undefined,
       color: values.color || undefined,
+      parent_id: values.parent_id || null,
     }
 
     try {
@@ -114,7 +138,7 @@ export default function Client() {
     }
   }
 
-  const saveLocalAndGo = async (payload: { name: string; is_favorite: boolean; icon?: string; color?: string }) => {
+  const saveLocalAndGo = async (payload: { name: string; is_favorite: boolean; icon?: string; color?: string; parent_id: string | null }) => {
     const id = crypto.randomUUID()
     const now = new Date().toISOString()
     const local: LocalCategory = {
@@ -123,6 +147,7 @@ export default function Client() {
       is_favorite: payload.is_favorite,
       icon: payload.icon,
       color: payload.color,
+      parent_id: payload.parent_id,
       created_at: now,
       updated_at: now,
     }
@@ -172,6 +197,21 @@ export default function Client() {
                 )}
               </div>
 
+              <div>
+                <label htmlFor="parent_id" className="block text-sm font-medium">Parent category</label>
+                <select
+                  id="parent_id"
+                  {...register('parent_id')}
+                  className="mt-1 w-full rounded-md border border-input bg-background px-3 py-2 text-sm outline-none ring-0 transition focus:border-primary focus:ring-2 focus:ring-primary/20"
+                >
+                  <option value="">None (top level)</option>
+                  <CategoryOptions categories={parents} />
+                </select>
+                <p className="mt-1 text-xs text-muted-foreground">
+                  Subcategories roll up into their parent in reports and budgets (up to {MAX_CATEGORY_LEVELS} levels).
+                </p>
+              </div>
+
               <div className="flex items-center justify-between rounded-md border border-dashed border-border/70 bg-background p-3">
                 <div className="flex items-center gap-3">
                   <div
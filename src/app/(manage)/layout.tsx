@@ -1,6 +1,6 @@
 /**
  * CODE INSIGHT
- * This code's use case is to provide a shared sub-layout for the Manage section (Categories, Tags, Presets),
+ * This code's use case is to provide a shared sub-layout for the Manage section (Categories, Tags, Payees, Presets),
  * offering a consistent header with a back button to the root dashboard, a segmented tab navigation, and a clean
  * container for nested pages. It avoids duplicating global headers and keeps the UI calm, mobile-first, and practical.
  * This code's full epic context is the Manage flow for categories/tags/presets with quick navigation to create
@@ -56,7 +56,7 @@ export default function ManageLayout({ children }: { children: React.ReactNode }
             <nav aria-label="Manage sections" className="w-full">
               <ul
                 role="tablist"
-                className="grid grid-cols-3 gap-1 p-1 rounded-lg bg-muted text-sm"
+                className="grid grid-cols-4 gap-1 p-1 rounded-lg bg-muted text-sm"
               >
                 <li role="presentation">
                   <Link
@@ -78,6 +78,16 @@ export default function ManageLayout({ children }: { children: React.ReactNode }
                     Tags
                   </Link>
                 </li>
+                <li role="presentation">
+                  <Link
+                    role="tab"
+                    href="/payees"
+                    className="block w-full text-center rounded-md px-3 py-2 font-medium text-muted-foreground hover:text-foreground hover:bg-background transition-colors"
+                    aria-label="Payees"
+                  >
+                    Payees
+                  </Link>
+                </li>
                 <li role="presentation">
                   <Link
                     role="tab"
@@ -101,7 +111,7 @@ export default function ManageLayout({ children }: { children: React.ReactNode }
 
       <footer className="max-w-3xl mx-auto px-4 pb-6 text-center text-xs text-muted-foreground">
         <p className="leading-relaxed">
-          Organized tools for quick entry and clean data. Adjust categories, tags, and presets here.
+          Organized tools for quick entry and clean data. Adjust categories, tags, payees, and presets here.
         </p>
       </footer>
     </div>
@@ -0,0 +1,11 @@
+'use server'
+
+/**
+ * CODE INSIGHT
+ * This action file is reserved for future server actions that the Payees page may call directly.
+ * The page talks to /api/payees so renames and merges report what they changed; no server action is required yet.
+ */
+
+export async function noop() {
+  return true
+}
@@ -0,0 +1,405 @@
+'use client'
+
+/**
+ * CODE INSIGHT
+ * This code's use case is a client-side page that lists, creates, edits and deletes payees with search.
+ * This code's full epic context is to adhere to the data flow: SWR GET /api/payees with debounced search, POST/PATCH/DELETE
+ * mutations, and a summary after saving (how many past rows a rename touched, which payees an alias merged in).
+ * This code's ui feel is sleek and focused with mobile-first layout, inline edit panels, and clear feedback via alerts.
+ */
+
+import React from 'react'
+import useSWR from 'swr'
+import Link from 'next/link'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { Skeleton } from '@/components/ui/skeleton'
+
+interface Payee {
+  id: string
+  name: string
+  aliases: string[]
+  default_category_id: string | null
+  default_category: { id: string; name: string } | null
+  default_payment_method: string | null
+  default_tag_names: string[]
+  transaction_count: number
+}
+
+interface Category {
+  id: string
+  name: string
+}
+
+type Draft = {
+  name: string
+  aliases: string
+  default_category_id: string
+  default_payment_method: string
+  default_tag_names: string
+}
+
+const PAYMENT_METHODS: { value: string; label: string }[] = [
+  { value: 'card', label: '카드' },
+  { value: 'cash', label: '현금' },
+  { value: 'bank_transfer', label: '계좌이체' },
+  { value: 'mobile', label: '모바일' },
+  { value: 'other', label: '기타' },
+]
+
+const fetcher = async (url: string) => {
+  const res = await fetch(url, { credentials: 'include' })
+  if (!res.ok) {
+    const err: any = new Error('Request failed')
+    err.status = res.status
+    throw err
+  }
+  return res.json()
+}
+
+function useDebounced<T>(value: T, delay = 250) {
+  const [debounced, setDebounced] = React.useState(value)
+  React.useEffect(() => {
+    const t = setTimeout(() => setDebounced(value), delay)
+    return () => clearTimeout(t)
+  }, [value, delay])
+  return debounced
+}
+
+function splitList(value: string) {
+  return value
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean)
+}
+
+async function readError(res: Response) {
+  const body = await res.json().catch(() => null)
+  if (res.status === 409 && Array.isArray(body?.details)) return `이미 다른 가맹점이 쓰는 이름이에요: ${body.details.join(', ')}`
+  return body?.error || `요청이 실패했어요. (${res.status})`
+}
+
+function toDraft(p: Payee): Draft {
+  return {
+    name: p.name,
+    aliases: p.aliases.join(', '),
+    default_category_id: p.default_category_id ?? '',
+    default_payment_method: p.default_payment_method ?? '',
+    default_tag_names: p.default_tag_names.join(', '),
+  }
+}
+
+export default function PayeesPage() {
+  const [query, setQuery] = React.useState('')
+  const debouncedQuery = useDebounced(query)
+  const [newName, setNewName] = React.useState('')
+  const [newAliases, setNewAliases] = React.useState('')
+  const [creating, setCreating] = React.useState(false)
+  const [editingId, setEditingId] = React.useState<string | null>(null)
+  const [draft, setDraft] = React.useState<Draft | null>(null)
+  const [busyId, setBusyId] = React.useState<string | null>(null)
+  const [message, setMessage] = React.useState<string | null>(null)
+  const [errorMsg, setErrorMsg] = React.useState<string | null>(null)
+
+  const key = React.useMemo(() => `/api/payees${debouncedQuery ? `?search=${encodeURIComponent(debouncedQuery)}` : ''}`, [debouncedQuery])
+  const { data, error, isLoading, mutate } = useSWR<Payee[]>(key, fetcher)
+  const { data: categories } = useSWR<Category[]>(editingId ? '/api/categories' : null, fetcher, { revalidateOnFocus: false })
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setErrorMsg(null)
+    setMessage(null)
+    const name = newName.trim()
+    if (!name) {
+      setErrorMsg('가맹점 이름을 입력하세요.')
+      return
+    }
+    setCreating(true)
+    try {
+      const res = await fetch('/api/payees', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, aliases: splitList(newAliases) }),
+      })
+      if (!res.ok) throw new Error(await readError(res))
+      const created = await res.json()
+      setNewName('')
+      setNewAliases('')
+      setMessage(
+        created.merged_payee_ids?.length
+          ? `"${created.name}"을(를) 만들고 가맹점 ${created.merged_payee_ids.length}곳을 합쳤어요.`
+          : `"${created.name}"을(를) 추가했어요.`
+      )
+      mutate()
+    } catch (err: any) {
+      setErrorMsg(err?.message || '저장 중 오류가 발생했어요.')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const startEdit = (p: Payee) => {
+    setEditingId(p.id)
+    setDraft(toDraft(p))
+    setErrorMsg(null)
+    setMessage(null)
+  }
+
+  const handleSave = async (p: Payee) => {
+    if (!draft) return
+    const name = draft.name.trim()
+    if (!name) {
+      setErrorMsg('가맹점 이름을 입력하세요.')
+      return
+    }
+    setBusyId(p.id)
+    setErrorMsg(null)
+    try {
+      const res = await fetch(`/api/payees/${p.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          aliases: splitList(draft.aliases),
+          default_category_id: draft.default_category_id || null,
+          default_payment_method: draft.default_payment_method || null,
+          default_tag_names: splitList(draft.default_tag_names),
+        }),
+      })
+      if (!res.ok) throw new Error(await readError(res))
+      const saved = await res.json()
+      const parts = ['저장했어요.']
+      if (saved.renamed_rows > 0) parts.push(`지난 기록 ${saved.renamed_rows}건의 이름을 바꿨어요.`)
+      if (saved.merged_payee_ids?.length) parts.push(`가맹점 ${saved.merged_payee_ids.length}곳을 합쳤어요.`)
+      setMessage(parts.join(' '))
+      setEditingId(null)
+      setDraft(null)
+      mutate()
+    } catch (err: any) {
+      setErrorMsg(err?.message || '저장 중 오류가 발생했어요.')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleDelete = async (p: Payee) => {
+    if (!confirm(`"${p.name}"을(를) 삭제할까요? 지난 거래의 가맹점 이름은 그대로 남아요.`)) return
+    setBusyId(p.id)
+    setErrorMsg(null)
+    try {
+      const res = await fetch(`/api/payees/${p.id}`, { method: 'DELETE' })
+      if (!res.ok && res.status !== 404) throw new Error(await readError(res))
+      mutate((curr) => curr?.filter((x) => x.id !== p.id), false)
+      if (editingId === p.id) setEditingId(null)
+    } catch (err: any) {
+      setErrorMsg(err?.message || '삭제 중 오류가 발생했어요.')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const inputClass =
+    'w-full rounded-lg border border-input bg-background px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-ring'
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold tracking-tight">가맹점</h2>
+          <p className="text-sm text-muted-foreground">같은 가게의 여러 표기를 별칭으로 묶고 기본값을 정하세요.</p>
+        </div>
+        <Link href="/reports/payees" className="shrink-0 text-sm text-primary hover:underline">
+          가맹점별 지출 →
+        </Link>
+      </div>
+
+      <form onSubmit={handleCreate} className="rounded-xl border border-border bg-card p-3 space-y-2">
+        <div className="grid gap-2 sm:grid-cols-2">
+          <input
+            aria-label="새 가맹점 이름"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="가맹점 이름 (예: 스타벅스)"
+            className={inputClass}
+            maxLength={200}
+          />
+          <input
+            aria-label="별칭"
+            value={newAliases}
+            onChange={(e) => setNewAliases(e.target.value)}
+            placeholder="별칭, 쉼표로 구분 (예: Starbucks, STARBUCKS KOREA)"
+            className={inputClass}
+          />
+        </div>
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-xs text-muted-foreground">다른 가맹점 이름을 별칭으로 넣으면 그 가맹점이 합쳐져요.</p>
+          <button
+            type="submit"
+            disabled={creating}
+            className="shrink-0 inline-flex items-center rounded-lg bg-primary px-3 py-2 text-sm font-medium text-primary-foreground hover:opacity-90 disabled:opacity-50"
+          >
+            {creating ? '추가 중…' : '추가'}
+          </button>
+        </div>
+      </form>
+
+      <input
+        type="search"
+        aria-label="가맹점 검색"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="이름 또는 별칭으로 검색"
+        className={inputClass}
+      />
+
+      {message && (
+        <div role="status" className="rounded-lg border border-border bg-muted/50 px-3 py-2 text-sm">
+          {message}
+        </div>
+      )}
+      {errorMsg && (
+        <Alert className="border-destructive/30">
+          <AlertTitle>문제가 생겼어요</AlertTitle>
+          <AlertDescription>{errorMsg}</AlertDescription>
+        </Alert>
+      )}
+
+      {error ? (
+        <Alert className="border-destructive/30">
+          <AlertTitle>가맹점을 불러오지 못했어요</AlertTitle>
+          <AlertDescription>
+            <button onClick={() => mutate()} className="mt-2 text-sm text-primary hover:underline">
+              다시 시도
+            </button>
+          </AlertDescription>
+        </Alert>
+      ) : isLoading ? (
+        <div className="space-y-2" aria-hidden>
+          {Array.from({ length: 5 }).map((_, i) => (
+            <Skeleton key={i} className="h-16 w-full rounded-xl" />
+          ))}
+        </div>
+      ) : (data || []).length === 0 ? (
+        <div className="rounded-xl border border-dashed border-border p-6 text-center text-sm text-muted-foreground">
+          {debouncedQuery ? '검색 결과가 없어요.' : '아직 가맹점이 없어요. 거래를 추가하면 자동으로 생겨요.'}
+        </div>
+      ) : (
+        <ul className="space-y-2">
+          {(data || []).map((p) => {
+            const editing = editingId === p.id && draft
+            const busy = busyId === p.id
+            return (
+              <li key={p.id} className="rounded-xl border border-border bg-card p-3">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="font-medium truncate">{p.name}</div>
+                    <div className="mt-0.5 text-xs text-muted-foreground">
+                      거래 {p.transaction_count.toLocaleString('ko-KR')}건
+                      {p.default_category && ` · ${p.default_category.name}`}
+                      {p.default_payment_method &&
+                        ` · ${PAYMENT_METHODS.find((m) => m.value === p.default_payment_method)?.label ?? p.default_payment_method}`}
+                      {p.default_tag_names.length > 0 && ` · #${p.default_tag_names.join(' #')}`}
+                    </div>
+                    {p.aliases.length > 0 && (
+                      <div className="mt-1.5 flex flex-wrap gap-1">
+                        {p.aliases.map((a) => (
+                          <span key={a} className="rounded-full bg-muted px-2 py-0.5 text-xs text-muted-foreground">
+                            {a}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex shrink-0 items-center gap-1">
+                    <button
+                      onClick={() => (editing ? setEditingId(null) : startEdit(p))}
+                      disabled={busy}
+                      className="rounded-lg border border-border px-2.5 py-1 text-xs font-medium hover:bg-accent disabled:opacity-50"
+                    >
+                      {editing ? '닫기' : '편집'}
+                    </button>
+                    <button
+                      onClick={() => handleDelete(p)}
+                      disabled={busy}
+                      className="rounded-lg border border-border px-2.5 py-1 text-xs font-medium text-destructive hover:bg-destructive/10 disabled:opacity-50"
+                    >
+                      삭제
+                    </button>
+                  </div>
+                </div>
+
+                {editing && (
+                  <div className="mt-3 grid gap-2 border-t border-border pt-3 sm:grid-cols-2">
+                    <label className="space-y-1 text-xs font-medium">
+                      <span>이름 (바꾸면 지난 거래에도 반영돼요)</span>
+                      <input
+                        value={draft.name}
+                        onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                        className={inputClass}
+                        maxLength={200}
+                      />
+                    </label>
+                    <label className="space-y-1 text-xs font-medium">
+                      <span>별칭 (쉼표로 구분)</span>
+                      <input
+                        value={draft.aliases}
+                        onChange={(e) => setDraft({ ...draft, aliases: e.target.value })}
+                        className={inputClass}
+                      />
+                    </label>
+                    <label className="space-y-1 text-xs font-medium">
+                      <span>기본 카테고리</span>
+                      <select
+                        value={draft.default_category_id}
+                        onChange={(e) => setDraft({ ...draft, default_category_id: e.target.value })}
+                        className={inputClass}
+                      >
+                        <option value="">없음</option>
+                        {(categories || []).map((c) => (
+                          <option key={c.id} value={c.id}>
+                            {c.name}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                    <label className="space-y-1 text-xs font-medium">
+                      <span>기본 결제수단</span>
+                      <select
+                        value={draft.default_payment_method}
+                        onChange={(e) => setDraft({ ...draft, default_payment_method: e.target.value })}
+                        className={inputClass}
+                      >
+                        <option value="">없음</option>
+                        {PAYMENT_METHODS.map((m) => (
+                          <option key={m.value} value={m.value}>
+                            {m.label}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                    <label className="space-y-1 text-xs font-medium sm:col-span-2">
+                      <span>기본 태그 (쉼표로 구분)</span>
+                      <input
+                        value={draft.default_tag_names}
+                        onChange={(e) => setDraft({ ...draft, default_tag_names: e.target.value })}
+                        className={inputClass}
+                      />
+                    </label>
+                    <div className="flex justify-end sm:col-span-2">
+                      <button
+                        onClick={() => handleSave(p)}
+                        disabled={busy}
+                        className="inline-flex items-center rounded-lg bg-primary px-3 py-2 text-sm font-medium text-primary-foreground hover:opacity-90 disabled:opacity-50"
+                      >
+                        {busy ? '저장 중…' : '저장'}
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
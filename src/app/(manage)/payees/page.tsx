@@ -0,0 +1,18 @@
+/**
+ * CODE INSIGHT
+ * This code's use case is the Payees page within the Manage section: a searchable list of canonical payees where each
+ * can be renamed, given aliases, and given a default category, tags and payment method.
+ * This code's full epic context is first-class payees backed by /api/payees; renames propagate to past transactions and
+ * adding another payee's name as an alias merges the two.
+ * This code's ui feel is clean, minimal, and mobile-first with inline editing and clear feedback after each save.
+ */
+
+import Client from './client'
+
+export default async function Page() {
+  return (
+    <div className="w-full">
+      <Client />
+    </div>
+  )
+}
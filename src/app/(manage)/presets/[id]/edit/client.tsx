@@ -16,6 +16,7 @@ import { useForm } from 'react-hook-form'
 import { z } from 'zod'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { CategoryOptions } from '@/components/category-options'
 
 class HTTPError extends Error {
   status: number
@@ -53,6 +54,8 @@ interface Category {
   id: string
   name: string
   is_favorite: boolean
+  parent_id?: string | null
+  archived_at?: string | null
 }
 interface Tag {
   id: string
@@ -164,7 +167,8 @@ export default function Client({ presetId }: { presetId: string }) {
   const [loadingLocal, setLoadingLocal] = useState(false)
 
   const presetKey = `/api/presets/${presetId}`
-  const catsKey = `/api/categories`
+  // Archived categories are fetched too, but only offered when this preset already uses one
+  const catsKey = `/api/categories?include_archived=1`
 
   const { data: presetData, error: presetError } = useSWR<PresetData>(presetKey, fetcher, {
     revalidateOnFocus: false,
@@ -205,7 +209,10 @@ export default function Client({ presetId }: { presetId: string }) {
     },
   })
 
-  const sortedCategories = useMemo(() => (categories ? orderCategories(categories) : []), [categories])
+  const sortedCategories = useMemo(
+    () => (categories ? orderCategories(categories.filter((c) => !c.archived_at || c.id === presetData?.category_id)) : []),
+    [categories, presetData?.category_id],
+  )
 
   const form = useForm<PresetFormValues>({
     resolver: zodResolver(presetSchema),
@@ -448,12 +455,7 @@ export default function Client({ presetId }: { presetId: string }) {
                     {...register('category_id')}
                   >
                     <option value="">선택 안 함</option>
-                    {sortedCategories.map((c) => (
-                      <option key={c.id} value={c.id}>
-                        {c.is_favorite ? '★ ' : ''}
-                        {c.name}
-                      </option>
-                    ))}
+                    <CategoryOptions categories={sortedCategories} prefix={(c) => (c.is_favorite ? '★ ' : '')} />
                   </select>
                 </div>
               </div>
@@ -17,6 +17,7 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { Alert, AlertTitle, AlertDescription } from '@/components/ui/alert';
 import { Separator } from '@/components/ui/separator';
 import { Skeleton } from '@/components/ui/skeleton';
+import { CategoryOptions } from '@/components/category-options';
 
 // LocalForage keys
 const LF_CATEGORIES = 'tris.categories';
@@ -28,6 +29,8 @@ interface Category {
   id: string;
   name: string;
   is_favorite: boolean;
+  parent_id?: string | null;
+  path?: string;
   created_at?: string;
   updated_at?: string;
 }
@@ -154,12 +157,8 @@ export default function Client() {
     }
   }, [catError, mutateCategories]);
 
-  const favoritesFirst = useMemo(() => {
-    const list = categories || [];
-    const favs = list.filter((c) => c.is_favorite);
-    const rest = list.filter((c) => !c.is_favorite);
-    return { favs, rest };
-  }, [categories]);
+  // Favorites are a flat shortcut list (shown by full path); "All categories" keeps the whole tree, favorites included
+  const favorites = useMemo(() => (categories || []).filter((c) => c.is_favorite), [categories]);
 
   const [tagInput, setTagInput] = useState('');
   const [tagSuggestions, setTagSuggestions] = useState<Tag[]>([]);
@@ -411,17 +410,15 @@ export default function Client() {
                     onChange={(e) => form.setValue('category_id', e.target.value || undefined, { shouldDirty: true })}
                   >
                     <option value="">No category</option>
-                    {favoritesFirst.favs.length > 0 && (
+                    {favorites.length > 0 && (
                       <optgroup label="★ Favorites">
-                        {favoritesFirst.favs.map((c) => (
-                          <option key={c.id} value={c.id}>{c.name}</option>
+                        {favorites.map((c) => (
+                          <option key={`fav-${c.id}`} value={c.id}>{c.path || c.name}</option>
                         ))}
                       </optgroup>
                     )}
                     <optgroup label="All categories">
-                      {favoritesFirst.rest.map((c) => (
-                        <option key={c.id} value={c.id}>{c.name}</option>
-                      ))}
+                      <CategoryOptions categories={categories} />
                     </optgroup>
                   </select>
                 )}
@@ -129,7 +129,7 @@ export function EditTagClient({ tagId }: { tagId: string }) {
 
       const updated: Tag = await res.json()
       await mutate(updated, false)
-      await globalMutate('/api/tags')
+      await globalMutate('/api/tags?include_archived=1')
       router.push('/(manage)/tags')
       return
     } catch (e: any) {
@@ -149,7 +149,7 @@ export function EditTagClient({ tagId }: { tagId: string }) {
         const updatedLocal = tags.find((t) => t.id === tagId) || null
         if (updatedLocal) {
           await globalMutate(`/api/tags/${tagId}`, updatedLocal, false)
-          await globalMutate('/api/tags', tags, false)
+          await globalMutate('/api/tags?include_archived=1', tags, false)
         }
         setDemoMode(true)
         router.push('/(manage)/tags')
@@ -0,0 +1,193 @@
+'use client'
+
+/**
+ * CODE INSIGHT
+ * This client component powers the Merge Tag page. It lists the tags from /api/tags, runs POST /api/tags/[id]/merge with
+ * dry_run whenever a target is picked to show what would be re-tagged, and only merges after the user confirms those
+ * counts. Archived tags can be merged away but are not offered as targets.
+ */
+
+import { useEffect, useMemo, useState } from 'react'
+import useSWR, { mutate as globalMutate } from 'swr'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { Skeleton } from '@/components/ui/skeleton'
+import type { TagMergeCounts } from '@/utils/tag-merge'
+
+type Tag = { id: string; name: string; archived_at?: string | null }
+
+const TAGS_KEY = '/api/tags?include_archived=1'
+
+const COUNT_LABELS: [keyof TagMergeCounts, string][] = [
+  ['transactions', '거래'],
+  ['split_lines', '분할 항목'],
+  ['presets', '프리셋'],
+  ['payee_defaults', '거래처 기본 태그'],
+  ['already_tagged', '이미 두 태그가 모두 붙은 항목'],
+]
+
+const fetcher = async (url: string) => {
+  const res = await fetch(url, { cache: 'no-store' })
+  if (!res.ok) throw new Error(`Request failed: ${res.status}`)
+  return res.json()
+}
+
+async function requestMerge(id: string, targetId: string, dryRun: boolean) {
+  const res = await fetch(`/api/tags/${id}/merge`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ target_id: targetId, dry_run: dryRun }),
+  })
+  const body = await res.json().catch(() => null)
+  if (!res.ok) throw new Error(body?.details || body?.error || '태그를 합치지 못했어요')
+  return body as { counts: TagMergeCounts }
+}
+
+export default function Client({ id }: { id: string }) {
+  const router = useRouter()
+  const { data: tags, error: loadError, isLoading } = useSWR<Tag[]>(TAGS_KEY, fetcher, { revalidateOnFocus: false })
+  const [targetId, setTargetId] = useState('')
+  const [preview, setPreview] = useState<TagMergeCounts | null>(null)
+  const [previewing, setPreviewing] = useState(false)
+  const [merging, setMerging] = useState(false)
+  const [errMsg, setErrMsg] = useState<string | null>(null)
+
+  const source = useMemo(() => (tags || []).find((t) => t.id === id), [tags, id])
+  const targets = useMemo(
+    () => (tags || []).filter((t) => t.id !== id && !t.archived_at).sort((a, b) => a.name.localeCompare(b.name)),
+    [tags, id],
+  )
+
+  useEffect(() => {
+    setPreview(null)
+    setErrMsg(null)
+    if (!targetId) return
+    let cancelled = false
+    setPreviewing(true)
+    requestMerge(id, targetId, true)
+      .then((body) => {
+        if (!cancelled) setPreview(body.counts)
+      })
+      .catch((e: any) => {
+        if (!cancelled) setErrMsg(e?.message || '미리보기를 불러오지 못했어요')
+      })
+      .finally(() => {
+        if (!cancelled) setPreviewing(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [id, targetId])
+
+  const handleMerge = async () => {
+    if (!targetId || !preview) return
+    setMerging(true)
+    setErrMsg(null)
+    try {
+      await requestMerge(id, targetId, false)
+      await globalMutate(TAGS_KEY)
+      router.push('/(manage)/tags')
+    } catch (e: any) {
+      setErrMsg(e?.message || '태그를 합치지 못했어요')
+      setMerging(false)
+    }
+  }
+
+  const target = targets.find((t) => t.id === targetId)
+  const nothingToMove = preview !== null && Object.values(preview).every((n) => n === 0)
+
+  return (
+    <div className="mx-auto w-full max-w-xl px-4 py-6 md:py-8">
+      <div className="space-y-1">
+        <h1 className="text-xl font-semibold tracking-tight md:text-2xl">태그 합치기</h1>
+        <p className="text-sm text-muted-foreground">
+          {source ? `"${source.name}"` : '이 태그'}가 붙은 거래·프리셋을 다른 태그로 옮기고 삭제해요.
+        </p>
+      </div>
+
+      {loadError && (
+        <div className="mt-4">
+          <Alert variant="destructive">
+            <AlertTitle>태그를 불러오지 못했어요</AlertTitle>
+            <AlertDescription>네트워크 연결을 확인한 뒤 다시 시도해 주세요.</AlertDescription>
+          </Alert>
+        </div>
+      )}
+
+      {!isLoading && tags && !source && (
+        <div className="mt-4">
+          <Alert>
+            <AlertTitle>태그를 찾을 수 없어요</AlertTitle>
+            <AlertDescription>이미 삭제되었거나 합쳐졌을 수 있어요.</AlertDescription>
+          </Alert>
+        </div>
+      )}
+
+      <div className="mt-5 rounded-xl border border-border bg-card p-4 shadow-sm space-y-4">
+        {isLoading && !tags ? (
+          <Skeleton className="h-10 w-full rounded-md" />
+        ) : (
+          <div className="space-y-1.5">
+            <label htmlFor="target" className="text-sm font-medium">합칠 대상</label>
+            <select
+              id="target"
+              value={targetId}
+              onChange={(e) => setTargetId(e.target.value)}
+              disabled={!source || merging}
+              className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm outline-none transition focus:border-primary focus:ring-2 focus:ring-primary/20"
+            >
+              <option value="">태그 선택</option>
+              {targets.map((t) => (
+                <option key={t.id} value={t.id}>
+                  {t.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {previewing && <Skeleton className="h-32 w-full rounded-md" />}
+
+        {preview && !previewing && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">{target ? `"${target.name}"` : '대상'}(으)로 옮겨지는 항목</p>
+            <ul className="divide-y divide-border rounded-lg border border-border text-sm">
+              {COUNT_LABELS.map(([key, label]) => (
+                <li key={key} className="flex items-center justify-between px-3 py-2">
+                  <span className="text-muted-foreground">{label}</span>
+                  <span className="font-medium tabular-nums">{preview[key].toLocaleString('ko-KR')}</span>
+                </li>
+              ))}
+            </ul>
+            {nothingToMove && <p className="text-xs text-muted-foreground">옮길 항목이 없어요. 태그만 삭제돼요.</p>}
+          </div>
+        )}
+
+        {errMsg && (
+          <Alert variant="destructive">
+            <AlertTitle>문제가 발생했어요</AlertTitle>
+            <AlertDescription>{errMsg}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex items-center justify-end gap-2">
+          <Link
+            href="/(manage)/tags"
+            className="inline-flex h-9 items-center rounded-md border border-border px-3 text-sm hover:bg-accent transition"
+          >
+            취소
+          </Link>
+          <button
+            type="button"
+            onClick={handleMerge}
+            disabled={!preview || previewing || merging}
+            className="inline-flex h-9 items-center rounded-md bg-destructive px-3 text-sm font-medium text-destructive-foreground transition hover:bg-destructive/90 disabled:opacity-50"
+          >
+            {merging ? '합치는 중…' : '합치고 삭제'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
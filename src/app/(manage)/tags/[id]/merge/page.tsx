@@ -0,0 +1,13 @@
+/**
+ * CODE INSIGHT
+ * This code's use case is the Merge Tag page for Tris: pick another tag, review how many transactions, split lines,
+ * presets and payee defaults would be re-tagged, then merge and delete this one.
+ * This code's full epic context is the Manage > Tags flow, for folding near-duplicate tags together.
+ * This code's ui feel is calm and explicit: nothing moves until the counts have been shown and confirmed.
+ */
+
+import Client from './client'
+
+export default async function Page({ params }: { params: { id: string } }) {
+  return <Client id={params.id} />
+}
@@ -2,7 +2,10 @@
 
 /**
  * CODE INSIGHT
- * This code's use case is a client-side page that lists, creates, renames, and deletes tags with search and offline fallback.
+ * This code's use case is a client-side page that lists, creates, renames, archives, and deletes tags with search and offline fallback.
+ * Archived tags (PATCH { archived }) drop out of suggestions and are listed under their own heading, where they can be restored.
+ * Each tag shows its usage and spend from GET /api/tags/stats (usage count, last used, total and the last months' spend),
+ * and links to ./[id]/merge to fold near-duplicates together.
  * This code's full epic context is to adhere to the data flow: SWR GET /api/tags with debounced search, POST/PUT/DELETE mutations, and localForage fallback on 401/offline.
  * This code's ui feel is sleek and focused with mobile-first layout, subtle animations, and clear feedback via alerts and inline states.
  */
@@ -15,17 +18,28 @@ import localforage from 'localforage'
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
 import { Separator } from '@/components/ui/separator'
 import { Skeleton } from '@/components/ui/skeleton'
+import { formatMoney } from '@/utils/currency'
 
 // Types
 interface Tag {
   id: string
   name: string
   is_favorite?: boolean
+  archived_at?: string | null
   usage_count?: number
   created_at?: string
   updated_at?: string
 }
 
+interface TagStats {
+  tag_id: string
+  usage_count: number
+  last_used_at: string | null
+  total_spend: number
+  monthly: { month: string; spend: number }[]
+  currency: string
+}
+
 const TAGS_KEY = 'tris.tags'
 
 const fetcher = async (url: string) => {
@@ -77,13 +91,16 @@ export default function TagsPage() {
   const [editValue, setEditValue] = React.useState('')
   const [savingId, setSavingId] = React.useState<string | null>(null)
   const [deletingId, setDeletingId] = React.useState<string | null>(null)
+  const [archivingId, setArchivingId] = React.useState<string | null>(null)
 
   React.useEffect(() => {
     seedLocalIfEmpty().then(setLocalTags).catch(() => setLocalTags([]))
   }, [])
 
-  const key = React.useMemo(() => `/api/tags${debouncedQuery ? `?search=${encodeURIComponent(debouncedQuery)}` : ''}`,[debouncedQuery])
+  const key = React.useMemo(() => `/api/tags?include_archived=1${debouncedQuery ? `&search=${encodeURIComponent(debouncedQuery)}` : ''}`,[debouncedQuery])
   const { data, error, isLoading, mutate } = useSWR<Tag[]>(key, fetcher)
+  const { data: statsData } = useSWR<{ items: TagStats[] }>(demoMode ? null : '/api/tags/stats', fetcher, { revalidateOnFocus: false })
+  const statsById = React.useMemo(() => new Map((statsData?.items || []).map(s => [s.tag_id, s])), [statsData])
 
   React.useEffect(() => {
     if (error && ((error as any).status === 401 || !navigator.onLine)) {
@@ -96,7 +113,7 @@ export default function TagsPage() {
     }
   }, [error])
 
-  const displayedTags: Tag[] | undefined = React.useMemo(() => {
+  const visibleTags: Tag[] | undefined = React.useMemo(() => {
     if (demoMode) {
       const list = localTags || []
       if (!debouncedQuery) return list
@@ -105,6 +122,8 @@ export default function TagsPage() {
     }
     return data
   }, [demoMode, localTags, data, debouncedQuery])
+  const displayedTags = React.useMemo(() => visibleTags?.filter(t => !t.archived_at), [visibleTags])
+  const archivedTags = React.useMemo(() => visibleTags?.filter(t => !!t.archived_at) ?? [], [visibleTags])
 
   const refreshLocal = async (updater: (prev: Tag[]) => Tag[]) => {
     const current = (await localforage.getItem<Tag[]>(TAGS_KEY)) || []
@@ -209,6 +228,32 @@ export default function TagsPage() {
     }
   }
 
+  const handleArchive = async (tag: Tag, archive: boolean) => {
+    setArchivingId(tag.id)
+    setErrorMsg(null)
+    const archivedAt = archive ? new Date().toISOString() : null
+    try {
+      const res = await fetch(`/api/tags/${tag.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ archived: archive }),
+      })
+      if (res.ok) {
+        await mutate(current => (current ? current.map(t => (t.id === tag.id ? { ...t, archived_at: archivedAt } : t)) : current), { revalidate: false })
+        return
+      }
+      if (res.status === 401) throw new Error('unauth')
+      setErrorMsg(archive ? '보관에 실패했습니다.' : '복원에 실패했습니다.')
+    } catch {
+      // Offline fallback
+      setDemoMode(true)
+      await refreshLocal(prev => prev.map(t => (t.id === tag.id ? { ...t, archived_at: archivedAt, updated_at: new Date().toISOString() } : t)))
+    } finally {
+      setArchivingId(null)
+    }
+  }
+
   const handleDelete = async (tag: Tag) => {
     if (!confirm(`태그 \"${tag.name}\"을(를) 삭제할까요?`)) return
     setDeletingId(tag.id)
@@ -219,6 +264,10 @@ export default function TagsPage() {
         return
       }
       if (res.status === 401) throw new Error('unauth')
+      if (res.status === 409) {
+        setErrorMsg('사용 중인 태그는 삭제할 수 없습니다. 다른 태그로 합치거나 보관하세요.')
+        return
+      }
       setErrorMsg('삭제에 실패했습니다.')
     } catch {
       // Offline fallback
@@ -327,12 +376,7 @@ export default function TagsPage() {
                       aria-label={`태그 ${tag.name} 이름 편집`}
                     />
                   ) : (
-                    <>
-                      <span className="truncate text-sm font-medium text-foreground">{tag.name}</span>
-                      {typeof tag.usage_count === 'number' && (
-                        <span className="shrink-0 rounded-full bg-muted px-2 py-0.5 text-xs text-muted-foreground">{tag.usage_count}</span>
-                      )}
-                    </>
+                    <TagSummary tag={tag} stats={statsById.get(tag.id)} />
                   )}
                 </div>
                 <div className="flex items-center gap-2">
@@ -351,6 +395,19 @@ export default function TagsPage() {
                       이름 변경
                     </button>
                   )}
+                  <Link
+                    href={`/(manage)/tags/${tag.id}/merge`}
+                    className="rounded-md border border-border px-3 py-1.5 text-xs hover:bg-accent hover:text-accent-foreground"
+                  >
+                    합치기
+                  </Link>
+                  <button
+                    onClick={() => handleArchive(tag, true)}
+                    disabled={archivingId === tag.id}
+                    className="rounded-md border border-border px-3 py-1.5 text-xs hover:bg-accent hover:text-accent-foreground disabled:opacity-50"
+                  >
+                    보관
+                  </button>
                   <button
                     onClick={() => handleDelete(tag)}
                     disabled={deletingId === tag.id}
@@ -366,6 +423,27 @@ export default function TagsPage() {
           )}
         </ul>
 
+        {archivedTags.length > 0 && (
+          <div className="mt-6">
+            <h2 className="text-sm font-medium text-muted-foreground">보관된 태그</h2>
+            <p className="mt-0.5 text-xs text-muted-foreground">추천 목록에서는 빠지지만, 이미 붙인 거래에는 그대로 남아 있습니다.</p>
+            <ul className="mt-2 divide-y divide-border rounded-lg border border-dashed border-border">
+              {archivedTags.map((tag) => (
+                <li key={tag.id} className="flex items-center gap-3 px-3 py-2.5 sm:px-4">
+                  <span className="min-w-0 flex-1 truncate text-sm text-muted-foreground">{tag.name}</span>
+                  <button
+                    onClick={() => handleArchive(tag, false)}
+                    disabled={archivingId === tag.id}
+                    className="rounded-md border border-border px-3 py-1.5 text-xs hover:bg-accent hover:text-accent-foreground disabled:opacity-50"
+                  >
+                    복원
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         <div className="mt-6 text-center text-xs text-muted-foreground">
           태그는 거래 입력 시 빠른 분류에 사용됩니다.
         </div>
@@ -373,3 +451,36 @@ export default function TagsPage() {
     </main>
   )
 }
+
+function TagSummary({ tag, stats }: { tag: Tag; stats?: TagStats }) {
+  const usage = stats?.usage_count ?? tag.usage_count
+  const peak = Math.max(1, ...(stats?.monthly || []).map(m => m.spend))
+  return (
+    <div className="min-w-0 flex-1">
+      <div className="flex items-center gap-2">
+        <span className="truncate text-sm font-medium text-foreground">{tag.name}</span>
+        {typeof usage === 'number' && (
+          <span className="shrink-0 rounded-full bg-muted px-2 py-0.5 text-xs text-muted-foreground">{usage}</span>
+        )}
+      </div>
+      {stats && stats.usage_count > 0 && (
+        <div className="mt-1 flex items-center gap-3">
+          <p className="truncate text-xs text-muted-foreground">
+            {`총 ${formatMoney(stats.total_spend, stats.currency)}`}
+            {stats.last_used_at && ` · 최근 ${new Date(stats.last_used_at).toLocaleDateString('ko-KR')}`}
+          </p>
+          <div className="flex h-4 shrink-0 items-end gap-0.5" aria-label="월별 지출">
+            {stats.monthly.map(m => (
+              <span
+                key={m.month}
+                title={`${m.month}: ${formatMoney(m.spend, stats.currency)}`}
+                className="w-1.5 rounded-sm bg-primary/60"
+                style={{ height: `${Math.max(8, (Math.max(0, m.spend) / peak) * 100)}%` }}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,227 @@
+/**
+ * CODE INSIGHT
+ * This code's use case is to provide the single Account API for Tris: read an account with its running-balance
+ * ledger, update its name/type/currency/opening balance, and delete it.
+ * This code's full epic context is the Accounts flow; the ledger lists the account's transactions newest first, ?limit=
+ * at a time with a ?cursor= for the next page, and each entry carries the balance right after it (opening balance plus
+ * every transaction up to and including it, in the primary currency).
+ * Deleting an account leaves its transactions in place with account_id cleared (ON DELETE SET NULL).
+ * This code's ui feel is not applicable (API route), but responses are concise and predictable for the account page.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseServer } from '@/utils/supabase/client-server'
+import { selectAllPages } from '@/utils/supabase/paging'
+import { ACCOUNT_COLUMNS, ACCOUNT_TYPES, balanceDelta, type BalanceTransaction } from '@/utils/accounts'
+import { CURRENCY_CODES, getPrimaryCurrency, isCurrencyCode } from '@/utils/currency'
+import { UUID_V4_REGEX, decodeCursor, encodeCursor } from '@/utils/transactions'
+
+const DEFAULT_LEDGER_LIMIT = 50
+const MAX_LEDGER_LIMIT = 500
+
+function unauthorized() {
+  return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+}
+
+function notFound() {
+  return NextResponse.json({ error: 'Not Found' }, { status: 404 })
+}
+
+type LedgerRow = BalanceTransaction & { id: string; occurred_at: string }
+
+type LedgerDetail = {
+  id: string
+  payee: string | null
+  payment_method: string
+  categories: { name: string } | null
+}
+
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  const { data: auth, error: authError } = await supabaseServer.auth.getUser()
+  if (authError || !auth?.user) return unauthorized()
+  if (!UUID_V4_REGEX.test(params.id)) return notFound()
+
+  const { data: account, error } = await supabaseServer
+    .from('accounts')
+    .select(ACCOUNT_COLUMNS)
+    .eq('id', params.id)
+    .eq('user_id', auth.user.id)
+    .maybeSingle()
+
+  if (error && error.code !== 'PGRST116') {
+    return NextResponse.json({ error: 'Failed to fetch account', details: error.message }, { status: 500 })
+  }
+  if (!account) return notFound()
+
+  const searchParams = new URL(req.url).searchParams
+  const limitParam = Number.parseInt(searchParams.get('limit') || '', 10)
+  const limit = Number.isFinite(limitParam) && limitParam > 0 ? Math.min(limitParam, MAX_LEDGER_LIMIT) : DEFAULT_LEDGER_LIMIT
+  const cursorParam = searchParams.get('cursor')
+  const cursor = cursorParam ? decodeCursor(cursorParam) : null
+  if (cursorParam && !cursor) {
+    return NextResponse.json({ error: 'cursor is malformed' }, { status: 400 })
+  }
+
+  // The balance needs every transaction, so the slim rows are read in full (newest first) and only the page gets details
+  const [{ data: txs, error: txErr }, balanceCurrency] = await Promise.all([
+    selectAllPages<LedgerRow>((from, to) =>
+      supabaseServer
+        .from('transactions')
+        .select('id, kind, amount, occurred_at, account_id, transfer_account_id')
+        .eq('user_id', auth.user.id)
+        .or(`account_id.eq.${params.id},transfer_account_id.eq.${params.id}`)
+        .order('occurred_at', { ascending: false })
+        .order('id', { ascending: false })
+        .range(from, to),
+    ),
+    getPrimaryCurrency(supabaseServer, auth.user.id),
+  ])
+
+  if (txErr) {
+    return NextResponse.json({ error: 'Failed to load account transactions', details: txErr.message }, { status: 500 })
+  }
+
+  const openingBalance = Number((account as { opening_balance: number | string }).opening_balance) || 0
+  const balance = txs.reduce((sum, tx) => sum + balanceDelta(tx, params.id), openingBalance)
+
+  // Rows newer than the cursor only matter for the balance the page starts from
+  let start = 0
+  let running = balance
+  if (cursor) {
+    while (
+      start < txs.length &&
+      (txs[start].occurred_at > cursor.occurredAt || (txs[start].occurred_at === cursor.occurredAt && txs[start].id >= cursor.id))
+    ) {
+      running -= balanceDelta(txs[start], params.id)
+      start++
+    }
+  }
+  const page = txs.slice(start, start + limit)
+  const last = page[page.length - 1]
+  const nextCursor = last && start + limit < txs.length ? encodeCursor(last.occurred_at, last.id) : null
+
+  const details = new Map<string, LedgerDetail>()
+  if (page.length > 0) {
+    const { data: rows, error: detailErr } = await supabaseServer
+      .from('transactions')
+      .select('id, payee, payment_method, categories:category_id(name)')
+      .eq('user_id', auth.user.id)
+      .in('id', page.map((tx) => tx.id))
+    if (detailErr) {
+      return NextResponse.json({ error: 'Failed to load account transactions', details: detailErr.message }, { status: 500 })
+    }
+    for (const row of (rows || []) as unknown as LedgerDetail[]) details.set(row.id, row)
+  }
+
+  const entries = page.map((tx) => {
+    const delta = balanceDelta(tx, params.id)
+    const detail = details.get(tx.id)
+    const entry = {
+      id: tx.id,
+      kind: tx.kind,
+      occurred_at: tx.occurred_at,
+      payee: detail?.payee ?? null,
+      payment_method: detail?.payment_method ?? null,
+      category_name: detail?.categories?.name ?? null,
+      transfer_account_id: tx.transfer_account_id,
+      delta,
+      balance: running,
+    }
+    running -= delta
+    return entry
+  })
+
+  return NextResponse.json(
+    {
+      ...account,
+      balance,
+      balance_currency: balanceCurrency,
+      entries,
+      entry_count: txs.length,
+      nextCursor,
+    },
+    { headers: { 'cache-control': 'no-store' } },
+  )
+}
+
+export async function PATCH(req: NextRequest, { params }: { params: { id: string } }) {
+  const { data: auth, error: authError } = await supabaseServer.auth.getUser()
+  if (authError || !auth?.user) return unauthorized()
+  if (!UUID_V4_REGEX.test(params.id)) return notFound()
+
+  let body: any
+  try {
+    body = await req.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+
+  const update: Record<string, unknown> = {}
+  if ('name' in (body ?? {})) {
+    const name = typeof body.name === 'string' ? body.name.replace(/\s+/g, ' ').trim() : ''
+    if (!name) return NextResponse.json({ error: 'Name is required' }, { status: 400 })
+    if (name.length > 64) return NextResponse.json({ error: 'Name is too long (max 64 characters)' }, { status: 400 })
+    update.name = name
+  }
+  if ('type' in (body ?? {})) {
+    if (!ACCOUNT_TYPES.includes(body.type)) {
+      return NextResponse.json({ error: `type must be one of ${ACCOUNT_TYPES.join(', ')}` }, { status: 400 })
+    }
+    update.type = body.type
+  }
+  if ('currency' in (body ?? {})) {
+    if (!isCurrencyCode(body.currency)) {
+      return NextResponse.json({ error: `currency must be one of ${CURRENCY_CODES.join(', ')}` }, { status: 400 })
+    }
+    update.currency = body.currency
+  }
+  if ('opening_balance' in (body ?? {})) {
+    if (typeof body.opening_balance !== 'number' || !Number.isSafeInteger(body.opening_balance)) {
+      return NextResponse.json({ error: 'opening_balance must be a safe integer' }, { status: 400 })
+    }
+    update.opening_balance = body.opening_balance
+  }
+
+  if (Object.keys(update).length === 0) {
+    return NextResponse.json({ error: 'No updatable fields provided' }, { status: 400 })
+  }
+
+  const { data, error } = await supabaseServer
+    .from('accounts')
+    .update(update)
+    .eq('id', params.id)
+    .eq('user_id', auth.user.id)
+    .select(ACCOUNT_COLUMNS)
+    .maybeSingle()
+
+  if (error) {
+    if (error.code === '23505') {
+      return NextResponse.json({ error: 'Account with the same name already exists' }, { status: 409 })
+    }
+    return NextResponse.json({ error: 'Failed to update account', details: error.message }, { status: 500 })
+  }
+  if (!data) return notFound()
+
+  return NextResponse.json(data, { status: 200 })
+}
+
+export async function DELETE(_req: NextRequest, { params }: { params: { id: string } }) {
+  const { data: auth, error: authError } = await supabaseServer.auth.getUser()
+  if (authError || !auth?.user) return unauthorized()
+  if (!UUID_V4_REGEX.test(params.id)) return notFound()
+
+  const { data, error } = await supabaseServer
+    .from('accounts')
+    .delete()
+    .eq('id', params.id)
+    .eq('user_id', auth.user.id)
+    .select('id')
+    .maybeSingle()
+
+  if (error) {
+    return NextResponse.json({ error: 'Failed to delete account', details: error.message }, { status: 500 })
+  }
+  if (!data) return notFound()
+
+  return new NextResponse(null, { status: 204 })
+}
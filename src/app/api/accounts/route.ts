@@ -0,0 +1,119 @@
+/**
+ * CODE INSIGHT
+ * This code's use case is to provide the Accounts collection API for Tris: list the user's accounts with their
+ * current balance, and create a new account with a type, opening balance and currency.
+ * This code's full epic context is the Accounts flow, where transactions and recurring rules point at an account
+ * so card, debit and cash spending can be told apart beyond the coarse payment_method enum. The running ledger for
+ * one account lives in ./[id]/route.ts.
+ * This code's ui feel is not applicable (API route), but responses are concise and predictable for list UIs.
+ */
+
+import { NextResponse } from 'next/server'
+import { supabaseServer } from '@/utils/supabase/client-server'
+import { selectAllPages } from '@/utils/supabase/paging'
+import { ACCOUNT_COLUMNS, ACCOUNT_TYPES, balanceDelta, type BalanceTransaction } from '@/utils/accounts'
+import { CURRENCY_CODES, getPrimaryCurrency, isCurrencyCode } from '@/utils/currency'
+
+function unauthorized() {
+  return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+}
+
+export async function GET() {
+  const { data: auth, error: authError } = await supabaseServer.auth.getUser()
+  if (authError || !auth?.user) return unauthorized()
+
+  const { data: accounts, error } = await supabaseServer
+    .from('accounts')
+    .select(ACCOUNT_COLUMNS)
+    .eq('user_id', auth.user.id)
+    .order('name', { ascending: true })
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  const list = (accounts || []) as { id: string; opening_balance: number | string }[]
+  const balances = new Map<string, number>(list.map((a) => [a.id, Number(a.opening_balance) || 0]))
+
+  if (list.length > 0) {
+    const ids = list.map((a) => a.id).join(',')
+    const { data: txs, error: txErr } = await selectAllPages<BalanceTransaction>((from, to) =>
+      supabaseServer
+        .from('transactions')
+        .select('kind, amount, account_id, transfer_account_id')
+        .eq('user_id', auth.user.id)
+        .or(`account_id.in.(${ids}),transfer_account_id.in.(${ids})`)
+        .order('id', { ascending: true })
+        .range(from, to),
+    )
+
+    if (txErr) {
+      return NextResponse.json({ error: txErr.message }, { status: 500 })
+    }
+
+    for (const tx of txs) {
+      for (const id of [tx.account_id, tx.transfer_account_id]) {
+        if (id && balances.has(id)) balances.set(id, balances.get(id)! + balanceDelta(tx, id))
+      }
+    }
+  }
+
+  // Balances sum primary-currency amounts, so they are labelled with that currency rather than the account's
+  const balanceCurrency = await getPrimaryCurrency(supabaseServer, auth.user.id)
+  return NextResponse.json(
+    list.map((a) => ({ ...a, balance: balances.get(a.id) ?? 0, balance_currency: balanceCurrency })),
+    { headers: { 'cache-control': 'no-store' } },
+  )
+}
+
+export async function POST(request: Request) {
+  const { data: auth, error: authError } = await supabaseServer.auth.getUser()
+  if (authError || !auth?.user) return unauthorized()
+
+  let body: any
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+
+  const name = typeof body?.name === 'string' ? body.name.replace(/\s+/g, ' ').trim() : ''
+  if (!name) {
+    return NextResponse.json({ error: 'Name is required' }, { status: 400 })
+  }
+  if (name.length > 64) {
+    return NextResponse.json({ error: 'Name is too long (max 64 characters)' }, { status: 400 })
+  }
+
+  const type = body?.type ?? 'checking'
+  if (!ACCOUNT_TYPES.includes(type)) {
+    return NextResponse.json({ error: `type must be one of ${ACCOUNT_TYPES.join(', ')}` }, { status: 400 })
+  }
+
+  const currency = body?.currency ?? 'KRW'
+  if (!isCurrencyCode(currency)) {
+    return NextResponse.json({ error: `currency must be one of ${CURRENCY_CODES.join(', ')}` }, { status: 400 })
+  }
+
+  // Opening balance may be negative (e.g. an outstanding credit card bill)
+  const openingBalance = body?.opening_balance ?? 0
+  if (typeof openingBalance !== 'number' || !Number.isSafeInteger(openingBalance)) {
+    return NextResponse.json({ error: 'opening_balance must be a safe integer' }, { status: 400 })
+  }
+
+  const { data, error } = await supabaseServer
+    .from('accounts')
+    .insert({ user_id: auth.user.id, name, type, currency, opening_balance: openingBalance })
+    .select(ACCOUNT_COLUMNS)
+    .single()
+
+  if (error) {
+    if (error.code === '23505') {
+      return NextResponse.json({ error: 'Account already exists' }, { status: 409 })
+    }
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  const balanceCurrency = await getPrimaryCurrency(supabaseServer, auth.user.id)
+  return NextResponse.json({ ...data, balance: openingBalance, balance_currency: balanceCurrency }, { status: 201 })
+}
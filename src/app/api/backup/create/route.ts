@@ -129,7 +129,7 @@ export async function GET(req: Request) {
     // Build filters for transactions
     let txQuery = supabaseServer
       .from("transactions")
-      .select("id, user_id, amount, occurred_at, category_id, payee, payment_method, notes, created_at, updated_at")
+      .select("id, user_id, kind, amount, occurred_at, category_id, payee, payment_method, notes, created_at, updated_at")
       .eq("user_id", userId)
       .order("occurred_at", { ascending: true });
 
@@ -141,12 +141,12 @@ export async function GET(req: Request) {
       txQuery,
       supabaseServer
         .from("categories")
-        .select("id, user_id, name, is_favorite, created_at, updated_at")
+        .select("id, user_id, name, is_favorite, archived_at, created_at, updated_at")
         .eq("user_id", userId)
         .order("name", { ascending: true }),
       supabaseServer
         .from("tags")
-        .select("id, user_id, name, is_favorite, created_at, updated_at")
+        .select("id, user_id, name, is_favorite, archived_at, created_at, updated_at")
         .eq("user_id", userId)
         .order("name", { ascending: true }),
       supabaseServer
@@ -116,6 +116,7 @@ function sanitizeCategory(userId: string, c: any) {
     user_id: userId,
     name: c.name,
     is_favorite: !!c.is_favorite,
+    archived_at: c.archived_at ?? null,
     created_at: c.created_at,
     updated_at: c.updated_at,
   }
@@ -127,6 +128,7 @@ function sanitizeTag(userId: string, t: any) {
     user_id: userId,
     name: t.name,
     is_favorite: !!t.is_favorite,
+    archived_at: t.archived_at ?? null,
     created_at: t.created_at,
     updated_at: t.updated_at,
   }
@@ -152,6 +154,8 @@ function sanitizeTransaction(userId: string, t: any) {
   return {
     id: t.id || safeUUID(),
     user_id: userId,
+    // Backups taken before transaction kinds existed only held expenses
+    kind: ['expense', 'income', 'refund', 'transfer'].includes(t.kind) ? t.kind : 'expense',
     amount: t.amount,
     occurred_at: t.occurred_at ?? t.date ?? t.datetime,
     category_id: t.category_id ?? null,
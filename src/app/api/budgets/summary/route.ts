@@ -2,11 +2,18 @@
  * CODE INSIGHT
  * This code's use case is to serve a monthly budget vs. spend summary for the authenticated user.
  * This code's full epic context is the Budgets Overview aggregation endpoint powering /budgets/[month] views, using Supabase tables for overall and per-category budgets and transactions within the month window.
+ * Spend is net: refunds offset their category, transfers are ignored, and income is summed separately so it never counts against a budget.
+ * Split transactions count against each line's category rather than the parent row's.
+ * Subcategory spend rolls up: a row's spent includes everything below it (own_spent is the category alone), so a budget on
+ * "식비" covers "식비 > 카페" too, and rows come in tree order with parent_id and depth so the client can indent them.
+ * Budgets and spend are both in the user's primary currency (foreign spending is converted when recorded), echoed as currency.
  * This code's ui feel is data-focused and efficient: fast, accurate JSON aggregation enabling responsive progress bars and alerts in the client.
  */
 
 import { NextResponse } from 'next/server'
 import { supabaseServer } from '@/utils/supabase/client-server'
+import { getPrimaryCurrency } from '@/utils/currency'
+import { ancestorIds, buildCategoryTree, flattenCategoryTree, rollUpAmounts } from '@/utils/category-tree'
 
 export async function GET(req: Request) {
   try {
@@ -40,7 +47,7 @@ export async function GET(req: Request) {
     const DEFAULT_THRESHOLD = 80
 
     // Fetch budgets (overall + categories)
-    const [catBudgetsRes, overallBudgetRes] = await Promise.all([
+    const [catBudgetsRes, overallBudgetRes, currency] = await Promise.all([
       supabaseServer
         .from('category_budgets')
         .select('category_id, amount, alert_threshold_percent')
@@ -52,6 +59,7 @@ export async function GET(req: Request) {
         .eq('user_id', userId)
         .eq('period_start', monthStartDateStr)
         .maybeSingle(),
+      getPrimaryCurrency(supabaseServer, userId),
     ])
 
     if (catBudgetsRes.error) {
@@ -73,10 +81,11 @@ export async function GET(req: Request) {
     // Fetch transactions for the month and aggregate on server side (safe if data size is reasonable)
     const txRes = await supabaseServer
       .from('transactions')
-      .select('category_id, amount, occurred_at')
+      .select('category_id, kind, amount, occurred_at, has_splits, transaction_splits(amount, category_id)')
       .eq('user_id', userId)
       .gte('occurred_at', monthStartIso)
       .lt('occurred_at', nextMonthStartIso)
+      .neq('kind', 'transfer')
       .gt('amount', 0)
 
     if (txRes.error) {
@@ -87,36 +96,40 @@ export async function GET(req: Request) {
 
     // Aggregate spend
     let overallSpent = 0
+    let overallIncome = 0
     const spendByCategory = new Map<string, number>()
 
     for (const t of txs) {
-      const amt = Number((t as any).amount ?? 0)
-      overallSpent += amt
-      const cid = (t as any).category_id as string | null
-      if (cid) {
-        spendByCategory.set(cid, (spendByCategory.get(cid) ?? 0) + amt)
+      const kind = (t as any).kind as 'expense' | 'income' | 'refund'
+      if (kind === 'income') {
+        overallIncome += Number((t as any).amount ?? 0)
+        continue
       }
+      const sign = kind === 'refund' ? -1 : 1
+      overallSpent += sign * Number((t as any).amount ?? 0)
+      const parts: { category_id: string | null; amount: number }[] = (t as any).has_splits
+        ? ((t as any).transaction_splits ?? [])
+        : [{ category_id: (t as any).category_id, amount: (t as any).amount }]
+      for (const part of parts) {
+        if (!part.category_id) continue
+        const amt = sign * Number(part.amount ?? 0)
+        spendByCategory.set(part.category_id, (spendByCategory.get(part.category_id) ?? 0) + amt)
+      }
+    }
+
+    const catRes = await supabaseServer.from('categories').select('id, name, parent_id').eq('user_id', userId)
+    if (catRes.error) {
+      return NextResponse.json({ error: catRes.error.message }, { status: 500 })
     }
+    const allCategories = (catRes.data ?? []) as { id: string; name: string; parent_id: string | null }[]
+    const categoryNameMap = new Map(allCategories.map((c) => [c.id, c.name]))
+    const rolledUp = rollUpAmounts(allCategories, spendByCategory)
 
-    // Determine category set (union of budgeted categories and categories with spend)
+    // Determine category set (budgeted categories and categories with spend, plus their parents so they roll up visibly)
     const categoryIds = new Set<string>()
     for (const b of categoryBudgets) categoryIds.add(b.category_id)
     for (const cid of spendByCategory.keys()) categoryIds.add(cid)
-
-    // Fetch category names for those ids (if any)
-    let categoryNameMap = new Map<string, string>()
-    if (categoryIds.size > 0) {
-      const catRes = await supabaseServer
-        .from('categories')
-        .select('id, name')
-        .eq('user_id', userId)
-        .in('id', Array.from(categoryIds))
-
-      if (catRes.error) {
-        return NextResponse.json({ error: catRes.error.message }, { status: 500 })
-      }
-      categoryNameMap = new Map((catRes.data ?? []).map((c: any) => [c.id as string, c.name as string]))
-    }
+    for (const cid of Array.from(categoryIds)) for (const parent of ancestorIds(allCategories, cid)) categoryIds.add(parent)
 
     // Index budgets by category
     const budgetByCategory = new Map<string, { amount: number; threshold: number }>()
@@ -148,17 +161,30 @@ export async function GET(req: Request) {
     const categories: Array<{
       category_id: string
       category_name: string
+      parent_id: string | null
+      depth: number
       budget_amount: number | null
       spent: number
+      own_spent: number
       remaining: number | null
       percent: number | null
       status: 'ok' | 'approaching' | 'exceeded' | null
       threshold_pct_used: number | null
     }> = []
 
-    for (const cid of Array.from(categoryIds)) {
+    // Tree order: siblings by name, each parent followed by its subcategories; ids no longer in categories go last
+    const byName = [...allCategories].sort((a, b) => a.name.localeCompare(b.name, 'ko'))
+    const nodes = flattenCategoryTree(buildCategoryTree(byName)).filter((n) => categoryIds.has(n.id))
+    const ordered = [
+      ...nodes.map((n) => ({ id: n.id, parent_id: n.parent_id ?? null, depth: n.depth })),
+      ...Array.from(categoryIds)
+        .filter((cid) => !categoryNameMap.has(cid))
+        .map((cid) => ({ id: cid, parent_id: null, depth: 0 })),
+    ]
+
+    for (const { id: cid, parent_id, depth } of ordered) {
       const name = categoryNameMap.get(cid) ?? 'Unknown'
-      const spent = spendByCategory.get(cid) ?? 0
+      const spent = rolledUp.get(cid) ?? 0
       const budgetEntry = budgetByCategory.get(cid)
       const budgetAmount = budgetEntry ? budgetEntry.amount : null
       const threshold = budgetEntry ? budgetEntry.threshold : DEFAULT_THRESHOLD
@@ -169,8 +195,11 @@ export async function GET(req: Request) {
       categories.push({
         category_id: cid,
         category_name: name,
+        parent_id,
+        depth,
         budget_amount: budgetAmount,
         spent,
+        own_spent: spendByCategory.get(cid) ?? 0,
         remaining,
         percent,
         status,
@@ -178,9 +207,6 @@ export async function GET(req: Request) {
       })
     }
 
-    // Sort categories by name for consistent ordering
-    categories.sort((a, b) => a.category_name.localeCompare(b.category_name, 'ko'))
-
     // Overall summary
     const overallThresholdUsed = overallThreshold ?? DEFAULT_THRESHOLD
     const overall = (() => {
@@ -197,7 +223,9 @@ export async function GET(req: Request) {
 
     const payload = {
       month: monthParam,
+      currency,
       overall,
+      income: overallIncome,
       categories,
       thresholds_used: {
         default: DEFAULT_THRESHOLD,
@@ -0,0 +1,70 @@
+/**
+ * CODE INSIGHT
+ * This code's use case is merging the category at [id] into another one: POST { target_id, dry_run? } moves its
+ * transactions, split lines, presets, recurring rules, budgets (adding amounts for months both have), payee defaults and
+ * subcategories to target_id, then deletes [id]. With dry_run it only answers what would move, so the UI can confirm first.
+ * This code's full epic context is the Manage > Categories flow; DELETE ../?reassign_to= runs the same merge
+ * (@/utils/category-merge) for deletes blocked by references.
+ * This code's ui feel is not applicable (API route); responses use the categories routes' { error, details } shape.
+ */
+
+import { NextResponse } from 'next/server'
+import { supabaseServer } from '@/utils/supabase/client-server'
+import { categoryMergeProblem, countCategoryMerge, mergeCategoryInto } from '@/utils/category-merge'
+
+function isValidUUID(v: string) {
+  return /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-5][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}$/.test(v)
+}
+
+export async function POST(req: Request, { params }: { params: { id: string } }) {
+  const { data: authData, error: authError } = await supabaseServer.auth.getUser()
+  if (authError || !authData?.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+  const userId = authData.user.id
+
+  const id = params.id
+  if (!isValidUUID(id)) {
+    return NextResponse.json({ error: 'Invalid category id' }, { status: 400 })
+  }
+
+  let body: { target_id?: unknown; dry_run?: unknown } | null
+  try {
+    body = await req.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+  const targetId = body?.target_id
+  if (typeof targetId !== 'string' || !isValidUUID(targetId)) {
+    return NextResponse.json({ error: 'target_id must be a category id' }, { status: 400 })
+  }
+  const dryRun = body?.dry_run === true
+
+  const { data: rows, error: loadErr } = await supabaseServer.from('categories').select('id, name, parent_id').eq('user_id', userId)
+  if (loadErr) {
+    return NextResponse.json({ error: 'Failed to load categories', details: loadErr.message }, { status: 500 })
+  }
+  const categories = (rows || []) as { id: string; name: string; parent_id: string | null }[]
+  if (!categories.some((c) => c.id === id)) {
+    return NextResponse.json({ error: 'Category not found' }, { status: 404 })
+  }
+  const problem = categoryMergeProblem(categories, id, targetId)
+  if (problem) {
+    return NextResponse.json({ error: 'Cannot merge categories', details: problem }, { status: 400 })
+  }
+
+  const { counts, error } = dryRun
+    ? await countCategoryMerge(supabaseServer, id, targetId)
+    : await mergeCategoryInto(supabaseServer, id, targetId)
+  if (error || !counts) {
+    return NextResponse.json(
+      { error: dryRun ? 'Failed to count references' : 'Failed to merge categories', details: error?.message },
+      { status: 500 },
+    )
+  }
+
+  return NextResponse.json(
+    { source_id: id, target_id: targetId, dry_run: dryRun, counts },
+    { status: 200, headers: { 'cache-control': 'no-store' } },
+  )
+}
@@ -2,11 +2,20 @@
  * CODE INSIGHT
  * This code's use case is to provide a secure, user-scoped API for retrieving, updating, and deleting a single category by id.
  * This code's full epic context is the Categories management flow within Tris, ensuring RLS-scoped access via Supabase and handling preset references on delete with 409 responses.
+ * PATCH can move a category under another one (parent_id, or null for top level) within the nesting limit of
+ * @/utils/category-tree; a category that still has subcategories cannot be deleted (409).
+ * PATCH { archived } archives or restores a category together with its subcategories (restoring also restores the
+ * parents above it, so it lands back in the tree); archived rows stay, so history keeps their names.
+ * DELETE ?reassign_to=<id> merges the category into that one instead (see ./merge), so references never block it.
  * This code's ui feel is not applicable (API route), but responses are concise, predictable JSON with proper HTTP status codes to support a calm, reliable client UX.
  */
 
 import { NextResponse } from 'next/server'
 import { supabaseServer } from '@/utils/supabase/client-server'
+import { ancestorIds, checkCategoryParent, descendantIds, type CategoryLike } from '@/utils/category-tree'
+import { categoryMergeProblem, mergeCategoryInto } from '@/utils/category-merge'
+
+const CATEGORY_COLUMNS = 'id, name, is_favorite, icon, color, parent_id, archived_at, created_at, updated_at'
 
 function isValidUUID(v: string) {
   return /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-5][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}$/.test(v)
@@ -25,7 +34,7 @@ export async function GET(_req: Request, { params }: { params: { id: string } })
 
   const { data, error } = await supabaseServer
     .from('categories')
-    .select('id, name, is_favorite, created_at, updated_at')
+    .select(CATEGORY_COLUMNS)
     .eq('id', id)
     .single()
 
@@ -72,7 +81,45 @@ export async function PATCH(req: Request, { params }: { params: { id: string } }
   if (typeof body?.is_favorite === 'boolean') {
     update.is_favorite = body.is_favorite
   }
-  // icon and color are not part of the current schema; safely ignore if provided
+  if (body?.icon !== undefined) {
+    update.icon = typeof body.icon === 'string' && body.icon.trim() ? body.icon.trim().slice(0, 8) : null
+  }
+  if (body?.color !== undefined) {
+    if (body.color !== null && body.color !== '' && !/^#([0-9a-fA-F]{6}|[0-9a-fA-F]{3})$/.test(String(body.color))) {
+      return NextResponse.json({ error: 'color must be a hex color like #2563EB' }, { status: 400 })
+    }
+    update.color = body.color || null
+  }
+  if (body?.parent_id !== undefined) {
+    const parentId = typeof body.parent_id === 'string' && body.parent_id ? body.parent_id : null
+    if (parentId && !isValidUUID(parentId)) {
+      return NextResponse.json({ error: 'Invalid parent_id' }, { status: 400 })
+    }
+    if (parentId) {
+      const { data: rows, error: rowsErr } = await supabaseServer
+        .from('categories')
+        .select('id, name, parent_id')
+        .eq('user_id', authData.user.id)
+        .overrideTypes<CategoryLike[], { merge: false }>()
+      if (rowsErr) return NextResponse.json({ error: rowsErr.message }, { status: 500 })
+      const problem = checkCategoryParent(rows || [], id, parentId)
+      if (problem) return NextResponse.json({ error: problem }, { status: 400 })
+    }
+    update.parent_id = parentId
+  }
+  // Other categories archived or restored along with this one
+  let alsoArchive: string[] = []
+  if (typeof body?.archived === 'boolean') {
+    const { data: rows, error: rowsErr } = await supabaseServer
+      .from('categories')
+      .select('id, name, parent_id')
+      .eq('user_id', authData.user.id)
+    if (rowsErr) return NextResponse.json({ error: rowsErr.message }, { status: 500 })
+    const all = (rows || []) as { id: string; name: string; parent_id: string | null }[]
+    const below = descendantIds(all, id).filter((d) => d !== id)
+    alsoArchive = body.archived ? below : [...below, ...ancestorIds(all, id)]
+    update.archived_at = body.archived ? new Date().toISOString() : null
+  }
 
   if (Object.keys(update).length === 0) {
     return NextResponse.json({ error: 'No valid fields to update' }, { status: 400 })
@@ -82,13 +129,19 @@ export async function PATCH(req: Request, { params }: { params: { id: string } }
     .from('categories')
     .update(update)
     .eq('id', id)
-    .select('id, name, is_favorite, created_at, updated_at')
+    .select(CATEGORY_COLUMNS)
     .single()
 
   if (error) {
-    if ((error as any)?.code === 'PGRST116') {
+    if (error.code === 'PGRST116') {
       return NextResponse.json({ error: 'Category not found' }, { status: 404 })
     }
+    if (error.code === '23505') {
+      return NextResponse.json({ error: 'A category with this name already exists' }, { status: 409 })
+    }
+    if (error.code === '23514' || error.code === '23503') {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
     return NextResponse.json({ error: error.message }, { status: 500 })
   }
 
@@ -96,10 +149,23 @@ export async function PATCH(req: Request, { params }: { params: { id: string } }
     return NextResponse.json({ error: 'Category not found' }, { status: 404 })
   }
 
+  if (alsoArchive.length > 0) {
+    // Only rows that actually change state, so already-archived subcategories keep their original date
+    const related = supabaseServer
+      .from('categories')
+      .update({ archived_at: update.archived_at })
+      .eq('user_id', authData.user.id)
+      .in('id', alsoArchive)
+    const { error: relatedErr } = update.archived_at === null
+      ? await related.not('archived_at', 'is', null)
+      : await related.is('archived_at', null)
+    if (relatedErr) return NextResponse.json({ error: relatedErr.message }, { status: 500 })
+  }
+
   return NextResponse.json(data, { status: 200 })
 }
 
-export async function DELETE(_req: Request, { params }: { params: { id: string } }) {
+export async function DELETE(req: Request, { params }: { params: { id: string } }) {
   const { data: authData, error: authError } = await supabaseServer.auth.getUser()
   if (authError || !authData?.user) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
@@ -110,6 +176,47 @@ export async function DELETE(_req: Request, { params }: { params: { id: string }
     return NextResponse.json({ error: 'Invalid category id' }, { status: 400 })
   }
 
+  const reassignTo = new URL(req.url).searchParams.get('reassign_to')
+  if (reassignTo !== null) {
+    if (!isValidUUID(reassignTo)) {
+      return NextResponse.json({ error: 'reassign_to must be a category id' }, { status: 400 })
+    }
+    const userId = authData.user.id
+    const { data: rows, error: loadErr } = await supabaseServer.from('categories').select('id, name, parent_id').eq('user_id', userId)
+    if (loadErr) {
+      return NextResponse.json({ error: loadErr.message }, { status: 500 })
+    }
+    const categories = (rows || []) as { id: string; name: string; parent_id: string | null }[]
+    if (!categories.some((c) => c.id === id)) {
+      return NextResponse.json({ error: 'Category not found' }, { status: 404 })
+    }
+    const problem = categoryMergeProblem(categories, id, reassignTo)
+    if (problem) {
+      return NextResponse.json({ error: 'Cannot reassign category', details: problem }, { status: 400 })
+    }
+    const { counts, error } = await mergeCategoryInto(supabaseServer, id, reassignTo)
+    if (error || !counts) {
+      return NextResponse.json({ error: 'Failed to reassign category', details: error?.message }, { status: 500 })
+    }
+    return NextResponse.json({ source_id: id, target_id: reassignTo, counts }, { status: 200 })
+  }
+
+  const { count: childCount, error: childError } = await supabaseServer
+    .from('categories')
+    .select('id', { count: 'exact', head: true })
+    .eq('parent_id', id)
+
+  if (childError) {
+    return NextResponse.json({ error: childError.message }, { status: 500 })
+  }
+
+  if ((childCount ?? 0) > 0) {
+    return NextResponse.json(
+      { error: 'Category cannot be deleted while it has subcategories. Move them, or merge the category with ?reassign_to=.' },
+      { status: 409 }
+    )
+  }
+
   // Prevent deletion when referenced by presets
   const { count, error: refError } = await supabaseServer
     .from('presets')
@@ -122,7 +229,7 @@ export async function DELETE(_req: Request, { params }: { params: { id: string }
 
   if ((count ?? 0) > 0) {
     return NextResponse.json(
-      { error: 'Category cannot be deleted because it is referenced by one or more presets.' },
+      { error: 'Category cannot be deleted because it is referenced by one or more presets. Reassign them with ?reassign_to=.' },
       { status: 409 }
     )
   }
@@ -3,11 +3,33 @@
  * This code's use case is to provide a secure API endpoint that returns the current user's categories.
  * This code's full epic context is the Budgets Editor/Overview flows which require a category list; when a user has no categories yet, the endpoint returns a sensible seeded list for initial UI bootstrapping without mutating the database.
  * This code's ui feel is minimal and reliable for a mobile-first PWA: it returns a concise JSON array with optional color/favorite fields, enabling a clean, color-coded UI.
+ * Categories can be nested (parent_id, at most MAX_CATEGORY_LEVELS levels, see @/utils/category-tree): GET lists them in
+ * tree order, each parent followed by its subcategories, with depth and path ("식비 > 카페") so pickers can indent them.
+ * POST creates a category, optionally under a parent_id.
+ * Archived categories (archived_at set) are left out unless ?include_archived=1, which the Manage page uses to list and
+ * restore them; they still resolve everywhere history is shown, since their rows stay.
  */
 
 import { NextResponse } from 'next/server'
 import { supabaseServer } from '@/utils/supabase/client-server'
 import { createHash } from 'node:crypto'
+import {
+  buildCategoryTree,
+  categoryPathLabel,
+  checkCategoryParent,
+  flattenCategoryTree,
+  type CategoryLike,
+} from '@/utils/category-tree'
+
+type CategoryRow = {
+  id: string
+  name: string
+  is_favorite: boolean
+  icon: string | null
+  color: string | null
+  parent_id: string | null
+  archived_at: string | null
+}
 
 // Soft color palette aligned to primary and accent hues
 const PALETTE = [
@@ -51,8 +73,10 @@ const SEED_CATEGORIES: Array<{ name: string; color?: string; favorite?: boolean
   { name: '기타', color: '#94A3B8' }, // Other (slate-ish)
 ]
 
-export async function GET() {
+export async function GET(req: Request) {
   try {
+    const includeArchived = ['1', 'true'].includes(new URL(req.url).searchParams.get('include_archived') ?? '')
+
     const {
       data: { user },
       error: authError,
@@ -67,21 +91,31 @@ export async function GET() {
 
     const { data, error } = await supabaseServer
       .from('categories')
-      .select('id, name, is_favorite')
+      .select('id, name, is_favorite, icon, color, parent_id, archived_at')
       .eq('user_id', user.id)
       .order('is_favorite', { ascending: false })
       .order('name', { ascending: true })
+      .overrideTypes<CategoryRow[], { merge: false }>()
 
     if (error) {
       return NextResponse.json({ error: 'Failed to load categories' }, { status: 500 })
     }
 
+    // Seeded defaults are only for users with no categories at all, archived ones included
     if (data && data.length > 0) {
-      const categories = data.map((row) => ({
-        id: row.id as string,
-        name: row.name as string,
-        color: colorFor(`${row.name}:${row.id}`),
+      const rows = includeArchived ? data : data.filter((row) => !row.archived_at)
+      const tree = buildCategoryTree(rows)
+      const categories = flattenCategoryTree(tree).map((row) => ({
+        id: row.id,
+        name: row.name,
+        color: row.color || colorFor(`${row.name}:${row.id}`),
+        icon: row.icon ?? null,
         favorite: Boolean(row.is_favorite),
+        is_favorite: Boolean(row.is_favorite),
+        parent_id: row.parent_id ?? null,
+        depth: row.depth,
+        path: categoryPathLabel(row.path),
+        archived_at: row.archived_at ?? null,
       }))
       return NextResponse.json(categories, { status: 200 })
     }
@@ -91,7 +125,13 @@ export async function GET() {
       id: uuidFromString(`${user.id}:${c.name}`),
       name: c.name,
       color: c.color ?? colorFor(c.name, idx),
+      icon: null,
       favorite: Boolean(c.favorite),
+      is_favorite: Boolean(c.favorite),
+      parent_id: null,
+      depth: 0,
+      path: c.name,
+      archived_at: null,
     }))
 
     return NextResponse.json(seeded, { status: 200 })
@@ -99,3 +139,62 @@ export async function GET() {
     return NextResponse.json({ error: 'Unexpected server error' }, { status: 500 })
   }
 }
+
+export async function POST(req: Request) {
+  try {
+    const { data: authData, error: authError } = await supabaseServer.auth.getUser()
+    if (authError || !authData?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    const userId = authData.user.id
+
+    let body: Record<string, unknown> | null
+    try {
+      body = await req.json()
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+    }
+
+    const name = typeof body?.name === 'string' ? body.name.trim() : ''
+    if (!name || name.length > 80) {
+      return NextResponse.json({ error: 'Name is required (max 80 characters)' }, { status: 400 })
+    }
+    const color = typeof body?.color === 'string' && body.color ? body.color : null
+    if (color && !/^#([0-9a-fA-F]{6}|[0-9a-fA-F]{3})$/.test(color)) {
+      return NextResponse.json({ error: 'color must be a hex color like #2563EB' }, { status: 400 })
+    }
+    const icon = typeof body?.icon === 'string' && body.icon.trim() ? body.icon.trim().slice(0, 8) : null
+    const parentId = typeof body?.parent_id === 'string' && body.parent_id ? body.parent_id : null
+
+    if (parentId) {
+      const { data: rows, error: rowsErr } = await supabaseServer
+        .from('categories')
+        .select('id, name, parent_id')
+        .eq('user_id', userId)
+        .overrideTypes<CategoryLike[], { merge: false }>()
+      if (rowsErr) return NextResponse.json({ error: 'Failed to load categories' }, { status: 500 })
+      const problem = checkCategoryParent(rows || [], null, parentId)
+      if (problem) return NextResponse.json({ error: problem }, { status: 400 })
+    }
+
+    const { data, error } = await supabaseServer
+      .from('categories')
+      .insert({ user_id: userId, name, is_favorite: body?.is_favorite === true, icon, color, parent_id: parentId })
+      .select('id, name, is_favorite, icon, color, parent_id, created_at, updated_at')
+      .single()
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json({ error: 'A category with this name already exists' }, { status: 409 })
+      }
+      if (error.code === '23514' || error.code === '23503') {
+        return NextResponse.json({ error: error.message }, { status: 400 })
+      }
+      return NextResponse.json({ error: 'Failed to create category' }, { status: 500 })
+    }
+
+    return NextResponse.json(data, { status: 201 })
+  } catch {
+    return NextResponse.json({ error: 'Unexpected server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * CODE INSIGHT
+ * This code's use case is to correct or remove one exchange rate owned by the signed-in user.
+ * This code's full epic context is multi-currency transactions; editing a rate only affects conversions made
+ * afterwards, since each transaction stores the rate it was converted with.
+ * This code's ui feel is not applicable (API route), but responses are concise and predictable.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseServer } from '@/utils/supabase/client-server'
+
+const RATE_COLUMNS = 'id, base_currency, quote_currency, rate, effective_on, source, created_at, updated_at'
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/
+
+function unauthorized() {
+  return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+}
+
+function notFound() {
+  return NextResponse.json({ error: 'Exchange rate not found' }, { status: 404 })
+}
+
+export async function PATCH(req: NextRequest, { params }: { params: { id: string } }) {
+  const { data: auth, error: authError } = await supabaseServer.auth.getUser()
+  if (authError || !auth?.user) return unauthorized()
+
+  let body: any
+  try {
+    body = await req.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+
+  const update: Record<string, unknown> = {}
+  if ('rate' in (body ?? {})) {
+    const rate = Number(body.rate)
+    if (!Number.isFinite(rate) || rate <= 0) {
+      return NextResponse.json({ error: 'rate must be a positive number' }, { status: 400 })
+    }
+    update.rate = rate
+  }
+  if ('effective_on' in (body ?? {})) {
+    if (typeof body.effective_on !== 'string' || !DATE_REGEX.test(body.effective_on)) {
+      return NextResponse.json({ error: 'effective_on must be a YYYY-MM-DD date' }, { status: 400 })
+    }
+    update.effective_on = body.effective_on
+  }
+
+  if (Object.keys(update).length === 0) {
+    return NextResponse.json({ error: 'No updatable fields provided' }, { status: 400 })
+  }
+
+  const { data, error } = await supabaseServer
+    .from('exchange_rates')
+    .update({ ...update, source: 'manual' })
+    .eq('id', params.id)
+    .eq('user_id', auth.user.id)
+    .select(RATE_COLUMNS)
+    .maybeSingle()
+
+  if (error) {
+    if (error.code === '23505') {
+      return NextResponse.json({ error: 'A rate for this pair already exists on that date' }, { status: 409 })
+    }
+    return NextResponse.json({ error: 'Failed to update exchange rate', details: error.message }, { status: 500 })
+  }
+  if (!data) return notFound()
+
+  return NextResponse.json({ ...data, rate: Number((data as any).rate) })
+}
+
+export async function DELETE(_req: NextRequest, { params }: { params: { id: string } }) {
+  const { data: auth, error: authError } = await supabaseServer.auth.getUser()
+  if (authError || !auth?.user) return unauthorized()
+
+  const { data, error } = await supabaseServer
+    .from('exchange_rates')
+    .delete()
+    .eq('id', params.id)
+    .eq('user_id', auth.user.id)
+    .select('id')
+    .maybeSingle()
+
+  if (error) {
+    return NextResponse.json({ error: 'Failed to delete exchange rate', details: error.message }, { status: 500 })
+  }
+  if (!data) return notFound()
+
+  return new NextResponse(null, { status: 204 })
+}
@@ -0,0 +1,133 @@
+/**
+ * CODE INSIGHT
+ * This code's use case is to bulk-import exchange rates from a file the user uploads (multipart field "file").
+ * Accepted formats are CSV with a `date,base,quote,rate` header (column order free, extra columns ignored) or a JSON
+ * array of { date | effective_on, base | base_currency, quote | quote_currency, rate } objects.
+ * Valid lines are upserted with source 'import' (a later import for the same pair and day overwrites the rate);
+ * invalid lines are reported back by line number instead of failing the whole file.
+ * This code's full epic context is multi-currency transactions; see ../route.ts for the rate semantics.
+ * This code's ui feel is not applicable (API route), but the summary is shaped for a calm import result card.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseServer } from '@/utils/supabase/client-server'
+import { isCurrencyCode } from '@/utils/currency'
+
+const MAX_FILE_BYTES = 1024 * 1024
+const MAX_ROWS = 5000
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/
+
+type RawRate = { date?: unknown; base?: unknown; quote?: unknown; rate?: unknown }
+type LineError = { line: number; message: string }
+
+function parseCsv(text: string): RawRate[] | null {
+  const lines = text.split(/\r?\n/).filter((l) => l.trim() !== '')
+  if (lines.length === 0) return []
+  const header = lines[0].split(',').map((h) => h.trim().toLowerCase().replace(/^"|"$/g, ''))
+  const col = (...names: string[]) => header.findIndex((h) => names.includes(h))
+  const idx = {
+    date: col('date', 'effective_on'),
+    base: col('base', 'base_currency'),
+    quote: col('quote', 'quote_currency'),
+    rate: col('rate'),
+  }
+  if (Object.values(idx).some((i) => i < 0)) return null
+  return lines.slice(1).map((line) => {
+    const cells = line.split(',').map((c) => c.trim().replace(/^"|"$/g, ''))
+    return { date: cells[idx.date], base: cells[idx.base], quote: cells[idx.quote], rate: cells[idx.rate] }
+  })
+}
+
+function parseJson(text: string): RawRate[] | null {
+  try {
+    const parsed = JSON.parse(text)
+    const list = Array.isArray(parsed) ? parsed : Array.isArray(parsed?.rates) ? parsed.rates : null
+    if (!list) return null
+    return list.map((r: any) => ({
+      date: r?.date ?? r?.effective_on,
+      base: r?.base ?? r?.base_currency,
+      quote: r?.quote ?? r?.quote_currency,
+      rate: r?.rate,
+    }))
+  } catch {
+    return null
+  }
+}
+
+export async function POST(req: NextRequest) {
+  const { data: auth, error: authError } = await supabaseServer.auth.getUser()
+  if (authError || !auth?.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  let file: File | null = null
+  try {
+    const form = await req.formData()
+    file = form.get('file') as File | null
+  } catch {
+    return NextResponse.json({ error: 'Expected multipart/form-data with a file field' }, { status: 400 })
+  }
+  if (!file || !(file instanceof File)) {
+    return NextResponse.json({ error: 'Missing file' }, { status: 400 })
+  }
+  if (file.size > MAX_FILE_BYTES) {
+    return NextResponse.json({ error: 'File is too large (max 1MB)' }, { status: 413 })
+  }
+
+  const text = await file.text()
+  const looksJson = file.name.toLowerCase().endsWith('.json') || /^\s*[[{]/.test(text)
+  const rows = looksJson ? parseJson(text) : parseCsv(text)
+  if (!rows) {
+    return NextResponse.json(
+      { error: 'Unrecognized file', details: 'Use CSV with a date,base,quote,rate header or a JSON array of rates' },
+      { status: 400 },
+    )
+  }
+  if (rows.length > MAX_ROWS) {
+    return NextResponse.json({ error: `Too many rows (max ${MAX_ROWS})` }, { status: 400 })
+  }
+
+  const errors: LineError[] = []
+  // Keyed by pair and day so a file repeating a row keeps its last value instead of failing the upsert
+  const valid = new Map<string, Record<string, unknown>>()
+  rows.forEach((r, i) => {
+    // CSV line numbers count the header; JSON ones are 1-based array positions
+    const line = looksJson ? i + 1 : i + 2
+    const base = String(r.base ?? '').toUpperCase()
+    const quote = String(r.quote ?? '').toUpperCase()
+    const date = String(r.date ?? '')
+    const rate = Number(r.rate)
+    if (!isCurrencyCode(base) || !isCurrencyCode(quote)) {
+      errors.push({ line, message: `unsupported currency pair ${base || '?'}/${quote || '?'}` })
+    } else if (base === quote) {
+      errors.push({ line, message: 'base and quote must differ' })
+    } else if (!DATE_REGEX.test(date) || isNaN(new Date(date).getTime())) {
+      errors.push({ line, message: 'date must be YYYY-MM-DD' })
+    } else if (!Number.isFinite(rate) || rate <= 0) {
+      errors.push({ line, message: 'rate must be a positive number' })
+    } else {
+      valid.set(`${base}:${quote}:${date}`, {
+        user_id: auth.user.id,
+        base_currency: base,
+        quote_currency: quote,
+        rate,
+        effective_on: date,
+        source: 'import',
+      })
+    }
+  })
+
+  if (valid.size > 0) {
+    const { error } = await supabaseServer
+      .from('exchange_rates')
+      .upsert(Array.from(valid.values()), { onConflict: 'user_id,base_currency,quote_currency,effective_on' })
+    if (error) {
+      return NextResponse.json({ error: 'Failed to import exchange rates', details: error.message }, { status: 500 })
+    }
+  }
+
+  return NextResponse.json(
+    { imported: valid.size, skipped: errors.length, errors: errors.slice(0, 100) },
+    { headers: { 'cache-control': 'no-store' } },
+  )
+}
@@ -0,0 +1,106 @@
+/**
+ * CODE INSIGHT
+ * This code's use case is to provide the Exchange Rates collection API for Tris: list the user's hand-maintained
+ * rates (optionally for one currency pair) and record a rate manually. A rate means one unit of base_currency buys
+ * `rate` units of quote_currency from effective_on onwards; recording the same pair and day again replaces it.
+ * This code's full epic context is multi-currency transactions: foreign-currency spending is converted into the
+ * primary currency using these rates. File imports live in ./import/route.ts, single-rate edits in ./[id]/route.ts.
+ * This code's ui feel is not applicable (API route), but responses are concise and predictable for list UIs.
+ */
+
+import { NextResponse } from 'next/server'
+import { supabaseServer } from '@/utils/supabase/client-server'
+import { CURRENCY_CODES, isCurrencyCode } from '@/utils/currency'
+
+const RATE_COLUMNS = 'id, base_currency, quote_currency, rate, effective_on, source, created_at, updated_at'
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/
+
+function unauthorized() {
+  return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+}
+
+export async function GET(req: Request) {
+  const { data: auth, error: authError } = await supabaseServer.auth.getUser()
+  if (authError || !auth?.user) return unauthorized()
+
+  const { searchParams } = new URL(req.url)
+  const base = searchParams.get('base')
+  const quote = searchParams.get('quote')
+  if ((base && !isCurrencyCode(base)) || (quote && !isCurrencyCode(quote))) {
+    return NextResponse.json({ error: `currency must be one of ${CURRENCY_CODES.join(', ')}` }, { status: 400 })
+  }
+
+  let query = supabaseServer
+    .from('exchange_rates')
+    .select(RATE_COLUMNS)
+    .eq('user_id', auth.user.id)
+    .order('effective_on', { ascending: false })
+    .order('base_currency', { ascending: true })
+    .limit(500)
+  if (base) query = query.eq('base_currency', base)
+  if (quote) query = query.eq('quote_currency', quote)
+
+  const { data, error } = await query
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  return NextResponse.json(
+    ((data || []) as any[]).map((r) => ({ ...r, rate: Number(r.rate) })),
+    { headers: { 'cache-control': 'no-store' } },
+  )
+}
+
+export async function POST(request: Request) {
+  const { data: auth, error: authError } = await supabaseServer.auth.getUser()
+  if (authError || !auth?.user) return unauthorized()
+
+  let body: any
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+
+  const base = body?.base_currency
+  const quote = body?.quote_currency
+  if (!isCurrencyCode(base) || !isCurrencyCode(quote)) {
+    return NextResponse.json({ error: `currency must be one of ${CURRENCY_CODES.join(', ')}` }, { status: 400 })
+  }
+  if (base === quote) {
+    return NextResponse.json({ error: 'base_currency and quote_currency must differ' }, { status: 400 })
+  }
+
+  const rate = Number(body?.rate)
+  if (!Number.isFinite(rate) || rate <= 0) {
+    return NextResponse.json({ error: 'rate must be a positive number' }, { status: 400 })
+  }
+
+  const effectiveOn = body?.effective_on ?? new Date().toISOString().slice(0, 10)
+  if (typeof effectiveOn !== 'string' || !DATE_REGEX.test(effectiveOn) || isNaN(new Date(effectiveOn).getTime())) {
+    return NextResponse.json({ error: 'effective_on must be a YYYY-MM-DD date' }, { status: 400 })
+  }
+
+  const { data, error } = await supabaseServer
+    .from('exchange_rates')
+    .upsert(
+      {
+        user_id: auth.user.id,
+        base_currency: base,
+        quote_currency: quote,
+        rate,
+        effective_on: effectiveOn,
+        source: 'manual',
+      },
+      { onConflict: 'user_id,base_currency,quote_currency,effective_on' },
+    )
+    .select(RATE_COLUMNS)
+    .single()
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  return NextResponse.json({ ...data, rate: Number((data as any).rate) }, { status: 201 })
+}
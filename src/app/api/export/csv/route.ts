@@ -2,15 +2,20 @@
  * CODE INSIGHT
  * This code's use case is to export a signed-in user's transactions as a CSV file over a GET API.
  * This code's full epic context is the Backup & Export flow, where users download scoped data for external use or backups. It must enforce auth, respect date range filters, and format CSV reliably.
+ * amount is in the user's primary currency (the currency column); original_amount/original_currency record what was
+ * actually paid for foreign-currency transactions. All amounts are integer minor units of their currency.
  * This code's ui feel is invisible (API-only) but supports UX by providing proper headers for download, reliable error JSON, and no-store caching suitable for a PWA.
  */
 
 import { NextResponse } from 'next/server'
 import { supabaseServer } from '@/utils/supabase/client-server'
+import { getPrimaryCurrency } from '@/utils/currency'
 
 export const runtime = 'nodejs'
 export const dynamic = 'force-dynamic'
 
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i
+
 function isValidDateString(v: string): boolean {
   return /^\d{4}-\d{2}-\d{2}$/.test(v)
 }
@@ -52,6 +57,7 @@ export async function GET(req: Request) {
     const url = new URL(req.url)
     const start = url.searchParams.get('start') || undefined
     const end = url.searchParams.get('end') || undefined
+    const accountId = url.searchParams.get('accountId') || undefined
 
     if (start && !isValidDateString(start)) {
       return NextResponse.json(
@@ -65,6 +71,12 @@ export async function GET(req: Request) {
         { status: 400 }
       )
     }
+    if (accountId && !UUID_REGEX.test(accountId)) {
+      return NextResponse.json(
+        { code: 'INVALID_ACCOUNT', message: 'Invalid accountId. Expected a UUID.' },
+        { status: 400 }
+      )
+    }
     if (start && end) {
       // Ensure logical range
       if (new Date(`${start}T00:00:00Z`).getTime() > new Date(`${end}T23:59:59Z`).getTime()) {
@@ -78,7 +90,7 @@ export async function GET(req: Request) {
     let query = supabaseServer
       .from('transactions')
       .select(
-        `id, occurred_at, amount, payee, payment_method, notes, categories(name), transaction_receipts(url)`
+        `id, occurred_at, kind, amount, currency, original_amount, payee, payment_method, notes, categories(name), accounts:account_id(name), transaction_receipts(url)`
       )
       .eq('user_id', user.id)
       .order('occurred_at', { ascending: true })
@@ -89,8 +101,11 @@ export async function GET(req: Request) {
     if (end) {
       query = query.lte('occurred_at', toISOEndOfDay(end))
     }
+    if (accountId) {
+      query = query.or(`account_id.eq.${accountId},transfer_account_id.eq.${accountId}`)
+    }
 
-    const { data: rows, error } = await query
+    const [{ data: rows, error }, primaryCurrency] = await Promise.all([query, getPrimaryCurrency(supabaseServer, user.id)])
     if (error) {
       return NextResponse.json(
         { code: 'DB_QUERY_FAILED', message: error.message },
@@ -101,15 +116,20 @@ export async function GET(req: Request) {
     type TxRow = {
       id: string
       occurred_at: string
+      kind: string
       amount: number
+      currency: string | null
+      original_amount: number | null
       payee: string | null
       payment_method: string
       notes: string | null
       categories?: { name: string | null } | null
+      accounts?: { name: string | null } | null
       transaction_receipts?: { url: string }[] | null
     }
 
-    const header = 'id,date,amount,category,payee,payment_method,notes,receipt_path'
+    // New columns are appended last so existing column positions stay stable for spreadsheets
+    const header = 'id,date,amount,category,payee,payment_method,notes,receipt_path,kind,account,currency,original_amount,original_currency'
     const lines: string[] = [header]
 
     for (const r of (rows || []) as TxRow[]) {
@@ -135,6 +155,11 @@ export async function GET(req: Request) {
         csvEscape(r.payment_method ?? ''),
         csvEscape(r.notes ?? ''),
         csvEscape(receiptPath),
+        csvEscape(r.kind ?? 'expense'),
+        csvEscape(r.accounts?.name ?? ''),
+        csvEscape(primaryCurrency),
+        csvEscape(r.original_amount ?? r.amount ?? ''),
+        csvEscape(r.currency ?? primaryCurrency),
       ].join(',')
 
       lines.push(rowCsv)
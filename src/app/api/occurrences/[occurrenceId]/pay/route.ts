@@ -79,7 +79,7 @@ export async function POST(req: Request, context: { params: { occurrenceId: stri
     // Fetch the recurring transaction template for defaults
     const { data: template, error: tmplErr } = await supabaseServer
       .from('recurring_transactions')
-      .select(['id', 'user_id', 'amount', 'category_id', 'payee', 'payment_method', 'notes'].join(', '))
+      .select(['id', 'user_id', 'amount', 'category_id', 'account_id', 'payee', 'payee_id', 'payment_method', 'notes'].join(', '))
       .eq('id', occurrence.recurring_transaction_id)
       .eq('user_id', userId)
       .single()
@@ -151,7 +151,9 @@ export async function POST(req: Request, context: { params: { occurrenceId: stri
       amount: resolvedAmount,
       occurred_at: occurredAtISO,
       category_id: template.category_id ?? null,
+      account_id: template.account_id ?? null,
       payee: template.payee ?? null,
+      payee_id: template.payee_id ?? null,
       payment_method: template.payment_method,
       notes: template.notes ?? null,
       created_at: nowISO,
@@ -55,7 +55,7 @@ export async function GET(_req: Request, { params }: { params: { occurrenceId: s
           'created_at',
           'updated_at',
           // Expand parent rule for context
-          'recurring_transactions(id, amount, category_id, payee, payment_method, notes, frequency, interval, start_date, end_date, is_active, reminder_enabled, reminder_time, auto_create_transactions)'
+          'recurring_transactions(id, amount, category_id, account_id, payee, payee_id, payment_method, notes, frequency, interval, start_date, end_date, is_active, reminder_enabled, reminder_time, auto_create_transactions)'
         ].join(',')
       )
       .eq('id', occurrenceId)
@@ -99,7 +99,7 @@ export async function PATCH(req: Request, { params }: { params: { occurrenceId:
           'snoozed_until',
           'created_at',
           'updated_at',
-          'recurring_transactions(id, amount, category_id, payee, payment_method, notes, frequency, interval, start_date, end_date, is_active, reminder_enabled, reminder_time, auto_create_transactions)'
+          'recurring_transactions(id, amount, category_id, account_id, payee, payee_id, payment_method, notes, frequency, interval, start_date, end_date, is_active, reminder_enabled, reminder_time, auto_create_transactions)'
         ].join(',')
       )
       .eq('id', occurrenceId)
@@ -178,7 +178,9 @@ export async function PATCH(req: Request, { params }: { params: { occurrenceId:
             id: string
             amount: number
             category_id: string | null
+            account_id: string | null
             payee: string | null
+            payee_id?: string | null
             payment_method: string
             notes: string | null
             auto_create_transactions: boolean
@@ -210,7 +212,9 @@ export async function PATCH(req: Request, { params }: { params: { occurrenceId:
         amount: rule.amount,
         occurred_at: occurredAt.toISOString(),
         category_id: rule.category_id ?? null,
+        account_id: rule.account_id ?? null,
         payee: rule.payee ?? null,
+        payee_id: rule.payee_id ?? null,
         payment_method: rule.payment_method,
         notes: rule.notes ?? null
       }
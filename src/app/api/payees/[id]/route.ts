@@ -0,0 +1,242 @@
+/**
+ * CODE INSIGHT
+ * This code's use case is the single Payee API: GET returns one payee with aliases and defaults, PATCH renames it and/or
+ * replaces its aliases and defaults, and DELETE removes it (linked rows keep their payee text and simply lose the link).
+ * A rename is written back to every linked transaction, preset and recurring rule, and the old name is kept as an alias
+ * so imports and offline entries that still use it resolve here. Aliases naming another payee merge that payee in.
+ * This code's full epic context is first-class payees; resolution lives in @/utils/payees and listing in ../route.ts.
+ * This code's ui feel is not applicable (API route), but the PATCH response reports how many rows the rename touched.
+ */
+
+import { NextResponse } from 'next/server'
+import { supabaseServer } from '@/utils/supabase/client-server'
+import { PAYMENT_METHODS, UUID_V4_REGEX, isPaymentMethod, resolveTags, tagNamesOf, type PaymentMethod, type TagLink } from '@/utils/transactions'
+import { PAYEE_NAME_MAX, cleanPayeeName, findSpellingOwners, mergePayeesInto, normalizePayeeName } from '@/utils/payees'
+
+const PAYEE_SELECT =
+  'id, name, default_category_id, default_payment_method, created_at, updated_at, categories:default_category_id ( id, name ), payee_aliases ( alias ), payee_tags ( tags:tag_id ( name ) )'
+
+const MAX_ALIASES = 50
+
+// A payees row as PAYEE_SELECT returns it
+type PayeeRow = {
+  id: string
+  name: string
+  default_category_id: string | null
+  default_payment_method: PaymentMethod | null
+  created_at: string
+  updated_at: string
+  categories: { id: string; name: string } | null
+  payee_aliases: { alias: string }[] | null
+  payee_tags: TagLink[] | null
+}
+
+function unauthorized() {
+  return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+}
+
+function notFound() {
+  return NextResponse.json({ error: 'Not Found' }, { status: 404 })
+}
+
+function shapePayee(row: PayeeRow, transactionCount: number) {
+  return {
+    id: row.id,
+    name: row.name,
+    aliases: (row.payee_aliases || []).map((a) => a.alias).sort((a, b) => a.localeCompare(b, 'ko')),
+    default_category_id: row.default_category_id ?? null,
+    default_category: row.categories ?? null,
+    default_payment_method: row.default_payment_method ?? null,
+    default_tag_names: tagNamesOf(row.payee_tags),
+    transaction_count: transactionCount,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  }
+}
+
+async function loadPayee(userId: string, id: string) {
+  const { data } = await supabaseServer
+    .from('payees')
+    .select(PAYEE_SELECT)
+    .eq('user_id', userId)
+    .eq('id', id)
+    .maybeSingle()
+    .overrideTypes<PayeeRow, { merge: false }>()
+  if (!data) return null
+  const { count } = await supabaseServer
+    .from('transactions')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .eq('payee_id', id)
+  return shapePayee(data, count ?? 0)
+}
+
+export async function GET(_req: Request, { params }: { params: { id: string } }) {
+  const { data: auth, error: authError } = await supabaseServer.auth.getUser()
+  if (authError || !auth?.user) return unauthorized()
+  if (!UUID_V4_REGEX.test(params.id)) return notFound()
+
+  const payee = await loadPayee(auth.user.id, params.id)
+  if (!payee) return notFound()
+  return NextResponse.json(payee, { headers: { 'cache-control': 'no-store' } })
+}
+
+export async function PATCH(req: Request, { params }: { params: { id: string } }) {
+  const { data: auth, error: authError } = await supabaseServer.auth.getUser()
+  if (authError || !auth?.user) return unauthorized()
+  const userId = auth.user.id
+  const id = params.id
+  if (!UUID_V4_REGEX.test(id)) return notFound()
+
+  let body: Record<string, unknown> | null
+  try {
+    body = await req.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+
+  const { data: current } = await supabaseServer
+    .from('payees')
+    .select('id, name, normalized_name, payee_aliases ( id, alias, normalized_alias )')
+    .eq('user_id', userId)
+    .eq('id', id)
+    .maybeSingle()
+    .overrideTypes<{ id: string; name: string; payee_aliases: { id: string; alias: string; normalized_alias: string }[] | null }, { merge: false }>()
+  if (!current) return notFound()
+  const existingAliases = current.payee_aliases || []
+
+  const update: Record<string, unknown> = {}
+
+  let name = current.name
+  if (body?.name !== undefined) {
+    name = typeof body.name === 'string' ? cleanPayeeName(body.name) : ''
+    if (!name) return NextResponse.json({ error: 'Name is required' }, { status: 400 })
+    if (name.length > PAYEE_NAME_MAX) {
+      return NextResponse.json({ error: `Name is too long (max ${PAYEE_NAME_MAX} characters)` }, { status: 400 })
+    }
+    update.name = name
+    update.normalized_name = normalizePayeeName(name)
+  }
+  const renamed = name !== current.name
+  const normalizedName = normalizePayeeName(name)
+
+  if (body?.default_category_id !== undefined) {
+    const categoryId = body.default_category_id
+    if (categoryId !== null && (typeof categoryId !== 'string' || !UUID_V4_REGEX.test(categoryId))) {
+      return NextResponse.json({ error: 'default_category_id must be a valid UUID or null' }, { status: 400 })
+    }
+    update.default_category_id = categoryId
+  }
+  if (body?.default_payment_method !== undefined) {
+    const method = body.default_payment_method
+    if (method !== null && !isPaymentMethod(method)) {
+      return NextResponse.json({ error: `default_payment_method must be one of ${PAYMENT_METHODS.join(', ')} or null` }, { status: 400 })
+    }
+    update.default_payment_method = method
+  }
+  const tagNames = body?.default_tag_names
+  if (tagNames !== undefined && (!Array.isArray(tagNames) || tagNames.some((t: unknown) => typeof t !== 'string' || !t.trim() || t.length > 64))) {
+    return NextResponse.json({ error: 'default_tag_names must be an array of tag names (max 64 characters each)' }, { status: 400 })
+  }
+
+  // Desired aliases: the submitted list (or the current one), plus the old name after a rename, minus the new name
+  let aliasSource: string[] = existingAliases.map((a) => a.alias)
+  if (body?.aliases !== undefined) {
+    if (!Array.isArray(body.aliases) || body.aliases.length > MAX_ALIASES || body.aliases.some((a: unknown) => typeof a !== 'string')) {
+      return NextResponse.json({ error: `aliases must be an array of up to ${MAX_ALIASES} strings` }, { status: 400 })
+    }
+    aliasSource = body.aliases
+  }
+  if (renamed) aliasSource = [...aliasSource, current.name]
+  const desired = new Map<string, string>()
+  for (const raw of aliasSource) {
+    const alias = cleanPayeeName(raw)
+    const normalized = normalizePayeeName(alias)
+    if (!alias || alias.length > PAYEE_NAME_MAX || normalized === normalizedName) continue
+    desired.set(normalized, alias)
+  }
+
+  const owners = await findSpellingOwners(supabaseServer, userId, [normalizedName, ...desired.keys()], id)
+  const clashes = [normalizedName, ...desired.keys()].filter((n, i) => owners.aliases.has(n) || (i === 0 && owners.names.has(n)))
+  if (clashes.length > 0) {
+    return NextResponse.json({ error: 'Name or alias already belongs to another payee', details: clashes }, { status: 409 })
+  }
+  const absorbIds = Array.from(new Set(Array.from(desired.keys()).map((n) => owners.names.get(n)).filter(Boolean))) as string[]
+
+  if (Object.keys(update).length > 0) {
+    const { error } = await supabaseServer.from('payees').update(update).eq('user_id', userId).eq('id', id)
+    if (error) {
+      if (error.code === '23505') return NextResponse.json({ error: 'Payee already exists' }, { status: 409 })
+      if (error.code === '23503') return NextResponse.json({ error: 'Default category not found' }, { status: 400 })
+      return NextResponse.json({ error: 'Failed to update payee', details: error.message }, { status: 500 })
+    }
+  }
+
+  // Sync aliases: drop the ones no longer wanted, add the new ones (absorbed payees' names are added by the merge)
+  const stale = existingAliases.filter((a) => !desired.has(a.normalized_alias)).map((a) => a.id)
+  if (stale.length > 0) {
+    await supabaseServer.from('payee_aliases').delete().in('id', stale)
+  }
+  const have = new Set(existingAliases.map((a) => a.normalized_alias))
+  const toInsert = Array.from(desired.entries()).filter(([n]) => !have.has(n) && !owners.names.has(n))
+  if (toInsert.length > 0) {
+    const { error } = await supabaseServer
+      .from('payee_aliases')
+      .insert(toInsert.map(([normalized, alias]) => ({ user_id: userId, payee_id: id, alias, normalized_alias: normalized })))
+    if (error) return NextResponse.json({ error: 'Failed to save aliases', details: error.message }, { status: 500 })
+  }
+
+  if (tagNames !== undefined) {
+    const { tags, error: tagErr } = await resolveTags(supabaseServer, userId, tagNames)
+    if (tagErr) return NextResponse.json({ error: 'Failed to prepare tags', details: tagErr.message }, { status: 500 })
+    const tagIds = tags.map((t) => t.id)
+    await supabaseServer.from('payee_tags').delete().eq('payee_id', id)
+    if (tagIds.length > 0) {
+      await supabaseServer.from('payee_tags').insert(tagIds.map((tag_id) => ({ payee_id: id, tag_id })))
+    }
+  }
+
+  // Write the canonical name back across history
+  let renamedRows = 0
+  if (renamed) {
+    for (const table of ['transactions', 'presets', 'recurring_transactions']) {
+      const { count, error } = await supabaseServer
+        .from(table)
+        .update({ payee: name }, { count: 'exact' })
+        .eq('user_id', userId)
+        .eq('payee_id', id)
+      if (error) return NextResponse.json({ error: 'Failed to rename linked rows', details: error.message }, { status: 500 })
+      renamedRows += count ?? 0
+    }
+  }
+
+  const mergeErr = await mergePayeesInto(supabaseServer, userId, { id, name }, absorbIds)
+  if (mergeErr) {
+    return NextResponse.json({ error: 'Failed to merge payees', details: mergeErr.message }, { status: 500 })
+  }
+
+  const payee = await loadPayee(userId, id)
+  return NextResponse.json(
+    { ...payee, renamed_rows: renamedRows, merged_payee_ids: absorbIds },
+    { headers: { 'cache-control': 'no-store' } },
+  )
+}
+
+export async function DELETE(_req: Request, { params }: { params: { id: string } }) {
+  const { data: auth, error: authError } = await supabaseServer.auth.getUser()
+  if (authError || !auth?.user) return unauthorized()
+  if (!UUID_V4_REGEX.test(params.id)) return notFound()
+
+  const { data, error } = await supabaseServer
+    .from('payees')
+    .delete()
+    .eq('user_id', auth.user.id)
+    .eq('id', params.id)
+    .select('id')
+  if (error) {
+    return NextResponse.json({ error: 'Failed to delete payee', details: error.message }, { status: 500 })
+  }
+  if (!data || data.length === 0) return notFound()
+
+  return new NextResponse(null, { status: 204 })
+}
@@ -0,0 +1,213 @@
+/**
+ * CODE INSIGHT
+ * This code's use case is the Payees collection API: GET lists the user's canonical payees with their aliases, default
+ * category/tags/payment method and how many transactions point at them (?search= matches names and aliases for form
+ * autocomplete), and POST creates a payee. Names and aliases share one namespace per user, so a spelling can only ever
+ * resolve to a single payee; listing another payee's name as an alias merges that payee into the new one.
+ * This code's full epic context is first-class payees: transaction, preset and recurring routes resolve free-text payees
+ * through @/utils/payees, the rename in ./[id]/route.ts writes back across history, and /api/reports/payees groups by them.
+ * This code's ui feel is not applicable (API route), but responses are compact enough for as-you-type suggestions.
+ */
+
+import { NextResponse } from 'next/server'
+import { supabaseServer } from '@/utils/supabase/client-server'
+import { PAYMENT_METHODS, UUID_V4_REGEX, isPaymentMethod, resolveTags, tagNamesOf, type PaymentMethod, type TagLink } from '@/utils/transactions'
+import { PAYEE_NAME_MAX, cleanPayeeName, findSpellingOwners, mergePayeesInto, normalizePayeeName } from '@/utils/payees'
+
+const PAYEE_SELECT =
+  'id, name, default_category_id, default_payment_method, created_at, updated_at, categories:default_category_id ( id, name ), payee_aliases ( alias ), payee_tags ( tags:tag_id ( name ) )'
+
+const MAX_ALIASES = 50
+const SEARCH_LIMIT = 20
+
+// A payees row as PAYEE_SELECT returns it
+type PayeeRow = {
+  id: string
+  name: string
+  default_category_id: string | null
+  default_payment_method: PaymentMethod | null
+  created_at: string
+  updated_at: string
+  categories: { id: string; name: string } | null
+  payee_aliases: { alias: string }[] | null
+  payee_tags: TagLink[] | null
+}
+
+function unauthorized() {
+  return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+}
+
+function shapePayee(row: PayeeRow, counts: Map<string, number>) {
+  return {
+    id: row.id,
+    name: row.name,
+    aliases: (row.payee_aliases || []).map((a) => a.alias).sort((a, b) => a.localeCompare(b, 'ko')),
+    default_category_id: row.default_category_id ?? null,
+    default_category: row.categories ?? null,
+    default_payment_method: row.default_payment_method ?? null,
+    default_tag_names: tagNamesOf(row.payee_tags),
+    transaction_count: counts.get(row.id) ?? 0,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  }
+}
+
+export async function GET(request: Request) {
+  const { data: auth, error: authError } = await supabaseServer.auth.getUser()
+  if (authError || !auth?.user) return unauthorized()
+  const userId = auth.user.id
+
+  const url = new URL(request.url)
+  const search = normalizePayeeName(url.searchParams.get('search') ?? '').replace(/[%_,()"]/g, '')
+
+  let query = supabaseServer.from('payees').select(PAYEE_SELECT).eq('user_id', userId)
+  if (search) {
+    const { data: aliasHits } = await supabaseServer
+      .from('payee_aliases')
+      .select('payee_id')
+      .eq('user_id', userId)
+      .ilike('normalized_alias', `%${search}%`)
+      .limit(SEARCH_LIMIT)
+    const aliasIds = Array.from(new Set(((aliasHits || []) as { payee_id: string }[]).map((r) => r.payee_id)))
+    query = aliasIds.length
+      ? query.or(`normalized_name.ilike.%${search}%,id.in.(${aliasIds.join(',')})`)
+      : query.ilike('normalized_name', `%${search}%`)
+    query = query.limit(SEARCH_LIMIT)
+  }
+
+  const { data, error } = await query.order('name', { ascending: true }).overrideTypes<PayeeRow[], { merge: false }>()
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+  const rows = data || []
+
+  const counts = new Map<string, number>()
+  if (rows.length > 0) {
+    const { data: linked } = await supabaseServer
+      .from('transactions')
+      .select('payee_id')
+      .eq('user_id', userId)
+      .in('payee_id', rows.map((r) => r.id))
+    for (const r of (linked || []) as { payee_id: string }[]) counts.set(r.payee_id, (counts.get(r.payee_id) ?? 0) + 1)
+  }
+
+  const list = rows.map((r) => shapePayee(r, counts))
+  // Suggestions put the most used payees first; the full list stays alphabetical
+  if (search) list.sort((a, b) => b.transaction_count - a.transaction_count || a.name.localeCompare(b.name, 'ko'))
+
+  return NextResponse.json(list, { headers: { 'cache-control': 'no-store' } })
+}
+
+export async function POST(request: Request) {
+  const { data: auth, error: authError } = await supabaseServer.auth.getUser()
+  if (authError || !auth?.user) return unauthorized()
+  const userId = auth.user.id
+
+  let body: Record<string, unknown> | null
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+
+  const name = typeof body?.name === 'string' ? cleanPayeeName(body.name) : ''
+  if (!name) {
+    return NextResponse.json({ error: 'Name is required' }, { status: 400 })
+  }
+  if (name.length > PAYEE_NAME_MAX) {
+    return NextResponse.json({ error: `Name is too long (max ${PAYEE_NAME_MAX} characters)` }, { status: 400 })
+  }
+
+  const rawAliases = body?.aliases ?? []
+  if (!Array.isArray(rawAliases) || rawAliases.length > MAX_ALIASES || rawAliases.some((a: unknown) => typeof a !== 'string')) {
+    return NextResponse.json({ error: `aliases must be an array of up to ${MAX_ALIASES} strings` }, { status: 400 })
+  }
+  const aliases = Array.from(
+    new Map(
+      (rawAliases as string[])
+        .map(cleanPayeeName)
+        .filter((a) => a && a.length <= PAYEE_NAME_MAX && normalizePayeeName(a) !== normalizePayeeName(name))
+        .map((a) => [normalizePayeeName(a), a] as const),
+    ).entries(),
+  )
+
+  const categoryId = body?.default_category_id ?? null
+  if (categoryId !== null && (typeof categoryId !== 'string' || !UUID_V4_REGEX.test(categoryId))) {
+    return NextResponse.json({ error: 'default_category_id must be a valid UUID' }, { status: 400 })
+  }
+  const method = body?.default_payment_method ?? null
+  if (method !== null && !isPaymentMethod(method)) {
+    return NextResponse.json({ error: `default_payment_method must be one of ${PAYMENT_METHODS.join(', ')}` }, { status: 400 })
+  }
+  const tagNames = body?.default_tag_names ?? []
+  if (!Array.isArray(tagNames) || tagNames.some((t: unknown) => typeof t !== 'string' || !t.trim() || t.length > 64)) {
+    return NextResponse.json({ error: 'default_tag_names must be an array of tag names (max 64 characters each)' }, { status: 400 })
+  }
+
+  // A name must be new; an alias may name another payee, which is then merged into this one
+  const owners = await findSpellingOwners(supabaseServer, userId, [normalizePayeeName(name), ...aliases.map(([n]) => n)])
+  const clashes = [normalizePayeeName(name), ...aliases.map(([n]) => n)].filter(
+    (n, i) => owners.aliases.has(n) || (i === 0 && owners.names.has(n)),
+  )
+  if (clashes.length > 0) {
+    return NextResponse.json({ error: 'Name or alias already belongs to a payee', details: clashes }, { status: 409 })
+  }
+  const absorbIds = Array.from(new Set(aliases.map(([n]) => owners.names.get(n)).filter(Boolean))) as string[]
+  const newAliases = aliases.filter(([n]) => !owners.names.has(n))
+
+  const { data: created, error } = await supabaseServer
+    .from('payees')
+    .insert({
+      user_id: userId,
+      name,
+      normalized_name: normalizePayeeName(name),
+      default_category_id: categoryId,
+      default_payment_method: method,
+    })
+    .select('id')
+    .single()
+  if (error || !created) {
+    if (error?.code === '23505') return NextResponse.json({ error: 'Payee already exists' }, { status: 409 })
+    if (error?.code === '23503') return NextResponse.json({ error: 'Default category not found' }, { status: 400 })
+    return NextResponse.json({ error: error?.message ?? 'Failed to create payee' }, { status: 500 })
+  }
+  const payeeId = (created as { id: string }).id
+
+  if (newAliases.length > 0) {
+    const { error: aliasErr } = await supabaseServer
+      .from('payee_aliases')
+      .insert(newAliases.map(([normalized, alias]) => ({ user_id: userId, payee_id: payeeId, alias, normalized_alias: normalized })))
+    if (aliasErr) {
+      await supabaseServer.from('payees').delete().eq('id', payeeId)
+      return NextResponse.json({ error: 'Failed to save aliases', details: aliasErr.message }, { status: 500 })
+    }
+  }
+
+  const { tags, error: tagErr } = await resolveTags(supabaseServer, userId, tagNames)
+  const tagIds = tags.map((t) => t.id)
+  if (!tagErr && tagIds.length > 0) {
+    await supabaseServer.from('payee_tags').insert(tagIds.map((tag_id) => ({ payee_id: payeeId, tag_id })))
+  }
+
+  const mergeErr = await mergePayeesInto(supabaseServer, userId, { id: payeeId, name }, absorbIds)
+  if (mergeErr) {
+    return NextResponse.json({ error: 'Failed to merge payees', details: mergeErr.message }, { status: 500 })
+  }
+
+  const { data: full } = await supabaseServer
+    .from('payees')
+    .select(PAYEE_SELECT)
+    .eq('id', payeeId)
+    .single()
+    .overrideTypes<PayeeRow, { merge: false }>()
+  if (!full) return NextResponse.json({ error: 'Failed to load payee' }, { status: 500 })
+  const { count } = await supabaseServer
+    .from('transactions')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .eq('payee_id', payeeId)
+  return NextResponse.json(
+    { ...shapePayee(full, new Map([[payeeId, count ?? 0]])), merged_payee_ids: absorbIds },
+    { status: 201 },
+  )
+}
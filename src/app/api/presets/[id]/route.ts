@@ -10,6 +10,7 @@
 
 import { NextResponse } from 'next/server'
 import { supabaseServer } from '@/utils/supabase/client-server'
+import { resolvePayee } from '@/utils/payees'
 
 async function requireUser() {
   const { data, error } = await supabaseServer.auth.getUser()
@@ -109,7 +110,11 @@ export async function PUT(req: Request, { params }: { params: { id: string } })
     if (typeof name !== 'undefined') updateFields.name = name
     if (typeof amount !== 'undefined') updateFields.amount = amount
     if (typeof category_id !== 'undefined') updateFields.category_id = category_id
-    if (typeof payee !== 'undefined') updateFields.payee = payee
+    if (typeof payee !== 'undefined') {
+      const resolved = payee ? await resolvePayee(supabaseServer, user.id, String(payee), { create: true }) : null
+      updateFields.payee = resolved?.name ?? payee
+      updateFields.payee_id = resolved?.id ?? null
+    }
     if (typeof payment_method !== 'undefined') updateFields.payment_method = payment_method
     if (typeof notes !== 'undefined') updateFields.notes = notes
     if (typeof is_favorite !== 'undefined') updateFields.is_favorite = !!is_favorite
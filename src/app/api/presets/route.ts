@@ -2,11 +2,13 @@
  * CODE INSIGHT
  * This code's use case is to provide a secure presets collection API with RLS-backed Supabase access.
  * This code's full epic context is the Manage Presets flow: listing presets, creating new ones, and ensuring default tags are upserted and related via a junction table. It powers SWR keys like '/api/presets' and supports offline fallbacks on the client.
+ * A preset's payee is linked to its canonical payee (@/utils/payees) and saved under that payee's name.
  * This code's ui feel is not applicable (API route), but responses are structured, typed defensively, and return consistent shapes that the mobile-first UI can trust.
  */
 
 import { NextResponse } from 'next/server'
 import { supabaseServer } from '@/utils/supabase/client-server'
+import { resolvePayee } from '@/utils/payees'
 
 function err(status: number, message: string, details?: unknown) {
   return NextResponse.json({ error: message, details }, { status, headers: { 'cache-control': 'no-store' } })
@@ -111,7 +113,8 @@ export async function POST(req: Request) {
   }
 
   const category_id = body?.category_id ?? null
-  const payee = body?.payee ? String(body.payee) : null
+  const resolvedPayee = body?.payee ? await resolvePayee(supabaseServer, auth.user.id, String(body.payee), { create: true }) : null
+  const payee = resolvedPayee?.name ?? (body?.payee ? String(body.payee) : null)
   const notes = body?.notes ? String(body.notes) : null
   const defaultTagNames: string[] = Array.isArray(body?.default_tag_names)
     ? Array.from(new Set(
@@ -131,6 +134,7 @@ export async function POST(req: Request) {
       amount: normalizedAmount,
       category_id: category_id || null,
       payee,
+      payee_id: resolvedPayee?.id ?? null,
       notes,
     })
     .select('id, name, amount, category_id, payee, payment_method, notes, is_favorite, created_at, updated_at')
@@ -8,6 +8,7 @@
 
 import { NextResponse } from 'next/server'
 import { supabaseServer } from '@/utils/supabase/client-server'
+import { resolvePayee } from '@/utils/payees'
 
 // Helpers
 function json(data: any, init?: number | ResponseInit) {
@@ -148,6 +149,7 @@ function pickAllowedUpdateFields(body: any) {
   const fields = [
     'amount',
     'category_id',
+    'account_id',
     'payee',
     'payment_method',
     'notes',
@@ -186,6 +188,7 @@ function pickAllowedUpdateFields(body: any) {
         if (!d) continue
         v = toDateOnlyString(d)
       }
+      if (k === 'account_id' && v === '') v = null
       if (k === 'frequency') {
         const f = String(v)
         if (!['daily', 'weekly', 'monthly'].includes(f)) continue
@@ -254,6 +257,12 @@ export async function PATCH(req: Request, { params }: { params: { id: string } }
     return json({ rule: currentRule, reconciled: { inserted: 0, skipped: 0 } })
   }
 
+  if (updates.payee !== undefined) {
+    const payee = await resolvePayee(supabaseServer, userId, updates.payee, { create: true })
+    updates.payee = payee?.name ?? updates.payee
+    updates.payee_id = payee?.id ?? null
+  }
+
   updates.updated_at = nowUtcISO()
 
   const { data: updatedRule, error: updateErr } = await supabaseServer
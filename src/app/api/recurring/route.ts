@@ -4,6 +4,7 @@
  * and to materialize initial upcoming occurrences for a short lookahead window.
  * This code's full epic context is the Recurring Payments flow: creating rules (recurring transactions),
  * generating upcoming occurrences, and returning data in shapes expected by the client (/api/recurring).
+ * The rule's payee is linked to its canonical payee so occurrences materialize with payee_id set.
  * This code's ui feel is irrelevant (API-only); it focuses on robust validation, RLS-safe Supabase access,
  * and deterministic occurrence generation using rrule.
  */
@@ -11,6 +12,7 @@
 import { NextResponse } from 'next/server'
 import { RRule } from 'rrule'
 import { supabaseServer } from '@/utils/supabase/client-server'
+import { resolvePayee } from '@/utils/payees'
 
 // Helpers
 function badRequest(message: string, details?: unknown) {
@@ -209,10 +211,18 @@ export async function POST(req: Request) {
         typeof (body as any).reminder_enabled === 'boolean' ? (body as any).reminder_enabled : false,
       reminder_time: (body as any).reminder_time ?? null,
       category_id: (body as any).category_id ?? null,
+      account_id: (body as any).account_id || null,
       payee: (body as any).payee ?? null,
       notes: (body as any).notes ?? null,
     }
 
+    // Link the rule to its canonical payee so materialized transactions carry it
+    const payee = await resolvePayee(supabaseServer, user.id, payload.payee, { create: true })
+    if (payee) {
+      payload.payee = payee.name
+      payload.payee_id = payee.id
+    }
+
     const { data: inserted, error: insertErr } = await supabaseServer
       .from('recurring_transactions')
       .insert(payload)
@@ -2,12 +2,15 @@
  * CODE INSIGHT
  * This code's use case is to provide a secure, authenticated API endpoint to return aggregated transaction totals
  * bucketed by day/week/month for the current user, respecting a specified or profile-derived timezone.
+ * Totals are net spend: expenses add, refunds subtract, transfers are excluded, and income is returned as its own
+ * per-bucket series. Every bucket carries the user's primary currency, which all amounts are stored in.
  * This code's full epic context is the Reports feature, which drives the Overview charts via URL-driven filters.
  * This code's ui feel is N/A (API only), but it prioritizes correctness, reliability, and clear error responses.
  */
 
 import { NextResponse } from 'next/server'
 import { supabaseServer } from '@/utils/supabase/client-server'
+import { getPrimaryCurrency } from '@/utils/currency'
 import {
   utcToZonedTime,
   formatInTimeZone,
@@ -79,6 +82,7 @@ export async function GET(req: Request) {
     const method = url.searchParams.get('method') || undefined
     const tzParam = url.searchParams.get('tz') || undefined
     const categoryCsv = url.searchParams.get('categoryId')
+    const accountId = sanitizeUuidList(url.searchParams.get('accountId'))?.[0]
 
     const startDate = parseDateOnlyISO(startParam)
     const endDate = parseDateOnlyISO(endParam)
@@ -100,15 +104,14 @@ export async function GET(req: Request) {
       return NextResponse.json({ error: 'Unauthorized.' }, { status: 401 })
     }
 
-    // Determine timezone: query param -> user_settings.time_zone -> default 'Asia/Seoul'
+    // Determine timezone: query param -> user_settings.time_zone -> default 'Asia/Seoul'.
+    // Amounts are stored in the primary currency, which is echoed on every bucket.
     let tz = tzParam
+    const [{ data: settings, error: settingsErr }, currency] = await Promise.all([
+      supabaseServer.from('user_settings').select('time_zone').eq('user_id', user.id).maybeSingle(),
+      getPrimaryCurrency(supabaseServer, user.id),
+    ])
     if (!tz) {
-      const { data: settings, error: settingsErr } = await supabaseServer
-        .from('user_settings')
-        .select('time_zone')
-        .eq('user_id', user.id)
-        .maybeSingle()
-
       if (!settingsErr && settings?.time_zone) {
         tz = settings.time_zone as string
       } else {
@@ -121,7 +124,8 @@ export async function GET(req: Request) {
 
     let query = supabaseServer
       .from('transactions')
-      .select('id, amount, occurred_at')
+      .select('id, kind, amount, occurred_at')
+      .neq('kind', 'transfer')
       .eq('user_id', user.id)
       .gte('occurred_at', startDate.toISOString())
       .lt('occurred_at', endDate.toISOString())
@@ -132,6 +136,9 @@ export async function GET(req: Request) {
     if (categoryIds) {
       query = query.in('category_id', categoryIds)
     }
+    if (accountId) {
+      query = query.eq('account_id', accountId)
+    }
 
     const { data: rows, error: rowsError } = await query
 
@@ -139,10 +146,10 @@ export async function GET(req: Request) {
       return NextResponse.json({ error: 'Failed to fetch transactions.' }, { status: 500 })
     }
 
-    type Tx = { id: string; amount: number | string; occurred_at: string }
+    type Tx = { id: string; kind: 'expense' | 'income' | 'refund' | 'transfer'; amount: number | string; occurred_at: string }
 
     // Aggregate in server using timezone-aware bucketing mirroring Postgres date_trunc semantics
-    const buckets = new Map<string, { start: Date; end: Date; total: number; count: number }>()
+    const buckets = new Map<string, { start: Date; end: Date; total: number; count: number; income: number }>()
 
     for (const r of (rows || []) as Tx[]) {
       const zoned = utcToZonedTime(new Date(r.occurred_at), tz!)
@@ -151,10 +158,14 @@ export async function GET(req: Request) {
       const key = `${bucketStart.getTime()}-${granularity}`
 
       if (!buckets.has(key)) {
-        buckets.set(key, { start: bucketStart, end: bucketEnd, total: 0, count: 0 })
+        buckets.set(key, { start: bucketStart, end: bucketEnd, total: 0, count: 0, income: 0 })
       }
       const agg = buckets.get(key)!
-      agg.total += toSafeNumber(r.amount)
+      if (r.kind === 'income') {
+        agg.income += toSafeNumber(r.amount)
+        continue
+      }
+      agg.total += r.kind === 'refund' ? -toSafeNumber(r.amount) : toSafeNumber(r.amount)
       agg.count += 1
     }
 
@@ -166,6 +177,8 @@ export async function GET(req: Request) {
         bucketEnd: formatInTimeZone(b.end, tz!, 'yyyy-MM-dd'),
         total: Math.round(b.total),
         count: b.count,
+        income: Math.round(b.income),
+        currency,
       }))
 
     return NextResponse.json(result, {
@@ -2,6 +2,11 @@
  * CODE INSIGHT
  * This code's use case is to serve the category breakdown report API for Tris. It aggregates transactions by category
  * within a given date range and optional filters, returning totals, counts, and percentages for charting and insights.
+ * total is net spend (expenses minus refunds in the same category); transfers are excluded and income is reported
+ * separately per category so it never inflates spend. Split transactions are attributed by their lines' categories
+ * instead of the parent row's. Rows carry the user's primary currency, which all amounts are stored in.
+ * Subcategories roll up: top-level rows hold their whole subtree's totals (ownTotal is the parent's own share) with the
+ * subcategories in children, and filtering by a parent categoryId includes everything below it.
  * This code's full epic context is the Reports feature: URL params drive data queries with proper timezone handling
  * and RLS via Supabase. It powers the /reports/categories page with consistent filter semantics across reports.
  * This code's ui feel is API-only: fast, reliable JSON responses with strict validation and helpful error messages.
@@ -10,6 +15,9 @@
 import { NextResponse } from 'next/server'
 import { DateTime } from 'luxon'
 import { supabaseServer } from '@/utils/supabase/client-server'
+import { getPrimaryCurrency } from '@/utils/currency'
+import { CategoryTotals, descendantIds, rollUpCategoryReport } from '@/utils/category-tree'
+import { selectAllPages } from '@/utils/supabase/paging'
 
 export const dynamic = 'force-dynamic'
 
@@ -49,11 +57,40 @@ export async function GET(req: Request) {
     if (!startUtcIso || !endUtcIso) return badRequest('Invalid start or end date, or timezone (tz)')
     if (DateTime.fromISO(endUtcIso) <= DateTime.fromISO(startUtcIso)) return badRequest('Invalid range: end must be after start')
 
-    // Parse optional category filters (comma-separated UUIDs)
-    const categoryIds = categoryIdParam
-      .split(',')
-      .map((s) => s.trim())
-      .filter((s) => s.length > 0)
+    const { data: categoryRows, error: categoriesError } = await supabaseServer
+      .from('categories')
+      .select('id, name, parent_id')
+      .eq('user_id', userData.user.id)
+    if (categoriesError) {
+      return NextResponse.json({ error: 'Failed to fetch categories', details: categoriesError.message }, { status: 500 })
+    }
+    const categories = (categoryRows || []) as { id: string; name: string; parent_id: string | null }[]
+
+    // Parse optional category filters (comma-separated UUIDs); a parent selects its subcategories too
+    const categoryIds = Array.from(
+      new Set(
+        categoryIdParam
+          .split(',')
+          .map((s) => s.trim())
+          .filter((s) => s.length > 0)
+          .flatMap((id) => descendantIds(categories, id)),
+      ),
+    )
+
+    type Row = {
+      category_id: string | null
+      kind: 'expense' | 'income' | 'refund'
+      categories: { name: string | null } | null
+      total: number | null
+      tx_count: number | null
+    }
+    type SplitLine = {
+      category_id: string | null
+      amount: number
+      transaction_id: string
+      categories: { name: string | null } | null
+      transactions: { kind: Row['kind'] }
+    }
 
     // Build query: aggregate by category using PostgREST aggregate functions
     let query = supabaseServer
@@ -61,6 +98,7 @@ export async function GET(req: Request) {
       .select(
         `
         category_id,
+        kind,
         categories(name),
         total:amount.sum(),
         tx_count:id.count()
@@ -68,6 +106,8 @@ export async function GET(req: Request) {
       )
       .gte('occurred_at', startUtcIso)
       .lt('occurred_at', endUtcIso)
+      .neq('kind', 'transfer')
+      .eq('has_splits', false)
 
     if (method) {
       query = query.eq('payment_method', method)
@@ -77,36 +117,82 @@ export async function GET(req: Request) {
       query = query.in('category_id', categoryIds)
     }
 
-    const { data, error } = await query
-    if (error) {
-      return NextResponse.json({ error: 'Failed to fetch category aggregates', details: error.message }, { status: 500 })
+    // Split lines carry their own category; filters apply through the parent transaction. They are individual rows
+    // rather than aggregates, so they are paged past PostgREST's row cap.
+    const splitLines = selectAllPages<SplitLine>((from, to) => {
+      let splitQuery = supabaseServer
+        .from('transaction_splits')
+        .select('category_id, amount, transaction_id, categories(name), transactions!inner(kind, occurred_at, payment_method)')
+        .gte('transactions.occurred_at', startUtcIso)
+        .lt('transactions.occurred_at', endUtcIso)
+        .neq('transactions.kind', 'transfer')
+      if (method) splitQuery = splitQuery.eq('transactions.payment_method', method)
+      if (categoryIds.length > 0) splitQuery = splitQuery.in('category_id', categoryIds)
+      return splitQuery.order('id', { ascending: true }).range(from, to).overrideTypes<SplitLine[], { merge: false }>()
+    })
+
+    const [{ data, error }, { data: splitData, error: splitError }] = await Promise.all([
+      query.overrideTypes<Row[], { merge: false }>(),
+      splitLines,
+    ])
+    if (error || splitError) {
+      return NextResponse.json(
+        { error: 'Failed to fetch category aggregates', details: (error ?? splitError)?.message },
+        { status: 500 }
+      )
     }
 
-    // Safety: normalize and compute grand total for percentages
-    const rows = Array.isArray(data) ? data : []
-
-    type Row = {
-      category_id: string | null
-      categories: { name: string | null } | null
-      total: number | null
-      tx_count: number | null
+    // Safety: normalize; percentages are computed over the rolled-up top level
+    const rows = Array.isArray(data) ? [...data] : []
+
+    // Pre-group split lines by (category, kind) so they fold exactly like aggregate rows; a transaction with
+    // several lines in one category counts once
+    const splitGroups = new Map<string, { row: Row & { total: number; tx_count: number }; txIds: Set<string> }>()
+    for (const line of splitData) {
+      const kind = line.transactions?.kind
+      const key = `${line.category_id ?? 'uncategorized'}|${kind}`
+      const group = splitGroups.get(key) ?? {
+        row: { category_id: line.category_id, kind, categories: line.categories, total: 0, tx_count: 0 },
+        txIds: new Set<string>(),
+      }
+      group.row.total += Number(line.amount ?? 0)
+      group.txIds.add(line.transaction_id)
+      group.row.tx_count = group.txIds.size
+      splitGroups.set(key, group)
     }
+    for (const group of splitGroups.values()) rows.push(group.row)
+
+    // Rows arrive grouped by (category, kind); fold kinds into one entry per category
+    const byCategory = new Map<string, CategoryTotals>()
+    for (const r of rows) {
+      const key = r.category_id ?? 'uncategorized'
+      const entry = byCategory.get(key) ?? {
+        categoryId: r.category_id,
+        categoryName: r.categories?.name ?? 'Uncategorized',
+        total: 0,
+        count: 0,
+        refunded: 0,
+        income: 0,
+      }
+      const amount = Number(r.total ?? 0)
+      if (r.kind === 'income') {
+        entry.income += amount
+      } else {
+        entry.count += Number(r.tx_count ?? 0)
+        if (r.kind === 'refund') {
+          entry.total -= amount
+          entry.refunded += amount
+        } else {
+          entry.total += amount
+        }
+      }
+      byCategory.set(key, entry)
+    }
+    const normalized = Array.from(byCategory.values())
+
+    const currency = await getPrimaryCurrency(supabaseServer, userData.user.id)
 
-    const normalized = (rows as Row[]).map((r) => ({
-      categoryId: r.category_id,
-      categoryName: r.categories?.name ?? 'Uncategorized',
-      total: Number(r.total ?? 0),
-      count: Number(r.tx_count ?? 0),
-    }))
-
-    const grandTotal = normalized.reduce((sum, r) => sum + (Number.isFinite(r.total) ? r.total : 0), 0)
-
-    const result = normalized
-      .map((r) => ({
-        ...r,
-        percentage: grandTotal > 0 ? (r.total / grandTotal) * 100 : 0,
-      }))
-      .sort((a, b) => b.total - a.total)
+    const result = rollUpCategoryReport(normalized, categories, currency)
 
     return NextResponse.json(result, { status: 200 })
   } catch (e: any) {
@@ -2,6 +2,11 @@
  * CODE INSIGHT
  * This code's use case is the drilldown reports API endpoint that returns a paginated,
  * filterable list of transactions for the authenticated user, scoped by date range and optional filters.
+ * Split transactions are attributed by line: a category filter matches a split transaction through any of its
+ * lines, and the item's amount is the sum of the matching lines (totalAmount keeps the parent amount).
+ * A parent category matches its subcategories too, so drilling into a rolled-up report row lists what it adds up.
+ * An optional q narrows results to payee/notes text; payeeId narrows to one canonical payee (from /reports/payees).
+ * Amounts are in the user's primary currency; originalAmount/originalCurrency carry what was actually paid.
  * This code's full epic context is the Reports module where client pages consume this endpoint using
  * URL-driven filters and React Query, ensuring realtime refetch on transaction changes.
  * This code's ui feel is irrelevant here; however, responses are optimized for mobile drilldown lists and
@@ -10,6 +15,31 @@
 
 import { NextResponse } from 'next/server'
 import { supabaseServer } from '@/utils/supabase/client-server'
+import { getPrimaryCurrency } from '@/utils/currency'
+import { descendantIds } from '@/utils/category-tree'
+import { selectAllPages } from '@/utils/supabase/paging'
+import type { TransactionRow } from '@/utils/transactions'
+
+type DrilldownLine = { id: string; amount: number; category_id: string | null; position: number; categories: { name: string } | null }
+
+type DrilldownRow = Pick<
+  TransactionRow,
+  | 'id'
+  | 'amount'
+  | 'currency'
+  | 'original_amount'
+  | 'occurred_at'
+  | 'category_id'
+  | 'account_id'
+  | 'transfer_account_id'
+  | 'payee'
+  | 'payee_id'
+  | 'payment_method'
+  | 'notes'
+  | 'has_splits'
+> & { categories: { name: string } | null; transaction_splits: DrilldownLine[] | null }
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i
 
 function isValidDate(value: string | null): value is string {
   if (!value) return false
@@ -51,6 +81,14 @@ export async function GET(req: Request) {
     const end = searchParams.get('end')
     const categoryIdParam = searchParams.get('categoryId')
     const method = searchParams.get('method')
+    const accountId = searchParams.get('accountId')
+    const payeeId = searchParams.get('payeeId')
+    // Free-text match over payee/notes (each word must match); the full query language lives in /api/transactions/search
+    const terms = (searchParams.get('q') || '')
+      .replace(/[%_,()"\\*]/g, ' ')
+      .split(/\s+/)
+      .filter(Boolean)
+      .slice(0, 10)
     const orderByParam = (searchParams.get('orderBy') || 'date').toLowerCase()
     const orderParam = (searchParams.get('order') || 'desc').toLowerCase()
     const page = clamp(parsePositiveInt(searchParams.get('page'), 1), 1, 10_000)
@@ -83,7 +121,24 @@ export async function GET(req: Request) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    const categoryIds = parseCategoryIds(categoryIdParam)
+    let categoryIds = parseCategoryIds(categoryIdParam)
+    if (categoryIds) {
+      const { data: categoryRows, error: categoriesErr } = await supabaseServer
+        .from('categories')
+        .select('id, name, parent_id')
+        .eq('user_id', user.id)
+      if (categoriesErr) {
+        return NextResponse.json({ error: categoriesErr.message }, { status: 500 })
+      }
+      const rows = (categoryRows || []) as { id: string; name: string; parent_id: string | null }[]
+      categoryIds = Array.from(new Set(categoryIds.flatMap((id) => descendantIds(rows, id))))
+    }
+    if (accountId && !UUID_REGEX.test(accountId)) {
+      return NextResponse.json({ error: 'Invalid accountId. Expected a UUID.' }, { status: 400 })
+    }
+    if (payeeId && !UUID_REGEX.test(payeeId)) {
+      return NextResponse.json({ error: 'Invalid payeeId. Expected a UUID.' }, { status: 400 })
+    }
     const orderByColumn = orderByParam === 'amount' ? 'amount' : 'occurred_at'
     const ascending = orderParam === 'asc'
 
@@ -96,12 +151,19 @@ export async function GET(req: Request) {
         `
         id,
         amount,
+        currency,
+        original_amount,
         occurred_at,
         category_id,
+        account_id,
+        transfer_account_id,
         payee,
+        payee_id,
         payment_method,
         notes,
-        categories:category_id(name)
+        has_splits,
+        categories:category_id(name),
+        transaction_splits(id, amount, category_id, position, categories:category_id(name))
       `,
         { count: 'exact' }
       )
@@ -112,30 +174,75 @@ export async function GET(req: Request) {
       .range(from, to)
 
     if (categoryIds) {
-      query = query.in('category_id', categoryIds)
+      // Split transactions match through their lines, not the parent's category
+      const { data: splitRows, error: splitErr } = await selectAllPages<{ transaction_id: string }>((first, last) =>
+        supabaseServer
+          .from('transaction_splits')
+          .select('transaction_id')
+          .eq('user_id', user.id)
+          .in('category_id', categoryIds)
+          .order('id', { ascending: true })
+          .range(first, last)
+          .overrideTypes<{ transaction_id: string }[], { merge: false }>(),
+      )
+      if (splitErr) {
+        return NextResponse.json({ error: splitErr.message }, { status: 400 })
+      }
+      const splitTxIds = Array.from(new Set(splitRows.map((r) => r.transaction_id)))
+      const unsplit = `and(has_splits.eq.false,category_id.in.(${categoryIds.join(',')}))`
+      query = query.or(splitTxIds.length ? `${unsplit},id.in.(${splitTxIds.join(',')})` : unsplit)
     }
 
     if (method) {
       query = query.eq('payment_method', method)
     }
 
-    const { data, count, error } = await query
+    if (accountId) {
+      query = query.or(`account_id.eq.${accountId},transfer_account_id.eq.${accountId}`)
+    }
+
+    if (payeeId) {
+      query = query.eq('payee_id', payeeId)
+    }
+
+    for (const term of terms) {
+      query = query.or(`payee.ilike."%${term}%",notes.ilike."%${term}%"`)
+    }
+
+    const [{ data, count, error }, primaryCurrency] = await Promise.all([
+      query.overrideTypes<DrilldownRow[], { merge: false }>(),
+      getPrimaryCurrency(supabaseServer, user.id),
+    ])
 
     if (error) {
       return NextResponse.json({ error: error.message }, { status: 400 })
     }
 
-    const items = (data || []).map((row: any) => ({
-      id: row.id,
-      amount: row.amount,
-      currency: 'KRW',
-      date: row.occurred_at,
-      categoryId: row.category_id,
-      categoryName: row.categories?.name ?? null,
-      payee: row.payee,
-      method: row.payment_method,
-      notes: row.notes ?? null,
-    }))
+    const items = (data || []).map((row) => {
+      const lines = (row.has_splits ? row.transaction_splits || [] : [])
+        .filter((l) => !categoryIds || (l.category_id !== null && categoryIds.includes(l.category_id)))
+        .sort((a, b) => a.position - b.position)
+        .map((l) => ({ id: l.id, amount: l.amount, categoryId: l.category_id, categoryName: l.categories?.name ?? null }))
+      const single = lines.length === 1 ? lines[0] : null
+      return {
+        id: row.id,
+        amount: row.has_splits ? lines.reduce((sum, l) => sum + Number(l.amount || 0), 0) : row.amount,
+        totalAmount: row.amount,
+        currency: primaryCurrency,
+        originalAmount: row.original_amount ?? row.amount,
+        originalCurrency: row.currency ?? primaryCurrency,
+        date: row.occurred_at,
+        categoryId: row.has_splits ? single?.categoryId ?? null : row.category_id,
+        categoryName: row.has_splits ? single?.categoryName ?? null : row.categories?.name ?? null,
+        splits: lines,
+        accountId: row.account_id ?? null,
+        transferAccountId: row.transfer_account_id ?? null,
+        payee: row.payee,
+        payeeId: row.payee_id ?? null,
+        method: row.payment_method,
+        notes: row.notes ?? null,
+      }
+    })
 
     const totalCount = count ?? 0
     const nextPage = to + 1 < totalCount ? page + 1 : null
@@ -0,0 +1,182 @@
+/**
+ * CODE INSIGHT
+ * This code's use case is to serve the payee breakdown report API for Tris. It aggregates transactions by canonical payee
+ * within a date range and optional filters, so "스타벅스", "Starbucks" and "STARBUCKS KOREA" count as one merchant once
+ * they are aliases of one payee. Rows not linked to a payee are grouped by their payee text, and rows without any payee
+ * fall under "No payee". Semantics match /api/reports/categories: total is net spend (expenses minus refunds), income is
+ * reported separately and transfers are excluded. With a categoryId filter, split transactions count only their lines
+ * in those categories.
+ * This code's full epic context is the Reports feature alongside first-class payees (see @/utils/payees); it powers
+ * /reports/payees with the same URL params as the other reports.
+ * This code's ui feel is API-only: fast, reliable JSON responses with strict validation and helpful error messages.
+ */
+
+import { NextResponse } from 'next/server'
+import { DateTime } from 'luxon'
+import { supabaseServer } from '@/utils/supabase/client-server'
+import { getPrimaryCurrency } from '@/utils/currency'
+import { selectAllPages } from '@/utils/supabase/paging'
+
+export const dynamic = 'force-dynamic'
+
+function badRequest(message: string) {
+  return NextResponse.json({ error: message }, { status: 400 })
+}
+
+function toUtcIsoStartOfDay(dateISO: string, tz: string) {
+  const dt = DateTime.fromISO(dateISO, { zone: tz }).startOf('day')
+  if (!dt.isValid) return null
+  return dt.toUTC().toISO()
+}
+
+type Entry = { payeeId: string | null; payeeName: string; total: number; count: number; refunded: number; income: number }
+
+// Aggregate rows; PostgREST returns sums and counts as numbers or numeric strings
+type LinkedRow = { payee_id: string; kind: string; payees: { name: string } | null; total: number | string | null; tx_count: number | string | null }
+type UnlinkedRow = { payee: string | null; kind: string; total: number | string | null; tx_count: number | string | null }
+type SplitRow = {
+  amount: number
+  transaction_id: string
+  transactions: { kind: string; payee: string | null; payee_id: string | null; payees: { name: string } | null }
+}
+
+export async function GET(req: Request) {
+  try {
+    const url = new URL(req.url)
+    const start = url.searchParams.get('start')
+    const end = url.searchParams.get('end')
+    const tz = url.searchParams.get('tz') || 'Asia/Seoul'
+    const method = url.searchParams.get('method') || undefined
+    const categoryIdParam = url.searchParams.get('categoryId') || ''
+
+    if (!start || !end) return badRequest('Missing required params: start, end')
+
+    const { data: userData, error: userErr } = await supabaseServer.auth.getUser()
+    if (userErr) {
+      return NextResponse.json({ error: 'Failed to validate session', details: userErr.message }, { status: 401 })
+    }
+    if (!userData?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const startUtcIso = toUtcIsoStartOfDay(start, tz)
+    const endUtcIso = toUtcIsoStartOfDay(end, tz)
+    if (!startUtcIso || !endUtcIso) return badRequest('Invalid start or end date, or timezone (tz)')
+    if (DateTime.fromISO(endUtcIso) <= DateTime.fromISO(startUtcIso)) return badRequest('Invalid range: end must be after start')
+
+    const categoryIds = categoryIdParam
+      .split(',')
+      .map((s) => s.trim())
+      .filter((s) => s.length > 0)
+
+    // Linked rows aggregate by payee_id; unlinked rows by their raw text
+    let linkedQuery = supabaseServer
+      .from('transactions')
+      .select('payee_id, kind, payees(name), total:amount.sum(), tx_count:id.count()')
+      .gte('occurred_at', startUtcIso)
+      .lt('occurred_at', endUtcIso)
+      .neq('kind', 'transfer')
+      .not('payee_id', 'is', null)
+    let unlinkedQuery = supabaseServer
+      .from('transactions')
+      .select('payee, kind, total:amount.sum(), tx_count:id.count()')
+      .gte('occurred_at', startUtcIso)
+      .lt('occurred_at', endUtcIso)
+      .neq('kind', 'transfer')
+      .is('payee_id', null)
+
+    if (method) {
+      linkedQuery = linkedQuery.eq('payment_method', method)
+      unlinkedQuery = unlinkedQuery.eq('payment_method', method)
+    }
+
+    let splitRows: SplitRow[] = []
+    if (categoryIds.length > 0) {
+      linkedQuery = linkedQuery.eq('has_splits', false).in('category_id', categoryIds)
+      unlinkedQuery = unlinkedQuery.eq('has_splits', false).in('category_id', categoryIds)
+
+      // Split lines are individual rows rather than aggregates, so they are paged past PostgREST's row cap
+      const { data, error } = await selectAllPages<SplitRow>((from, to) => {
+        const query = supabaseServer
+          .from('transaction_splits')
+          .select('amount, transaction_id, transactions!inner(kind, payee, payee_id, occurred_at, payment_method, payees(name))')
+          .in('category_id', categoryIds)
+          .gte('transactions.occurred_at', startUtcIso)
+          .lt('transactions.occurred_at', endUtcIso)
+          .neq('transactions.kind', 'transfer')
+        return (method ? query.eq('transactions.payment_method', method) : query)
+          .order('id', { ascending: true })
+          .range(from, to)
+          .overrideTypes<SplitRow[], { merge: false }>()
+      })
+      if (error) {
+        return NextResponse.json({ error: 'Failed to fetch payee aggregates', details: error.message }, { status: 500 })
+      }
+      splitRows = data
+    }
+
+    const [{ data: linked, error }, { data: unlinked, error: unlinkedError }] = await Promise.all([
+      linkedQuery.overrideTypes<LinkedRow[], { merge: false }>(),
+      unlinkedQuery.overrideTypes<UnlinkedRow[], { merge: false }>(),
+    ])
+    if (error || unlinkedError) {
+      return NextResponse.json(
+        { error: 'Failed to fetch payee aggregates', details: (error ?? unlinkedError)?.message },
+        { status: 500 }
+      )
+    }
+
+    const byPayee = new Map<string, Entry>()
+    const add = (key: string, payeeId: string | null, payeeName: string, kind: string, amount: number, count: number) => {
+      const entry = byPayee.get(key) ?? { payeeId, payeeName, total: 0, count: 0, refunded: 0, income: 0 }
+      if (kind === 'income') {
+        entry.income += amount
+      } else {
+        entry.count += count
+        if (kind === 'refund') {
+          entry.total -= amount
+          entry.refunded += amount
+        } else {
+          entry.total += amount
+        }
+      }
+      byPayee.set(key, entry)
+    }
+
+    for (const r of linked || []) {
+      add(`id:${r.payee_id}`, r.payee_id, r.payees?.name ?? 'Unknown payee', r.kind, Number(r.total ?? 0), Number(r.tx_count ?? 0))
+    }
+    for (const r of unlinked || []) {
+      const text = typeof r.payee === 'string' ? r.payee.replace(/\s+/g, ' ').trim() : ''
+      add(text ? `text:${text.toLowerCase()}` : 'none', null, text || 'No payee', r.kind, Number(r.total ?? 0), Number(r.tx_count ?? 0))
+    }
+
+    // Split lines fold in per parent transaction, so several matching lines still count the transaction once
+    const seenSplitTx = new Set<string>()
+    for (const line of splitRows) {
+      const tx = line.transactions
+      const text = typeof tx?.payee === 'string' ? tx.payee.replace(/\s+/g, ' ').trim() : ''
+      const key = tx?.payee_id ? `id:${tx.payee_id}` : text ? `text:${text.toLowerCase()}` : 'none'
+      const first = !seenSplitTx.has(line.transaction_id)
+      seenSplitTx.add(line.transaction_id)
+      add(key, tx?.payee_id ?? null, tx?.payees?.name ?? (text || 'No payee'), tx?.kind, Number(line.amount ?? 0), first ? 1 : 0)
+    }
+
+    const currency = await getPrimaryCurrency(supabaseServer, userData.user.id)
+
+    const normalized = Array.from(byPayee.values())
+    const grandTotal = normalized.reduce((sum, r) => sum + (r.total > 0 ? r.total : 0), 0)
+
+    const result = normalized
+      .map((r) => ({
+        ...r,
+        currency,
+        percentage: grandTotal > 0 && r.total > 0 ? (r.total / grandTotal) * 100 : 0,
+      }))
+      .sort((a, b) => b.total - a.total)
+
+    return NextResponse.json(result, { status: 200 })
+  } catch (e) {
+    return NextResponse.json({ error: 'Unexpected server error', details: e instanceof Error ? e.message : String(e) }, { status: 500 })
+  }
+}
@@ -0,0 +1,274 @@
+/**
+ * CODE INSIGHT
+ * This code's use case is the delta pull for offline hydration: GET /api/sync/pull?since=<cursor> returns every
+ * transaction, category, tag, preset, recurring rule and budget changed since the cursor, plus tombstones for deleted
+ * rows. Without since, or with a cursor older than the tombstone retention, it answers with a full snapshot and
+ * reset: true. Transactions page by (updated_at, id); windows overlap by OVERLAP_MS so late commits are not skipped.
+ * This code's full epic context is the offline-first sync flow; the SyncProvider pulls after draining the queue and
+ * writes the result into localForage so lists, budgets and reports render offline.
+ * This code's ui feel is irrelevant (server-side); errors follow the sync routes' { message, errors } shape.
+ */
+
+import { NextResponse } from 'next/server'
+import { supabaseServer } from '@/utils/supabase/client-server'
+import { selectAllPages } from '@/utils/supabase/paging'
+import { UUID_V4_REGEX, tagNamesOf, type TagLink, type TransactionRow } from '@/utils/transactions'
+
+type Cursor = { s: string | null; u?: string; a?: { t: string; id: string } }
+
+type TombstoneEntity =
+  | 'transactions'
+  | 'categories'
+  | 'tags'
+  | 'presets'
+  | 'recurring_transactions'
+  | 'category_budgets'
+  | 'overall_budgets'
+
+type PulledTransaction = TransactionRow & {
+  transaction_tags: TagLink[] | null
+  transaction_splits:
+    | { id: string; amount: number; category_id: string | null; notes: string | null; position: number | null; transaction_split_tags: TagLink[] | null }[]
+    | null
+  transaction_receipts: { url: string; created_at: string }[] | null
+}
+
+type Row = Record<string, unknown>
+
+type TombstoneRow = { entity: TombstoneEntity; entity_id: string; deleted_at: string }
+
+const TRANSACTION_SELECT =
+  'id, kind, amount, currency, original_amount, exchange_rate, occurred_at, category_id, account_id, transfer_account_id, payee, payee_id, payment_method, notes, has_splits, version, created_at, updated_at, transaction_tags ( tags:tag_id ( name ) ), transaction_splits ( id, amount, category_id, notes, position, transaction_split_tags ( tags:tag_id ( name ) ) ), transaction_receipts ( url, created_at )'
+
+const DEFAULT_LIMIT = 200
+const MAX_LIMIT = 500
+const OVERLAP_MS = 60 * 1000
+const TOMBSTONE_RETENTION_DAYS = 90
+
+function encodeCursor(cursor: Cursor) {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url')
+}
+
+function decodeCursor(raw: string): Cursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'))
+    if (!parsed || typeof parsed !== 'object') return null
+    const isIso = (v: unknown) => typeof v === 'string' && !isNaN(new Date(v).getTime())
+    if (parsed.s !== null && !isIso(parsed.s)) return null
+    if (parsed.u !== undefined && !isIso(parsed.u)) return null
+    if (parsed.a !== undefined && (!isIso(parsed.a?.t) || !UUID_V4_REGEX.test(String(parsed.a?.id)))) return null
+    return parsed as Cursor
+  } catch {
+    return null
+  }
+}
+
+function parseLimit(raw: string | null) {
+  const n = raw ? Number(raw) : DEFAULT_LIMIT
+  if (!Number.isFinite(n) || n <= 0) return DEFAULT_LIMIT
+  return Math.min(Math.floor(n), MAX_LIMIT)
+}
+
+function shapeTransaction(row: PulledTransaction) {
+  const receipts = (row.transaction_receipts || [])
+    .slice()
+    .sort((a, b) => String(b.created_at).localeCompare(String(a.created_at)))
+  return {
+    id: row.id,
+    kind: row.kind,
+    amount: row.amount,
+    currency: row.currency ?? 'KRW',
+    original_amount: row.original_amount ?? row.amount,
+    exchange_rate: Number(row.exchange_rate ?? 1),
+    occurred_at: row.occurred_at,
+    category_id: row.category_id,
+    account_id: row.account_id ?? null,
+    transfer_account_id: row.transfer_account_id ?? null,
+    payee: row.payee,
+    payee_id: row.payee_id ?? null,
+    payment_method: row.payment_method,
+    notes: row.notes,
+    has_splits: row.has_splits ?? false,
+    tag_names: tagNamesOf(row.transaction_tags),
+    splits: (row.transaction_splits || [])
+      .slice()
+      .sort((a, b) => (a.position ?? 0) - (b.position ?? 0))
+      .map((s) => ({
+        id: s.id,
+        amount: s.amount,
+        category_id: s.category_id,
+        notes: s.notes ?? null,
+        position: s.position,
+        tag_names: tagNamesOf(s.transaction_split_tags),
+      })),
+    receipt_url: receipts[0]?.url ?? null,
+    version: row.version,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  }
+}
+
+export async function GET(req: Request) {
+  const { data: auth, error: authError } = await supabaseServer.auth.getUser()
+  if (authError || !auth?.user) {
+    return NextResponse.json({ message: 'Unauthorized' }, { status: 401 })
+  }
+  const userId = auth.user.id
+
+  const { searchParams } = new URL(req.url)
+  const sinceParam = searchParams.get('since')
+  const limit = parseLimit(searchParams.get('limit'))
+  const cursor = sinceParam ? decodeCursor(sinceParam) : null
+  if (sinceParam && !cursor) {
+    return NextResponse.json(
+      { message: 'Validation failed', errors: [{ field: 'since', message: 'since must be a cursor returned by a previous pull' }] },
+      { status: 400 },
+    )
+  }
+
+  const serverTime = new Date().toISOString()
+  const upper = cursor?.u ?? serverTime
+  const retentionCutoff = new Date(Date.now() - TOMBSTONE_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString()
+  // Tombstones older than the retention are gone, so a cursor that old cannot be answered with a delta
+  const reset = !cursor?.s || cursor.s < retentionCutoff
+  const lower = reset ? null : new Date(new Date(cursor!.s as string).getTime() - OVERLAP_MS).toISOString()
+  const firstPage = !cursor?.a
+
+  let txQuery = supabaseServer
+    .from('transactions')
+    .select(TRANSACTION_SELECT)
+    .eq('user_id', userId)
+    .lte('updated_at', upper)
+    .order('updated_at', { ascending: true })
+    .order('id', { ascending: true })
+    .limit(limit + 1)
+  if (lower) txQuery = txQuery.gt('updated_at', lower)
+  if (cursor?.a) {
+    // Keyset pagination over (updated_at asc, id asc)
+    txQuery = txQuery.or(`updated_at.gt."${cursor.a.t}",and(updated_at.eq."${cursor.a.t}",id.gt.${cursor.a.id})`)
+  }
+  const { data: txRows, error: txErr } = await txQuery.overrideTypes<PulledTransaction[], { merge: false }>()
+  if (txErr) {
+    return NextResponse.json({ message: 'Failed to read transactions', errors: [] }, { status: 500 })
+  }
+
+  const rows = txRows || []
+  const hasMore = rows.length > limit
+  const page = hasMore ? rows.slice(0, limit) : rows
+  const transactions = page.map(shapeTransaction)
+
+  const changes: Record<string, unknown[]> = {
+    transactions,
+    categories: [],
+    tags: [],
+    presets: [],
+    recurring: [],
+    category_budgets: [],
+    overall_budgets: [],
+  }
+  let tombstones: { entity: TombstoneEntity; id: string; deleted_at: string }[] = []
+
+  if (firstPage) {
+    // Only transactions are paged by the cursor; everything else comes whole, read past PostgREST's row cap
+    const windowed = (table: string, columns: string) =>
+      selectAllPages<Row>((from, to) => {
+        const query = supabaseServer.from(table).select(columns).eq('user_id', userId).lte('updated_at', upper)
+        return (lower ? query.gt('updated_at', lower) : query)
+          .order('id', { ascending: true })
+          .range(from, to)
+          .overrideTypes<Row[], { merge: false }>()
+      })
+
+    const tombstoneQuery = selectAllPages<TombstoneRow>((from, to) => {
+      const query = supabaseServer
+        .from('sync_tombstones')
+        .select('entity, entity_id, deleted_at')
+        .eq('user_id', userId)
+        .lte('deleted_at', upper)
+      return (lower ? query.gt('deleted_at', lower) : query)
+        .order('deleted_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, to)
+        .overrideTypes<TombstoneRow[], { merge: false }>()
+    })
+
+    const [categoriesRes, tagsRes, presetsRes, recurringRes, categoryBudgetsRes, overallBudgetsRes, tombstonesRes] =
+      await Promise.all([
+        windowed('categories', '*'),
+        windowed('tags', 'id, name, is_favorite, archived_at, created_at, updated_at'),
+        windowed('presets', 'id, name, amount, category_id, payee, payment_method, notes, is_favorite, created_at, updated_at, preset_tags ( tags:tag_id ( name ) )'),
+        windowed('recurring_transactions', '*'),
+        windowed('category_budgets', 'id, category_id, period_start, amount, alert_threshold_percent, updated_at'),
+        windowed('overall_budgets', 'id, period_start, amount, alert_threshold_percent, updated_at'),
+        reset ? Promise.resolve({ data: [] as TombstoneRow[], error: null }) : tombstoneQuery,
+      ])
+    const failed = [categoriesRes, tagsRes, presetsRes, recurringRes, categoryBudgetsRes, overallBudgetsRes, tombstonesRes].find(
+      (r) => r.error,
+    )
+    if (failed) {
+      return NextResponse.json({ message: 'Failed to read changes', errors: [] }, { status: 500 })
+    }
+
+    changes.categories = categoriesRes.data
+    changes.tags = tagsRes.data
+    changes.presets = (presetsRes.data as (Row & { preset_tags: TagLink[] | null })[]).map(({ preset_tags, ...p }) => ({
+      ...p,
+      tag_names: tagNamesOf(preset_tags),
+    }))
+    changes.recurring = recurringRes.data
+    changes.category_budgets = categoryBudgetsRes.data
+    changes.overall_budgets = overallBudgetsRes.data
+    tombstones = tombstonesRes.data.map((t) => ({
+      entity: t.entity,
+      id: t.entity_id,
+      deleted_at: t.deleted_at,
+    }))
+
+    // Receipts link to a transaction without touching it; re-send those transactions so receipt_url stays current
+    if (lower) {
+      const { data: receiptRows } = await selectAllPages<{ transaction_id: string }>((from, to) =>
+        supabaseServer
+          .from('transaction_receipts')
+          .select('transaction_id, transactions!inner ( user_id )')
+          .eq('transactions.user_id', userId)
+          .gt('updated_at', lower)
+          .lte('updated_at', upper)
+          .order('id', { ascending: true })
+          .range(from, to)
+          .overrideTypes<{ transaction_id: string }[], { merge: false }>(),
+      )
+      const seen = new Set(transactions.map((t) => t.id))
+      const touched = Array.from(new Set(receiptRows.map((r) => r.transaction_id))).filter(
+        (id) => !seen.has(id),
+      )
+      if (touched.length > 0) {
+        const { data: touchedRows } = await supabaseServer
+          .from('transactions')
+          .select(TRANSACTION_SELECT)
+          .eq('user_id', userId)
+          .in('id', touched)
+          .overrideTypes<PulledTransaction[], { merge: false }>()
+        changes.transactions.push(...(touchedRows || []).map(shapeTransaction))
+      }
+    }
+
+    await supabaseServer.from('sync_tombstones').delete().eq('user_id', userId).lt('deleted_at', retentionCutoff)
+  }
+
+  const last = page[page.length - 1]
+  const next: Cursor = hasMore
+    ? { s: cursor?.s ?? null, u: upper, a: { t: last.updated_at, id: last.id } }
+    : { s: upper }
+
+  return NextResponse.json(
+    {
+      cursor: encodeCursor(next),
+      has_more: hasMore,
+      reset,
+      server_time: serverTime,
+      changes,
+      tombstones,
+    },
+    { headers: { 'cache-control': 'no-store' } },
+  )
+}
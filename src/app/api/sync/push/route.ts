@@ -0,0 +1,197 @@
+/**
+ * CODE INSIGHT
+ * This code's use case is the idempotent batch push for the offline queue: POST { operations: [...] } applies up to
+ * MAX_OPERATIONS queued transaction creates, updates and deletes in order and returns one result per operation.
+ * Each operation's idempotency_key is claimed in sync_operations before it runs and its outcome stored against it, so a
+ * replayed batch gets the stored results (replayed: true) instead of applying twice; reusing a key for a different
+ * operation is rejected. Operations run through the transactions route handlers, so they validate and version-check
+ * exactly like the direct endpoints. The handlers get the key as an Idempotency-Key header and their database write
+ * completes the claim in the same transaction, so a request dying mid-way never leaves an applied operation to re-run;
+ * a stale claim is taken over only if it has not changed since it was read.
+ * This code's full epic context is the offline-first sync flow; the SyncProvider pushes queue items here keyed by their
+ * queue item id.
+ * This code's ui feel is irrelevant (server-side), but errors mirror the transactions routes' { message, errors } shape.
+ */
+
+import { NextResponse } from 'next/server'
+import { supabaseServer } from '@/utils/supabase/client-server'
+import {
+  hashOperation,
+  priorResult,
+  validateOperations,
+  type Operation,
+  type OperationResult,
+  type ResultStatus,
+  type SyncOperationRow,
+} from '@/utils/sync-operations'
+import { POST as createTransaction } from '@/app/api/transactions/route'
+import { DELETE as deleteTransaction, PATCH as updateTransaction } from '@/app/api/transactions/[id]/route'
+
+const RETENTION_DAYS = 30
+
+// Runs one operation through the matching single-transaction handler and maps its response onto a result
+async function apply(req: Request, op: Operation): Promise<OperationResult> {
+  const base = { idempotency_key: op.idempotency_key, type: op.type, replayed: false }
+  const origin = new URL(req.url).origin
+  const headers = { 'content-type': 'application/json', 'idempotency-key': op.idempotency_key }
+
+  let res: Response
+  if (op.type === 'CREATE_TRANSACTION') {
+    res = await createTransaction(
+      new Request(`${origin}/api/transactions`, { method: 'POST', headers, body: JSON.stringify(op.payload) }),
+    )
+  } else if (op.type === 'UPDATE_TRANSACTION') {
+    const body: Record<string, unknown> = { ...op.payload }
+    if (op.unconditional === true) body.unconditional = true
+    else if (typeof op.base_version === 'number') body.base_version = op.base_version
+    res = await updateTransaction(
+      new Request(`${origin}/api/transactions/${op.id}`, { method: 'PATCH', headers, body: JSON.stringify(body) }),
+      { params: { id: op.id as string } },
+    )
+  } else {
+    const guard: Record<string, string> =
+      op.unconditional !== true && typeof op.base_version === 'number' ? { 'if-match': `"${op.base_version}"` } : {}
+    res = await deleteTransaction(
+      new Request(`${origin}/api/transactions/${op.id}`, {
+        method: 'DELETE',
+        headers: { 'idempotency-key': op.idempotency_key, ...guard },
+      }),
+      { params: { id: op.id as string } },
+    )
+  }
+
+  const body = res.status === 204 ? null : await res.json().catch(() => null)
+  if (res.ok) {
+    return {
+      ...base,
+      status: 'applied',
+      id: body?.id ?? op.id,
+      version: typeof body?.version === 'number' ? body.version : null,
+    }
+  }
+  if (res.status === 409) {
+    return { ...base, status: 'conflict', id: op.id, version: body?.version ?? null, conflict: body }
+  }
+  if (res.status === 404) return { ...base, status: 'not_found', id: op.id, message: body?.message ?? 'Transaction not found' }
+  if (res.status === 400 || res.status === 422) {
+    return { ...base, status: 'invalid', errors: Array.isArray(body?.errors) ? body.errors : [], message: body?.message }
+  }
+  return { ...base, status: 'failed', message: body?.message ?? `Operation failed (${res.status})` }
+}
+
+// The outcome stored on a claim that has been completed, replayed in place of this request's own; null while processing
+async function storedResult(userId: string, op: Operation): Promise<OperationResult | null> {
+  const { data } = await supabaseServer
+    .from('sync_operations')
+    .select('status, result')
+    .eq('user_id', userId)
+    .eq('idempotency_key', op.idempotency_key)
+    .maybeSingle()
+    .overrideTypes<Pick<SyncOperationRow, 'status' | 'result'>, { merge: false }>()
+  return data?.status === 'completed' ? { ...(data.result as OperationResult), replayed: true } : null
+}
+
+export async function POST(req: Request) {
+  const { data: auth, error: authError } = await supabaseServer.auth.getUser()
+  if (authError || !auth?.user) {
+    return NextResponse.json({ message: 'Unauthorized' }, { status: 401 })
+  }
+  const userId = auth.user.id
+
+  let body: unknown
+  try {
+    body = await req.json()
+  } catch {
+    return NextResponse.json({ message: 'Invalid JSON' }, { status: 400 })
+  }
+
+  const parsed = validateOperations(body)
+  if (!parsed.ok) {
+    return NextResponse.json({ message: 'Validation failed', errors: parsed.errors }, { status: 400 })
+  }
+
+  const { data: existingRows, error: lookupErr } = await supabaseServer
+    .from('sync_operations')
+    .select('idempotency_key, request_hash, status, result, updated_at')
+    .eq('user_id', userId)
+    .in('idempotency_key', parsed.operations.map((op) => op.idempotency_key))
+  if (lookupErr) {
+    return NextResponse.json({ message: 'Failed to read sync state' }, { status: 500 })
+  }
+  const existing = new Map(((existingRows || []) as SyncOperationRow[]).map((r) => [r.idempotency_key, r]))
+
+  const results: OperationResult[] = []
+  for (const op of parsed.operations) {
+    const prior = existing.get(op.idempotency_key)
+
+    if (prior) {
+      const settled = priorResult(op, prior)
+      if (settled) {
+        results.push(settled)
+        continue
+      }
+      // Take the stale claim over only if no other request has touched it since it was read
+      const { data: taken } = await supabaseServer
+        .from('sync_operations')
+        .update({ status: 'processing' })
+        .eq('user_id', userId)
+        .eq('idempotency_key', op.idempotency_key)
+        .eq('status', 'processing')
+        .eq('updated_at', prior.updated_at)
+        .select('idempotency_key')
+      if (!taken?.length) {
+        results.push({ idempotency_key: op.idempotency_key, type: op.type, status: 'in_progress', replayed: false })
+        continue
+      }
+    } else {
+      const { error: claimErr } = await supabaseServer
+        .from('sync_operations')
+        .insert({ user_id: userId, idempotency_key: op.idempotency_key, operation: op.type, request_hash: hashOperation(op) })
+      if (claimErr) {
+        // A concurrent request claimed the key between our lookup and insert
+        const status: ResultStatus = claimErr.code === '23505' ? 'in_progress' : 'failed'
+        results.push({ idempotency_key: op.idempotency_key, type: op.type, status, replayed: false })
+        continue
+      }
+    }
+
+    let result: OperationResult
+    try {
+      result = await apply(req, op)
+    } catch (e) {
+      result = { idempotency_key: op.idempotency_key, type: op.type, status: 'failed', replayed: false, message: e instanceof Error ? e.message : undefined }
+    }
+
+    // Only a claim still processing is settled here; a write that applied the operation has already completed it
+    let settled: { idempotency_key: string }[] | null
+    if (result.status === 'failed') {
+      // Nothing was applied; free the key so the client can retry it
+      const { data } = await supabaseServer
+        .from('sync_operations')
+        .delete()
+        .eq('user_id', userId)
+        .eq('idempotency_key', op.idempotency_key)
+        .eq('status', 'processing')
+        .select('idempotency_key')
+      settled = data
+    } else {
+      const { data } = await supabaseServer
+        .from('sync_operations')
+        .update({ status: 'completed', result })
+        .eq('user_id', userId)
+        .eq('idempotency_key', op.idempotency_key)
+        .eq('status', 'processing')
+        .select('idempotency_key')
+      settled = data
+    }
+    // Unless this request applied the operation itself, an outcome stored by whichever write did is the one to report
+    if (!settled?.length && result.status !== 'applied') result = (await storedResult(userId, op)) ?? result
+    results.push(result)
+  }
+
+  // Keys only need to outlive the longest plausible offline replay
+  const cutoff = new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString()
+  await supabaseServer.from('sync_operations').delete().eq('user_id', userId).lt('created_at', cutoff)
+
+  return NextResponse.json({ results }, { headers: { 'cache-control': 'no-store' } })
+}
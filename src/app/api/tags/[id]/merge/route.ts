@@ -0,0 +1,72 @@
+/**
+ * CODE INSIGHT
+ * This code's use case is merging the tag at [id] into another one: POST { target_id, dry_run? } re-tags its transactions,
+ * split lines, presets and payee defaults with target_id (rows that already carry both keep just the target), then
+ * deletes [id]. With dry_run it only answers what would move, so the UI can confirm first.
+ * This code's full epic context is the Manage > Tags flow, for folding near-duplicates ("travel", "Travel2026", "여행")
+ * together; the work is done by @/utils/tag-merge.
+ * This code's ui feel is not applicable (API route); responses use the tags routes' { error, details } shape.
+ */
+
+import { NextResponse } from 'next/server'
+import { supabaseServer } from '@/utils/supabase/client-server'
+import { countTagMerge, mergeTagInto } from '@/utils/tag-merge'
+
+function isValidUUID(v: string) {
+  return /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-5][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}$/.test(v)
+}
+
+export async function POST(req: Request, { params }: { params: { id: string } }) {
+  const { data: authData, error: authError } = await supabaseServer.auth.getUser()
+  if (authError || !authData?.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+  const userId = authData.user.id
+
+  const id = params.id
+  if (!isValidUUID(id)) {
+    return NextResponse.json({ error: 'Invalid tag id' }, { status: 400 })
+  }
+
+  let body: any
+  try {
+    body = await req.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+  const targetId = body?.target_id
+  if (typeof targetId !== 'string' || !isValidUUID(targetId)) {
+    return NextResponse.json({ error: 'target_id must be a tag id' }, { status: 400 })
+  }
+  if (targetId === id) {
+    return NextResponse.json({ error: 'Cannot merge tags', details: 'Choose a different tag to merge into' }, { status: 400 })
+  }
+  const dryRun = body?.dry_run === true
+
+  const { data: rows, error: loadErr } = await supabaseServer.from('tags').select('id').eq('user_id', userId).in('id', [id, targetId])
+  if (loadErr) {
+    return NextResponse.json({ error: 'Failed to load tags', details: loadErr.message }, { status: 500 })
+  }
+  const found = new Set(((rows || []) as { id: string }[]).map((r) => r.id))
+  if (!found.has(id)) {
+    return NextResponse.json({ error: 'Not Found' }, { status: 404 })
+  }
+  if (!found.has(targetId)) {
+    return NextResponse.json({ error: 'Cannot merge tags', details: 'Target tag not found' }, { status: 400 })
+  }
+
+  const { counts, error } = dryRun
+    ? await countTagMerge(supabaseServer, id, targetId)
+    : await mergeTagInto(supabaseServer, id, targetId)
+  if (error || !counts) {
+    return NextResponse.json(
+      { error: dryRun ? 'Failed to count tag usage' : 'Failed to merge tags', details: error?.message },
+      { status: 500 },
+    )
+  }
+
+  return NextResponse.json(
+    { source_id: id, target_id: targetId, dry_run: dryRun, counts },
+    { status: 200, headers: { 'cache-control': 'no-store' } },
+  )
+}
@@ -1,6 +1,7 @@
 /**
  * CODE INSIGHT
- * This code's use case is to provide a secure, user-scoped API for single Tag operations (read, rename, delete) in the Tris app.
+ * This code's use case is to provide a secure, user-scoped API for single Tag operations (read, rename, archive, delete) in the Tris app.
+ * PATCH { archived } archives or restores a tag: archived tags are left out of suggestions but stay on the rows that use them.
  * This code's full epic context is the Manage > Tags feature where users manage tags with offline support and server persistence via Supabase. The route enforces RLS, handles conflicts, and returns appropriate HTTP statuses used by SWR on the client.
  * This code's ui feel is not applicable (API route), but responses are clear and actionable, supporting optimistic UI and friendly error messaging.
  */
@@ -83,6 +84,41 @@ export async function PUT(req: NextRequest, { params }: { params: { id: string }
   return NextResponse.json(data, { status: 200 })
 }
 
+export async function PATCH(req: NextRequest, { params }: { params: { id: string } }) {
+  const { data: auth, error: authError } = await supabaseServer.auth.getUser()
+  if (authError || !auth?.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  let body: unknown
+  try {
+    body = await req.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+
+  const archived = (body as any)?.archived
+  if (typeof archived !== 'boolean') {
+    return NextResponse.json({ error: 'archived must be true or false' }, { status: 400 })
+  }
+
+  const { data, error } = await supabaseServer
+    .from('tags')
+    .update({ archived_at: archived ? new Date().toISOString() : null, updated_at: new Date().toISOString() })
+    .eq('id', params.id)
+    .select()
+    .single()
+
+  if (error) {
+    if (error.code === 'PGRST116' || error.message?.toLowerCase().includes('no rows')) {
+      return NextResponse.json({ error: 'Not Found' }, { status: 404 })
+    }
+    return NextResponse.json({ error: 'Failed to update tag', details: error.message }, { status: 500 })
+  }
+
+  return NextResponse.json(data, { status: 200 })
+}
+
 export async function DELETE(_req: NextRequest, { params }: { params: { id: string } }) {
   const { data: auth, error: authError } = await supabaseServer.auth.getUser()
   if (authError || !auth?.user) {
@@ -2,6 +2,7 @@
  * CODE INSIGHT
  * This code's use case is to provide the Tags collection API for Tris, enabling listing and creation of user-scoped tags with search support.
  * This code's full epic context is the Manage > Tags flow and tag suggestion inputs across the app, with offline fallbacks handled client-side.
+ * Archived tags are left out of GET (and so out of suggestions) unless ?include_archived=1.
  * This code's ui feel is not applicable (API route), but responses are consistent, minimal, and reliable to support a calm, trustworthy UX.
  */
 
@@ -18,10 +19,15 @@ export async function GET(request: NextRequest) {
 
   const url = new URL(request.url)
   const search = url.searchParams.get('search')?.trim() ?? ''
+  const includeArchived = ['1', 'true'].includes(url.searchParams.get('include_archived') ?? '')
 
   let query = supabaseServer
     .from('tags')
-    .select('id,name,is_favorite,created_at,updated_at')
+    .select('id,name,is_favorite,archived_at,created_at,updated_at')
+
+  if (!includeArchived) {
+    query = query.is('archived_at', null)
+  }
 
   if (search.length > 0) {
     query = query.ilike('name', `${search}%`).limit(20)
@@ -60,7 +66,7 @@ export async function POST(request: NextRequest) {
   // Check for existing tag (unique per user by normalized name)
   const { data: existing, error: existErr } = await supabaseServer
     .from('tags')
-    .select('id,name,is_favorite,created_at,updated_at')
+    .select('id,name,is_favorite,archived_at,created_at,updated_at')
     .eq('name', normalized)
     .maybeSingle()
 
@@ -79,7 +85,7 @@ export async function POST(request: NextRequest) {
   const { data, error } = await supabaseServer
     .from('tags')
     .insert({ user_id: auth.user.id, name: normalized })
-    .select('id,name,is_favorite,created_at,updated_at')
+    .select('id,name,is_favorite,archived_at,created_at,updated_at')
     .single()
 
   if (error) {
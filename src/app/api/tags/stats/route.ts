@@ -0,0 +1,155 @@
+/**
+ * CODE INSIGHT
+ * This code's use case is the per-tag statistics API: for each of the user's tags (or just ?tag_id=), how many
+ * transactions carry it, when it was last used, and its net spend in total and per month over the last ?months= months
+ * (default 6, at most 24, bucketed in ?tz= or the user's time zone). Spend follows the reports: expenses add, refunds
+ * subtract, income and transfers are left out (transfers still count as usage). A transaction tagged as a whole counts
+ * its full amount; one whose split lines carry the tag counts only those lines.
+ * This code's full epic context is the Manage > Tags list, which shows these numbers next to each tag to spot the
+ * near-duplicates worth merging.
+ * This code's ui feel is not applicable (API route); errors use the tags routes' { error, details } shape.
+ */
+
+import { NextResponse } from 'next/server'
+import { DateTime } from 'luxon'
+import { supabaseServer } from '@/utils/supabase/client-server'
+import { getPrimaryCurrency } from '@/utils/currency'
+import { selectAllPages } from '@/utils/supabase/paging'
+
+export const dynamic = 'force-dynamic'
+
+const DEFAULT_MONTHS = 6
+const MAX_MONTHS = 24
+
+type Use = { kind: string; amount: number; occurred_at: string; whole: boolean }
+type WholeRow = { tag_id: string; transactions: { id: string; kind: string; amount: number; occurred_at: string } | null }
+type LineRow = {
+  tag_id: string
+  transaction_splits: { amount: number; transaction_id: string; transactions: { kind: string; occurred_at: string } | null } | null
+}
+
+function isValidUUID(v: string) {
+  return /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-5][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}$/.test(v)
+}
+
+export async function GET(req: Request) {
+  const { data: authData, error: authError } = await supabaseServer.auth.getUser()
+  if (authError || !authData?.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+  const userId = authData.user.id
+
+  const url = new URL(req.url)
+  const tagId = url.searchParams.get('tag_id') || ''
+  if (tagId && !isValidUUID(tagId)) {
+    return NextResponse.json({ error: 'Invalid tag_id' }, { status: 400 })
+  }
+  const monthsParam = url.searchParams.get('months')
+  const monthCount = monthsParam === null ? DEFAULT_MONTHS : Number(monthsParam)
+  if (!Number.isInteger(monthCount) || monthCount < 1 || monthCount > MAX_MONTHS) {
+    return NextResponse.json({ error: `months must be a whole number from 1 to ${MAX_MONTHS}` }, { status: 400 })
+  }
+
+  const [{ data: settings }, currency] = await Promise.all([
+    supabaseServer.from('user_settings').select('time_zone').eq('user_id', userId).maybeSingle(),
+    getPrimaryCurrency(supabaseServer, userId),
+  ])
+  const tz = url.searchParams.get('tz') || (settings as { time_zone: string | null } | null)?.time_zone || 'Asia/Seoul'
+  if (!DateTime.now().setZone(tz).isValid) {
+    return NextResponse.json({ error: 'Invalid timezone (tz)' }, { status: 400 })
+  }
+
+  // Link tables grow past PostgREST's row cap, so every read is paged in a stable order
+  const [tagsRes, wholeRes, linesRes] = await Promise.all([
+    selectAllPages<{ id: string; name: string; archived_at: string | null }>((from, to) => {
+      const query = supabaseServer.from('tags').select('id, name, archived_at').eq('user_id', userId)
+      return (tagId ? query.eq('id', tagId) : query).order('id', { ascending: true }).range(from, to)
+    }),
+    selectAllPages<WholeRow>((from, to) => {
+      const query = supabaseServer
+        .from('transaction_tags')
+        .select('tag_id, transaction_id, transactions!inner ( id, kind, amount, occurred_at )')
+        .eq('transactions.user_id', userId)
+      return (tagId ? query.eq('tag_id', tagId) : query)
+        .order('transaction_id', { ascending: true })
+        .order('tag_id', { ascending: true })
+        .range(from, to)
+        .overrideTypes<WholeRow[], { merge: false }>()
+    }),
+    selectAllPages<LineRow>((from, to) => {
+      const query = supabaseServer
+        .from('transaction_split_tags')
+        .select('tag_id, split_id, transaction_splits!inner ( amount, transaction_id, transactions!inner ( kind, occurred_at ) )')
+        .eq('transaction_splits.user_id', userId)
+      return (tagId ? query.eq('tag_id', tagId) : query)
+        .order('split_id', { ascending: true })
+        .order('tag_id', { ascending: true })
+        .range(from, to)
+        .overrideTypes<LineRow[], { merge: false }>()
+    }),
+  ])
+  const failed = [tagsRes, wholeRes, linesRes].find((r) => r.error)
+  if (failed?.error) {
+    return NextResponse.json({ error: 'Failed to load tag statistics', details: failed.error.message }, { status: 500 })
+  }
+  const tags = tagsRes.data
+  if (tagId && tags.length === 0) {
+    return NextResponse.json({ error: 'Not Found' }, { status: 404 })
+  }
+
+  // Per tag, one entry per transaction, so a transaction counts once however many of its lines carry the tag
+  const uses = new Map<string, Map<string, Use>>()
+  const entryFor = (tag: string, txId: string, init: () => Use) => {
+    const byTx = uses.get(tag) ?? new Map<string, Use>()
+    uses.set(tag, byTx)
+    const use = byTx.get(txId) ?? init()
+    byTx.set(txId, use)
+    return use
+  }
+  for (const r of wholeRes.data) {
+    const tx = r.transactions
+    if (!tx?.id) continue
+    const use = entryFor(r.tag_id, tx.id, () => ({ kind: tx.kind, amount: 0, occurred_at: tx.occurred_at, whole: true }))
+    use.whole = true
+    use.amount = Number(tx.amount ?? 0)
+  }
+  for (const r of linesRes.data) {
+    const line = r.transaction_splits
+    const tx = line?.transactions
+    if (!line?.transaction_id || !tx) continue
+    const use = entryFor(r.tag_id, line.transaction_id, () => ({ kind: tx.kind, amount: 0, occurred_at: tx.occurred_at, whole: false }))
+    if (!use.whole) use.amount += Number(line.amount ?? 0)
+  }
+
+  const thisMonth = DateTime.now().setZone(tz).startOf('month')
+  const months = Array.from({ length: monthCount }, (_, i) => thisMonth.minus({ months: monthCount - 1 - i }).toFormat('yyyy-MM'))
+
+  const items = tags
+    .map((tag) => {
+      const byTx = uses.get(tag.id) ?? new Map<string, Use>()
+      const monthly = new Map(months.map((m) => [m, 0]))
+      let total = 0
+      let lastUsed: string | null = null
+      for (const use of byTx.values()) {
+        if (!lastUsed || use.occurred_at > lastUsed) lastUsed = use.occurred_at
+        if (use.kind !== 'expense' && use.kind !== 'refund') continue
+        const signed = use.kind === 'refund' ? -use.amount : use.amount
+        total += signed
+        const month = DateTime.fromISO(use.occurred_at, { zone: 'utc' }).setZone(tz).toFormat('yyyy-MM')
+        if (monthly.has(month)) monthly.set(month, monthly.get(month)! + signed)
+      }
+      return {
+        tag_id: tag.id,
+        name: tag.name,
+        archived: !!tag.archived_at,
+        usage_count: byTx.size,
+        last_used_at: lastUsed,
+        total_spend: total,
+        monthly: months.map((month) => ({ month, spend: monthly.get(month)! })),
+        currency,
+      }
+    })
+    .sort((a, b) => b.usage_count - a.usage_count || a.name.localeCompare(b.name))
+
+  return NextResponse.json({ months, currency, items }, { status: 200, headers: { 'cache-control': 'no-store' } })
+}
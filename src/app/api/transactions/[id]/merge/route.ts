@@ -0,0 +1,134 @@
+/**
+ * CODE INSIGHT
+ * This code's use case is to merge a duplicate into the transaction at [id]: POST { other_id } keeps [id], moves the
+ * other row's tags and transaction_receipts onto it, fills the kept row's empty payee/notes/category/account from the
+ * other one, and then deletes the other row. Tags already on the kept row and receipts with the same url are not
+ * duplicated. The kept row's version advances, so stale offline edits of it conflict as usual.
+ * This code's full epic context is duplicate cleanup (see ../../duplicates/route.ts for detection).
+ * This code's ui feel is irrelevant (server-side); the response summarizes what moved.
+ */
+
+import { NextResponse } from 'next/server'
+import { supabaseServer } from '@/utils/supabase/client-server'
+import { UUID_V4_REGEX, type TransactionRow } from '@/utils/transactions'
+
+const FILLABLE_FIELDS = ['payee', 'notes', 'category_id', 'account_id'] as const
+
+type MergeRow = Pick<TransactionRow, 'id' | 'payee' | 'notes' | 'category_id' | 'account_id' | 'has_splits'>
+type ReceiptRow = { id: string; url: string }
+
+export async function POST(req: Request, { params }: { params: { id: string } }) {
+  const { data: authData, error: authError } = await supabaseServer.auth.getUser()
+  if (authError || !authData?.user) {
+    return NextResponse.json({ message: 'Unauthorized' }, { status: 401 })
+  }
+  const userId = authData.user.id
+
+  const keepId = params?.id
+  if (!keepId || !UUID_V4_REGEX.test(keepId)) {
+    return NextResponse.json({ message: 'Transaction not found' }, { status: 404 })
+  }
+
+  let body: { other_id?: unknown } | null
+  try {
+    body = await req.json()
+  } catch {
+    return NextResponse.json({ message: 'Invalid JSON' }, { status: 400 })
+  }
+  const otherId = body?.other_id
+  if (typeof otherId !== 'string' || !UUID_V4_REGEX.test(otherId) || otherId === keepId) {
+    return NextResponse.json(
+      { message: 'Validation failed', errors: [{ field: 'other_id', message: 'other_id must be a different transaction UUID' }] },
+      { status: 400 },
+    )
+  }
+
+  const { data: rows, error: loadErr } = await supabaseServer
+    .from('transactions')
+    .select('id, payee, notes, category_id, account_id, has_splits')
+    .eq('user_id', userId)
+    .in('id', [keepId, otherId])
+    .overrideTypes<MergeRow[], { merge: false }>()
+  if (loadErr) return NextResponse.json({ message: 'Failed to load transactions' }, { status: 500 })
+  const keep = (rows || []).find((r) => r.id === keepId)
+  const other = (rows || []).find((r) => r.id === otherId)
+  if (!keep || !other) return NextResponse.json({ message: 'Transaction not found' }, { status: 404 })
+
+  // Tags: add the other row's tags to the kept row, skipping pairs that already exist
+  const { data: otherTags } = await supabaseServer
+    .from('transaction_tags')
+    .select('tag_id')
+    .eq('transaction_id', otherId)
+    .overrideTypes<{ tag_id: string }[], { merge: false }>()
+  const tagIds = (otherTags || []).map((t) => t.tag_id)
+  if (tagIds.length > 0) {
+    const { error } = await supabaseServer
+      .from('transaction_tags')
+      .upsert(
+        tagIds.map((tag_id) => ({ transaction_id: keepId, tag_id })),
+        { onConflict: 'transaction_id,tag_id', ignoreDuplicates: true },
+      )
+    if (error) return NextResponse.json({ message: 'Failed to move tags' }, { status: 500 })
+  }
+
+  // Receipts: re-point the other row's receipts; (transaction_id, url) is unique, so identical urls are dropped
+  const [{ data: keepReceipts }, { data: otherReceipts }] = await Promise.all([
+    supabaseServer
+      .from('transaction_receipts')
+      .select('url')
+      .eq('transaction_id', keepId)
+      .overrideTypes<Pick<ReceiptRow, 'url'>[], { merge: false }>(),
+    supabaseServer
+      .from('transaction_receipts')
+      .select('id, url')
+      .eq('transaction_id', otherId)
+      .overrideTypes<ReceiptRow[], { merge: false }>(),
+  ])
+  const keptUrls = new Set((keepReceipts || []).map((r) => r.url))
+  const movable = (otherReceipts || []).filter((r) => !keptUrls.has(r.url)).map((r) => r.id)
+  if (movable.length > 0) {
+    const { error } = await supabaseServer.from('transaction_receipts').update({ transaction_id: keepId }).in('id', movable)
+    if (error) return NextResponse.json({ message: 'Failed to move receipts' }, { status: 500 })
+  }
+
+  // Fill blanks on the kept row; a split row's category lives on its lines, so it is left alone
+  const update: Record<string, unknown> = {}
+  for (const field of FILLABLE_FIELDS) {
+    if (field === 'category_id' && keep.has_splits) continue
+    if ((keep[field] == null || keep[field] === '') && other[field] != null && other[field] !== '') update[field] = other[field]
+  }
+  if (Object.keys(update).length === 0) update.updated_at = new Date().toISOString()
+  const { data: kept, error: updErr } = await supabaseServer
+    .from('transactions')
+    .update(update)
+    .eq('id', keepId)
+    .eq('user_id', userId)
+    .select('id, version')
+    .maybeSingle()
+    .overrideTypes<Pick<TransactionRow, 'id' | 'version'>, { merge: false }>()
+  if (updErr || !kept) {
+    if (updErr?.code === '23503') {
+      return NextResponse.json(
+        { message: 'Validation failed', errors: [{ field: 'other_id', message: 'category or account no longer exists' }] },
+        { status: 400 },
+      )
+    }
+    return NextResponse.json({ message: 'Failed to update transaction' }, { status: 500 })
+  }
+
+  // Remaining tags, splits and same-url receipts of the other row cascade with it
+  const { error: delErr } = await supabaseServer.from('transactions').delete().eq('id', otherId).eq('user_id', userId)
+  if (delErr) return NextResponse.json({ message: 'Failed to delete the merged transaction' }, { status: 500 })
+
+  return NextResponse.json(
+    {
+      id: keepId,
+      merged_id: otherId,
+      version: kept.version,
+      moved_tags: tagIds.length,
+      moved_receipts: movable.length,
+      filled_fields: Object.keys(update).filter((f) => f !== 'updated_at'),
+    },
+    { headers: { 'cache-control': 'no-store', etag: `"${kept.version}"` } },
+  )
+}
@@ -0,0 +1,122 @@
+/**
+ * CODE INSIGHT
+ * This code's use case is one receipt of a transaction owned by the signed-in user: GET returns it with fresh signed
+ * urls, PUT replaces its file (multipart/form-data, field "file", validated like the collection's POST) while keeping the
+ * receipt id, and DELETE removes the row together with the stored file and thumbnail.
+ * A replaced file is written to a new path before the row is switched over, so a failed update leaves the old receipt
+ * intact; the old objects are removed only afterwards.
+ * This code's full epic context is receipt management for transactions; see ../route.ts for listing and uploading.
+ * This code's ui feel is irrelevant (server-side); errors use the transactions routes' { message, errors } shape.
+ */
+
+import { randomUUID } from 'crypto'
+import { NextResponse } from 'next/server'
+import { supabaseServer } from '@/utils/supabase/client-server'
+import { UUID_V4_REGEX } from '@/utils/transactions'
+import {
+  RECEIPTS_BUCKET,
+  RECEIPT_COLUMNS,
+  ReceiptRow,
+  removeReceiptObjects,
+  signReceipts,
+  storeThumbnail,
+  validateReceiptFile,
+} from '@/utils/receipts'
+
+type Params = { params: { id: string; receiptId: string } }
+
+async function ownedReceipt(params: Params['params']) {
+  const { data: authData, error: authError } = await supabaseServer.auth.getUser()
+  if (authError || !authData?.user) {
+    return { userId: null, row: null, error: NextResponse.json({ message: 'Unauthorized' }, { status: 401 }) }
+  }
+  const userId = authData.user.id
+  const notFound = NextResponse.json({ message: 'Receipt not found' }, { status: 404 })
+  if (!params?.id || !UUID_V4_REGEX.test(params.id) || !params.receiptId || !UUID_V4_REGEX.test(params.receiptId)) {
+    return { userId: null, row: null, error: notFound }
+  }
+  const { data: tx, error: txErr } = await supabaseServer
+    .from('transactions')
+    .select('id')
+    .eq('id', params.id)
+    .eq('user_id', userId)
+    .maybeSingle()
+  if (txErr) return { userId: null, row: null, error: NextResponse.json({ message: 'Failed to load transaction' }, { status: 500 }) }
+  if (!tx) return { userId: null, row: null, error: notFound }
+
+  const { data: row, error } = await supabaseServer
+    .from('transaction_receipts')
+    .select(RECEIPT_COLUMNS)
+    .eq('id', params.receiptId)
+    .eq('transaction_id', params.id)
+    .maybeSingle()
+  if (error) return { userId: null, row: null, error: NextResponse.json({ message: 'Failed to load receipt' }, { status: 500 }) }
+  if (!row) return { userId: null, row: null, error: notFound }
+  return { userId, row: row as ReceiptRow, error: null }
+}
+
+export async function GET(_req: Request, { params }: Params) {
+  const { row, error: denied } = await ownedReceipt(params)
+  if (denied) return denied
+
+  const [item] = await signReceipts([row])
+  return NextResponse.json(item, { headers: { 'cache-control': 'no-store' } })
+}
+
+export async function PUT(req: Request, { params }: Params) {
+  const { userId, row, error: denied } = await ownedReceipt(params)
+  if (denied) return denied
+
+  let form: FormData
+  try {
+    form = await req.formData()
+  } catch {
+    return NextResponse.json(
+      { message: 'Validation failed', errors: [{ field: 'file', message: 'Expected multipart/form-data' }] },
+      { status: 400 },
+    )
+  }
+  const checked = await validateReceiptFile(form.get('file'))
+  if (!checked.ok) return NextResponse.json({ message: 'Validation failed', errors: checked.errors }, { status: checked.status })
+  const { receipt } = checked
+
+  const path = `${userId}/${params.id}/${randomUUID()}.${receipt.ext}`
+  const { error: uploadErr } = await supabaseServer.storage
+    .from(RECEIPTS_BUCKET)
+    .upload(path, receipt.bytes, { contentType: receipt.contentType, upsert: false })
+  if (uploadErr) return NextResponse.json({ message: 'Failed to store receipt' }, { status: 500 })
+
+  const thumbnail = await storeThumbnail(path, receipt.bytes, receipt.contentType)
+
+  const { data: updated, error: updateErr } = await supabaseServer
+    .from('transaction_receipts')
+    .update({
+      url: path,
+      content_type: receipt.contentType,
+      size_bytes: receipt.size,
+      file_name: receipt.fileName,
+      thumbnail_url: thumbnail,
+    })
+    .eq('id', row.id)
+    .select(RECEIPT_COLUMNS)
+    .single()
+  if (updateErr || !updated) {
+    await removeReceiptObjects([{ url: path, thumbnail_url: thumbnail }])
+    return NextResponse.json({ message: 'Failed to save receipt' }, { status: 500 })
+  }
+  await removeReceiptObjects([row])
+
+  const [item] = await signReceipts([updated as ReceiptRow])
+  return NextResponse.json(item, { headers: { 'cache-control': 'no-store' } })
+}
+
+export async function DELETE(_req: Request, { params }: Params) {
+  const { row, error: denied } = await ownedReceipt(params)
+  if (denied) return denied
+
+  const { error } = await supabaseServer.from('transaction_receipts').delete().eq('id', row.id)
+  if (error) return NextResponse.json({ message: 'Failed to delete receipt' }, { status: 500 })
+  await removeReceiptObjects([row])
+
+  return new NextResponse(null, { status: 204 })
+}
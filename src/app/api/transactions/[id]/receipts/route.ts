@@ -0,0 +1,102 @@
+/**
+ * CODE INSIGHT
+ * This code's use case is the receipts of one transaction owned by the signed-in user: GET lists them and POST attaches
+ * a new file (multipart/form-data, field "file"). Files are validated by size and by their actual bytes (JPEG, PNG,
+ * WebP, HEIC/HEIF or PDF, at most 10MB), stored in the receipts bucket under <user>/<transaction>/<uuid>.<ext>, and
+ * images get a server-generated WebP thumbnail (./thumbnails/route.ts makes the ones the offline queue's uploads lack).
+ * Every receipt is returned with short-lived signed urls (url, thumbnail_url) that expire at expires_at; clients fetch
+ * the list again rather than keeping them. PDFs carry kind: 'pdf' and no thumbnail; clients render their first page.
+ * This code's full epic context is receipt management for transactions; see ./[receiptId]/route.ts for one receipt and
+ * @/utils/receipts for validation, thumbnails and signing.
+ * This code's ui feel is irrelevant (server-side); errors use the transactions routes' { message, errors } shape.
+ */
+
+import { randomUUID } from 'crypto'
+import { NextResponse } from 'next/server'
+import { supabaseServer } from '@/utils/supabase/client-server'
+import { UUID_V4_REGEX } from '@/utils/transactions'
+import {
+  RECEIPTS_BUCKET,
+  RECEIPT_COLUMNS,
+  ReceiptRow,
+  removeReceiptObjects,
+  signReceipts,
+  storeThumbnail,
+  validateReceiptFile,
+} from '@/utils/receipts'
+
+async function ownedTransaction(id: string | undefined) {
+  const { data: authData, error: authError } = await supabaseServer.auth.getUser()
+  if (authError || !authData?.user) {
+    return { userId: null, error: NextResponse.json({ message: 'Unauthorized' }, { status: 401 }) }
+  }
+  const userId = authData.user.id
+  if (!id || !UUID_V4_REGEX.test(id)) {
+    return { userId: null, error: NextResponse.json({ message: 'Transaction not found' }, { status: 404 }) }
+  }
+  const { data, error } = await supabaseServer.from('transactions').select('id').eq('id', id).eq('user_id', userId).maybeSingle()
+  if (error) return { userId: null, error: NextResponse.json({ message: 'Failed to load transaction' }, { status: 500 }) }
+  if (!data) return { userId: null, error: NextResponse.json({ message: 'Transaction not found' }, { status: 404 }) }
+  return { userId, error: null }
+}
+
+export async function GET(_req: Request, { params }: { params: { id: string } }) {
+  const { error: denied } = await ownedTransaction(params?.id)
+  if (denied) return denied
+
+  const { data, error } = await supabaseServer
+    .from('transaction_receipts')
+    .select(RECEIPT_COLUMNS)
+    .eq('transaction_id', params.id)
+    .order('created_at', { ascending: false })
+  if (error) return NextResponse.json({ message: 'Failed to load receipts' }, { status: 500 })
+
+  return NextResponse.json({ items: await signReceipts((data || []) as ReceiptRow[]) }, { headers: { 'cache-control': 'no-store' } })
+}
+
+export async function POST(req: Request, { params }: { params: { id: string } }) {
+  const { userId, error: denied } = await ownedTransaction(params?.id)
+  if (denied) return denied
+
+  let form: FormData
+  try {
+    form = await req.formData()
+  } catch {
+    return NextResponse.json(
+      { message: 'Validation failed', errors: [{ field: 'file', message: 'Expected multipart/form-data' }] },
+      { status: 400 },
+    )
+  }
+  const checked = await validateReceiptFile(form.get('file'))
+  if (!checked.ok) return NextResponse.json({ message: 'Validation failed', errors: checked.errors }, { status: checked.status })
+  const { receipt } = checked
+
+  const path = `${userId}/${params.id}/${randomUUID()}.${receipt.ext}`
+  const { error: uploadErr } = await supabaseServer.storage
+    .from(RECEIPTS_BUCKET)
+    .upload(path, receipt.bytes, { contentType: receipt.contentType, upsert: false })
+  if (uploadErr) return NextResponse.json({ message: 'Failed to store receipt' }, { status: 500 })
+
+  const thumbnail = await storeThumbnail(path, receipt.bytes, receipt.contentType)
+
+  const { data: row, error: insertErr } = await supabaseServer
+    .from('transaction_receipts')
+    .insert({
+      transaction_id: params.id,
+      url: path,
+      content_type: receipt.contentType,
+      size_bytes: receipt.size,
+      file_name: receipt.fileName,
+      thumbnail_url: thumbnail,
+    })
+    .select(RECEIPT_COLUMNS)
+    .single()
+  if (insertErr || !row) {
+    // Do not leave orphaned files behind a failed insert
+    await removeReceiptObjects([{ url: path, thumbnail_url: thumbnail }])
+    return NextResponse.json({ message: 'Failed to save receipt' }, { status: 500 })
+  }
+
+  const [item] = await signReceipts([row as ReceiptRow])
+  return NextResponse.json(item, { status: 201, headers: { 'cache-control': 'no-store' } })
+}
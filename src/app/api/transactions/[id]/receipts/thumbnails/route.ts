@@ -0,0 +1,49 @@
+/**
+ * CODE INSIGHT
+ * This code's use case is filling in missing thumbnails for the receipts of one transaction owned by the signed-in user:
+ * POST generates the WebP thumbnail of image receipts that have none yet (a few per call) and answers how many were
+ * made and how many are still missing. Receipts the offline queue uploads straight to storage arrive without one; the
+ * SyncProvider calls this once such an upload completes, so listing receipts never has to do image work.
+ * This code's full epic context is receipt management for transactions; see ../route.ts and @/utils/receipts.
+ * This code's ui feel is irrelevant (server-side); errors use the transactions routes' { message, errors } shape.
+ */
+
+import { NextResponse } from 'next/server'
+import { supabaseServer } from '@/utils/supabase/client-server'
+import { UUID_V4_REGEX } from '@/utils/transactions'
+import { RECEIPT_COLUMNS, ReceiptRow, ensureThumbnails, receiptKind } from '@/utils/receipts'
+
+export async function POST(_req: Request, { params }: { params: { id: string } }) {
+  const { data: authData, error: authError } = await supabaseServer.auth.getUser()
+  if (authError || !authData?.user) {
+    return NextResponse.json({ message: 'Unauthorized' }, { status: 401 })
+  }
+  const userId = authData.user.id
+  if (!params?.id || !UUID_V4_REGEX.test(params.id)) {
+    return NextResponse.json({ message: 'Transaction not found' }, { status: 404 })
+  }
+  const { data: tx, error: txErr } = await supabaseServer
+    .from('transactions')
+    .select('id')
+    .eq('id', params.id)
+    .eq('user_id', userId)
+    .maybeSingle()
+  if (txErr) return NextResponse.json({ message: 'Failed to load transaction' }, { status: 500 })
+  if (!tx) return NextResponse.json({ message: 'Transaction not found' }, { status: 404 })
+
+  const { data, error } = await supabaseServer
+    .from('transaction_receipts')
+    .select(RECEIPT_COLUMNS)
+    .eq('transaction_id', params.id)
+    .is('thumbnail_url', null)
+    .order('created_at', { ascending: true })
+  if (error) return NextResponse.json({ message: 'Failed to load receipts' }, { status: 500 })
+
+  const missing = ((data || []) as ReceiptRow[]).filter((r) => receiptKind(r.content_type) === 'image')
+  const rows = await ensureThumbnails(missing)
+  const pending = rows.filter((r) => !r.thumbnail_url).length
+  return NextResponse.json(
+    { generated: missing.length - pending, pending },
+    { headers: { 'cache-control': 'no-store' } },
+  )
+}
@@ -0,0 +1,532 @@
+/**
+ * CODE INSIGHT
+ * This code's use case is to read, partially update, and delete a single transaction owned by the signed-in user.
+ * This code's full epic context is the Transactions CRUD Epic: detail pages and the offline edit queue address one
+ * transaction by id. PATCH accepts any subset of fields; tags and split lines are replaced together with the row by the
+ * update_transaction database function, and changing the currency or rate re-derives amount in the primary currency.
+ * Writes are guarded by the row's version (If-Match or base_version; unconditional: true skips it). A stale write gets a
+ * 409 whose body is the current snapshot in the ConflictItem.serverVersion shape, tag_names and receipt_urls included,
+ * so queued edits can be three-way merged against it. PATCH and DELETE write through database functions that also
+ * complete the /api/sync/push operation named by an Idempotency-Key header, in the same database transaction.
+ * This code's ui feel is irrelevant (server-side), but responses mirror the collection route's shapes so the client
+ * can reuse the same rendering and error handling.
+ */
+
+import { NextResponse } from 'next/server'
+import { supabaseServer } from '@/utils/supabase/client-server'
+import { convertMinorUnits, CURRENCY_CODES, getPrimaryCurrency, isCurrencyCode, lookupExchangeRate } from '@/utils/currency'
+import { resolvePayee } from '@/utils/payees'
+import {
+  PAYMENT_METHODS,
+  TRANSACTION_KINDS,
+  UUID_V4_REGEX,
+  isValidISODate,
+  parseSplitLines,
+  splitSumError,
+  splitsForWrite,
+  tagNamesForWrite,
+  tagNamesOf,
+  writeFieldError,
+  type FieldError,
+  type PaymentMethod,
+  type SplitLine,
+  type TagLink,
+  type TransactionKind,
+  type TransactionRow,
+} from '@/utils/transactions'
+
+const TRANSACTION_COLUMNS =
+  'id, kind, amount, currency, original_amount, exchange_rate, occurred_at, category_id, account_id, transfer_account_id, payee, payee_id, payment_method, notes, has_splits, version, created_at, updated_at'
+
+type SplitRow = {
+  id: string
+  amount: number
+  category_id: string | null
+  notes: string | null
+  categories: { id: string; name: string } | null
+  transaction_split_tags: TagLink[] | null
+}
+
+type ReceiptLink = { id: string; url: string; content_type: string | null; created_at: string }
+
+// Reads the caller's expected version from If-Match ("3", W/"3") or the base_version body field.
+// Returns undefined when no guard was requested, or NaN when the supplied value is malformed.
+function readExpectedVersion(req: Request, body: Record<string, unknown> | null): number | undefined {
+  const header = req.headers.get('if-match')
+  if (header && header.trim() !== '*') {
+    return Number(header.trim().replace(/^W\//, '').replace(/"/g, ''))
+  }
+  const raw = body?.base_version
+  if (raw === undefined || raw === null) return undefined
+  return typeof raw === 'number' ? raw : NaN
+}
+
+function conflictResponse(row: {
+  kind: string
+  amount: number
+  currency: string
+  original_amount: number
+  exchange_rate: number
+  occurred_at: string
+  category_id: string | null
+  account_id: string | null
+  transfer_account_id: string | null
+  payee: string | null
+  payment_method: string
+  notes: string | null
+  tag_names: string[]
+  receipts: { url: string }[]
+  version: number
+  updated_at: string
+}) {
+  return NextResponse.json(
+    {
+      payload: {
+        kind: row.kind,
+        amount: row.amount,
+        currency: row.currency,
+        original_amount: row.original_amount,
+        exchange_rate: row.exchange_rate,
+        occurred_at: row.occurred_at,
+        category_id: row.category_id,
+        account_id: row.account_id,
+        transfer_account_id: row.transfer_account_id,
+        payee: row.payee,
+        payment_method: row.payment_method,
+        notes: row.notes,
+        tag_names: row.tag_names,
+        receipt_urls: row.receipts.map((r) => r.url),
+      },
+      version: row.version,
+      updated_at: row.updated_at,
+    },
+    { status: 409, headers: { 'cache-control': 'no-store', etag: `"${row.version}"` } },
+  )
+}
+
+async function requireUser() {
+  const { data, error } = await supabaseServer.auth.getUser()
+  if (error || !data?.user) {
+    return { user: null as null, error: NextResponse.json({ message: 'Unauthorized' }, { status: 401 }) }
+  }
+  return { user: data.user, error: null as null }
+}
+
+function validatePatch(body: unknown) {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return { ok: false as const, errors: [{ field: 'body', message: 'Invalid JSON body' }] }
+  }
+  const b = body as Record<string, unknown>
+  const errors: FieldError[] = []
+  const update: Record<string, unknown> = {}
+  let tagNames: string[] | null = null
+
+  if ('kind' in b) {
+    if (typeof b.kind !== 'string' || !TRANSACTION_KINDS.includes(b.kind as TransactionKind)) {
+      errors.push({ field: 'kind', message: `kind must be one of ${TRANSACTION_KINDS.join(', ')}` })
+    } else {
+      update.kind = b.kind
+    }
+  }
+
+  if ('amount' in b) {
+    if (typeof b.amount !== 'number' || !Number.isSafeInteger(b.amount) || b.amount < 0) {
+      errors.push({ field: 'amount', message: 'amount must be a non-negative safe integer (KRW)' })
+    } else {
+      update.amount = b.amount
+    }
+  }
+
+  if ('currency' in b) {
+    if (!isCurrencyCode(b.currency)) {
+      errors.push({ field: 'currency', message: `currency must be one of ${CURRENCY_CODES.join(', ')}` })
+    } else {
+      update.currency = b.currency
+    }
+  }
+
+  if ('original_amount' in b) {
+    if (typeof b.original_amount !== 'number' || !Number.isSafeInteger(b.original_amount) || b.original_amount < 0) {
+      errors.push({ field: 'original_amount', message: 'original_amount must be a non-negative safe integer' })
+    } else {
+      update.original_amount = b.original_amount
+    }
+  }
+
+  if ('exchange_rate' in b) {
+    if (typeof b.exchange_rate !== 'number' || !Number.isFinite(b.exchange_rate) || b.exchange_rate <= 0) {
+      errors.push({ field: 'exchange_rate', message: 'exchange_rate must be a positive number' })
+    } else {
+      update.exchange_rate = b.exchange_rate
+    }
+  }
+
+  // occurred_at is the column name used by offline queue payloads; date mirrors the POST payload
+  const when = 'occurred_at' in b ? b.occurred_at : b.date
+  if ('occurred_at' in b || 'date' in b) {
+    if (!isValidISODate(when)) {
+      errors.push({ field: 'occurred_at', message: 'occurred_at must be an ISO-8601 date/time string' })
+    } else {
+      update.occurred_at = new Date(when).toISOString()
+    }
+  }
+
+  if ('category_id' in b) {
+    if (b.category_id !== null && (typeof b.category_id !== 'string' || !UUID_V4_REGEX.test(b.category_id))) {
+      errors.push({ field: 'category_id', message: 'category_id must be a valid UUID or null' })
+    } else {
+      update.category_id = b.category_id
+    }
+  }
+
+  for (const field of ['account_id', 'transfer_account_id'] as const) {
+    if (!(field in b)) continue
+    const v = b[field]
+    if (v !== null && (typeof v !== 'string' || !UUID_V4_REGEX.test(v))) {
+      errors.push({ field, message: `${field} must be a valid UUID or null` })
+    } else {
+      update[field] = v
+    }
+  }
+  // Only transfers carry a destination account; switching kind away from transfer clears it
+  if (update.kind && update.kind !== 'transfer') {
+    if (update.transfer_account_id) {
+      errors.push({ field: 'transfer_account_id', message: 'transfer_account_id is only allowed for transfers' })
+    }
+    update.transfer_account_id = null
+  }
+  if (update.transfer_account_id && update.transfer_account_id === update.account_id) {
+    errors.push({ field: 'transfer_account_id', message: 'transfer_account_id must differ from account_id' })
+  }
+
+  if ('payee' in b) {
+    if (b.payee !== null && typeof b.payee !== 'string') {
+      errors.push({ field: 'payee', message: 'payee must be a string' })
+    } else if (typeof b.payee === 'string' && b.payee.trim().length > 200) {
+      errors.push({ field: 'payee', message: 'payee must be 200 characters or fewer' })
+    } else {
+      update.payee = typeof b.payee === 'string' ? b.payee.trim() || null : null
+    }
+  }
+
+  if ('payment_method' in b) {
+    if (typeof b.payment_method !== 'string' || !PAYMENT_METHODS.includes(b.payment_method as PaymentMethod)) {
+      errors.push({ field: 'payment_method', message: `payment_method must be one of ${PAYMENT_METHODS.join(', ')}` })
+    } else {
+      update.payment_method = b.payment_method
+    }
+  }
+
+  if ('notes' in b) {
+    if (b.notes !== null && typeof b.notes !== 'string') {
+      errors.push({ field: 'notes', message: 'notes must be a string' })
+    } else if (typeof b.notes === 'string' && b.notes.length > 2000) {
+      errors.push({ field: 'notes', message: 'notes must be 2000 characters or fewer' })
+    } else {
+      update.notes = b.notes || null
+    }
+  }
+
+  if ('tag_names' in b && b.tag_names !== undefined) {
+    const raw = b.tag_names === null ? [] : b.tag_names
+    if (!Array.isArray(raw)) {
+      errors.push({ field: 'tag_names', message: 'tag_names must be an array of strings' })
+    } else if (raw.some((t) => typeof t !== 'string' || t.trim().length === 0 || t.length > 64)) {
+      errors.push({ field: 'tag_names', message: 'each tag name must be a non-empty string up to 64 chars' })
+    } else if (raw.length > 50) {
+      errors.push({ field: 'tag_names', message: 'no more than 50 tags are allowed' })
+    } else {
+      tagNames = raw as string[]
+    }
+  }
+
+  // splits: null or [] removes all lines; the sum is checked against the parent amount by the handler
+  let splits: SplitLine[] | null = null
+  if ('splits' in b && b.splits !== undefined) {
+    const parsed = parseSplitLines(b.splits === null ? [] : b.splits)
+    if (!parsed.ok) {
+      errors.push(...parsed.errors)
+    } else {
+      splits = parsed.lines
+      update.has_splits = parsed.lines.length > 0
+    }
+  }
+
+  if (errors.length) return { ok: false as const, errors }
+  return { ok: true as const, update, tagNames, splits }
+}
+
+async function fetchTransaction(userId: string, id: string) {
+  const { data: row, error } = await supabaseServer
+    .from('transactions')
+    .select(TRANSACTION_COLUMNS)
+    .eq('id', id)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error && error.code !== 'PGRST116') return { row: null, error }
+  if (!row) return { row: null, error: null }
+
+  const r = row as TransactionRow
+  let category: { id: string; name: string } | null = null
+  if (r.category_id) {
+    const { data: cat } = await supabaseServer.from('categories').select('id, name').eq('id', r.category_id).maybeSingle()
+    if (cat) category = cat as { id: string; name: string }
+  }
+
+  const [{ data: tagRows }, { data: receipts }, { data: splitRows }] = await Promise.all([
+    supabaseServer
+      .from('transaction_tags')
+      .select('tags:tag_id ( id, name )')
+      .eq('transaction_id', id)
+      .overrideTypes<TagLink[], { merge: false }>(),
+    supabaseServer
+      .from('transaction_receipts')
+      .select('id, url, content_type, created_at')
+      .eq('transaction_id', id)
+      .order('created_at', { ascending: true })
+      .overrideTypes<ReceiptLink[], { merge: false }>(),
+    supabaseServer
+      .from('transaction_splits')
+      .select('id, amount, category_id, notes, categories:category_id ( id, name ), transaction_split_tags ( tags:tag_id ( name ) )')
+      .eq('transaction_id', id)
+      .order('position', { ascending: true })
+      .overrideTypes<SplitRow[], { merge: false }>(),
+  ])
+
+  const receiptList = receipts || []
+
+  return {
+    row: {
+      id: r.id,
+      kind: r.kind,
+      amount: r.amount,
+      currency: r.currency ?? 'KRW',
+      original_amount: r.original_amount ?? r.amount,
+      exchange_rate: Number(r.exchange_rate ?? 1),
+      occurred_at: r.occurred_at,
+      category_id: r.category_id,
+      category,
+      account_id: r.account_id ?? null,
+      transfer_account_id: r.transfer_account_id ?? null,
+      payee: r.payee,
+      payee_id: r.payee_id ?? null,
+      payment_method: r.payment_method,
+      notes: r.notes,
+      tag_names: tagNamesOf(tagRows),
+      splits: (splitRows || []).map((l) => ({
+        id: l.id,
+        amount: l.amount,
+        category_id: l.category_id,
+        category: l.categories ?? null,
+        notes: l.notes,
+        tag_names: tagNamesOf(l.transaction_split_tags),
+      })),
+      receipts: receiptList,
+      receipt_url: receiptList[0]?.url ?? null,
+      version: r.version,
+      created_at: r.created_at,
+      updated_at: r.updated_at,
+    },
+    error: null,
+  }
+}
+
+export async function GET(_req: Request, { params }: { params: { id: string } }) {
+  const { user, error: authErr } = await requireUser()
+  if (authErr) return authErr
+
+  const id = params?.id
+  if (!id || !UUID_V4_REGEX.test(id)) {
+    return NextResponse.json({ message: 'Transaction not found' }, { status: 404 })
+  }
+
+  const { row, error } = await fetchTransaction(user.id, id)
+  if (error) return NextResponse.json({ message: 'Failed to load transaction' }, { status: 500 })
+  if (!row) return NextResponse.json({ message: 'Transaction not found' }, { status: 404 })
+
+  return NextResponse.json(row, { headers: { 'cache-control': 'no-store', etag: `"${row.version}"` } })
+}
+
+export async function PATCH(req: Request, { params }: { params: { id: string } }) {
+  const { user, error: authErr } = await requireUser()
+  if (authErr) return authErr
+
+  const id = params?.id
+  if (!id || !UUID_V4_REGEX.test(id)) {
+    return NextResponse.json({ message: 'Transaction not found' }, { status: 404 })
+  }
+
+  let body: unknown
+  try {
+    body = await req.json()
+  } catch {
+    return NextResponse.json({ message: 'Invalid JSON' }, { status: 400 })
+  }
+
+  const result = validatePatch(body)
+  if (!result.ok) {
+    return NextResponse.json({ message: 'Validation failed', errors: result.errors }, { status: 400 })
+  }
+
+  const control = body as Record<string, unknown>
+  const unconditional = control.unconditional === true
+  const expectedVersion = unconditional ? undefined : readExpectedVersion(req, control)
+  if (expectedVersion !== undefined && !Number.isSafeInteger(expectedVersion)) {
+    return NextResponse.json(
+      { message: 'Validation failed', errors: [{ field: 'base_version', message: 'version must be an integer' }] },
+      { status: 400 },
+    )
+  }
+
+  // Currency changes re-derive the primary-currency amount (an explicit amount still wins)
+  const update = result.update
+  if (update.currency !== undefined || update.original_amount !== undefined || update.exchange_rate !== undefined) {
+    const [{ data: current }, primaryCurrency] = await Promise.all([
+      supabaseServer
+        .from('transactions')
+        .select('amount, currency, original_amount, exchange_rate, occurred_at')
+        .eq('id', id)
+        .eq('user_id', user.id)
+        .maybeSingle(),
+      getPrimaryCurrency(supabaseServer, user.id),
+    ])
+    if (!current) return NextResponse.json({ message: 'Transaction not found' }, { status: 404 })
+    const cur = current as Pick<TransactionRow, 'amount' | 'currency' | 'original_amount' | 'exchange_rate' | 'occurred_at'>
+    const currency = (update.currency as string | undefined) ?? cur.currency
+    update.currency = currency
+
+    if (currency === primaryCurrency) {
+      const amount = (update.amount ?? update.original_amount ?? cur.amount) as number
+      update.amount = amount
+      update.original_amount = amount
+      update.exchange_rate = 1
+    } else {
+      const currencyChanged = currency !== cur.currency
+      const original = (update.original_amount as number | undefined) ?? (currencyChanged ? undefined : Number(cur.original_amount))
+      if (original === undefined) {
+        return NextResponse.json(
+          { message: 'Validation failed', errors: [{ field: 'original_amount', message: 'original_amount is required when changing currency' }] },
+          { status: 400 },
+        )
+      }
+      const onDate = String(update.occurred_at ?? cur.occurred_at).slice(0, 10)
+      const rate =
+        (update.exchange_rate as number | undefined) ??
+        (currencyChanged ? await lookupExchangeRate(supabaseServer, user.id, currency, primaryCurrency, onDate) : Number(cur.exchange_rate))
+      if (!rate) {
+        return NextResponse.json(
+          { message: 'Validation failed', errors: [{ field: 'exchange_rate', message: `no ${currency}→${primaryCurrency} exchange rate on or before this date` }] },
+          { status: 400 },
+        )
+      }
+      update.original_amount = original
+      update.exchange_rate = rate
+      if (update.amount === undefined) update.amount = convertMinorUnits(original, currency, primaryCurrency, rate)
+    }
+  }
+
+  // Split lines must keep summing to the parent amount, whichever side of the pair changed
+  if (result.splits || result.update.amount !== undefined) {
+    const { data: current } = await supabaseServer
+      .from('transactions')
+      .select('amount, has_splits')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .maybeSingle()
+    if (!current) return NextResponse.json({ message: 'Transaction not found' }, { status: 404 })
+
+    const stored = current as Pick<TransactionRow, 'amount' | 'has_splits'>
+    const parentAmount = Number(result.update.amount ?? stored.amount)
+    let lineAmounts = result.splits?.map((l) => l.amount) ?? null
+    if (!lineAmounts && stored.has_splits) {
+      const { data: existing } = await supabaseServer.from('transaction_splits').select('amount').eq('transaction_id', id)
+      lineAmounts = ((existing || []) as { amount: number }[]).map((l) => Number(l.amount))
+    }
+    const sumError = splitSumError(lineAmounts ?? [], parentAmount)
+    if (sumError) {
+      return NextResponse.json({ message: 'Validation failed', errors: [sumError] }, { status: 400 })
+    }
+  }
+
+  // A changed payee is resolved last, once the edit is valid and not stale, since unknown payees get created
+  if (update.payee !== undefined) {
+    if (expectedVersion !== undefined) {
+      const { data: guard } = await supabaseServer.from('transactions').select('version').eq('id', id).eq('user_id', user.id).maybeSingle()
+      if (!guard || Number((guard as { version: number }).version) !== expectedVersion) {
+        const { row: current } = await fetchTransaction(user.id, id)
+        if (!current) return NextResponse.json({ message: 'Transaction not found' }, { status: 404 })
+        return conflictResponse(current)
+      }
+    }
+    const payee = await resolvePayee(supabaseServer, user.id, update.payee as string | null, { create: true })
+    update.payee = payee?.name ?? update.payee
+    update.payee_id = payee?.id ?? null
+  }
+
+  if (Object.keys(result.update).length === 0 && !result.tagNames) {
+    const { row, error } = await fetchTransaction(user.id, id)
+    if (error) return NextResponse.json({ message: 'Failed to load transaction' }, { status: 500 })
+    if (!row) return NextResponse.json({ message: 'Transaction not found' }, { status: 404 })
+    return NextResponse.json(row, { headers: { 'cache-control': 'no-store', etag: `"${row.version}"` } })
+  }
+
+  // The row, its tags and its split lines are written in one database transaction
+  const { data: updated, error: updErr } = await supabaseServer.rpc('update_transaction', {
+    p_id: id,
+    p_expected_version: expectedVersion ?? null,
+    p_changes: update,
+    p_tag_names: result.tagNames ? tagNamesForWrite(result.tagNames) : null,
+    p_splits: result.splits ? splitsForWrite(result.splits) : null,
+    p_idempotency_key: req.headers.get('idempotency-key'),
+  })
+
+  if (updErr) {
+    const fieldError = writeFieldError(updErr)
+    if (fieldError) return NextResponse.json({ message: 'Validation failed', errors: [fieldError] }, { status: 400 })
+    return NextResponse.json({ message: 'Failed to update transaction' }, { status: 500 })
+  }
+
+  if (!updated) {
+    // Either the row is gone or the version guard did not match
+    const { row: current } = await fetchTransaction(user.id, id)
+    if (!current) return NextResponse.json({ message: 'Transaction not found' }, { status: 404 })
+    return conflictResponse(current)
+  }
+
+  const { row, error } = await fetchTransaction(user.id, id)
+  if (error || !row) return NextResponse.json({ message: 'Failed to load transaction' }, { status: 500 })
+
+  return NextResponse.json(row, { headers: { 'cache-control': 'no-store', etag: `"${row.version}"` } })
+}
+
+export async function DELETE(req: Request, { params }: { params: { id: string } }) {
+  const { user, error: authErr } = await requireUser()
+  if (authErr) return authErr
+
+  const id = params?.id
+  if (!id || !UUID_V4_REGEX.test(id)) {
+    return NextResponse.json({ message: 'Transaction not found' }, { status: 404 })
+  }
+
+  const expectedVersion = readExpectedVersion(req, null)
+  if (expectedVersion !== undefined && !Number.isSafeInteger(expectedVersion)) {
+    return NextResponse.json({ message: 'If-Match must carry an integer version' }, { status: 400 })
+  }
+
+  // transaction_tags and transaction_receipts rows cascade with the transaction
+  const { data: deleted, error } = await supabaseServer.rpc('delete_transaction', {
+    p_id: id,
+    p_expected_version: expectedVersion ?? null,
+    p_idempotency_key: req.headers.get('idempotency-key'),
+  })
+
+  if (error) return NextResponse.json({ message: 'Failed to delete transaction' }, { status: 500 })
+  if (!deleted) {
+    const { row: current } = await fetchTransaction(user.id, id)
+    if (!current) return NextResponse.json({ message: 'Transaction not found' }, { status: 404 })
+    return conflictResponse(current)
+  }
+
+  return new NextResponse(null, { status: 204 })
+}
@@ -0,0 +1,319 @@
+/**
+ * CODE INSIGHT
+ * This code's use case is the bulk edit endpoint for transactions: POST { ids, operation, ... } applies one operation
+ * to up to MAX_IDS of the signed-in user's transactions and returns a result per id, so partial failures are visible.
+ * Operations: recategorize (category_id, null clears), add_tags / remove_tags (tag_names), set_payment_method
+ * (payment_method), shift_date (days, may be negative) and delete. Split transactions are skipped by recategorize
+ * because their categories live on the lines. Every changed row gets a new version, like a single PATCH.
+ * This code's full epic context is the Transactions list multi-select mode, used to clean up imported or
+ * offline-captured entries without opening each one.
+ * This code's ui feel is irrelevant (server-side), but results are shaped so the list can show "12 updated, 1 failed".
+ */
+
+import { NextResponse } from 'next/server'
+import { supabaseServer } from '@/utils/supabase/client-server'
+import { PAYMENT_METHODS, UUID_V4_REGEX, normalizeTagName, resolveTags, type PaymentMethod, type TransactionRow } from '@/utils/transactions'
+
+type BulkOperation = 'recategorize' | 'add_tags' | 'remove_tags' | 'set_payment_method' | 'shift_date' | 'delete'
+
+type ItemStatus = 'ok' | 'not_found' | 'skipped' | 'error'
+
+type ItemResult = { id: string; status: ItemStatus; message?: string; version?: number }
+
+type FieldError = { field: string; message: string }
+
+const BULK_OPERATIONS: BulkOperation[] = ['recategorize', 'add_tags', 'remove_tags', 'set_payment_method', 'shift_date', 'delete']
+
+const MAX_IDS = 200
+const MAX_SHIFT_DAYS = 3650
+const UPDATE_BATCH = 20
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function validateBody(body: unknown) {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return { ok: false as const, errors: [{ field: 'body', message: 'Invalid JSON body' }] }
+  }
+  const b = body as Record<string, unknown>
+  const errors: FieldError[] = []
+
+  if (!Array.isArray(b.ids) || b.ids.length === 0) {
+    errors.push({ field: 'ids', message: 'ids must be a non-empty array' })
+  } else if (b.ids.length > MAX_IDS) {
+    errors.push({ field: 'ids', message: `no more than ${MAX_IDS} ids are allowed` })
+  } else if (b.ids.some((id) => typeof id !== 'string' || !UUID_V4_REGEX.test(id))) {
+    errors.push({ field: 'ids', message: 'each id must be a valid UUID' })
+  }
+
+  const operation = b.operation as BulkOperation
+  if (!BULK_OPERATIONS.includes(operation)) {
+    errors.push({ field: 'operation', message: `operation must be one of ${BULK_OPERATIONS.join(', ')}` })
+  }
+
+  if (operation === 'recategorize') {
+    if (b.category_id !== null && (typeof b.category_id !== 'string' || !UUID_V4_REGEX.test(b.category_id))) {
+      errors.push({ field: 'category_id', message: 'category_id must be a valid UUID or null' })
+    }
+  }
+  let tagNames: string[] = []
+  if (operation === 'add_tags' || operation === 'remove_tags') {
+    if (
+      !Array.isArray(b.tag_names) ||
+      b.tag_names.length === 0 ||
+      b.tag_names.some((t) => typeof t !== 'string' || !t.trim() || t.length > 64)
+    ) {
+      errors.push({ field: 'tag_names', message: 'tag_names must be a non-empty array of tag names up to 64 chars' })
+    } else {
+      tagNames = Array.from(new Set((b.tag_names as string[]).map(normalizeTagName)))
+    }
+  }
+  if (operation === 'set_payment_method' && !PAYMENT_METHODS.includes(b.payment_method as PaymentMethod)) {
+    errors.push({ field: 'payment_method', message: `payment_method must be one of ${PAYMENT_METHODS.join(', ')}` })
+  }
+  if (operation === 'shift_date') {
+    if (typeof b.days !== 'number' || !Number.isSafeInteger(b.days) || b.days === 0 || Math.abs(b.days) > MAX_SHIFT_DAYS) {
+      errors.push({ field: 'days', message: `days must be a non-zero integer between -${MAX_SHIFT_DAYS} and ${MAX_SHIFT_DAYS}` })
+    }
+  }
+
+  if (errors.length) return { ok: false as const, errors }
+  return {
+    ok: true as const,
+    ids: Array.from(new Set(b.ids as string[])),
+    operation,
+    categoryId: (b.category_id as string | null | undefined) ?? null,
+    tagNames,
+    paymentMethod: b.payment_method as PaymentMethod,
+    days: b.days as number,
+  }
+}
+
+// Runs updates in small parallel batches so one slow row does not serialize the whole request
+async function inBatches<T>(items: T[], fn: (item: T) => Promise<ItemResult>) {
+  const results: ItemResult[] = []
+  for (let i = 0; i < items.length; i += UPDATE_BATCH) {
+    results.push(...(await Promise.all(items.slice(i, i + UPDATE_BATCH).map(fn))))
+  }
+  return results
+}
+
+type OwnedRow = Pick<TransactionRow, 'id' | 'occurred_at' | 'has_splits'>
+
+function versionsOf(rows: Pick<TransactionRow, 'id' | 'version'>[] | null) {
+  return new Map((rows || []).map((r) => [r.id, Number(r.version)]))
+}
+
+// Touches rows whose only change is in a join table so their version still advances
+async function touchRows(userId: string, ids: string[]) {
+  if (ids.length === 0) return { versions: new Map<string, number>(), error: null }
+  const { data, error } = await supabaseServer
+    .from('transactions')
+    .update({ updated_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .in('id', ids)
+    .select('id, version')
+  return { versions: versionsOf(data), error }
+}
+
+export async function POST(req: Request) {
+  try {
+    const { data: authData, error: authError } = await supabaseServer.auth.getUser()
+    if (authError || !authData?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 })
+    }
+    const userId = authData.user.id
+
+    let body: unknown
+    try {
+      body = await req.json()
+    } catch {
+      return NextResponse.json({ message: 'Invalid JSON' }, { status: 400 })
+    }
+
+    const input = validateBody(body)
+    if (!input.ok) {
+      return NextResponse.json({ message: 'Validation failed', errors: input.errors }, { status: 400 })
+    }
+
+    // Ownership check up front: ids that are missing or belong to someone else are reported as not_found
+    const { data: owned, error: ownedErr } = await supabaseServer
+      .from('transactions')
+      .select('id, occurred_at, has_splits')
+      .eq('user_id', userId)
+      .in('id', input.ids)
+    if (ownedErr) {
+      return NextResponse.json({ message: 'Failed to load transactions' }, { status: 500 })
+    }
+    const rowsById = new Map(((owned || []) as OwnedRow[]).map((r) => [r.id, r]))
+    const results: ItemResult[] = input.ids
+      .filter((id) => !rowsById.has(id))
+      .map((id) => ({ id, status: 'not_found' as const, message: 'Transaction not found' }))
+    const targetIds = input.ids.filter((id) => rowsById.has(id))
+
+    if (targetIds.length > 0) {
+      switch (input.operation) {
+        case 'recategorize': {
+          if (input.categoryId) {
+            const { data: cat } = await supabaseServer
+              .from('categories')
+              .select('id')
+              .eq('id', input.categoryId)
+              .eq('user_id', userId)
+              .maybeSingle()
+            if (!cat) {
+              return NextResponse.json(
+                { message: 'Validation failed', errors: [{ field: 'category_id', message: 'category does not exist' }] },
+                { status: 400 },
+              )
+            }
+          }
+          const splitIds = targetIds.filter((id) => rowsById.get(id)!.has_splits)
+          for (const id of splitIds) {
+            results.push({ id, status: 'skipped', message: 'split transaction; change the categories of its lines instead' })
+          }
+          const plainIds = targetIds.filter((id) => !rowsById.get(id)!.has_splits)
+          if (plainIds.length > 0) {
+            const { data, error } = await supabaseServer
+              .from('transactions')
+              .update({ category_id: input.categoryId })
+              .eq('user_id', userId)
+              .in('id', plainIds)
+              .select('id, version')
+            const updated = versionsOf(data)
+            for (const id of plainIds) {
+              results.push(
+                updated.has(id)
+                  ? { id, status: 'ok', version: updated.get(id) }
+                  : { id, status: 'error', message: error?.message || 'Failed to update transaction' },
+              )
+            }
+          }
+          break
+        }
+
+        case 'add_tags': {
+          const { tags, error: tagErr } = await resolveTags(supabaseServer, userId, input.tagNames)
+          if (tagErr) return NextResponse.json({ message: 'Failed to prepare tags' }, { status: 500 })
+          const tagIds = tags.map((t) => t.id)
+
+          // Existing (transaction, tag) pairs are left alone instead of violating the primary key
+          const { error: linkErr } = await supabaseServer
+            .from('transaction_tags')
+            .upsert(
+              targetIds.flatMap((transaction_id) => tagIds.map((tag_id) => ({ transaction_id, tag_id }))),
+              { onConflict: 'transaction_id,tag_id', ignoreDuplicates: true },
+            )
+          if (linkErr) {
+            for (const id of targetIds) results.push({ id, status: 'error', message: 'Failed to add tags' })
+            break
+          }
+          const { versions } = await touchRows(userId, targetIds)
+          for (const id of targetIds) results.push({ id, status: 'ok', version: versions.get(id) })
+          break
+        }
+
+        case 'remove_tags': {
+          const { data: tags } = await supabaseServer
+            .from('tags')
+            .select('id')
+            .eq('user_id', userId)
+            .in('name', input.tagNames)
+          const tagIds = ((tags || []) as { id: string }[]).map((t) => t.id)
+          if (tagIds.length === 0) {
+            for (const id of targetIds) results.push({ id, status: 'skipped', message: 'none of these tags exist' })
+            break
+          }
+          const { data: removed, error: delErr } = await supabaseServer
+            .from('transaction_tags')
+            .delete()
+            .in('transaction_id', targetIds)
+            .in('tag_id', tagIds)
+            .select('transaction_id')
+          if (delErr) {
+            for (const id of targetIds) results.push({ id, status: 'error', message: 'Failed to remove tags' })
+            break
+          }
+          const changed = Array.from(new Set(((removed || []) as { transaction_id: string }[]).map((r) => r.transaction_id)))
+          const { versions } = await touchRows(userId, changed)
+          for (const id of targetIds) {
+            results.push(
+              versions.has(id)
+                ? { id, status: 'ok', version: versions.get(id) }
+                : { id, status: 'skipped', message: 'transaction had none of these tags' },
+            )
+          }
+          break
+        }
+
+        case 'set_payment_method': {
+          const { data, error } = await supabaseServer
+            .from('transactions')
+            .update({ payment_method: input.paymentMethod })
+            .eq('user_id', userId)
+            .in('id', targetIds)
+            .select('id, version')
+          const updated = versionsOf(data)
+          for (const id of targetIds) {
+            results.push(
+              updated.has(id)
+                ? { id, status: 'ok', version: updated.get(id) }
+                : { id, status: 'error', message: error?.message || 'Failed to update transaction' },
+            )
+          }
+          break
+        }
+
+        case 'shift_date': {
+          // Each row keeps its own time of day, so the new occurred_at differs per row
+          results.push(
+            ...(await inBatches(targetIds, async (id) => {
+              const shifted = new Date(new Date(rowsById.get(id)!.occurred_at).getTime() + input.days * DAY_MS).toISOString()
+              const { data, error } = await supabaseServer
+                .from('transactions')
+                .update({ occurred_at: shifted })
+                .eq('id', id)
+                .eq('user_id', userId)
+                .select('id, version')
+                .maybeSingle()
+              if (error || !data) return { id, status: 'error', message: error?.message || 'Failed to update transaction' }
+              return { id, status: 'ok', version: Number((data as Pick<TransactionRow, 'version'>).version) }
+            })),
+          )
+          break
+        }
+
+        case 'delete': {
+          // transaction_tags, transaction_splits and transaction_receipts rows cascade with the transaction
+          const { data, error } = await supabaseServer
+            .from('transactions')
+            .delete()
+            .eq('user_id', userId)
+            .in('id', targetIds)
+            .select('id')
+          const deleted = new Set(((data || []) as { id: string }[]).map((r) => r.id))
+          for (const id of targetIds) {
+            results.push(
+              deleted.has(id) ? { id, status: 'ok' } : { id, status: 'error', message: error?.message || 'Failed to delete transaction' },
+            )
+          }
+          break
+        }
+      }
+    }
+
+    // Report in request order so the client can line results up with its selection
+    const order = new Map(input.ids.map((id, i) => [id, i]))
+    results.sort((a, b) => (order.get(a.id) ?? 0) - (order.get(b.id) ?? 0))
+
+    return NextResponse.json(
+      {
+        operation: input.operation,
+        results,
+        succeeded: results.filter((r) => r.status === 'ok').length,
+        failed: results.filter((r) => r.status === 'error' || r.status === 'not_found').length,
+      },
+      { headers: { 'cache-control': 'no-store' } },
+    )
+  } catch {
+    return NextResponse.json({ message: 'Internal Server Error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * CODE INSIGHT
+ * This code's use case is to mark a suspected duplicate pair as "not a duplicate" for the signed-in user, so the
+ * listing in ../route.ts stops showing it. Body: { ids: [a, b] }. Idempotent; answers 204.
+ * This code's ui feel is irrelevant (server-side).
+ */
+
+import { NextResponse } from 'next/server'
+import { supabaseServer } from '@/utils/supabase/client-server'
+import { UUID_V4_REGEX } from '@/utils/transactions'
+
+export async function POST(req: Request) {
+  const { data: authData, error: authError } = await supabaseServer.auth.getUser()
+  if (authError || !authData?.user) {
+    return NextResponse.json({ message: 'Unauthorized' }, { status: 401 })
+  }
+  const userId = authData.user.id
+
+  let body: any
+  try {
+    body = await req.json()
+  } catch {
+    return NextResponse.json({ message: 'Invalid JSON' }, { status: 400 })
+  }
+
+  const ids = body?.ids
+  if (
+    !Array.isArray(ids) ||
+    ids.length !== 2 ||
+    ids.some((id) => typeof id !== 'string' || !UUID_V4_REGEX.test(id)) ||
+    ids[0] === ids[1]
+  ) {
+    return NextResponse.json(
+      { message: 'Validation failed', errors: [{ field: 'ids', message: 'ids must be two different transaction UUIDs' }] },
+      { status: 400 },
+    )
+  }
+
+  const { data: owned } = await supabaseServer.from('transactions').select('id').eq('user_id', userId).in('id', ids)
+  if ((owned || []).length !== 2) {
+    return NextResponse.json({ message: 'Transaction not found' }, { status: 404 })
+  }
+
+  // uuid ordering matches lowercase string ordering, which the table's CHECK relies on
+  const [a, b] = ids.map((id: string) => id.toLowerCase()).sort() as [string, string]
+  const { error } = await supabaseServer
+    .from('transaction_duplicate_dismissals')
+    .upsert({ user_id: userId, transaction_a_id: a, transaction_b_id: b }, { onConflict: 'transaction_a_id,transaction_b_id', ignoreDuplicates: true })
+  if (error) {
+    return NextResponse.json({ message: 'Failed to dismiss pair' }, { status: 500 })
+  }
+
+  return new NextResponse(null, { status: 204 })
+}
@@ -0,0 +1,120 @@
+/**
+ * CODE INSIGHT
+ * This code's use case is the suspected-duplicates listing: GET scans the signed-in user's recent transactions
+ * (?days=, default 90) and returns pairs that look like the same purchase, best match first. Pairs need an equal
+ * amount and occurred_at within the detection window; they are ranked by payee similarity and closeness in time
+ * (see @/utils/duplicates). Pairs the user dismissed via ./dismiss are left out.
+ * This code's full epic context is data hygiene after offline re-queues, manual entry and merge-mode restores; the
+ * duplicates page resolves each pair with ../[id]/merge or ./dismiss.
+ * This code's ui feel is irrelevant (server-side), but each pair carries both rows so the page can compare them.
+ */
+
+import { NextResponse } from 'next/server'
+import { supabaseServer } from '@/utils/supabase/client-server'
+import { selectAllPages } from '@/utils/supabase/paging'
+import { DUPLICATE_MIN_SCORE, DUPLICATE_WINDOW_HOURS, pairKey, scoreDuplicatePair } from '@/utils/duplicates'
+
+const DEFAULT_DAYS = 90
+const MAX_DAYS = 366
+const MAX_ROWS = 5000
+const MAX_PAIRS = 100
+const HOUR_MS = 60 * 60 * 1000
+
+function shapeRow(row: any) {
+  return {
+    id: row.id,
+    kind: row.kind,
+    amount: row.amount,
+    currency: row.currency ?? 'KRW',
+    original_amount: row.original_amount ?? row.amount,
+    occurred_at: row.occurred_at,
+    payee: row.payee,
+    payment_method: row.payment_method,
+    notes: row.notes,
+    category: row.categories ?? null,
+    created_at: row.created_at,
+  }
+}
+
+export async function GET(req: Request) {
+  try {
+    const { data: authData, error: authError } = await supabaseServer.auth.getUser()
+    if (authError || !authData?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 })
+    }
+    const userId = authData.user.id
+
+    const { searchParams } = new URL(req.url)
+    const daysParam = Number.parseInt(searchParams.get('days') || '', 10)
+    const days = Number.isFinite(daysParam) && daysParam > 0 ? Math.min(daysParam, MAX_DAYS) : DEFAULT_DAYS
+    const minScoreParam = Number(searchParams.get('min_score'))
+    const minScore = Number.isFinite(minScoreParam) && minScoreParam > 0 && minScoreParam <= 1 ? minScoreParam : DUPLICATE_MIN_SCORE
+
+    const since = new Date(Date.now() - days * 24 * HOUR_MS).toISOString()
+    // Newest first, so a window larger than MAX_ROWS drops its oldest rows rather than the recent ones
+    const [{ data: newestFirst, error }, { data: dismissed, error: dismissedErr }] = await Promise.all([
+      selectAllPages<any>(
+        (from, to) =>
+          supabaseServer
+            .from('transactions')
+            .select('id, kind, amount, currency, original_amount, occurred_at, payee, payment_method, notes, created_at, categories:category_id ( id, name )')
+            .eq('user_id', userId)
+            .gte('occurred_at', since)
+            .order('occurred_at', { ascending: false })
+            .order('id', { ascending: false })
+            .range(from, to),
+        MAX_ROWS,
+      ),
+      selectAllPages<{ transaction_a_id: string; transaction_b_id: string }>((from, to) =>
+        supabaseServer
+          .from('transaction_duplicate_dismissals')
+          .select('transaction_a_id, transaction_b_id')
+          .eq('user_id', userId)
+          .order('transaction_a_id', { ascending: true })
+          .order('transaction_b_id', { ascending: true })
+          .range(from, to),
+      ),
+    ])
+    const failed = error ?? dismissedErr
+    if (failed) {
+      return NextResponse.json({ message: 'Failed to load transactions', details: failed.message }, { status: 500 })
+    }
+    const dismissedKeys = new Set(dismissed.map((d) => pairKey(d.transaction_a_id, d.transaction_b_id)))
+    const rows = newestFirst.slice().reverse()
+
+    // Only rows with the same amount can pair up, so compare within amount groups (sorted oldest first)
+    const byAmount = new Map<string, any[]>()
+    for (const row of rows) {
+      const key = String(row.amount)
+      const list = byAmount.get(key) || []
+      list.push(row)
+      byAmount.set(key, list)
+    }
+
+    const windowMs = DUPLICATE_WINDOW_HOURS * HOUR_MS
+    const pairs: { score: number; reasons: string[]; a: ReturnType<typeof shapeRow>; b: ReturnType<typeof shapeRow> }[] = []
+    for (const group of byAmount.values()) {
+      for (let i = 0; i < group.length; i++) {
+        const a = group[i]
+        const aTime = new Date(a.occurred_at).getTime()
+        for (let j = i + 1; j < group.length; j++) {
+          const b = group[j]
+          if (new Date(b.occurred_at).getTime() - aTime > windowMs) break
+          if (dismissedKeys.has(pairKey(a.id, b.id))) continue
+          const result = scoreDuplicatePair(a, b)
+          if (!result || result.score < minScore) continue
+          // The older row comes first; it is the usual one to keep
+          pairs.push({ ...result, a: shapeRow(a), b: shapeRow(b) })
+        }
+      }
+    }
+    pairs.sort((x, y) => y.score - x.score || x.a.occurred_at.localeCompare(y.a.occurred_at))
+
+    return NextResponse.json(
+      { pairs: pairs.slice(0, MAX_PAIRS), total: pairs.length, days, truncated: rows.length >= MAX_ROWS },
+      { headers: { 'cache-control': 'no-store' } },
+    )
+  } catch {
+    return NextResponse.json({ message: 'Internal Server Error' }, { status: 500 })
+  }
+}
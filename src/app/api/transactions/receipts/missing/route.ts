@@ -0,0 +1,102 @@
+/**
+ * CODE INSIGHT
+ * This code's use case is the "missing receipts" list for expense claims: GET returns the signed-in user's expenses in
+ * one month (?month=YYYY-MM in the user's time zone, default the current month) whose amount is at or above the receipt
+ * threshold and that have no transaction_receipts row, largest first. The threshold is user_settings.receipt_threshold
+ * (minor units of the primary currency) unless ?threshold= overrides it; with neither, the list is empty and threshold is
+ * null so the page can ask for one. Transactions with a receipt still waiting in an offline queue count as missing here.
+ * This code's full epic context is receipt management and expense claims; ../route.ts is the gallery of receipts that exist.
+ * This code's ui feel is irrelevant (server-side); errors use the transactions routes' { message, errors } shape.
+ */
+
+import { NextResponse } from 'next/server'
+import { DateTime } from 'luxon'
+import { supabaseServer } from '@/utils/supabase/client-server'
+import { getPrimaryCurrency } from '@/utils/currency'
+
+const MAX_ROWS = 2000
+const ID_CHUNK = 200
+
+export async function GET(req: Request) {
+  const { data: authData, error: authError } = await supabaseServer.auth.getUser()
+  if (authError || !authData?.user) {
+    return NextResponse.json({ message: 'Unauthorized' }, { status: 401 })
+  }
+  const userId = authData.user.id
+
+  const { searchParams } = new URL(req.url)
+  const monthParam = searchParams.get('month')
+  const thresholdParam = searchParams.get('threshold')
+
+  const errors: { field: string; message: string }[] = []
+  if (monthParam && !/^\d{4}-(0[1-9]|1[0-2])$/.test(monthParam)) errors.push({ field: 'month', message: 'month must be YYYY-MM' })
+  const override = thresholdParam === null || thresholdParam === '' ? null : Number(thresholdParam)
+  if (override !== null && (!Number.isSafeInteger(override) || override < 0)) {
+    errors.push({ field: 'threshold', message: 'threshold must be a non-negative integer (minor units)' })
+  }
+  if (errors.length > 0) return NextResponse.json({ message: 'Validation failed', errors }, { status: 400 })
+
+  const [{ data: settings }, currency] = await Promise.all([
+    supabaseServer.from('user_settings').select('time_zone, receipt_threshold').eq('user_id', userId).maybeSingle(),
+    getPrimaryCurrency(supabaseServer, userId),
+  ])
+  const tz = ((settings as any)?.time_zone as string | undefined) || 'Asia/Seoul'
+  const saved = (settings as any)?.receipt_threshold
+  const threshold = override ?? (typeof saved === 'number' || typeof saved === 'string' ? Number(saved) : null)
+
+  const start = (monthParam ? DateTime.fromFormat(monthParam, 'yyyy-MM', { zone: tz }) : DateTime.now().setZone(tz)).startOf('month')
+  const end = start.plus({ months: 1 })
+  const base = { month: start.toFormat('yyyy-MM'), time_zone: tz, currency, threshold }
+
+  if (threshold === null) {
+    return NextResponse.json({ ...base, items: [], total_amount: 0, truncated: false }, { headers: { 'cache-control': 'no-store' } })
+  }
+
+  const { data: candidates, error } = await supabaseServer
+    .from('transactions')
+    .select('id, kind, amount, currency, original_amount, occurred_at, payee, payment_method, notes, categories:category_id ( id, name )')
+    .eq('user_id', userId)
+    .eq('kind', 'expense')
+    .gte('amount', threshold)
+    .gte('occurred_at', start.toUTC().toISO()!)
+    .lt('occurred_at', end.toUTC().toISO()!)
+    .order('amount', { ascending: false })
+    .limit(MAX_ROWS)
+  if (error) return NextResponse.json({ message: 'Failed to load transactions' }, { status: 500 })
+
+  const rows = (candidates || []) as any[]
+  const withReceipt = new Set<string>()
+  for (let i = 0; i < rows.length; i += ID_CHUNK) {
+    const ids = rows.slice(i, i + ID_CHUNK).map((r) => r.id as string)
+    const { data: receipts, error: receiptsErr } = await supabaseServer
+      .from('transaction_receipts')
+      .select('transaction_id')
+      .in('transaction_id', ids)
+    if (receiptsErr) return NextResponse.json({ message: 'Failed to load receipts' }, { status: 500 })
+    for (const r of (receipts || []) as any[]) withReceipt.add(r.transaction_id)
+  }
+
+  const items = rows
+    .filter((r) => !withReceipt.has(r.id))
+    .map((r) => ({
+      id: r.id,
+      amount: r.amount,
+      currency: r.currency ?? 'KRW',
+      original_amount: r.original_amount ?? r.amount,
+      occurred_at: r.occurred_at,
+      payee: r.payee,
+      payment_method: r.payment_method,
+      notes: r.notes,
+      category: r.categories ?? null,
+    }))
+
+  return NextResponse.json(
+    {
+      ...base,
+      items,
+      total_amount: items.reduce((sum, r) => sum + Number(r.amount || 0), 0),
+      truncated: rows.length >= MAX_ROWS,
+    },
+    { headers: { 'cache-control': 'no-store' } },
+  )
+}
@@ -0,0 +1,90 @@
+/**
+ * CODE INSIGHT
+ * This code's use case is the receipt gallery: GET returns every receipt attached to the signed-in user's transactions in
+ * one month (?month=YYYY-MM in the user's time zone, default the current month), newest first, optionally narrowed by
+ * ?category_id= and ?payment_method=. Each item is a receipt in the /api/transactions/[id]/receipts shape (signed url
+ * and thumbnail_url) plus the transaction it belongs to, so the gallery can link back to it.
+ * This code's full epic context is receipt management and expense claims; ./missing lists the transactions that still
+ * need a receipt, and /api/export/receipts remains the bulk ZIP download.
+ * This code's ui feel is irrelevant (server-side); errors use the transactions routes' { message, errors } shape.
+ */
+
+import { NextResponse } from 'next/server'
+import { DateTime } from 'luxon'
+import { supabaseServer } from '@/utils/supabase/client-server'
+import { UUID_V4_REGEX, isPaymentMethod } from '@/utils/transactions'
+import { RECEIPT_COLUMNS, ReceiptRow, signReceipts } from '@/utils/receipts'
+
+const MAX_RECEIPTS = 500
+
+export async function GET(req: Request) {
+  const { data: authData, error: authError } = await supabaseServer.auth.getUser()
+  if (authError || !authData?.user) {
+    return NextResponse.json({ message: 'Unauthorized' }, { status: 401 })
+  }
+  const userId = authData.user.id
+
+  const { searchParams } = new URL(req.url)
+  const monthParam = searchParams.get('month')
+  const categoryId = searchParams.get('category_id')
+  const method = searchParams.get('payment_method')
+
+  const errors: { field: string; message: string }[] = []
+  if (monthParam && !/^\d{4}-(0[1-9]|1[0-2])$/.test(monthParam)) errors.push({ field: 'month', message: 'month must be YYYY-MM' })
+  if (categoryId && categoryId !== 'none' && !UUID_V4_REGEX.test(categoryId)) {
+    errors.push({ field: 'category_id', message: 'category_id must be a UUID or "none"' })
+  }
+  if (method && !isPaymentMethod(method)) errors.push({ field: 'payment_method', message: 'Unknown payment_method' })
+  if (errors.length > 0) return NextResponse.json({ message: 'Validation failed', errors }, { status: 400 })
+
+  const { data: settings } = await supabaseServer.from('user_settings').select('time_zone').eq('user_id', userId).maybeSingle()
+  const tz = ((settings as any)?.time_zone as string | undefined) || 'Asia/Seoul'
+  const start = (monthParam ? DateTime.fromFormat(monthParam, 'yyyy-MM', { zone: tz }) : DateTime.now().setZone(tz)).startOf('month')
+  const end = start.plus({ months: 1 })
+
+  let query = supabaseServer
+    .from('transactions')
+    .select(
+      `id, kind, amount, currency, original_amount, occurred_at, payee, payment_method, categories:category_id ( id, name ), transaction_receipts!inner ( ${RECEIPT_COLUMNS} )`,
+    )
+    .eq('user_id', userId)
+    .gte('occurred_at', start.toUTC().toISO()!)
+    .lt('occurred_at', end.toUTC().toISO()!)
+    .order('occurred_at', { ascending: false })
+    .limit(MAX_RECEIPTS)
+  if (categoryId === 'none') query = query.is('category_id', null)
+  else if (categoryId) query = query.eq('category_id', categoryId)
+  if (method) query = query.eq('payment_method', method)
+
+  const { data, error } = await query
+  if (error) return NextResponse.json({ message: 'Failed to load receipts' }, { status: 500 })
+
+  const transactions = new Map<string, any>()
+  const rows: ReceiptRow[] = []
+  for (const tx of (data || []) as any[]) {
+    transactions.set(tx.id, {
+      id: tx.id,
+      kind: tx.kind,
+      amount: tx.amount,
+      currency: tx.currency ?? 'KRW',
+      original_amount: tx.original_amount ?? tx.amount,
+      occurred_at: tx.occurred_at,
+      payee: tx.payee,
+      payment_method: tx.payment_method,
+      category: tx.categories ?? null,
+    })
+    rows.push(...((tx.transaction_receipts || []) as ReceiptRow[]))
+  }
+  const truncated = rows.length > MAX_RECEIPTS || (data || []).length >= MAX_RECEIPTS
+  const page = rows.slice(0, MAX_RECEIPTS)
+
+  const items = (await signReceipts(page)).map((r) => ({
+    ...r,
+    transaction: transactions.get(r.transaction_id) ?? null,
+  }))
+
+  return NextResponse.json(
+    { month: start.toFormat('yyyy-MM'), time_zone: tz, items, truncated },
+    { headers: { 'cache-control': 'no-store' } },
+  )
+}
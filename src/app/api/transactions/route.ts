@@ -1,39 +1,87 @@
 /**
  * CODE INSIGHT
- * This code's use case is to provide a minimal, authenticated POST endpoint for creating transactions
- * that validates the incoming payload shape and responds with a 501 to signal that full CRUD is handled
- * in a separate epic. It enables the UI's "Save to Server" button to show a clear, consistent response
- * without persisting any data.
- * This code's full epic context is the Transactions CRUD Epic integration, operating with Supabase Auth
- * for session enforcement in all /api routes. On missing auth it returns 401 so the client can fall back
- * to demo/local offline storage.
+ * This code's use case is to provide the authenticated transactions collection API: a cursor-paginated,
+ * filterable GET and a POST that validates and persists a transaction with its tags and optional split lines (which
+ * must sum to the parent amount) through the create_transaction database function.
+ * Foreign-currency transactions keep what was paid in original_amount/currency; amount is always stored in the user's
+ * primary currency. Payee text resolves to a canonical payee (@/utils/payees) whose defaults fill the fields the entry
+ * leaves out, and a successful POST reports possible_duplicates (@/utils/duplicates). An Idempotency-Key header (sent by
+ * /api/sync/push) completes that push operation in the same database transaction as the write.
+ * This code's full epic context is the Transactions CRUD Epic, operating with Supabase Auth and RLS for
+ * session enforcement in all /api routes. On missing auth it returns 401 so the client can fall back
+ * to local offline storage. Single-item reads and writes live in ./[id]/route.ts.
  * This code's ui feel is irrelevant (server-side), but responses are concise, consistent JSON with
  * appropriate HTTP statuses to support calm, trustworthy client UX.
  */
 
 import { NextResponse } from 'next/server'
 import { supabaseServer } from '@/utils/supabase/client-server'
+import { convertMinorUnits, CURRENCY_CODES, getPrimaryCurrency, isCurrencyCode, lookupExchangeRate, type CurrencyCode } from '@/utils/currency'
+import { DUPLICATE_MIN_SCORE, DUPLICATE_WINDOW_HOURS, scoreDuplicatePair, type DuplicateCandidate } from '@/utils/duplicates'
+import { resolvePayee } from '@/utils/payees'
+import {
+  PAYMENT_METHODS,
+  TRANSACTION_KINDS,
+  UUID_V4_REGEX,
+  decodeCursor,
+  encodeCursor,
+  isValidISODate,
+  normalizeTagName,
+  parseSplitLines,
+  splitSumError,
+  splitsForWrite,
+  tagNamesForWrite,
+  tagNamesOf,
+  writeFieldError,
+  type PaymentMethod,
+  type SplitLine,
+  type TagLink,
+  type TagRow,
+  type TransactionKind,
+  type TransactionRow,
+} from '@/utils/transactions'
 
 interface TransactionCreatePayload {
-  amount: number
+  kind?: TransactionKind
+  amount?: number
+  currency?: CurrencyCode
+  original_amount?: number
+  exchange_rate?: number
   date: string
   category_id?: string | null
+  account_id?: string | null
+  transfer_account_id?: string | null
   payee?: string | null
+  payment_method?: PaymentMethod
   notes?: string | null
   tag_names?: string[] | null
+  splits?: SplitLine[]
 }
 
-function isSafeInteger(n: unknown): n is number {
-  return typeof n === 'number' && Number.isFinite(n) && Number.isSafeInteger(n)
+const TRANSACTION_COLUMNS =
+  'id, kind, amount, currency, original_amount, exchange_rate, occurred_at, category_id, account_id, transfer_account_id, payee, payee_id, payment_method, notes, has_splits, version, created_at, updated_at'
+
+const DEFAULT_LIMIT = 20
+const MAX_LIMIT = 100
+
+type SplitRow = {
+  id: string
+  transaction_id: string
+  amount: number
+  category_id: string | null
+  notes: string | null
+  categories: { id: string; name: string } | null
+  transaction_split_tags: TagLink[] | null
 }
 
-function isValidISODate(value: unknown): value is string {
-  if (typeof value !== 'string') return false
-  const d = new Date(value)
-  return !isNaN(d.getTime())
+type SplitView = Pick<SplitRow, 'id' | 'amount' | 'category_id' | 'notes'> & {
+  category: SplitRow['categories']
+  tag_names: string[]
 }
 
-const UUID_V4_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i
+function isSafeInteger(n: unknown): n is number {
+  return typeof n === 'number' && Number.isFinite(n) && Number.isSafeInteger(n)
+}
 
 function validatePayload(body: unknown) {
   const errors: { field: string; message: string }[] = []
@@ -44,12 +92,41 @@ function validatePayload(body: unknown) {
 
   const b = body as Record<string, unknown>
 
-  // amount
-  if (!isSafeInteger(b.amount)) {
-    errors.push({ field: 'amount', message: 'amount must be a safe integer (KRW)' })
+  // kind (optional, defaults to expense)
+  if (b.kind !== undefined && b.kind !== null) {
+    if (typeof b.kind !== 'string' || !TRANSACTION_KINDS.includes(b.kind as TransactionKind)) {
+      errors.push({ field: 'kind', message: `kind must be one of ${TRANSACTION_KINDS.join(', ')}` })
+    }
+  }
+
+  // currency (optional, defaults to the user's primary currency)
+  if (b.currency !== undefined && b.currency !== null && !isCurrencyCode(b.currency)) {
+    errors.push({ field: 'currency', message: `currency must be one of ${CURRENCY_CODES.join(', ')}` })
   }
 
-  // date
+  // original_amount (optional; minor units of `currency`, what was actually paid)
+  if (b.original_amount !== undefined && b.original_amount !== null) {
+    if (!isSafeInteger(b.original_amount) || b.original_amount < 0) {
+      errors.push({ field: 'original_amount', message: 'original_amount must be a non-negative safe integer' })
+    }
+  }
+
+  // exchange_rate (optional; units of the primary currency per one unit of `currency`)
+  if (b.exchange_rate !== undefined && b.exchange_rate !== null) {
+    if (typeof b.exchange_rate !== 'number' || !Number.isFinite(b.exchange_rate) || b.exchange_rate <= 0) {
+      errors.push({ field: 'exchange_rate', message: 'exchange_rate must be a positive number' })
+    }
+  }
+
+  // amount (a non-negative magnitude in the primary currency; kind carries the direction).
+  // May be omitted when original_amount is given, in which case it is converted on the server.
+  const amountOmitted = (b.amount === undefined || b.amount === null) && b.original_amount != null
+  if (!amountOmitted && (!isSafeInteger(b.amount) || b.amount < 0)) {
+    errors.push({ field: 'amount', message: 'amount must be a non-negative safe integer (KRW)' })
+  }
+
+  // date (occurred_at is accepted as an alias, matching the column name)
+  if (b.date === undefined && b.occurred_at !== undefined) b.date = b.occurred_at
   if (!isValidISODate(b.date)) {
     errors.push({ field: 'date', message: 'date must be an ISO-8601 date/time string' })
   }
@@ -61,6 +138,21 @@ function validatePayload(body: unknown) {
     }
   }
 
+  // account_id / transfer_account_id (optional; a transfer moves money from account_id to transfer_account_id)
+  for (const field of ['account_id', 'transfer_account_id'] as const) {
+    const v = b[field]
+    if (v !== undefined && v !== null && (typeof v !== 'string' || !UUID_V4_REGEX.test(v))) {
+      errors.push({ field, message: `${field} must be a valid UUID` })
+    }
+  }
+  if (b.transfer_account_id) {
+    if ((b.kind ?? 'expense') !== 'transfer') {
+      errors.push({ field: 'transfer_account_id', message: 'transfer_account_id is only allowed for transfers' })
+    } else if (b.transfer_account_id === b.account_id) {
+      errors.push({ field: 'transfer_account_id', message: 'transfer_account_id must differ from account_id' })
+    }
+  }
+
   // payee (optional)
   if (b.payee !== undefined && b.payee !== null) {
     if (typeof b.payee !== 'string') {
@@ -70,6 +162,13 @@ function validatePayload(body: unknown) {
     }
   }
 
+  // payment_method (optional, defaults to card)
+  if (b.payment_method !== undefined && b.payment_method !== null) {
+    if (typeof b.payment_method !== 'string' || !PAYMENT_METHODS.includes(b.payment_method as PaymentMethod)) {
+      errors.push({ field: 'payment_method', message: `payment_method must be one of ${PAYMENT_METHODS.join(', ')}` })
+    }
+  }
+
   // notes (optional)
   if (b.notes !== undefined && b.notes !== null) {
     if (typeof b.notes !== 'string') {
@@ -96,22 +195,272 @@ function validatePayload(body: unknown) {
     }
   }
 
+  // splits (optional; lines must sum to the parent amount)
+  let splits: SplitLine[] = []
+  if (b.splits !== undefined && b.splits !== null) {
+    // when amount is converted on the server, the sum is checked after conversion in POST
+    const parsed = parseSplitLines(b.splits, amountOmitted || !isSafeInteger(b.amount) ? undefined : b.amount)
+    if (parsed.ok) splits = parsed.lines
+    else errors.push(...parsed.errors)
+  }
+
   if (errors.length) return { ok: false as const, errors }
 
   const sanitized: TransactionCreatePayload = {
-    amount: b.amount as number,
+    kind: (b.kind as TransactionKind | null | undefined) ?? 'expense',
+    amount: amountOmitted ? undefined : (b.amount as number),
+    currency: (b.currency as CurrencyCode | null | undefined) ?? undefined,
+    original_amount: (b.original_amount as number | null | undefined) ?? undefined,
+    exchange_rate: (b.exchange_rate as number | null | undefined) ?? undefined,
     date: b.date as string,
-    category_id: (b.category_id as string | null | undefined) ?? null,
-    payee: (b.payee as string | null | undefined)?.trim() ?? null,
+    // undefined (left out) lets the payee's default apply; an explicit null means "no category"
+    category_id: b.category_id === undefined ? undefined : ((b.category_id as string | null) ?? null),
+    account_id: (b.account_id as string | null | undefined) ?? null,
+    transfer_account_id: (b.transfer_account_id as string | null | undefined) ?? null,
+    payee: (b.payee as string | null | undefined)?.trim() || null,
+    payment_method: (b.payment_method as PaymentMethod | null | undefined) ?? undefined,
     notes: (b.notes as string | null | undefined) ?? null,
     tag_names: (Array.isArray(b.tag_names)
       ? (b.tag_names as string[]).map((t) => t.trim()).filter(Boolean)
       : null) ?? null,
+    splits,
   }
 
   return { ok: true as const, data: sanitized }
 }
 
+function parseLimit(value: string | null) {
+  const n = Number.parseInt(String(value ?? ''), 10)
+  if (!Number.isFinite(n) || n <= 0) return DEFAULT_LIMIT
+  return Math.min(n, MAX_LIMIT)
+}
+
+// A value inside a PostgREST or() filter, double-quoted so separators, dots and quotes in it stay literal
+function quoteFilterValue(value: string) {
+  return `"${value.replace(/["\\]/g, '\\$&')}"`
+}
+
+function parseIdList(param: string | null): string[] | null {
+  if (!param) return null
+  const ids = param
+    .split(',')
+    .map((s) => s.trim())
+    .filter((s) => UUID_V4_REGEX.test(s))
+  return ids.length ? ids : null
+}
+
+async function loadTagNamesByTransaction(transactionIds: string[]) {
+  const byTransaction: Record<string, string[]> = {}
+  if (transactionIds.length === 0) return byTransaction
+  const { data } = await supabaseServer
+    .from('transaction_tags')
+    .select('transaction_id, tags:tag_id ( id, name )')
+    .in('transaction_id', transactionIds)
+    .overrideTypes<{ transaction_id: string; tags: TagRow | null }[], { merge: false }>()
+  for (const row of data || []) {
+    const t = row.tags
+    if (!t) continue
+    const list = byTransaction[row.transaction_id] || []
+    list.push(t.name)
+    byTransaction[row.transaction_id] = list
+  }
+  return byTransaction
+}
+
+async function loadSplitsByTransaction(transactionIds: string[]) {
+  const byTransaction: Record<string, SplitView[]> = {}
+  if (transactionIds.length === 0) return byTransaction
+  const { data } = await supabaseServer
+    .from('transaction_splits')
+    .select('id, transaction_id, amount, category_id, notes, position, categories:category_id ( id, name ), transaction_split_tags ( tags:tag_id ( name ) )')
+    .in('transaction_id', transactionIds)
+    .order('position', { ascending: true })
+    .overrideTypes<SplitRow[], { merge: false }>()
+  for (const row of data || []) {
+    const list = byTransaction[row.transaction_id] || []
+    list.push({
+      id: row.id,
+      amount: row.amount,
+      category_id: row.category_id,
+      category: row.categories ?? null,
+      notes: row.notes,
+      tag_names: tagNamesOf(row.transaction_split_tags),
+    })
+    byTransaction[row.transaction_id] = list
+  }
+  return byTransaction
+}
+
+// Existing transactions that look like the same purchase as the one just created, best match first
+async function findPossibleDuplicates(userId: string, created: TransactionRow) {
+  const at = new Date(created.occurred_at).getTime()
+  const windowMs = DUPLICATE_WINDOW_HOURS * 60 * 60 * 1000
+  const { data } = await supabaseServer
+    .from('transactions')
+    .select('id, kind, amount, currency, original_amount, occurred_at, payee')
+    .eq('user_id', userId)
+    .eq('amount', created.amount)
+    .neq('id', created.id)
+    .gte('occurred_at', new Date(at - windowMs).toISOString())
+    .lte('occurred_at', new Date(at + windowMs).toISOString())
+    .limit(20)
+  return ((data || []) as DuplicateCandidate[])
+    .flatMap((row) => {
+      const result = scoreDuplicatePair(created, row)
+      if (!result || result.score < DUPLICATE_MIN_SCORE) return []
+      return [{ id: row.id, payee: row.payee, amount: row.amount, occurred_at: row.occurred_at, ...result }]
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, 5)
+}
+
+async function loadCategoriesById(categoryIds: string[]) {
+  const byId: Record<string, { id: string; name: string }> = {}
+  if (categoryIds.length === 0) return byId
+  const { data } = await supabaseServer.from('categories').select('id, name').in('id', categoryIds)
+  for (const c of (data || []) as { id: string; name: string }[]) byId[c.id] = { id: c.id, name: c.name }
+  return byId
+}
+
+function shapeTransaction(
+  row: TransactionRow,
+  categoriesById: Record<string, { id: string; name: string }>,
+  tagNamesByTransaction: Record<string, string[]>,
+  splitsByTransaction: Record<string, SplitView[]> = {},
+) {
+  return {
+    id: row.id,
+    kind: row.kind,
+    amount: row.amount,
+    currency: row.currency ?? 'KRW',
+    original_amount: row.original_amount ?? row.amount,
+    exchange_rate: Number(row.exchange_rate ?? 1),
+    occurred_at: row.occurred_at,
+    category_id: row.category_id,
+    category: row.category_id ? categoriesById[row.category_id] || null : null,
+    account_id: row.account_id ?? null,
+    transfer_account_id: row.transfer_account_id ?? null,
+    payee: row.payee,
+    payee_id: row.payee_id ?? null,
+    payment_method: row.payment_method,
+    notes: row.notes,
+    tag_names: tagNamesByTransaction[row.id] || [],
+    splits: splitsByTransaction[row.id] || [],
+    version: row.version,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  }
+}
+
+export async function GET(req: Request) {
+  try {
+    const { data: authData, error: authError } = await supabaseServer.auth.getUser()
+    if (authError || !authData?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 })
+    }
+    const userId = authData.user.id
+
+    const { searchParams } = new URL(req.url)
+    const limit = parseLimit(searchParams.get('limit'))
+    const cursorParam = searchParams.get('cursor')
+    const from = searchParams.get('from')
+    const to = searchParams.get('to')
+    const categoryIds = parseIdList(searchParams.get('category_id'))
+    const accountId = searchParams.get('account_id')
+    const payeeId = searchParams.get('payee_id')
+    const method = searchParams.get('payment_method')
+    const kind = searchParams.get('kind')
+    const tag = searchParams.get('tag')
+    const q = (searchParams.get('q') || '').replace(/%/g, ' ').trim()
+
+    const errors: { field: string; message: string }[] = []
+    const cursor = cursorParam ? decodeCursor(cursorParam) : null
+    if (cursorParam && !cursor) errors.push({ field: 'cursor', message: 'cursor is malformed' })
+    if (from && !isValidISODate(from)) errors.push({ field: 'from', message: 'from must be an ISO-8601 date/time string' })
+    if (to && !isValidISODate(to)) errors.push({ field: 'to', message: 'to must be an ISO-8601 date/time string' })
+    if (accountId && !UUID_V4_REGEX.test(accountId)) {
+      errors.push({ field: 'account_id', message: 'account_id must be a valid UUID' })
+    }
+    if (payeeId && !UUID_V4_REGEX.test(payeeId)) {
+      errors.push({ field: 'payee_id', message: 'payee_id must be a valid UUID' })
+    }
+    if (method && !PAYMENT_METHODS.includes(method as PaymentMethod)) {
+      errors.push({ field: 'payment_method', message: `payment_method must be one of ${PAYMENT_METHODS.join(', ')}` })
+    }
+    if (kind && !TRANSACTION_KINDS.includes(kind as TransactionKind)) {
+      errors.push({ field: 'kind', message: `kind must be one of ${TRANSACTION_KINDS.join(', ')}` })
+    }
+    if (errors.length) {
+      return NextResponse.json({ message: 'Validation failed', errors }, { status: 400 })
+    }
+
+    // Tag filter resolves the tag up front and joins it through transaction_tags
+    let tagId: string | null = null
+    if (tag) {
+      const { data: tagRow } = await supabaseServer
+        .from('tags')
+        .select('id')
+        .eq('user_id', userId)
+        .eq('name', normalizeTagName(tag))
+        .maybeSingle()
+      if (!tagRow) {
+        return NextResponse.json({ items: [], nextCursor: null }, { headers: { 'cache-control': 'no-store' } })
+      }
+      tagId = (tagRow as { id: string }).id
+    }
+
+    let query = supabaseServer
+      .from('transactions')
+      .select(tagId ? `${TRANSACTION_COLUMNS}, transaction_tags!inner ( tag_id )` : TRANSACTION_COLUMNS)
+      .eq('user_id', userId)
+      .order('occurred_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(limit + 1)
+
+    if (from) query = query.gte('occurred_at', new Date(from).toISOString())
+    if (to) query = query.lt('occurred_at', new Date(to).toISOString())
+    if (categoryIds) query = query.in('category_id', categoryIds)
+    if (accountId) query = query.or(`account_id.eq.${accountId},transfer_account_id.eq.${accountId}`)
+    if (payeeId) query = query.eq('payee_id', payeeId)
+    if (method) query = query.eq('payment_method', method)
+    if (kind) query = query.eq('kind', kind)
+    if (tagId) query = query.eq('transaction_tags.tag_id', tagId)
+    if (q) {
+      const pattern = quoteFilterValue(`%${q}%`)
+      query = query.or(`payee.ilike.${pattern},notes.ilike.${pattern}`)
+    }
+    if (cursor) {
+      // Keyset pagination over (occurred_at desc, id desc)
+      query = query.or(
+        `occurred_at.lt."${cursor.occurredAt}",and(occurred_at.eq."${cursor.occurredAt}",id.lt.${cursor.id})`,
+      )
+    }
+
+    const { data, error } = await query
+    if (error) {
+      return NextResponse.json({ message: 'Failed to load transactions', details: error.message }, { status: 500 })
+    }
+
+    const rows = (data || []) as unknown as TransactionRow[]
+    const page = rows.slice(0, limit)
+    const last = page[page.length - 1]
+    const nextCursor = rows.length > limit && last ? encodeCursor(last.occurred_at, last.id) : null
+
+    const categoriesById = await loadCategoriesById(
+      Array.from(new Set(page.flatMap((r) => (r.category_id ? [r.category_id] : [])))),
+    )
+    const tagNames = await loadTagNamesByTransaction(page.map((r) => r.id))
+    const splits = await loadSplitsByTransaction(page.filter((r) => r.has_splits).map((r) => r.id))
+
+    return NextResponse.json(
+      { items: page.map((r) => shapeTransaction(r, categoriesById, tagNames, splits)), nextCursor },
+      { headers: { 'cache-control': 'no-store' } },
+    )
+  } catch {
+    return NextResponse.json({ message: 'Internal Server Error' }, { status: 500 })
+  }
+}
+
 export async function POST(req: Request) {
   try {
     // Auth required for all /api routes per epic
@@ -119,6 +468,7 @@ export async function POST(req: Request) {
     if (authError || !authData?.user) {
       return NextResponse.json({ message: 'Unauthorized' }, { status: 401 })
     }
+    const userId = authData.user.id
 
     let body: unknown
     try {
@@ -131,15 +481,98 @@ export async function POST(req: Request) {
     if (!result.ok) {
       return NextResponse.json({ message: 'Validation failed', errors: result.errors }, { status: 400 })
     }
+    const payload = result.data
+
+    // Resolve the primary-currency amount for foreign-currency transactions
+    const primaryCurrency = await getPrimaryCurrency(supabaseServer, userId)
+    const currency = payload.currency ?? primaryCurrency
+    let exchangeRate = 1
+    let amount = payload.amount
+    if (currency !== primaryCurrency) {
+      if (payload.original_amount === undefined) {
+        return NextResponse.json(
+          { message: 'Validation failed', errors: [{ field: 'original_amount', message: 'original_amount is required for a foreign-currency transaction' }] },
+          { status: 400 },
+        )
+      }
+      const rate =
+        payload.exchange_rate ??
+        (await lookupExchangeRate(supabaseServer, userId, currency, primaryCurrency, payload.date.slice(0, 10)))
+      if (!rate) {
+        return NextResponse.json(
+          { message: 'Validation failed', errors: [{ field: 'exchange_rate', message: `no ${currency}→${primaryCurrency} exchange rate on or before this date` }] },
+          { status: 400 },
+        )
+      }
+      exchangeRate = rate
+      amount = amount ?? convertMinorUnits(payload.original_amount, currency, primaryCurrency, rate)
+    }
+    amount = amount ?? payload.original_amount ?? 0
+    const originalAmount = currency === primaryCurrency ? amount : (payload.original_amount as number)
+
+    const sumError = splitSumError((payload.splits ?? []).map((l) => l.amount), amount)
+    if (sumError) {
+      return NextResponse.json({ message: 'Validation failed', errors: [sumError] }, { status: 400 })
+    }
+
+    // Resolved only once the entry is valid, since unknown payees get created; its defaults fill what the entry left out
+    const payee = await resolvePayee(supabaseServer, userId, payload.payee, { create: true })
+    const hasSplits = (payload.splits?.length ?? 0) > 0
+    const categoryId =
+      payload.category_id !== undefined ? payload.category_id : hasSplits ? null : (payee?.default_category_id ?? null)
+    const paymentMethod = payload.payment_method ?? (payee?.default_payment_method as PaymentMethod | null) ?? 'card'
+
+    // Payee default tags apply only when the entry says nothing about tags
+    let tagNames = tagNamesForWrite(payload.tag_names ?? [])
+    if (payload.tag_names === null && payee && payee.default_tag_ids.length > 0) {
+      const { data: defaultTags } = await supabaseServer.from('tags').select('name').in('id', payee.default_tag_ids)
+      tagNames = ((defaultTags || []) as { name: string }[]).map((t) => t.name)
+    }
+
+    // The row, its tags and its split lines are written in one database transaction
+    const { data: created, error: insertError } = await supabaseServer.rpc('create_transaction', {
+      p_row: {
+        kind: payload.kind ?? 'expense',
+        amount,
+        currency,
+        original_amount: originalAmount,
+        exchange_rate: exchangeRate,
+        occurred_at: new Date(payload.date).toISOString(),
+        category_id: categoryId,
+        account_id: payload.account_id ?? null,
+        transfer_account_id: payload.transfer_account_id ?? null,
+        payee: payee?.name ?? payload.payee ?? null,
+        payee_id: payee?.id ?? null,
+        payment_method: paymentMethod,
+        notes: payload.notes ?? null,
+        has_splits: hasSplits,
+      },
+      p_tag_names: tagNames,
+      p_splits: hasSplits ? splitsForWrite(payload.splits!) : null,
+      p_idempotency_key: req.headers.get('idempotency-key'),
+    })
+
+    if (insertError || !created) {
+      const fieldError = insertError ? writeFieldError(insertError) : null
+      if (fieldError) {
+        return NextResponse.json({ message: 'Validation failed', errors: [fieldError] }, { status: 400 })
+      }
+      return NextResponse.json({ message: 'Failed to create transaction' }, { status: 500 })
+    }
+
+    const row = created as TransactionRow
+    const categoriesById = await loadCategoriesById(row.category_id ? [row.category_id] : [])
+    const splits = await loadSplitsByTransaction(row.has_splits ? [row.id] : [])
+    const possibleDuplicates = await findPossibleDuplicates(userId, row)
 
-    // Intentionally not persisting: stub endpoint
     return NextResponse.json(
       {
-        message: 'Transaction CRUD is implemented in a separate Epic',
+        ...shapeTransaction(row, categoriesById, { [row.id]: tagNames }, splits),
+        possible_duplicates: possibleDuplicates,
       },
-      { status: 501 },
+      { status: 201, headers: { 'cache-control': 'no-store', etag: `"${row.version}"` } },
     )
-  } catch (e) {
+  } catch {
     return NextResponse.json({ message: 'Internal Server Error' }, { status: 500 })
   }
 }
@@ -0,0 +1,308 @@
+/**
+ * CODE INSIGHT
+ * This code's use case is the server-side transaction search for Tris: GET ?q= takes a small query language and
+ * returns matching transactions newest first, cursor-paginated exactly like the collection route.
+ * Free words (or "quoted phrases") must each appear in payee or notes (ILIKE, served by trigram indexes). Structured
+ * tokens narrow the result: amount:>30000 (also >=, <, <=, = and a bare number), tag:여행, category:Food, method:card,
+ * kind:refund, before:2026-01-01 and after:2025-12-01 (UTC calendar days; before is exclusive, after inclusive).
+ * Tag and category tokens also match split transactions through their lines. Unknown keys are searched as text.
+ * This code's full epic context is the Transactions list, which previously filtered only the pages already loaded.
+ * This code's ui feel is irrelevant (server-side), but invalid tokens come back as field errors the list can surface.
+ */
+
+import { NextResponse } from 'next/server'
+import { supabaseServer } from '@/utils/supabase/client-server'
+import {
+  PAYMENT_METHODS,
+  TRANSACTION_KINDS,
+  decodeCursor,
+  encodeCursor,
+  isValidISODate,
+  normalizeTagName,
+  type PaymentMethod,
+  type TagRow,
+  type TransactionKind,
+  type TransactionRow,
+} from '@/utils/transactions'
+
+type AmountOp = 'gt' | 'gte' | 'lt' | 'lte' | 'eq'
+
+type ParsedQuery = {
+  text: string[]
+  amounts: { op: AmountOp; value: number }[]
+  tags: string[]
+  categories: string[]
+  methods: PaymentMethod[]
+  kinds: TransactionKind[]
+  before: string | null
+  after: string | null
+}
+
+const TRANSACTION_COLUMNS =
+  'id, kind, amount, currency, original_amount, exchange_rate, occurred_at, category_id, account_id, transfer_account_id, payee, payment_method, notes, has_splits, version, created_at, updated_at'
+
+type SearchRow = Omit<TransactionRow, 'payee_id'>
+
+const DEFAULT_LIMIT = 20
+const MAX_LIMIT = 100
+const MAX_QUERY_LENGTH = 200
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/
+
+const AMOUNT_OPS: [string, AmountOp][] = [
+  ['>=', 'gte'],
+  ['<=', 'lte'],
+  ['>', 'gt'],
+  ['<', 'lt'],
+  ['=', 'eq'],
+]
+
+// PostgREST filter values: drop characters that would break or() grouping and the LIKE wildcards
+function sanitizeTerm(term: string) {
+  return term.replace(/[%_,()"\\*]/g, ' ').replace(/\s+/g, ' ').trim()
+}
+
+function parseLimit(value: string | null) {
+  const n = Number.parseInt(String(value ?? ''), 10)
+  if (!Number.isFinite(n) || n <= 0) return DEFAULT_LIMIT
+  return Math.min(n, MAX_LIMIT)
+}
+
+// Splits on whitespace while keeping "quoted phrases" (including key:"quoted value") together
+function tokenize(q: string) {
+  const tokens: string[] = []
+  const re = /(\S+?:"[^"]*"|"[^"]*"|\S+)/g
+  let m: RegExpExecArray | null
+  while ((m = re.exec(q))) tokens.push(m[1])
+  return tokens
+}
+
+function parseQuery(q: string) {
+  const errors: { field: string; message: string }[] = []
+  const parsed: ParsedQuery = {
+    text: [],
+    amounts: [],
+    tags: [],
+    categories: [],
+    methods: [],
+    kinds: [],
+    before: null,
+    after: null,
+  }
+
+  for (const token of tokenize(q)) {
+    const sep = token.indexOf(':')
+    const key = sep > 0 ? token.slice(0, sep).toLowerCase() : ''
+    const value = sep > 0 ? token.slice(sep + 1).replace(/^"|"$/g, '').trim() : ''
+
+    switch (key) {
+      case 'amount': {
+        const op = AMOUNT_OPS.find(([prefix]) => value.startsWith(prefix))
+        const n = Number((op ? value.slice(op[0].length) : value).replace(/,/g, ''))
+        if (!value || !Number.isSafeInteger(n) || n < 0) {
+          errors.push({ field: 'q', message: `amount must be a non-negative integer, optionally prefixed by >, >=, <, <= or = (got "${value}")` })
+        } else {
+          parsed.amounts.push({ op: op ? op[1] : 'eq', value: n })
+        }
+        break
+      }
+      case 'tag':
+        if (value) parsed.tags.push(normalizeTagName(value))
+        break
+      case 'category':
+        if (sanitizeTerm(value)) parsed.categories.push(sanitizeTerm(value))
+        break
+      case 'method':
+        if (!PAYMENT_METHODS.includes(value as PaymentMethod)) {
+          errors.push({ field: 'q', message: `method must be one of ${PAYMENT_METHODS.join(', ')}` })
+        } else {
+          parsed.methods.push(value as PaymentMethod)
+        }
+        break
+      case 'kind':
+        if (!TRANSACTION_KINDS.includes(value as TransactionKind)) {
+          errors.push({ field: 'q', message: `kind must be one of ${TRANSACTION_KINDS.join(', ')}` })
+        } else {
+          parsed.kinds.push(value as TransactionKind)
+        }
+        break
+      case 'before':
+      case 'after':
+        if (!DATE_REGEX.test(value) || !isValidISODate(value)) {
+          errors.push({ field: 'q', message: `${key} must be a YYYY-MM-DD date` })
+        } else {
+          parsed[key] = value
+        }
+        break
+      default: {
+        const term = sanitizeTerm(token.replace(/^"|"$/g, ''))
+        if (term) parsed.text.push(term)
+      }
+    }
+  }
+
+  return { parsed, errors }
+}
+
+async function tagIdFor(userId: string, name: string) {
+  const { data } = await supabaseServer.from('tags').select('id').eq('user_id', userId).eq('name', name).maybeSingle()
+  return (data as { id: string } | null)?.id ?? null
+}
+
+async function categoryIdsFor(userId: string, name: string) {
+  // Case-insensitive exact name match (sanitizeTerm already removed LIKE wildcards)
+  const { data } = await supabaseServer.from('categories').select('id').eq('user_id', userId).ilike('name', name)
+  return ((data || []) as { id: string }[]).map((c) => c.id)
+}
+
+async function loadTagNamesByTransaction(transactionIds: string[]) {
+  const byTransaction: Record<string, string[]> = {}
+  if (transactionIds.length === 0) return byTransaction
+  const { data } = await supabaseServer
+    .from('transaction_tags')
+    .select('transaction_id, tags:tag_id ( id, name )')
+    .in('transaction_id', transactionIds)
+    .overrideTypes<{ transaction_id: string; tags: TagRow | null }[], { merge: false }>()
+  for (const row of data || []) {
+    const t = row.tags
+    if (!t) continue
+    const list = byTransaction[row.transaction_id] || []
+    list.push(t.name)
+    byTransaction[row.transaction_id] = list
+  }
+  return byTransaction
+}
+
+async function loadCategoriesById(categoryIds: string[]) {
+  const byId: Record<string, { id: string; name: string }> = {}
+  if (categoryIds.length === 0) return byId
+  const { data } = await supabaseServer.from('categories').select('id, name').in('id', categoryIds)
+  for (const c of (data || []) as { id: string; name: string }[]) byId[c.id] = { id: c.id, name: c.name }
+  return byId
+}
+
+// Mirrors the collection route's item shape (without split lines, which the detail route returns)
+function shapeTransaction(
+  row: SearchRow,
+  categoriesById: Record<string, { id: string; name: string }>,
+  tagNamesByTransaction: Record<string, string[]>,
+) {
+  return {
+    id: row.id,
+    kind: row.kind,
+    amount: row.amount,
+    currency: row.currency ?? 'KRW',
+    original_amount: row.original_amount ?? row.amount,
+    exchange_rate: Number(row.exchange_rate ?? 1),
+    occurred_at: row.occurred_at,
+    category_id: row.category_id,
+    category: row.category_id ? categoriesById[row.category_id] || null : null,
+    account_id: row.account_id ?? null,
+    transfer_account_id: row.transfer_account_id ?? null,
+    payee: row.payee,
+    payment_method: row.payment_method,
+    notes: row.notes,
+    has_splits: Boolean(row.has_splits),
+    tag_names: tagNamesByTransaction[row.id] || [],
+    version: row.version,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  }
+}
+
+export async function GET(req: Request) {
+  try {
+    const { data: authData, error: authError } = await supabaseServer.auth.getUser()
+    if (authError || !authData?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 })
+    }
+    const userId = authData.user.id
+
+    const { searchParams } = new URL(req.url)
+    const q = (searchParams.get('q') || '').trim()
+    const limit = parseLimit(searchParams.get('limit'))
+    const cursorParam = searchParams.get('cursor')
+
+    const errors: { field: string; message: string }[] = []
+    const cursor = cursorParam ? decodeCursor(cursorParam) : null
+    if (cursorParam && !cursor) errors.push({ field: 'cursor', message: 'cursor is malformed' })
+    if (q.length > MAX_QUERY_LENGTH) {
+      errors.push({ field: 'q', message: `q must be ${MAX_QUERY_LENGTH} characters or fewer` })
+    }
+    const { parsed, errors: queryErrors } = parseQuery(q.slice(0, MAX_QUERY_LENGTH))
+    errors.push(...queryErrors)
+    if (errors.length) {
+      return NextResponse.json({ message: 'Validation failed', errors }, { status: 400 })
+    }
+
+    // Tag and category tokens resolve to ids up front and filter through the search_tag_ids / search_category_ids
+    // computed fields, which also cover split lines; several tokens must all match
+    const tagIds: string[] = []
+    for (const tag of parsed.tags) {
+      const tagId = await tagIdFor(userId, tag)
+      if (!tagId) {
+        return NextResponse.json({ items: [], nextCursor: null, query: parsed }, { headers: { 'cache-control': 'no-store' } })
+      }
+      tagIds.push(tagId)
+    }
+    const categoryIdSets: string[][] = []
+    for (const category of parsed.categories) {
+      const ids = await categoryIdsFor(userId, category)
+      if (ids.length === 0) {
+        return NextResponse.json({ items: [], nextCursor: null, query: parsed }, { headers: { 'cache-control': 'no-store' } })
+      }
+      categoryIdSets.push(ids)
+    }
+
+    let query = supabaseServer
+      .from('transactions')
+      .select(TRANSACTION_COLUMNS)
+      .eq('user_id', userId)
+      .order('occurred_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(limit + 1)
+
+    for (const term of parsed.text) query = query.or(`payee.ilike."%${term}%",notes.ilike."%${term}%"`)
+    for (const { op, value } of parsed.amounts) {
+      if (op === 'gt') query = query.gt('amount', value)
+      else if (op === 'gte') query = query.gte('amount', value)
+      else if (op === 'lt') query = query.lt('amount', value)
+      else if (op === 'lte') query = query.lte('amount', value)
+      else query = query.eq('amount', value)
+    }
+    if (parsed.methods.length) query = query.in('payment_method', parsed.methods)
+    if (parsed.kinds.length) query = query.in('kind', parsed.kinds)
+    if (parsed.before) query = query.lt('occurred_at', new Date(`${parsed.before}T00:00:00.000Z`).toISOString())
+    if (parsed.after) query = query.gte('occurred_at', new Date(`${parsed.after}T00:00:00.000Z`).toISOString())
+    if (tagIds.length) query = query.contains('search_tag_ids', tagIds)
+    for (const ids of categoryIdSets) query = query.overlaps('search_category_ids', ids)
+    if (cursor) {
+      // Keyset pagination over (occurred_at desc, id desc)
+      query = query.or(
+        `occurred_at.lt."${cursor.occurredAt}",and(occurred_at.eq."${cursor.occurredAt}",id.lt.${cursor.id})`,
+      )
+    }
+
+    const { data, error } = await query
+    if (error) {
+      return NextResponse.json({ message: 'Failed to search transactions', details: error.message }, { status: 500 })
+    }
+
+    const rows = (data || []) as unknown as SearchRow[]
+    const page = rows.slice(0, limit)
+    const last = page[page.length - 1]
+    const nextCursor = rows.length > limit && last ? encodeCursor(last.occurred_at, last.id) : null
+
+    const categoriesById = await loadCategoriesById(
+      Array.from(new Set(page.flatMap((r) => (r.category_id ? [r.category_id] : [])))),
+    )
+    const tagNames = await loadTagNamesByTransaction(page.map((r) => r.id))
+
+    return NextResponse.json(
+      { items: page.map((r) => shapeTransaction(r, categoriesById, tagNames)), nextCursor, query: parsed },
+      { headers: { 'cache-control': 'no-store' } },
+    )
+  } catch {
+    return NextResponse.json({ message: 'Internal Server Error' }, { status: 500 })
+  }
+}
@@ -43,7 +43,7 @@ export default async function Page({ params, searchParams }: { params: { ruleId:
       .single(),
     supabaseServer
       .from('categories')
-      .select('id,name')
+      .select('id,name,archived_at')
       .eq('user_id', user.id)
       .order('name', { ascending: true }),
     supabaseServer
@@ -76,7 +76,7 @@ export default async function Page({ params, searchParams }: { params: { ruleId:
       )}
       <Client
         initialRule={rule as any}
-        categories={(categories ?? []) as any}
+        categories={((categories ?? []) as any[]).filter((c) => !c.archived_at || c.id === (rule as any)?.category_id)}
         occurrencesPreview={(occurrences ?? []) as any}
       />
     </div>
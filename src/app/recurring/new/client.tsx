@@ -5,8 +5,11 @@ import { useRouter } from 'next/navigation'
 
 type Category = { id: string; name: string }
 
+type Account = { id: string; name: string }
+
 type Props = {
   categories: Category[]
+  accounts?: Account[]
   defaultTimeZone?: string
 }
 
@@ -67,13 +70,14 @@ function useTimeZones(defaultTZ?: string) {
   return { timeZones: all, initial }
 }
 
-export default function Client({ categories, defaultTimeZone }: Props) {
+export default function Client({ categories, accounts = [], defaultTimeZone }: Props) {
   const router = useRouter()
 
   // Basics
   const [title, setTitle] = useState('')
   const [amountRaw, setAmountRaw] = useState('')
   const [categoryId, setCategoryId] = useState<string>('')
+  const [accountId, setAccountId] = useState<string>('')
   const [payee, setPayee] = useState('')
   const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('card')
   const [notes, setNotes] = useState('')
@@ -157,6 +161,7 @@ export default function Client({ categories, defaultTimeZone }: Props) {
       title: title.trim(),
       amount: parseAmountToInt(amountRaw),
       category_id: categoryId || null,
+      account_id: accountId || null,
       payee: payee.trim() || null,
       payment_method: paymentMethod,
       notes: notes.trim() || null,
@@ -255,6 +260,22 @@ export default function Client({ categories, defaultTimeZone }: Props) {
               </select>
             </div>
 
+            {accounts.length > 0 && (
+              <div>
+                <label className="block text-sm font-medium mb-1">Account</label>
+                <select
+                  value={accountId}
+                  onChange={e => setAccountId(e.target.value)}
+                  className="w-full rounded-lg border border-input bg-background px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-primary"
+                >
+                  <option value="">No account</option>
+                  {accounts.map(a => (
+                    <option key={a.id} value={a.id}>{a.name}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
             <div>
               <label className="block text-sm font-medium mb-1">Payee</label>
               <input
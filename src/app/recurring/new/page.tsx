@@ -14,6 +14,7 @@ export default async function Page() {
   const user = authData?.user
 
   let categories: { id: string; name: string }[] = []
+  let accounts: { id: string; name: string }[] = []
   let defaultTimeZone: string | undefined = 'Asia/Seoul'
 
   if (user?.id) {
@@ -21,11 +22,20 @@ export default async function Page() {
       .from('categories')
       .select('id, name')
       .eq('user_id', user.id)
+      .is('archived_at', null)
       .order('is_favorite', { ascending: false })
       .order('name', { ascending: true })
 
     categories = cats ?? []
 
+    const { data: accts } = await supabaseServer
+      .from('accounts')
+      .select('id, name')
+      .eq('user_id', user.id)
+      .order('name', { ascending: true })
+
+    accounts = accts ?? []
+
     const { data: settings } = await supabaseServer
       .from('user_settings')
       .select('time_zone')
@@ -44,7 +54,7 @@ export default async function Page() {
           <h1 className="text-2xl font-semibold tracking-tight">New Recurring Rule</h1>
           <p className="text-sm text-muted-foreground mt-1">Create an automated schedule for payments with optional reminders and auto-creation.</p>
         </div>
-        <Client categories={categories} defaultTimeZone={defaultTimeZone} />
+        <Client categories={categories} accounts={accounts} defaultTimeZone={defaultTimeZone} />
       </div>
     </div>
   )
@@ -2,9 +2,16 @@
  * CODE INSIGHT
  * This code's use case is to serve the service worker JavaScript for the Tris PWA.
  * This code's full epic context is to precache the app shell, cache /api/demo/* requests and HTML navigations with a stale-while-revalidate strategy, provide an offline fallback to /offline, and respond to SKIP_WAITING messages to activate updates.
+ * Background Sync ("sync-queue") flushes the offline queue once connectivity returns: with a Tris tab open it asks that tab's SyncProvider to run (PROCESS_QUEUE on the "tris-sync" channel); with none open it reads tris/syncQueue from IndexedDB (the localForage database) and pushes create/update/delete items through the idempotent /api/sync/push itself, leaving receipts, conflicts and rejections for the app.
+ * The worker only drains when it can take the "tris-sync-leader" lock (no leader tab alive) and the local database is at this build's LOCAL_SCHEMA_VERSION, marks each item processing with a lease while pushing it, and takes back processing items whose lease has expired.
+ * The receipt OCR engine and its Korean/English language data, served from /ocr, are kept cache-first in OCR_CACHE so /transactions/new can read receipts offline.
+ * Periodic Background Sync ("tris-refresh") re-fetches the next 30 days of /api/occurrences and this month's /api/budgets/summary into the API cache, which serves those endpoints network-first so they still render offline.
  * This code's ui feel is invisible infrastructure: fast, reliable, and unobtrusive, enabling smooth mobile-first interactions and offline confidence.
  */
 
+import { version as TESSERACT_VERSION } from 'tesseract.js/package.json'
+import { LOCAL_SCHEMA_VERSION } from '@/utils/local-db'
+
 export async function GET() {
   const sw = `/* Tris PWA Service Worker */
 (function(){
@@ -14,6 +21,7 @@ export async function GET() {
   var STATIC_CACHE = CACHE_PREFIX + '-static-v1';
   var PAGES_CACHE = CACHE_PREFIX + '-pages-v1';
   var API_CACHE = CACHE_PREFIX + '-api-v1';
+  var OCR_CACHE = CACHE_PREFIX + '-ocr-${TESSERACT_VERSION}';
 
   var APP_SHELL = [
     '/',
@@ -21,6 +29,16 @@ export async function GET() {
     '/manifest.webmanifest'
   ];
 
+  var DB_NAME = 'tris';
+  var CHANNEL = 'tris-sync';
+  var SYNC_TAG = 'sync-queue';
+  var REFRESH_TAG = 'tris-refresh';
+  var PUSH_TYPES = ['CREATE_TRANSACTION', 'UPDATE_TRANSACTION', 'DELETE_TRANSACTION'];
+  var DAY_MS = 24 * 60 * 60 * 1000;
+  var LEADER_LOCK = 'tris-sync-leader';
+  var LEASE_MS = 5 * 60 * 1000;
+  var LOCAL_SCHEMA_VERSION = ${LOCAL_SCHEMA_VERSION};
+
   self.addEventListener('message', function(event){
     var data = event && event.data;
     if (!data) return;
@@ -45,12 +63,22 @@ export async function GET() {
     event.waitUntil((async function(){
       try { if (self.registration && self.registration.navigationPreload) { await self.registration.navigationPreload.enable(); } } catch (e) {}
       var keys = await caches.keys();
-      var keep = [STATIC_CACHE, PAGES_CACHE, API_CACHE];
+      var keep = [STATIC_CACHE, PAGES_CACHE, API_CACHE, OCR_CACHE];
       await Promise.all(keys.filter(function(k){ return k.indexOf(CACHE_PREFIX) === 0 && keep.indexOf(k) === -1; }).map(function(k){ return caches.delete(k); }));
       await self.clients.claim();
     })());
   });
 
+  self.addEventListener('sync', function(event){
+    if (event.tag !== SYNC_TAG) return;
+    event.waitUntil(flushQueue());
+  });
+
+  self.addEventListener('periodicsync', function(event){
+    if (event.tag !== REFRESH_TAG) return;
+    event.waitUntil(refreshCaches());
+  });
+
   self.addEventListener('fetch', function(event){
     var req = event.request;
     if (req.method !== 'GET') return;
@@ -70,6 +98,19 @@ export async function GET() {
       return;
     }
 
+    // Data refreshed by periodic sync: network-first, falling back to the last cached copy
+    if (isSameOrigin && (url.pathname === '/api/occurrences' || url.pathname === '/api/budgets/summary')) {
+      event.respondWith(networkFirst(req, API_CACHE, url.pathname === '/api/occurrences'));
+      return;
+    }
+
+    // Receipt OCR engine (tesseract.js worker, wasm core and language data) under /ocr: the cache is named after the
+    // tesseract.js version that produced them, so cache-first keeps OCR working offline and an upgrade starts afresh
+    if (isSameOrigin && url.pathname.indexOf('/ocr/') === 0) {
+      event.respondWith(cacheFirst(req, OCR_CACHE));
+      return;
+    }
+
     // Static assets: cache-first
     if (isSameOrigin && (url.pathname.indexOf('/_next/') === 0 || /\.(?:js|css|png|jpg|jpeg|svg|gif|webp|ico|woff2?)$/i.test(url.pathname))) {
       event.respondWith(cacheFirst(req, STATIC_CACHE));
@@ -103,7 +144,7 @@ export async function GET() {
     if (network) return network;
 
     var offline = await caches.match('/offline');
-    return offline || new Response('<!doctype html><meta charset="utf-8"><title>Offline</title><style>body{font-family:system-ui,-apple-system,Segoe UI,Roboto,Helvetica,Arial,sans-serif;margin:0;display:grid;place-items:center;height:100vh;background:#0b1220;color:#e5e7eb}main{max-width:32rem;padding:2rem;text-align:center;background:rgba(255,255,255,0.06);border-radius:1rem;box-shadow:0 10px 25px rgba(0,0,0,0.4)}h1{font-size:1.5rem;margin:0 0 .5rem}p{opacity:.9;line-height:1.5}</style><main><h1>You\'re offline</h1><p>Content isn\'t available right now. Reconnect and try again.</p></main>', { headers: { 'content-type': 'text/html; charset=utf-8' } });
+    return offline || new Response('<!doctype html><meta charset="utf-8"><title>Offline</title><style>body{font-family:system-ui,-apple-system,Segoe UI,Roboto,Helvetica,Arial,sans-serif;margin:0;display:grid;place-items:center;height:100vh;background:#0b1220;color:#e5e7eb}main{max-width:32rem;padding:2rem;text-align:center;background:rgba(255,255,255,0.06);border-radius:1rem;box-shadow:0 10px 25px rgba(0,0,0,0.4)}h1{font-size:1.5rem;margin:0 0 .5rem}p{opacity:.9;line-height:1.5}</style><main><h1>You&#39;re offline</h1><p>Content isn&#39;t available right now. Reconnect and try again.</p></main>', { headers: { 'content-type': 'text/html; charset=utf-8' } });
   }
 
   async function staleWhileRevalidate(request, cacheName, event){
@@ -125,6 +166,272 @@ export async function GET() {
     return new Response('{"error":"offline"}', { headers: { 'content-type': 'application/json' }, status: 200 });
   }
 
+  // Rethrows when there is no cached copy so page fetchers see a network error and use their own offline fallback.
+  // Occurrences match without the query: the client filters the cached 30-day window to the range it needs.
+  async function networkFirst(request, cacheName, ignoreSearch){
+    var cache = await caches.open(cacheName);
+    try {
+      var res = await fetch(request);
+      if (res && res.ok) { cache.put(request, res.clone()); }
+      return res;
+    } catch (e) {
+      var cached = await cache.match(request, { ignoreSearch: ignoreSearch });
+      if (cached) return cached;
+      throw e;
+    }
+  }
+
+  function localDate(d){
+    var pad = function(n){ return (n < 10 ? '0' : '') + n; };
+    return d.getFullYear() + '-' + pad(d.getMonth() + 1) + '-' + pad(d.getDate());
+  }
+
+  async function refreshCaches(){
+    var now = new Date();
+    var from = localDate(now);
+    var occurrencesUrl = '/api/occurrences?from=' + from + '&to=' + localDate(new Date(now.getTime() + 30 * DAY_MS));
+    var summaryUrl = '/api/budgets/summary?month=' + from.slice(0, 7);
+    var cache = await caches.open(API_CACHE);
+    var results = await Promise.all([occurrencesUrl, summaryUrl].map(function(u){
+      return fetch(u, { credentials: 'include', cache: 'no-store' }).then(function(res){ return res.ok ? res : undefined; }).catch(function(){ return undefined; });
+    }));
+    if (results[0]) {
+      // One window at a time, so the ignoreSearch lookup in networkFirst finds the fresh one
+      var keys = await cache.keys();
+      await Promise.all(keys.filter(function(k){ return new URL(k.url).pathname === '/api/occurrences'; }).map(function(k){ return cache.delete(k); }));
+      await cache.put(occurrencesUrl, results[0]);
+    }
+    if (results[1]) await cache.put(summaryUrl, results[1]);
+  }
+
+  function notify(type){
+    try {
+      var bc = new BroadcastChannel(CHANNEL);
+      bc.postMessage({ type: type });
+      bc.close();
+    } catch (e) {}
+  }
+
+  function openDb(){
+    return new Promise(function(resolve){
+      var req;
+      try { req = indexedDB.open(DB_NAME); } catch (e) { resolve(null); return; }
+      // No database yet means nothing was ever queued; do not create one behind localForage's back
+      req.onupgradeneeded = function(){ req.transaction.abort(); };
+      req.onsuccess = function(){
+        var db = req.result;
+        if (!db.objectStoreNames.contains('syncQueue')) { db.close(); resolve(null); return; }
+        resolve(db);
+      };
+      req.onerror = function(){ resolve(null); };
+    });
+  }
+
+  // localForage keeps one object store per storeName with the raw value under the item key
+  function readAll(db, storeName){
+    return new Promise(function(resolve, reject){
+      if (!db.objectStoreNames.contains(storeName)) { resolve([]); return; }
+      var rows = [];
+      var tx = db.transaction(storeName, 'readonly');
+      var req = tx.objectStore(storeName).openCursor();
+      req.onsuccess = function(){
+        var cursor = req.result;
+        if (!cursor) return;
+        if (cursor.value) rows.push({ key: cursor.key, value: cursor.value });
+        cursor.continue();
+      };
+      tx.oncomplete = function(){ resolve(rows); };
+      tx.onerror = tx.onabort = function(){ reject(tx.error); };
+    });
+  }
+
+  function readOne(db, storeName, key){
+    return new Promise(function(resolve, reject){
+      if (!db.objectStoreNames.contains(storeName)) { resolve(null); return; }
+      var tx = db.transaction(storeName, 'readonly');
+      var req = tx.objectStore(storeName).get(key);
+      tx.oncomplete = function(){ resolve(req.result || null); };
+      tx.onerror = tx.onabort = function(){ reject(tx.error); };
+    });
+  }
+
+  function write(db, storeName, key, value){
+    return new Promise(function(resolve, reject){
+      if (!db.objectStoreNames.contains(storeName)) { resolve(); return; }
+      var tx = db.transaction(storeName, 'readwrite');
+      var store = tx.objectStore(storeName);
+      if (value === null) store.delete(key); else store.put(value, key);
+      tx.oncomplete = function(){ resolve(); };
+      tx.onerror = tx.onabort = function(){ reject(tx.error); };
+    });
+  }
+
+  function toTime(v){
+    if (typeof v === 'number') return v;
+    var t = v ? Date.parse(v) : NaN;
+    return isNaN(t) ? 0 : t;
+  }
+
+  function txKey(item){
+    return (item.ref && (item.ref.localId || item.ref.remoteId)) || item.id;
+  }
+
+  async function flushQueue(){
+    var windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    if (windows.length > 0) {
+      notify('PROCESS_QUEUE');
+      return;
+    }
+    var locks = self.navigator && self.navigator.locks;
+    if (locks) {
+      // A tab that is still the sync leader (even one this worker does not control) owns the queue
+      return locks.request(LEADER_LOCK, { ifAvailable: true }, function(lock){ return lock ? drainQueue() : undefined; });
+    }
+    return drainQueue();
+  }
+
+  async function drainQueue(){
+    var db = await openDb();
+    if (!db) return;
+    var transient = false;
+    try {
+      // Same gate as the SyncProvider: only a copy at this build's schema is drained. An older one needs the app's
+      // migrations first; a newer one was written by a build this worker does not understand.
+      if ((await readOne(db, 'meta', 'schemaVersion')) !== LOCAL_SCHEMA_VERSION) return;
+      var rows = await readAll(db, 'syncQueue');
+      var items = rows.map(function(r){ var v = Object.assign({}, r.value); v.id = v.id || r.key; return v; });
+      items.sort(function(a, b){ return toTime(a.createdAt) - toTime(b.createdAt) || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0); });
+      var blocked = {};
+
+      for (var i = 0; i < items.length; i++) {
+        var item = Object.assign({}, (await readOne(db, 'syncQueue', items[i].id)) || items[i], { id: items[i].id });
+        var key = txKey(item);
+        if (item.status === 'done') continue;
+        // A processing item whose lease ran out was left behind by a tab that closed mid-run
+        var abandoned = item.status === 'processing' && !(item.leaseUntil > Date.now());
+        // Same ordering rule as the SyncProvider: anything unfinished holds back later items for that transaction
+        if ((item.status !== 'pending' && !abandoned) || blocked[key] || PUSH_TYPES.indexOf(item.type) === -1 || (item.nextAttemptAt && item.nextAttemptAt > Date.now())) {
+          blocked[key] = true;
+          continue;
+        }
+        var remoteId = item.ref && item.ref.remoteId;
+        if (!remoteId && item.ref && item.ref.localId) {
+          var local = await readOne(db, 'transactions', item.ref.localId);
+          remoteId = local && local.remoteId;
+        }
+        // Creates not yet pushed, or a conflict awaiting a decision on /conflicts/[id], are the app's to handle
+        if ((item.type !== 'CREATE_TRANSACTION' && !remoteId) || (remoteId && await readOne(db, 'conflicts', remoteId))) {
+          blocked[key] = true;
+          continue;
+        }
+
+        // Overwrites use the SyncProvider's derived key: the guarded push already claimed the item id
+        var op = { idempotency_key: item.unconditional ? item.id + '.mine' : item.id, type: item.type };
+        if (item.type === 'CREATE_TRANSACTION') {
+          op.payload = item.payload || {};
+        } else {
+          op.id = remoteId;
+          if (item.type === 'UPDATE_TRANSACTION') op.payload = item.payload || {};
+          if (item.unconditional) op.unconditional = true;
+          else op.base_version = typeof item.baseVersion === 'number' ? item.baseVersion : null;
+        }
+
+        var released = Object.assign({}, item, { status: 'pending', leaseOwner: null, leaseUntil: null });
+        await write(db, 'syncQueue', item.id, Object.assign({}, item, { status: 'processing', leaseOwner: 'sw', leaseUntil: Date.now() + LEASE_MS }));
+        var result = null;
+        try {
+          var res = await fetch('/api/sync/push', {
+            method: 'POST',
+            credentials: 'include',
+            cache: 'no-store',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ operations: [op] })
+          });
+          if (res.ok) {
+            var body = await res.json().catch(function(){ return null; });
+            result = body && body.results && body.results[0];
+          } else if (res.status >= 500 || res.status === 429 || res.status === 408) {
+            transient = true;
+          }
+        } catch (e) {
+          // Offline again: let the browser retry the whole sync later
+          await write(db, 'syncQueue', item.id, released);
+          transient = true;
+          break;
+        }
+
+        var applied = result && (result.status === 'applied' || (item.type === 'DELETE_TRANSACTION' && result.status === 'not_found'));
+        if (!applied) {
+          if (result && (result.status === 'failed' || result.status === 'in_progress')) transient = true;
+          // Conflicts and rejections replay from the push endpoint's stored result when the app next runs the item
+          await write(db, 'syncQueue', item.id, released);
+          blocked[key] = true;
+          continue;
+        }
+        await settle(db, item, result, remoteId);
+      }
+    } finally {
+      db.close();
+    }
+    // A rejected promise makes the browser schedule another sync event with backoff
+    if (transient) throw new Error('Sync incomplete');
+  }
+
+  async function settle(db, item, result, remoteId){
+    var now = Date.now();
+    var done = Object.assign({}, item, { status: 'done', error: null, nextAttemptAt: null, leaseOwner: null, leaseUntil: null, updatedAt: now });
+    var localId = item.ref && item.ref.localId;
+
+    if (item.type === 'CREATE_TRANSACTION' && result.id) {
+      done.ref = Object.assign({}, item.ref, { remoteId: result.id });
+      if (localId) {
+        var local = await readOne(db, 'transactions', localId);
+        if (local) {
+          await write(db, 'transactions', localId, Object.assign({}, local, {
+            remoteId: result.id,
+            baseVersion: typeof result.version === 'number' ? result.version : null,
+            lastSyncedAt: new Date(now).toISOString()
+          }));
+        }
+        // localId → remoteId in queued items and receipts, as the SyncProvider does after a create
+        var queued = await readAll(db, 'syncQueue');
+        for (var i = 0; i < queued.length; i++) {
+          var q = queued[i].value;
+          if (q.id !== item.id && q.ref && q.ref.localId === localId && q.ref.remoteId !== result.id) {
+            await write(db, 'syncQueue', queued[i].key, Object.assign({}, q, { ref: Object.assign({}, q.ref, { remoteId: result.id }) }));
+          }
+        }
+        var receipts = await readAll(db, 'receipts');
+        for (var j = 0; j < receipts.length; j++) {
+          var entry = receipts[j].value;
+          var ref = (entry.metadata && entry.metadata.transactionRef) || entry.transactionRef;
+          if (!ref || ref.localId !== localId || ref.remoteId === result.id) continue;
+          var next = Object.assign({}, entry);
+          if (entry.metadata) next.metadata = Object.assign({}, entry.metadata, { transactionRef: Object.assign({}, entry.metadata.transactionRef, { remoteId: result.id }) });
+          if (entry.transactionRef) next.transactionRef = Object.assign({}, entry.transactionRef, { remoteId: result.id });
+          await write(db, 'receipts', receipts[j].key, next);
+        }
+      }
+    } else if (item.type === 'UPDATE_TRANSACTION' && typeof result.version === 'number') {
+      // Later edits captured the same baseVersion; guard them with the version this update produced
+      var key = txKey(item);
+      var rest = await readAll(db, 'syncQueue');
+      for (var k = 0; k < rest.length; k++) {
+        var it = rest[k].value;
+        if (it.id === item.id || it.status !== 'pending' || txKey(it) !== key) continue;
+        if (it.baseVersion == null || it.baseVersion === item.baseVersion) {
+          await write(db, 'syncQueue', rest[k].key, Object.assign({}, it, { baseVersion: result.version }));
+        }
+      }
+      var row = await readOne(db, 'transactions', key);
+      if (row) await write(db, 'transactions', key, Object.assign({}, row, { baseVersion: result.version, lastSyncedAt: new Date(now).toISOString() }));
+    } else if (item.type === 'DELETE_TRANSACTION') {
+      await write(db, 'transactions', txKey(item), null);
+    }
+
+    await write(db, 'syncQueue', item.id, done);
+  }
+
   async function cacheFirst(request, cacheName){
     var cache = await caches.open(cacheName);
     var cached = await cache.match(request);
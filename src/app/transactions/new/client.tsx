@@ -349,11 +349,6 @@ export function NewTransactionClient() {
         credentials: 'include',
         body: JSON.stringify(payload),
       })
-      if (res.status === 501) {
-        setServerNotice('서버 저장은 다음 에픽에서 제공됩니다. 현재는 로컬 임시 저장만 가능합니다.')
-        showToast('서버에 아직 저장할 수 없습니다', '트랜잭션 CRUD 에픽에서 활성화됩니다')
-        return
-      }
       if (!res.ok) {
         if (res.status === 401) setDemoMode(true)
         const text = await res.text()
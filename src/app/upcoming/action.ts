@@ -30,7 +30,7 @@ export async function markPaid({ occurrenceId, amount, paidAt }: { occurrenceId:
 
   const { data: rule, error: ruleErr } = await supabaseServer
     .from('recurring_transactions')
-    .select('id, amount, category_id, payee, payment_method, notes')
+    .select('id, amount, category_id, account_id, payee, payee_id, payment_method, notes')
     .eq('user_id', user.id)
     .eq('id', occ.recurring_transaction_id)
     .maybeSingle()
@@ -44,14 +44,14 @@ export async function markPaid({ occurrenceId, amount, paidAt }: { occurrenceId:
   if (txId) {
     const { error: upErr } = await supabaseServer
       .from('transactions')
-      .update({ amount: amt, occurred_at, category_id: rule.category_id, payee: rule.payee, payment_method: rule.payment_method, notes: rule.notes })
+      .update({ amount: amt, occurred_at, category_id: rule.category_id, account_id: rule.account_id ?? null, payee: rule.payee, payee_id: rule.payee_id ?? null, payment_method: rule.payment_method, notes: rule.notes })
       .eq('user_id', user.id)
       .eq('id', txId)
     if (upErr) throw upErr
   } else {
     const { data: ins, error: insErr } = await supabaseServer
       .from('transactions')
-      .insert({ user_id: user.id, amount: amt, occurred_at, category_id: rule.category_id, payee: rule.payee, payment_method: rule.payment_method, notes: rule.notes })
+      .insert({ user_id: user.id, amount: amt, occurred_at, category_id: rule.category_id, account_id: rule.account_id ?? null, payee: rule.payee, payee_id: rule.payee_id ?? null, payment_method: rule.payment_method, notes: rule.notes })
       .select('id')
       .single()
     if (insErr) throw insErr
@@ -89,7 +89,7 @@ export async function confirmOccurrence({ occurrenceId }: { occurrenceId: string
 
   const { data: rule, error: ruleErr } = await supabaseServer
     .from('recurring_transactions')
-    .select('id, amount, category_id, payee, payment_method, notes')
+    .select('id, amount, category_id, account_id, payee, payee_id, payment_method, notes')
     .eq('user_id', user.id)
     .eq('id', occ.recurring_transaction_id)
     .maybeSingle()
@@ -103,7 +103,7 @@ export async function confirmOccurrence({ occurrenceId }: { occurrenceId: string
     const occurred_at = new Date(occ.occurs_on + 'T00:00:00Z').toISOString()
     const { data: ins, error: insErr } = await supabaseServer
       .from('transactions')
-      .insert({ user_id: user.id, amount: rule.amount ?? 0, occurred_at, category_id: rule.category_id, payee: rule.payee, payment_method: rule.payment_method, notes: rule.notes })
+      .insert({ user_id: user.id, amount: rule.amount ?? 0, occurred_at, category_id: rule.category_id, account_id: rule.account_id ?? null, payee: rule.payee, payee_id: rule.payee_id ?? null, payment_method: rule.payment_method, notes: rule.notes })
       .select('id')
       .single()
     if (insErr) throw insErr
@@ -5,7 +5,8 @@
  * This client component fetches, filters, and renders upcoming recurring occurrences with
  * swipeable/actionable cards. It provides search, date range filters, auto-create vs manual
  * filters, pull-to-refresh, and a lightweight pay modal. It calls server actions for mutations
- * and uses Supabase Browser client for reads with RLS under the current user session.
+ * and uses Supabase Browser client for reads with RLS under the current user session. When that read fails offline, the
+ * list falls back to the occurrences the service worker caches through Periodic Background Sync.
  */
 
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
@@ -43,6 +44,20 @@ interface OccurrenceItem {
   recurring_transactions: RecurringTransaction | null
 }
 
+// Offline fallback: the service worker serves /api/occurrences from the 30-day window its periodic sync keeps cached
+async function cachedOccurrences(from: string, to: string): Promise<OccurrenceItem[] | null> {
+  try {
+    const res = await fetch(`/api/occurrences?from=${from}&to=${to}`, { cache: 'no-store' })
+    if (!res.ok) return null
+    const body = await res.json()
+    return ((body?.items ?? []) as any[])
+      .filter((o) => o.occurs_on >= from && o.occurs_on <= to && o.status !== 'paid' && o.status !== 'skipped')
+      .map((o) => ({ ...o, recurring_transactions: o.recurring_transaction ?? null }))
+  } catch {
+    return null
+  }
+}
+
 function formatKRW(value: number | null | undefined) {
   const n = typeof value === 'number' ? value : 0
   try {
@@ -140,9 +155,14 @@ export default function Client({ focusId, userId }: Props) {
         .order('occurs_on', { ascending: true })
 
       const { data, error: err } = await query
-      if (err) throw err
-
-      let list = (data ?? []) as OccurrenceItem[]
+      let list: OccurrenceItem[]
+      if (err) {
+        const cached = await cachedOccurrences(from, to)
+        if (!cached) throw err
+        list = cached
+      } else {
+        list = (data ?? []) as OccurrenceItem[]
+      }
 
       // Filter by type (auto-create vs manual)
       if (kind !== 'all') {
@@ -0,0 +1,34 @@
+'use client'
+
+/**
+ * CODE INSIGHT
+ * This code's use case is the <option> list of a native category <select>: categories are listed as a tree, each parent
+ * followed by its subcategories indented under it, keeping the order the caller passes in among siblings.
+ * This code's full epic context is hierarchical categories (@/utils/category-tree); the transaction, split and preset
+ * pickers all render their options through it so the tree reads the same everywhere.
+ */
+
+import { useMemo } from 'react'
+import { CategoryLike, buildCategoryTree, flattenCategoryTree } from '@/utils/category-tree'
+
+// Option text collapses ordinary spaces, so indent with no-break spaces
+const INDENT = '\u00A0\u00A0\u00A0'
+
+export function CategoryOptions<T extends CategoryLike>({
+  categories,
+  prefix,
+}: {
+  categories: T[] | null | undefined
+  prefix?: (category: T) => string
+}) {
+  const flat = useMemo(() => flattenCategoryTree(buildCategoryTree(categories ?? [])), [categories])
+  return (
+    <>
+      {flat.map((c) => (
+        <option key={c.id} value={c.id}>
+          {`${INDENT.repeat(c.depth)}${c.depth > 0 ? '└ ' : ''}${prefix?.(c) ?? ''}${c.name}`}
+        </option>
+      ))}
+    </>
+  )
+}
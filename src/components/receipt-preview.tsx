@@ -0,0 +1,132 @@
+'use client'
+
+/**
+ * CODE INSIGHT
+ * This code's use case is the small preview of one stored receipt as returned by /api/transactions/[id]/receipts:
+ * images show their server thumbnail (or the file itself while the thumbnail is still missing), and PDFs have the first
+ * page rendered onto a canvas with pdf.js, which is loaded only when a PDF is actually shown.
+ * The signed urls expire after a few minutes; a preview that fails to load after expires_at calls onExpired so the owner
+ * can refetch.
+ * This code's full epic context is receipt management for transactions (detail page and receipt gallery).
+ * This code's ui feel is a calm, square tile with a soft border; PDFs carry a small "PDF" badge.
+ */
+
+import { useEffect, useRef, useState } from 'react'
+import { cn } from '@/utils/utils'
+
+export type ReceiptItem = {
+  id: string
+  transaction_id: string
+  kind: 'image' | 'pdf' | 'other'
+  content_type: string | null
+  file_name: string | null
+  size_bytes: number | null
+  url: string | null
+  thumbnail_url: string | null
+  expires_at: string
+  created_at: string
+}
+
+let pdfjsPromise: Promise<any> | null = null
+
+function loadPdfjs() {
+  if (!pdfjsPromise) {
+    pdfjsPromise = import('pdfjs-dist')
+      .then((pdfjs) => {
+        pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString()
+        return pdfjs
+      })
+      .catch((e) => {
+        pdfjsPromise = null
+        throw e
+      })
+  }
+  return pdfjsPromise
+}
+
+function PdfFirstPage({ url, size, onError }: { url: string; size: number; onError: () => void }) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null)
+  const onErrorRef = useRef(onError)
+  onErrorRef.current = onError
+  const [ready, setReady] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    let doc: any = null
+    ;(async () => {
+      try {
+        const pdfjs = await loadPdfjs()
+        doc = await pdfjs.getDocument({ url }).promise
+        const page = await doc.getPage(1)
+        const canvas = canvasRef.current
+        if (cancelled || !canvas) return
+        const base = page.getViewport({ scale: 1 })
+        const ratio = typeof window !== 'undefined' ? window.devicePixelRatio || 1 : 1
+        const viewport = page.getViewport({ scale: (size * ratio) / Math.max(base.width, base.height) })
+        canvas.width = Math.round(viewport.width)
+        canvas.height = Math.round(viewport.height)
+        await page.render({ canvasContext: canvas.getContext('2d'), viewport }).promise
+        if (!cancelled) setReady(true)
+      } catch {
+        if (!cancelled) onErrorRef.current()
+      }
+    })()
+    return () => {
+      cancelled = true
+      doc?.destroy?.()
+    }
+  }, [url, size])
+
+  return (
+    <canvas
+      ref={canvasRef}
+      aria-hidden
+      className={cn('max-h-full max-w-full bg-white object-contain transition-opacity', ready ? 'opacity-100' : 'opacity-0')}
+    />
+  )
+}
+
+export function ReceiptPreview({
+  receipt,
+  size = 160,
+  className,
+  onExpired,
+}: {
+  receipt: ReceiptItem
+  size?: number
+  className?: string
+  onExpired?: () => void
+}) {
+  const [failed, setFailed] = useState(false)
+  const label = receipt.file_name || (receipt.kind === 'pdf' ? 'PDF 영수증' : '영수증')
+
+  useEffect(() => setFailed(false), [receipt.url, receipt.thumbnail_url])
+
+  const handleError = () => {
+    setFailed(true)
+    // Only an expired link is worth refetching; a broken file would fail again with a fresh one
+    if (Date.parse(receipt.expires_at) <= Date.now()) onExpired?.()
+  }
+
+  const src = receipt.thumbnail_url || receipt.url
+  return (
+    <div
+      className={cn('relative flex items-center justify-center overflow-hidden rounded-md border bg-muted', className)}
+      style={{ width: size, height: size }}
+      title={label}
+    >
+      {failed || !receipt.url ? (
+        <span className="px-2 text-center text-xs text-muted-foreground">미리보기를 불러오지 못했습니다</span>
+      ) : receipt.kind === 'pdf' ? (
+        <PdfFirstPage url={receipt.url} size={size} onError={handleError} />
+      ) : (
+        // Signed storage urls are short-lived, so next/image caching would not help here
+        // eslint-disable-next-line @next/next/no-img-element
+        <img src={src!} alt={label} loading="lazy" className="h-full w-full object-cover" onError={handleError} />
+      )}
+      {receipt.kind === 'pdf' && (
+        <span className="absolute left-1 top-1 rounded bg-background/90 px-1.5 py-0.5 text-[10px] font-medium">PDF</span>
+      )}
+    </div>
+  )
+}
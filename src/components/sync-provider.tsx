@@ -0,0 +1,790 @@
+'use client'
+
+/**
+ * CODE INSIGHT
+ * This code's use case is the global SyncProvider that drains the offline queue (tris/syncQueue in localForage) oldest
+ * first. Transaction creates, updates and deletes go through the idempotent /api/sync/push (updates and deletes guarded
+ * by the item's baseVersion); UPLOAD_RECEIPT uploads the queued blob in resumable chunks (@/utils/receipt-upload) and
+ * links it through transaction_receipts. A 409 is three-way merged against the item's base snapshot (@/utils/three-way-merge)
+ * and only fields both sides changed become a ConflictItem. Failures retry with backoff; while an item waits, later items
+ * for the same transaction wait behind it. After pushing, other devices' changes are pulled into the local stores
+ * (@/utils/offline-store).
+ * This code's full epic context is the offline-first sync flow: pages ask for processing over the "tris-sync"
+ * BroadcastChannel, only the leader tab (@/utils/sync-leader) drains, and the service worker (src/app/sw.js) flushes the
+ * queue through Background Sync when every tab is closed. Nothing runs until @/utils/local-db is on the current schema.
+ * This code's ui feel is invisible infrastructure; components read the same state through useSync().
+ */
+
+import * as React from 'react'
+import { supabaseBrowser } from '@/utils/supabase/client-browser'
+import { applyPull, type LocalTransaction, type PullResponse } from '@/utils/offline-store'
+import { conflictsStore, queueStore, receiptsStore, runLocalMigrations, syncMetaStore, txStore } from '@/utils/local-db'
+import { mergeReceiptUrls, mergeTagNames, threeWayMerge, type Snapshot } from '@/utils/three-way-merge'
+import { prepareReceipt } from '@/utils/receipt-image'
+import { ReceiptUploadError, uploadReceipt, type UploadSession } from '@/utils/receipt-upload'
+import { electSyncLeader } from '@/utils/sync-leader'
+
+type QueueType = 'CREATE_TRANSACTION' | 'UPDATE_TRANSACTION' | 'DELETE_TRANSACTION' | 'UPLOAD_RECEIPT'
+type QueueStatus = 'pending' | 'processing' | 'error' | 'conflict' | 'done'
+
+interface QueueItem {
+  id: string
+  type: QueueType
+  ref: { localId?: string; remoteId?: string | null }
+  payload?: Snapshot
+  baseVersion?: number | null
+  base?: Record<string, unknown>
+  status: QueueStatus
+  error?: string | null
+  createdAt?: number | string
+  updatedAt?: number | string
+  unconditional?: boolean
+  attempts?: number
+  nextAttemptAt?: number | null
+  // UPLOAD_RECEIPT only: bytes confirmed by storage so far
+  progress?: { uploaded: number; total: number }
+  // Set while processing: which tab (or 'sw') holds the item and until when
+  leaseOwner?: string | null
+  leaseUntil?: number | null
+}
+
+interface ConflictItem {
+  id: string
+  myChanges: { payload: Snapshot; baseVersion?: number | null }
+  serverVersion: { payload: Snapshot; version?: number | null; updated_at?: string }
+  base?: Record<string, unknown>
+  // Fields both sides changed; absent on conflicts recorded without a base snapshot
+  fields?: string[]
+  decided?: 'mine' | 'server' | 'merge'
+}
+
+interface ReceiptEntry {
+  blob: Blob
+  mime?: string
+  metadata?: { mime?: string; size?: number; name?: string; transactionRef?: { localId?: string; remoteId?: string | null } }
+  transactionRef?: { localId?: string; remoteId?: string | null }
+  // Already resized and stripped of EXIF
+  prepared?: boolean
+  upload?: UploadSession | null
+}
+
+type ProgressFn = (id: string, uploaded: number, total: number) => Promise<void>
+
+export interface SyncState {
+  pendingCount: number
+  lastSyncAt: number | null
+  isSyncing: boolean
+  isOnline: boolean
+}
+
+const CHANNEL = 'tris-sync'
+const BASE_DELAY_MS = 2000
+const MAX_DELAY_MS = 5 * 60 * 1000
+const MAX_ATTEMPTS = 8
+const POLL_MS = 30000
+const KEEP_DONE = 50
+const MAX_MERGE_ROUNDS = 3
+const PULL_INTERVAL_MS = 5 * 60 * 1000
+const SYNC_TAG = 'sync-queue'
+const REFRESH_TAG = 'tris-refresh'
+const REFRESH_INTERVAL_MS = 12 * 60 * 60 * 1000
+const LEASE_MS = 5 * 60 * 1000
+const TAB_ID = typeof crypto !== 'undefined' && 'randomUUID' in crypto ? crypto.randomUUID() : `${Date.now()}-${Math.random()}`
+
+const SyncContext = React.createContext<(SyncState & { requestSync: () => void }) | null>(null)
+
+export function useSync() {
+  const ctx = React.useContext(SyncContext)
+  if (!ctx) throw new Error('useSync must be used within a SyncProvider')
+  return ctx
+}
+
+// Outcome of one attempt: done, retry later, or park the item
+type Outcome =
+  | { kind: 'done' }
+  | { kind: 'retry'; error: string }
+  | { kind: 'error'; error: string }
+  | { kind: 'conflict'; error: string }
+  | { kind: 'wait' }
+
+class TransientError extends Error {}
+
+function toTime(v?: number | string) {
+  if (typeof v === 'number') return v
+  const t = v ? Date.parse(v) : NaN
+  return Number.isNaN(t) ? 0 : t
+}
+
+function txKey(item: QueueItem) {
+  return item.ref?.localId || item.ref?.remoteId || item.id
+}
+
+function backoffDelay(attempts: number) {
+  const exp = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1))
+  // ±20% jitter keeps several tabs/devices from retrying in lockstep
+  return Math.round(exp * (0.8 + Math.random() * 0.4))
+}
+
+async function readError(res: Response) {
+  const body = await res.json().catch(() => null)
+  const first = Array.isArray(body?.errors) ? body.errors[0]?.message : null
+  return first || body?.message || body?.error || `Request failed (${res.status})`
+}
+
+// Maps a non-2xx push response onto an outcome: transient failures retry, anything else parks the item as error
+async function failure(res: Response): Promise<Outcome> {
+  if (res.status >= 500 || res.status === 429 || res.status === 408 || res.status === 401) {
+    return { kind: 'retry', error: await readError(res) }
+  }
+  return { kind: 'error', error: await readError(res) }
+}
+
+async function loadQueue() {
+  const list: QueueItem[] = []
+  await queueStore.iterate<QueueItem, void>((value: QueueItem, key: string) => {
+    if (value) list.push({ ...value, id: value.id || key })
+  })
+  list.sort((a, b) => toTime(a.createdAt) - toTime(b.createdAt) || a.id.localeCompare(b.id))
+  return list
+}
+
+async function resolveRemoteId(item: QueueItem) {
+  if (item.ref?.remoteId) return item.ref.remoteId
+  if (!item.ref?.localId) return null
+  const local = await txStore.getItem<LocalTransaction>(item.ref.localId)
+  return local?.remoteId || null
+}
+
+async function patchLocalTransaction(key: string, patch: Record<string, unknown>) {
+  const current = await txStore.getItem<LocalTransaction>(key)
+  if (!current) return
+  await txStore.setItem(key, { ...current, ...patch })
+}
+
+async function recordConflict(id: string, item: QueueItem, server: ConflictItem['serverVersion'], fields?: string[]) {
+  const conflict: ConflictItem = {
+    id,
+    myChanges: { payload: item.payload ?? {}, baseVersion: item.baseVersion ?? null },
+    serverVersion: server,
+    ...(item.base ? { base: item.base } : {}),
+    ...(fields ? { fields } : {}),
+  }
+  await conflictsStore.setItem(id, conflict)
+  await patchLocalTransaction(txKey(item), { conflict: true })
+}
+
+// localId → remoteId in every queued item and queued receipt that still references the local row
+async function remapLocalId(localId: string, remoteId: string) {
+  const items: QueueItem[] = []
+  await queueStore.iterate<QueueItem, void>((value: QueueItem) => {
+    if (value && value.ref?.localId === localId && value.ref.remoteId !== remoteId) items.push(value)
+  })
+  for (const it of items) await queueStore.setItem(it.id, { ...it, ref: { ...it.ref, remoteId } })
+
+  const receipts: [string, ReceiptEntry][] = []
+  await receiptsStore.iterate<ReceiptEntry, void>((value: ReceiptEntry, key: string) => {
+    const ref = value?.metadata?.transactionRef ?? value?.transactionRef
+    if (ref?.localId === localId && ref.remoteId !== remoteId) receipts.push([key, value])
+  })
+  for (const [key, entry] of receipts) {
+    await receiptsStore.setItem(key, {
+      ...entry,
+      ...(entry.metadata ? { metadata: { ...entry.metadata, transactionRef: { ...entry.metadata.transactionRef, remoteId } } } : {}),
+      ...(entry.transactionRef ? { transactionRef: { ...entry.transactionRef, remoteId } } : {}),
+    })
+  }
+}
+
+// Later edits captured the same baseVersion; after an update lands they must be guarded by the new one
+async function rebaseFollowing(item: QueueItem, fromVersion: number | null | undefined, toVersion: number) {
+  const key = txKey(item)
+  const items: QueueItem[] = []
+  await queueStore.iterate<QueueItem, void>((value: QueueItem) => {
+    if (!value || value.id === item.id || value.status !== 'pending' || txKey(value) !== key) return
+    if (value.baseVersion == null || value.baseVersion === fromVersion) items.push(value)
+  })
+  for (const it of items) await queueStore.setItem(it.id, { ...it, baseVersion: toVersion })
+}
+
+async function fetchJson(input: string, init: RequestInit) {
+  try {
+    return await fetch(input, { ...init, credentials: 'include', cache: 'no-store' })
+  } catch (e) {
+    throw new TransientError(e instanceof Error ? e.message : 'Network error')
+  }
+}
+
+type PushResult = {
+  status: 'applied' | 'conflict' | 'invalid' | 'not_found' | 'failed' | 'in_progress'
+  id?: string
+  version?: number | null
+  conflict?: ConflictItem['serverVersion']
+  errors?: { field: string; message: string }[]
+  message?: string
+}
+
+// Sends one queue item through the idempotent push endpoint; the queue item id is the idempotency key, so a replay after
+// a lost response returns the first outcome instead of applying the operation twice
+async function push(item: QueueItem, op: Record<string, unknown>): Promise<PushResult | Outcome> {
+  const res = await fetchJson('/api/sync/push', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ operations: [{ idempotency_key: item.id, type: item.type, ...op }] }),
+  })
+  if (!res.ok) return failure(res)
+  const body = await res.json().catch(() => null)
+  const result = body?.results?.[0] as PushResult | undefined
+  if (!result) return { kind: 'retry', error: 'Empty response from the server' }
+  if (result.status === 'failed' || result.status === 'in_progress') {
+    return { kind: 'retry', error: result.message || 'The server could not apply this change yet' }
+  }
+  if (result.status === 'invalid') {
+    return { kind: 'error', error: result.errors?.[0]?.message || result.message || 'Rejected by the server' }
+  }
+  return result
+}
+
+function isOutcome(v: PushResult | Outcome): v is Outcome {
+  return 'kind' in v
+}
+
+// Background Sync and Periodic Background Sync are not in the DOM typings
+type SyncRegistration = ServiceWorkerRegistration & {
+  sync?: { register(tag: string): Promise<void> }
+  periodicSync?: { register(tag: string, options: { minInterval: number }): Promise<void> }
+}
+
+// Background Sync lets the service worker flush the queue once connectivity returns, even if every tab is closed by then.
+// getRegistration() rather than ready: without a worker (development builds) there is simply nothing to register.
+async function registerBackgroundSync() {
+  try {
+    const reg = (await navigator.serviceWorker?.getRegistration()) as SyncRegistration | undefined
+    await reg?.sync?.register(SYNC_TAG)
+  } catch {}
+}
+
+// Periodic Background Sync keeps upcoming occurrences and the budget summary cached while the app is closed; browsers
+// only allow it for installed apps with the permission granted
+async function registerPeriodicRefresh() {
+  try {
+    const reg = (await navigator.serviceWorker?.getRegistration()) as SyncRegistration | undefined
+    if (!reg?.periodicSync) return
+    const status = await navigator.permissions.query({ name: 'periodic-background-sync' as PermissionName })
+    if (status.state !== 'granted') return
+    await reg.periodicSync.register(REFRESH_TAG, { minInterval: REFRESH_INTERVAL_MS })
+  } catch {}
+}
+
+// Pages through /api/sync/pull from the stored cursor into the local stores. The cursor only advances once every page
+// is written, so an interrupted pull starts over from the same point (re-applying rows is harmless).
+async function pullChanges() {
+  let since = await syncMetaStore.getItem<string>('pullCursor')
+  let firstPage = true
+  for (;;) {
+    const res = await fetchJson(`/api/sync/pull${since ? `?since=${encodeURIComponent(since)}` : ''}`, { method: 'GET' })
+    if (!res.ok) throw new TransientError(await readError(res))
+    const page = (await res.json()) as PullResponse
+    await applyPull(page, firstPage)
+    firstPage = false
+    since = page.cursor
+    if (!page.has_more) break
+  }
+  await syncMetaStore.setItem('pullCursor', since)
+}
+
+async function runCreate(item: QueueItem): Promise<Outcome> {
+  const localId = item.ref?.localId
+  const result = await push(item, { payload: item.payload ?? {} })
+  if (isOutcome(result)) return result
+  const remoteId = result.id
+  if (result.status !== 'applied' || !remoteId) return { kind: 'error', error: result.message || 'Server did not return an id' }
+
+  await queueStore.setItem(item.id, { ...item, ref: { ...item.ref, remoteId } })
+  if (localId) {
+    await patchLocalTransaction(localId, {
+      remoteId,
+      baseVersion: typeof result.version === 'number' ? result.version : null,
+      lastSyncedAt: new Date().toISOString(),
+    })
+    await remapLocalId(localId, remoteId)
+  }
+  return { kind: 'done' }
+}
+
+// Brings the local row in line with a merged server snapshot: the server's values for fields this edit did not touch,
+// the merged tag set and every receipt either side knows about
+async function applyMergedLocally(item: QueueItem, server: ConflictItem['serverVersion']) {
+  const key = txKey(item)
+  const current = await txStore.getItem<LocalTransaction>(key)
+  if (!current) return
+  const mine = item.payload ?? {}
+  const { tag_names: serverTags, receipt_urls: serverReceipts, ...serverFields } = server.payload ?? {}
+  const next: Record<string, unknown> = { ...current }
+  for (const [field, value] of Object.entries(serverFields)) {
+    if (!(field in mine)) next[field] = value
+  }
+  if ('tag_names' in mine) next.tag_names = mergeTagNames(item.base?.tag_names, mine.tag_names, serverTags ?? item.base?.tag_names)
+  else if (Array.isArray(serverTags)) next.tag_names = serverTags
+  const receipts = mergeReceiptUrls([current.receipt_url, ...(current.receipt_urls ?? [])], serverReceipts)
+  next.receipt_urls = receipts
+  next.receipt_url = current.receipt_url ?? receipts[0] ?? null
+  if (typeof server.version === 'number') next.baseVersion = server.version
+  await txStore.setItem(key, { ...next, lastSyncedAt: new Date().toISOString() })
+}
+
+// A 409 on an update is three-way merged against the base snapshot the edit was made from. Non-overlapping edits are
+// re-pushed on top of the server version under a key derived from that version (deterministic, so a replay after a lost
+// response returns the same outcome); only fields both sides changed differently are parked for /conflicts/[id].
+async function mergeConflict(item: QueueItem, remoteId: string, first: ConflictItem['serverVersion']): Promise<Outcome> {
+  if (!item.base) {
+    await recordConflict(remoteId, item, first)
+    return { kind: 'conflict', error: 'Changed on the server since this edit was made' }
+  }
+
+  let server = first
+  let overlapping: string[] = []
+  let settled = false
+  for (let round = 0; round < MAX_MERGE_ROUNDS && !settled; round++) {
+    const merge = threeWayMerge(item.base, item.payload ?? {}, server.payload ?? {})
+    overlapping = merge.conflicts
+    if (Object.keys(merge.payload).length === 0) {
+      settled = true
+      break
+    }
+    const result = await push(
+      { ...item, id: `${item.id}.m${server.version ?? 0}` },
+      { id: remoteId, payload: merge.payload, base_version: server.version ?? null, unconditional: false }
+    )
+    if (isOutcome(result)) return result
+    if (result.status === 'not_found') return { kind: 'error', error: 'Transaction no longer exists on the server' }
+    if (result.status === 'conflict' && result.conflict) {
+      // Changed again while merging; merge against the newer snapshot
+      server = result.conflict
+      continue
+    }
+    server = {
+      payload: { ...server.payload, ...merge.payload },
+      version: typeof result.version === 'number' ? result.version : server.version,
+      updated_at: new Date().toISOString(),
+    }
+    settled = true
+  }
+  if (!settled) return { kind: 'retry', error: 'The transaction kept changing on the server while merging' }
+
+  await applyMergedLocally(item, server)
+  if (typeof server.version === 'number') await rebaseFollowing(item, item.baseVersion, server.version)
+  if (overlapping.length === 0) {
+    await patchLocalTransaction(txKey(item), { conflict: false })
+    return { kind: 'done' }
+  }
+
+  const conflicting = Object.fromEntries(overlapping.map((f) => [f, (item.payload ?? {})[f]]))
+  await recordConflict(remoteId, { ...item, payload: conflicting }, server, overlapping)
+  return { kind: 'conflict', error: `Changed on the server too: ${overlapping.join(', ')}` }
+}
+
+// The first, guarded push of an item already claimed its id as the idempotency key (and came back as a conflict), so the
+// overwrite goes out under a key of its own; the service worker drain derives the same one
+function keyedFor(item: QueueItem, unconditional: boolean | undefined): QueueItem {
+  return unconditional ? { ...item, id: `${item.id}.mine` } : item
+}
+
+async function runUpdate(item: QueueItem, remoteId: string, conflict: ConflictItem | null): Promise<Outcome> {
+  // "Keep mine" from the conflicts list re-queues the original edit; it must overwrite what is on the server now
+  const unconditional = item.unconditional || conflict?.decided === 'mine'
+  const result = await push(keyedFor(item, unconditional), {
+    id: remoteId,
+    payload: item.payload ?? {},
+    base_version: unconditional ? null : item.baseVersion ?? null,
+    unconditional: Boolean(unconditional),
+  })
+  if (isOutcome(result)) return result
+  if (result.status === 'conflict' && result.conflict) {
+    const outcome = await mergeConflict(item, remoteId, result.conflict)
+    if (outcome.kind === 'done' && conflict) await conflictsStore.removeItem(remoteId)
+    return outcome
+  }
+  if (result.status === 'not_found') return { kind: 'error', error: 'Transaction no longer exists on the server' }
+
+  if (typeof result.version === 'number') {
+    await rebaseFollowing(item, item.baseVersion, result.version)
+    await patchLocalTransaction(txKey(item), { baseVersion: result.version, conflict: false, lastSyncedAt: new Date().toISOString() })
+  }
+  if (conflict) await conflictsStore.removeItem(remoteId)
+  return { kind: 'done' }
+}
+
+async function runDelete(item: QueueItem, remoteId: string, conflict: ConflictItem | null): Promise<Outcome> {
+  const unconditional = item.unconditional || conflict?.decided === 'mine'
+  const result = await push(keyedFor(item, unconditional), {
+    id: remoteId,
+    base_version: unconditional ? null : item.baseVersion ?? null,
+    unconditional: Boolean(unconditional),
+  })
+  if (isOutcome(result)) return result
+  if (result.status === 'conflict' && result.conflict) {
+    await recordConflict(remoteId, item, result.conflict)
+    return { kind: 'conflict', error: 'Changed on the server since it was deleted here' }
+  }
+  // Already gone (not_found) counts as deleted
+
+  await txStore.removeItem(txKey(item))
+  if (conflict) await conflictsStore.removeItem(remoteId)
+  return { kind: 'done' }
+}
+
+async function runUploadReceipt(item: QueueItem, remoteId: string, onProgress: ProgressFn): Promise<Outcome> {
+  const receiptKey = (item.payload?.receiptQueueId || item.payload?.id) as string | undefined
+  let entry = receiptKey ? await receiptsStore.getItem<ReceiptEntry>(receiptKey) : null
+  if (!entry?.blob) return { kind: 'error', error: 'Queued receipt file is missing on this device' }
+
+  const { data: auth, error: authErr } = await supabaseBrowser.auth.getUser()
+  if (authErr || !auth?.user) return { kind: 'retry', error: 'Sign in to upload receipts' }
+
+  if (!entry.prepared) {
+    // Compress once and store the result, so resumed chunks always slice the same bytes
+    const source = entry.blob instanceof File ? entry.blob : new File([entry.blob], entry.metadata?.name || 'receipt', { type: entry.metadata?.mime || entry.mime || entry.blob.type })
+    const file = await prepareReceipt(source)
+    entry = {
+      ...entry,
+      blob: file,
+      mime: file.type || entry.mime,
+      metadata: { ...entry.metadata, mime: file.type || entry.metadata?.mime, size: file.size, name: file.name },
+      prepared: true,
+      upload: null,
+    }
+    await receiptsStore.setItem(receiptKey, entry)
+  }
+  const current = entry
+
+  const mime = current.metadata?.mime || current.mime || current.blob.type || 'application/octet-stream'
+  const ext = (current.metadata?.name?.split('.').pop() || mime.split('/')[1] || 'bin').toLowerCase().replace(/[^a-z0-9]/g, '')
+  // Keyed by the queue item so a retried upload overwrites its own earlier attempt instead of duplicating it
+  const path = `${auth.user.id}/${remoteId}/${item.id}.${ext || 'bin'}`
+
+  try {
+    await uploadReceipt({
+      path,
+      blob: current.blob,
+      contentType: mime,
+      session: current.upload,
+      onSession: (upload) => receiptsStore.setItem(receiptKey, { ...current, upload }).then(() => undefined),
+      onProgress: (uploaded, total) => onProgress(item.id, uploaded, total),
+    })
+  } catch (e) {
+    if (e instanceof ReceiptUploadError && e.permanent) return { kind: 'error', error: e.message }
+    return { kind: 'retry', error: (e instanceof Error && e.message) || 'Receipt upload failed' }
+  }
+
+  const { error: rowErr } = await supabaseBrowser
+    .from('transaction_receipts')
+    .upsert(
+      {
+        transaction_id: remoteId,
+        url: path,
+        content_type: mime,
+        size_bytes: current.blob.size,
+        file_name: current.metadata?.name ?? null,
+      },
+      { onConflict: 'transaction_id,url', ignoreDuplicates: true },
+    )
+  if (rowErr) {
+    if (rowErr.code === '23503') return { kind: 'error', error: 'Transaction no longer exists on the server' }
+    return { kind: 'retry', error: rowErr.message }
+  }
+
+  await receiptsStore.removeItem(receiptKey)
+  await patchLocalTransaction(txKey(item), { receiptPending: false, receipt_url: path })
+  // The file went straight to storage, so the server has not made its thumbnail; best effort, lists fall back to the file
+  await fetchJson(`/api/transactions/${remoteId}/receipts/thumbnails`, { method: 'POST' }).catch(() => null)
+  return { kind: 'done' }
+}
+
+async function runItem(item: QueueItem, onProgress: ProgressFn): Promise<Outcome> {
+  if (item.type === 'CREATE_TRANSACTION') return runCreate(item)
+
+  const remoteId = await resolveRemoteId(item)
+  // The row has not been created on the server yet; the CREATE ahead of it will remap the id
+  if (!remoteId) return { kind: 'wait' }
+  const conflict = await conflictsStore.getItem<ConflictItem>(remoteId)
+
+  switch (item.type) {
+    case 'UPDATE_TRANSACTION':
+      return runUpdate(item, remoteId, conflict)
+    case 'DELETE_TRANSACTION':
+      return runDelete(item, remoteId, conflict)
+    case 'UPLOAD_RECEIPT':
+      return runUploadReceipt(item, remoteId, onProgress)
+    default:
+      return { kind: 'error', error: `Unknown queue item type: ${(item as QueueItem).type}` }
+  }
+}
+
+export function SyncProvider({ children }: { children?: React.ReactNode }) {
+  const [state, setState] = React.useState<SyncState>({ pendingCount: 0, lastSyncAt: null, isSyncing: false, isOnline: true })
+  const channelRef = React.useRef<BroadcastChannel | null>(null)
+  const runningRef = React.useRef(false)
+  const rerunRef = React.useRef(false)
+  const wakeRef = React.useRef<number | null>(null)
+  const lastPullRef = React.useRef(0)
+  const stateRef = React.useRef(state)
+  const leaderRef = React.useRef(false)
+
+  const post = React.useCallback((type: string, extra?: Record<string, unknown>) => {
+    try {
+      channelRef.current?.postMessage({ type, ...extra })
+    } catch {}
+  }, [])
+
+  const writeMeta = React.useCallback(
+    async (patch: Partial<SyncState>) => {
+      const next = { ...stateRef.current, ...patch }
+      stateRef.current = next
+      setState(next)
+      await syncMetaStore.setItem('state', next)
+      post('SYNC_META_UPDATED', { state: next })
+    },
+    [post]
+  )
+
+  const countPending = React.useCallback(async () => {
+    let n = 0
+    await queueStore.iterate<QueueItem, void>((value: QueueItem) => {
+      if (value && (value.status === 'pending' || value.status === 'processing')) n++
+    })
+    return n
+  }, [])
+
+  const reportProgress = React.useCallback(
+    async (id: string, uploaded: number, total: number) => {
+      const current = await queueStore.getItem<QueueItem>(id)
+      if (!current) return
+      // Progress also proves the run is alive: extend the lease
+      await queueStore.setItem(id, { ...current, progress: { uploaded, total }, leaseUntil: Date.now() + LEASE_MS })
+      post('QUEUE_UPDATED', { id, progress: { uploaded, total } })
+    },
+    [post]
+  )
+
+  const scheduleWake = React.useCallback((at: number | null, run: () => void) => {
+    if (wakeRef.current !== null) window.clearTimeout(wakeRef.current)
+    wakeRef.current = at === null ? null : window.setTimeout(run, Math.max(0, at - Date.now()))
+  }, [])
+
+  const processQueue = React.useCallback(async () => {
+    // Followers leave the queue to the leader tab, which hears the same PROCESS_REQUEST
+    if (!leaderRef.current) return
+    if (runningRef.current) {
+      rerunRef.current = true
+      return
+    }
+    // Never drain against a local copy whose shape this build does not know
+    const schema = await runLocalMigrations().catch(() => null)
+    if (!schema || schema.status === 'newer') return
+    if (typeof navigator !== 'undefined' && !navigator.onLine) {
+      const pendingCount = await countPending()
+      await writeMeta({ isOnline: false, isSyncing: false, pendingCount })
+      if (pendingCount > 0) void registerBackgroundSync()
+      return
+    }
+    runningRef.current = true
+    let processed = 0
+    let pulled = false
+    let nextWake: number | null = null
+    try {
+      await writeMeta({ isOnline: true, isSyncing: true, pendingCount: await countPending() })
+      // Transactions with an unfinished item ahead in the queue; their later items must wait
+      const blocked = new Set<string>()
+      let stop = false
+
+      for (let snapshot of await loadQueue()) {
+        if (stop) break
+        const key = txKey(snapshot)
+        if (snapshot.status === 'done') continue
+        if (snapshot.status === 'processing') {
+          const until = snapshot.leaseUntil ?? 0
+          if (snapshot.leaseOwner !== TAB_ID && until > Date.now()) {
+            // Still held by a tab that is handing over, or by the service worker
+            nextWake = nextWake === null ? until : Math.min(nextWake, until)
+            blocked.add(key)
+            continue
+          }
+          // Abandoned by a run that died with its tab (or by an earlier run of this one): take it back
+          snapshot = { ...snapshot, status: 'pending', leaseOwner: null, leaseUntil: null, updatedAt: Date.now() }
+          await queueStore.setItem(snapshot.id, snapshot)
+          post('QUEUE_UPDATED', { id: snapshot.id })
+        }
+        if (snapshot.status === 'conflict') {
+          // Resolved on /conflicts/[id] (entry removed and a fresh edit queued): this attempt is superseded
+          const remoteId = await resolveRemoteId(snapshot)
+          if (remoteId && !(await conflictsStore.getItem(remoteId))) {
+            await queueStore.setItem(snapshot.id, { ...snapshot, status: 'done', error: null, updatedAt: Date.now() })
+            post('QUEUE_UPDATED', { id: snapshot.id })
+            continue
+          }
+          blocked.add(key)
+          continue
+        }
+        if (snapshot.status !== 'pending' || blocked.has(key)) {
+          blocked.add(key)
+          continue
+        }
+        if (snapshot.nextAttemptAt && snapshot.nextAttemptAt > Date.now()) {
+          nextWake = nextWake === null ? snapshot.nextAttemptAt : Math.min(nextWake, snapshot.nextAttemptAt)
+          blocked.add(key)
+          continue
+        }
+
+        // Re-read: an earlier item may have remapped or re-based this one
+        const item = (await queueStore.getItem<QueueItem>(snapshot.id)) ?? snapshot
+        await queueStore.setItem(item.id, {
+          ...item,
+          status: 'processing',
+          leaseOwner: TAB_ID,
+          leaseUntil: Date.now() + LEASE_MS,
+          updatedAt: Date.now(),
+        })
+        post('QUEUE_UPDATED', { id: item.id })
+
+        let outcome: Outcome
+        try {
+          outcome = await runItem(item, reportProgress)
+        } catch (e) {
+          outcome = { kind: 'retry', error: (e instanceof Error && e.message) || 'Unexpected error' }
+        }
+
+        const stored = (await queueStore.getItem<QueueItem>(item.id)) ?? item
+        const latest: QueueItem = { ...stored, leaseOwner: null, leaseUntil: null }
+        const now = Date.now()
+        if (outcome.kind === 'done') {
+          await queueStore.setItem(item.id, { ...latest, status: 'done', error: null, nextAttemptAt: null, updatedAt: now })
+          processed++
+        } else if (outcome.kind === 'wait') {
+          await queueStore.setItem(item.id, { ...latest, status: 'pending', updatedAt: now })
+          blocked.add(key)
+        } else if (outcome.kind === 'retry') {
+          const attempts = (latest.attempts ?? 0) + 1
+          if (attempts >= MAX_ATTEMPTS) {
+            await queueStore.setItem(item.id, { ...latest, status: 'error', error: outcome.error, attempts, nextAttemptAt: null, updatedAt: now })
+          } else {
+            const at = now + backoffDelay(attempts)
+            await queueStore.setItem(item.id, { ...latest, status: 'pending', error: outcome.error, attempts, nextAttemptAt: at, updatedAt: now })
+            nextWake = nextWake === null ? at : Math.min(nextWake, at)
+          }
+          blocked.add(key)
+          // Offline again or the server is struggling: leave the rest for the next run
+          if (typeof navigator !== 'undefined' && !navigator.onLine) {
+            stop = true
+            void registerBackgroundSync()
+          }
+        } else {
+          await queueStore.setItem(item.id, { ...latest, status: outcome.kind, error: outcome.error, nextAttemptAt: null, updatedAt: now })
+          blocked.add(key)
+        }
+        post('QUEUE_UPDATED', { id: item.id })
+      }
+
+      // Local rows stay pending until nothing is left in the queue for them
+      const remaining = new Set<string>()
+      const done: QueueItem[] = []
+      for (const it of await loadQueue()) {
+        if (it.status === 'done') done.push(it)
+        else remaining.add(txKey(it))
+      }
+      const settled = new Set(done.map(txKey).filter((k) => !remaining.has(k)))
+      for (const k of settled) await patchLocalTransaction(k, { pending: false })
+      done.sort((a, b) => toTime(b.updatedAt) - toTime(a.updatedAt))
+      for (const it of done.slice(KEEP_DONE)) await queueStore.removeItem(it.id)
+
+      // Pull after pushing so the local copy includes this run's writes; otherwise only every PULL_INTERVAL_MS
+      if (!stop && (processed > 0 || Date.now() - lastPullRef.current >= PULL_INTERVAL_MS)) {
+        try {
+          await pullChanges()
+          lastPullRef.current = Date.now()
+          pulled = true
+        } catch {
+          // Offline or the server is unavailable; the next run tries again
+        }
+      }
+    } finally {
+      runningRef.current = false
+      await writeMeta({
+        isSyncing: false,
+        pendingCount: await countPending(),
+        ...(processed > 0 || pulled ? { lastSyncAt: Date.now() } : {}),
+      })
+      post('SYNC_COMPLETED', { processed, pulled })
+      scheduleWake(nextWake, () => void processQueue())
+      if (rerunRef.current) {
+        rerunRef.current = false
+        void processQueue()
+      }
+    }
+  }, [countPending, post, reportProgress, scheduleWake, writeMeta])
+
+  React.useEffect(() => {
+    let cancelled = false
+    ;(async () => {
+      const saved = await syncMetaStore.getItem<Partial<SyncState>>('state')
+      if (cancelled) return
+      stateRef.current = { ...stateRef.current, lastSyncAt: saved?.lastSyncAt ?? null, isOnline: navigator.onLine }
+      setState(stateRef.current)
+      // Every tab migrates before it reads the stores, leader or not
+      await runLocalMigrations().catch(() => null)
+      void processQueue()
+      void registerPeriodicRefresh()
+    })()
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      const bc = new BroadcastChannel(CHANNEL)
+      channelRef.current = bc
+      bc.onmessage = (e: MessageEvent) => {
+        const type = e.data?.type
+        if (type === 'PROCESS_REQUEST' || type === 'PROCESS_QUEUE') void processQueue()
+        if (type === 'SYNC_META_UPDATED' && !leaderRef.current && e.data.state) {
+          stateRef.current = { ...stateRef.current, ...e.data.state, isOnline: navigator.onLine }
+          setState(stateRef.current)
+        }
+      }
+    }
+
+    const stepDown = electSyncLeader(TAB_ID, (leader) => {
+      leaderRef.current = leader
+      if (leader) void processQueue()
+    })
+
+    const onOnline = () => void processQueue()
+    const onOffline = () => void writeMeta({ isOnline: false })
+    const onVisible = () => {
+      if (document.visibilityState === 'visible') void processQueue()
+    }
+    window.addEventListener('online', onOnline)
+    window.addEventListener('offline', onOffline)
+    document.addEventListener('visibilitychange', onVisible)
+    // Fallback for writers that enqueue without broadcasting, and for items whose backoff timer was lost
+    const poll = window.setInterval(() => void processQueue(), POLL_MS)
+
+    return () => {
+      cancelled = true
+      stepDown()
+      window.removeEventListener('online', onOnline)
+      window.removeEventListener('offline', onOffline)
+      document.removeEventListener('visibilitychange', onVisible)
+      window.clearInterval(poll)
+      if (wakeRef.current !== null) window.clearTimeout(wakeRef.current)
+      channelRef.current?.close()
+      channelRef.current = null
+    }
+  }, [processQueue, writeMeta])
+
+  const value = React.useMemo(
+    () => ({
+      ...state,
+      // A follower hands the request to the leader tab
+      requestSync: () => (leaderRef.current ? void processQueue() : post('PROCESS_REQUEST')),
+    }),
+    [state, processQueue, post]
+  )
+
+  return <SyncContext.Provider value={value}>{children}</SyncContext.Provider>
+}
@@ -0,0 +1,30 @@
+/**
+ * CODE INSIGHT
+ * Account vocabulary shared by the accounts routes: the account types the database accepts, the columns the API returns
+ * and how one transaction moves an account's balance. Balances add up transactions' amount, which is kept in the user's
+ * primary currency, so they are reported in that currency whatever the account's own currency is.
+ */
+
+export type AccountType = 'cash' | 'checking' | 'savings' | 'credit_card' | 'e_wallet' | 'other'
+
+export const ACCOUNT_TYPES: AccountType[] = ['cash', 'checking', 'savings', 'credit_card', 'e_wallet', 'other']
+
+export const ACCOUNT_COLUMNS = 'id, name, type, currency, opening_balance, created_at, updated_at'
+
+export type BalanceTransaction = {
+  kind: string
+  amount: number | string
+  account_id: string | null
+  transfer_account_id: string | null
+}
+
+// Signed effect of one transaction on the given account's balance
+export function balanceDelta(tx: BalanceTransaction, accountId: string) {
+  const amount = Number(tx.amount) || 0
+  if (tx.kind === 'transfer') {
+    if (tx.transfer_account_id === accountId) return amount
+    return tx.account_id === accountId ? -amount : 0
+  }
+  if (tx.account_id !== accountId) return 0
+  return tx.kind === 'income' || tx.kind === 'refund' ? amount : -amount
+}
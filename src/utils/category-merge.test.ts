@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+import { categoryMergeProblem } from '@/utils/category-merge'
+import type { CategoryLike } from '@/utils/category-tree'
+
+// 식비 > 카페 > 디저트, 식비 > 배달, 교통 > 택시
+const rows: CategoryLike[] = [
+  { id: 'food', name: '식비', parent_id: null },
+  { id: 'cafe', name: '카페', parent_id: 'food' },
+  { id: 'dessert', name: '디저트', parent_id: 'cafe' },
+  { id: 'delivery', name: '배달', parent_id: 'food' },
+  { id: 'transit', name: '교통', parent_id: null },
+  { id: 'taxi', name: '택시', parent_id: 'transit' },
+]
+
+describe('categoryMergeProblem', () => {
+  it('allows merging into a sibling or another tree', () => {
+    expect(categoryMergeProblem(rows, 'delivery', 'cafe')).toBeNull()
+    expect(categoryMergeProblem(rows, 'transit', 'food')).toBeNull()
+  })
+
+  it('rejects merging a category into itself', () => {
+    expect(categoryMergeProblem(rows, 'cafe', 'cafe')).toBe('Choose a different category to merge into')
+  })
+
+  it('rejects merging into its own subcategory, which would close a cycle', () => {
+    const message = 'A category cannot be merged into its own subcategory'
+    expect(categoryMergeProblem(rows, 'food', 'cafe')).toBe(message)
+    expect(categoryMergeProblem(rows, 'food', 'dessert')).toBe(message)
+  })
+
+  it('rejects a merge whose subcategories would end up too deep', () => {
+    expect(categoryMergeProblem(rows, 'transit', 'dessert')).toBe(
+      '"택시" cannot move under the target: Categories can be nested at most 3 levels deep',
+    )
+  })
+
+  it('reports a missing source or target', () => {
+    expect(categoryMergeProblem(rows, 'gone', 'food')).toBe('Category not found')
+    expect(categoryMergeProblem(rows, 'food', 'gone')).toBe('Target category not found')
+  })
+})
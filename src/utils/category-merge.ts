@@ -0,0 +1,59 @@
+/**
+ * CODE INSIGHT
+ * Category merge shared by POST /api/categories/[id]/merge and DELETE /api/categories/[id]?reassign_to=. The merge itself
+ * is the merge_category database function: in one transaction everything that points at the source category moves to the
+ * target — transactions, split lines, presets, recurring rules, payee default categories and subcategories (re-parented
+ * under the target). A month budgeted on both keeps one row on the target with the two amounts added (the target's alert
+ * threshold wins); other budgets are simply re-pointed. The source is deleted last. countCategoryMerge() reports the same
+ * numbers without writing, for the dry run.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { CategoryLike, checkCategoryParent, descendantIds } from '@/utils/category-tree'
+
+export type CategoryMergeCounts = {
+  transactions: number
+  split_lines: number
+  presets: number
+  recurring: number
+  budgets_moved: number
+  budgets_combined: number
+  payee_defaults: number
+  subcategories: number
+}
+
+/** Why source cannot be merged into target, or null when it can */
+export function categoryMergeProblem(rows: CategoryLike[], sourceId: string, targetId: string): string | null {
+  if (sourceId === targetId) return 'Choose a different category to merge into'
+  if (!rows.some((r) => r.id === sourceId)) return 'Category not found'
+  if (!rows.some((r) => r.id === targetId)) return 'Target category not found'
+  if (descendantIds(rows, sourceId).includes(targetId)) return 'A category cannot be merged into its own subcategory'
+  // Subcategories move under the target, so they have to fit below it
+  for (const child of rows.filter((r) => r.parent_id === sourceId)) {
+    const problem = checkCategoryParent(rows, child.id, targetId)
+    if (problem) return `"${child.name}" cannot move under the target: ${problem}`
+  }
+  return null
+}
+
+/** What merging source into target would touch, from the same category_merge_counts database function the merge reports */
+export async function countCategoryMerge(
+  client: SupabaseClient,
+  sourceId: string,
+  targetId: string,
+): Promise<{ counts: CategoryMergeCounts | null; error: { message: string } | null }> {
+  const { data, error } = await client.rpc('category_merge_counts', { p_source: sourceId, p_target: targetId })
+  if (error) return { counts: null, error }
+  return { counts: data as CategoryMergeCounts, error: null }
+}
+
+/** Moves everything from source to target and deletes source; validate with categoryMergeProblem() first */
+export async function mergeCategoryInto(
+  client: SupabaseClient,
+  sourceId: string,
+  targetId: string,
+): Promise<{ counts: CategoryMergeCounts | null; error: { message: string } | null }> {
+  const { data, error } = await client.rpc('merge_category', { p_source: sourceId, p_target: targetId })
+  if (error) return { counts: null, error }
+  return { counts: data as CategoryMergeCounts, error: null }
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest'
+import {
+  MAX_CATEGORY_LEVELS,
+  ancestorIds,
+  buildCategoryTree,
+  checkCategoryParent,
+  descendantIds,
+  flattenCategoryTree,
+  rollUpAmounts,
+  type CategoryLike,
+} from '@/utils/category-tree'
+
+// 식비 > 카페 > 디저트, 교통 > 택시
+const rows: CategoryLike[] = [
+  { id: 'food', name: '식비', parent_id: null },
+  { id: 'cafe', name: '카페', parent_id: 'food' },
+  { id: 'dessert', name: '디저트', parent_id: 'cafe' },
+  { id: 'transit', name: '교통', parent_id: null },
+  { id: 'taxi', name: '택시', parent_id: 'transit' },
+]
+
+describe('checkCategoryParent', () => {
+  it('allows nesting up to the level limit', () => {
+    expect(MAX_CATEGORY_LEVELS).toBe(3)
+    expect(checkCategoryParent(rows, null, 'cafe')).toBeNull()
+    expect(checkCategoryParent(rows, 'taxi', 'cafe')).toBeNull()
+  })
+
+  it('rejects a new category below the deepest level', () => {
+    expect(checkCategoryParent(rows, null, 'dessert')).toBe('Categories can be nested at most 3 levels deep')
+  })
+
+  it('counts the subcategories that move along', () => {
+    expect(checkCategoryParent(rows, 'transit', 'food')).toBeNull()
+    expect(checkCategoryParent(rows, 'transit', 'cafe')).toBe('Categories can be nested at most 3 levels deep')
+  })
+
+  it('rejects moving a category under itself or its own subcategory', () => {
+    const message = 'A category cannot be moved under itself or its own subcategory'
+    expect(checkCategoryParent(rows, 'food', 'food')).toBe(message)
+    expect(checkCategoryParent(rows, 'food', 'dessert')).toBe(message)
+  })
+
+  it('rejects a missing parent and accepts no parent', () => {
+    expect(checkCategoryParent(rows, 'taxi', 'gone')).toBe('Parent category not found')
+    expect(checkCategoryParent(rows, 'dessert', null)).toBeNull()
+  })
+})
+
+describe('buildCategoryTree', () => {
+  it('nests rows with depth and path, parents before their subcategories', () => {
+    const flat = flattenCategoryTree(buildCategoryTree(rows))
+    expect(flat.map((n) => [n.id, n.depth])).toEqual([
+      ['food', 0],
+      ['cafe', 1],
+      ['dessert', 2],
+      ['transit', 0],
+      ['taxi', 1],
+    ])
+    expect(flat[2].path).toEqual(['식비', '카페', '디저트'])
+  })
+
+  it('treats orphans and rows closing a cycle as roots', () => {
+    const broken: CategoryLike[] = [
+      { id: 'a', name: 'A', parent_id: 'b' },
+      { id: 'b', name: 'B', parent_id: 'a' },
+      { id: 'c', name: 'C', parent_id: 'missing' },
+    ]
+    const roots = buildCategoryTree(broken)
+    expect(roots.map((n) => n.id)).toEqual(['a', 'b', 'c'])
+    expect(descendantIds(broken, 'a')).toEqual(['a'])
+    expect(ancestorIds(broken, 'b')).toEqual([])
+  })
+})
+
+describe('rollUpAmounts', () => {
+  it('adds subcategory spend to every ancestor', () => {
+    const totals = rollUpAmounts(
+      rows,
+      new Map([
+        ['dessert', 5000],
+        ['cafe', 3000],
+        ['taxi', 12000],
+      ]),
+    )
+    expect(Object.fromEntries(totals)).toEqual({ dessert: 5000, cafe: 8000, food: 8000, taxi: 12000, transit: 12000 })
+  })
+})
@@ -0,0 +1,207 @@
+/**
+ * CODE INSIGHT
+ * Category hierarchy helpers shared by the category routes, reports, budgets and the category pickers. categories.parent_id
+ * nests a category under another ("식비 > 카페") up to MAX_CATEGORY_LEVELS levels; the database trigger enforces the same
+ * limit, checkCategoryParent() reports it up front with a readable message.
+ * Trees keep the input order among siblings, so callers sort (favorites first, by name) before building. A row whose
+ * parent is missing from the input (or that would close a cycle) is treated as a root rather than dropped.
+ * rollUpAmounts() adds every category's own amount to all of its ancestors, which is how reports and budgets count
+ * spend in subcategories against their parents.
+ */
+
+export const MAX_CATEGORY_LEVELS = 3
+
+export type CategoryLike = { id: string; name: string; parent_id?: string | null }
+
+export type CategoryNode<T extends CategoryLike> = T & {
+  depth: number
+  path: string[]
+  children: CategoryNode<T>[]
+}
+
+// parent_id of every row whose parent is actually present and reachable without a cycle
+function parentsOf(rows: CategoryLike[]) {
+  const byId = new Map(rows.map((r) => [r.id, r]))
+  const parents = new Map<string, string | null>()
+  for (const row of rows) {
+    let parent = row.parent_id && byId.has(row.parent_id) ? row.parent_id : null
+    const seen = new Set([row.id])
+    for (let cur = parent; cur; cur = byId.get(cur)?.parent_id ?? null) {
+      if (seen.has(cur)) {
+        parent = null
+        break
+      }
+      seen.add(cur)
+    }
+    parents.set(row.id, parent)
+  }
+  return parents
+}
+
+export function buildCategoryTree<T extends CategoryLike>(rows: T[]): CategoryNode<T>[] {
+  const parents = parentsOf(rows)
+  const nodes = new Map<string, CategoryNode<T>>(rows.map((r) => [r.id, { ...r, depth: 0, path: [], children: [] }]))
+  const roots: CategoryNode<T>[] = []
+  for (const row of rows) {
+    const node = nodes.get(row.id)!
+    const parent = parents.get(row.id)
+    if (parent) nodes.get(parent)!.children.push(node)
+    else roots.push(node)
+  }
+  const walk = (list: CategoryNode<T>[], depth: number, path: string[]) => {
+    for (const node of list) {
+      node.depth = depth
+      node.path = [...path, node.name]
+      walk(node.children, depth + 1, node.path)
+    }
+  }
+  walk(roots, 0, [])
+  return roots
+}
+
+/** Depth-first order (each parent followed by its subcategories), as pickers list them */
+export function flattenCategoryTree<T extends CategoryLike>(roots: CategoryNode<T>[]): CategoryNode<T>[] {
+  const out: CategoryNode<T>[] = []
+  const visit = (list: CategoryNode<T>[]) => {
+    for (const node of list) {
+      out.push(node)
+      visit(node.children)
+    }
+  }
+  visit(roots)
+  return out
+}
+
+export function categoryPathLabel(path: string[]) {
+  return path.join(' > ')
+}
+
+/** The category itself followed by every category below it */
+export function descendantIds(rows: CategoryLike[], id: string): string[] {
+  const parents = parentsOf(rows)
+  const children = new Map<string, string[]>()
+  for (const [child, parent] of parents) {
+    if (!parent) continue
+    children.set(parent, [...(children.get(parent) || []), child])
+  }
+  const out: string[] = []
+  const stack = [id]
+  while (stack.length > 0) {
+    const cur = stack.pop()!
+    out.push(cur)
+    stack.push(...(children.get(cur) || []))
+  }
+  return out
+}
+
+/** Parent first, up to the root; empty for a root */
+export function ancestorIds(rows: CategoryLike[], id: string): string[] {
+  const parents = parentsOf(rows)
+  const out: string[] = []
+  for (let cur = parents.get(id) ?? null; cur; cur = parents.get(cur) ?? null) out.push(cur)
+  return out
+}
+
+/** Why parentId cannot hold the category (id null for a new one), or null when it can */
+export function checkCategoryParent(rows: CategoryLike[], id: string | null, parentId: string | null): string | null {
+  if (!parentId) return null
+  if (!rows.some((r) => r.id === parentId)) return 'Parent category not found'
+  if (id && (parentId === id || ancestorIds(rows, parentId).includes(id))) {
+    return 'A category cannot be moved under itself or its own subcategory'
+  }
+  const levelsAbove = ancestorIds(rows, parentId).length + 1
+  let levelsBelow = 1
+  if (id) {
+    const roots = buildCategoryTree(rows)
+    const node = flattenCategoryTree(roots).find((n) => n.id === id)
+    const height = (n: CategoryNode<CategoryLike>): number => 1 + Math.max(0, ...n.children.map(height))
+    if (node) levelsBelow = height(node)
+  }
+  if (levelsAbove + levelsBelow > MAX_CATEGORY_LEVELS) {
+    return `Categories can be nested at most ${MAX_CATEGORY_LEVELS} levels deep`
+  }
+  return null
+}
+
+/** Each category's own amount plus everything below it */
+export function rollUpAmounts(rows: CategoryLike[], own: Map<string, number>): Map<string, number> {
+  const parents = parentsOf(rows)
+  const totals = new Map<string, number>()
+  for (const [id, amount] of own) {
+    totals.set(id, (totals.get(id) ?? 0) + amount)
+    for (let cur = parents.get(id) ?? null; cur; cur = parents.get(cur) ?? null) {
+      totals.set(cur, (totals.get(cur) ?? 0) + amount)
+    }
+  }
+  return totals
+}
+
+export type CategoryTotals = {
+  categoryId: string | null
+  categoryName: string
+  total: number
+  count: number
+  refunded: number
+  income: number
+}
+
+export type CategoryReportRow = CategoryTotals & {
+  parentId: string | null
+  depth: number
+  path: string
+  ownTotal: number
+  currency: string
+  percentage: number
+  children: CategoryReportRow[]
+}
+
+/**
+ * Folds per-category totals (each category's own spend) into a tree of report rows: a parent's total, count, refunded
+ * and income include its subcategories, ownTotal is what was recorded on the parent itself, and children lists the
+ * subcategories with any activity. Percentages are of the top level's positive totals, so they never double count.
+ */
+export function rollUpCategoryReport(entries: CategoryTotals[], categories: CategoryLike[], currency: string): CategoryReportRow[] {
+  const own = new Map(entries.filter((e) => e.categoryId).map((e) => [e.categoryId as string, e]))
+  const known = new Set(categories.map((c) => c.id))
+
+  const fold = (node: CategoryNode<CategoryLike>): CategoryReportRow | null => {
+    const children = node.children.map(fold).filter((c): c is CategoryReportRow => c !== null)
+    const mine = own.get(node.id)
+    if (!mine && children.length === 0) return null
+    const sum = (pick: (r: CategoryTotals) => number) => (mine ? pick(mine) : 0) + children.reduce((s, c) => s + pick(c), 0)
+    return {
+      categoryId: node.id,
+      categoryName: mine?.categoryName ?? node.name,
+      total: sum((r) => r.total),
+      count: sum((r) => r.count),
+      refunded: sum((r) => r.refunded),
+      income: sum((r) => r.income),
+      parentId: node.parent_id ?? null,
+      depth: node.depth,
+      path: categoryPathLabel(node.path),
+      ownTotal: mine?.total ?? 0,
+      currency,
+      percentage: 0,
+      children: children.sort((a, b) => b.total - a.total),
+    }
+  }
+
+  const roots = buildCategoryTree(categories)
+    .map(fold)
+    .filter((r): r is CategoryReportRow => r !== null)
+  // Uncategorized spend, and categories missing from the list, stay top-level rows of their own
+  for (const e of entries) {
+    if (e.categoryId && known.has(e.categoryId)) continue
+    roots.push({ ...e, parentId: null, depth: 0, path: e.categoryName, ownTotal: e.total, currency, percentage: 0, children: [] })
+  }
+
+  const grandTotal = roots.reduce((s, r) => s + (Number.isFinite(r.total) && r.total > 0 ? r.total : 0), 0)
+  const withPercent = (rows: CategoryReportRow[]) => {
+    for (const r of rows) {
+      r.percentage = grandTotal > 0 && r.total > 0 ? (r.total / grandTotal) * 100 : 0
+      withPercent(r.children)
+    }
+  }
+  withPercent(roots)
+  return roots.sort((a, b) => b.total - a.total)
+}
@@ -0,0 +1,97 @@
+/**
+ * CODE INSIGHT
+ * Shared currency helpers for server routes and client components: the supported currency_code values, their minor-unit
+ * precision, conversion between currencies using a user-maintained rate, and locale-aware formatting.
+ * Amounts are always integers in minor units (KRW/JPY/VND have none; most others use cents).
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+export const CURRENCY_CODES = ['KRW', 'USD', 'EUR', 'JPY', 'CNY', 'GBP', 'HKD', 'SGD', 'AUD', 'CAD', 'THB', 'VND', 'TWD'] as const
+
+export type CurrencyCode = (typeof CURRENCY_CODES)[number]
+
+const ZERO_DECIMAL = new Set<string>(['KRW', 'JPY', 'VND'])
+
+export function isCurrencyCode(value: unknown): value is CurrencyCode {
+  return typeof value === 'string' && (CURRENCY_CODES as readonly string[]).includes(value)
+}
+
+export function currencyDecimals(code: string) {
+  return ZERO_DECIMAL.has(code) ? 0 : 2
+}
+
+// rate = units of `to` per one unit of `from`; result is rounded to whole minor units of `to`
+export function convertMinorUnits(amountMinor: number, from: string, to: string, rate: number) {
+  if (from === to) return amountMinor
+  const major = amountMinor / 10 ** currencyDecimals(from)
+  return Math.round(major * rate * 10 ** currencyDecimals(to))
+}
+
+export function formatMoney(amountMinor: number | string | null | undefined, currency: string = 'KRW') {
+  const decimals = currencyDecimals(currency)
+  const value = Number(amountMinor ?? 0) / 10 ** decimals
+  try {
+    return new Intl.NumberFormat('ko-KR', {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: decimals,
+      maximumFractionDigits: decimals,
+    }).format(value)
+  } catch {
+    return `${value.toLocaleString('ko-KR')} ${currency}`
+  }
+}
+
+// Parses user input like "12.34" into minor units for the currency (e.g. 1234 cents)
+export function parseMajorToMinor(input: string, currency: string) {
+  const cleaned = input.replace(/[^0-9.]/g, '')
+  if (!cleaned) return 0
+  const n = Number(cleaned)
+  if (!Number.isFinite(n)) return 0
+  return Math.round(n * 10 ** currencyDecimals(currency))
+}
+
+export const DEFAULT_PRIMARY_CURRENCY = 'KRW'
+
+// The currency user_settings.primary_currency names, or KRW for a user who never picked one. Query failures throw.
+export async function getPrimaryCurrency(client: SupabaseClient, userId: string): Promise<string> {
+  const { data, error } = await client.from('user_settings').select('primary_currency').eq('user_id', userId).maybeSingle()
+  if (error) throw new Error(`Failed to load primary currency: ${error.message}`)
+  return (data as { primary_currency: string | null } | null)?.primary_currency || DEFAULT_PRIMARY_CURRENCY
+}
+
+/**
+ * Finds the rate converting `from` into `to` effective on `onDate` (YYYY-MM-DD) from the user's exchange_rates,
+ * falling back to the inverse pair, or null when neither is recorded. Query failures throw rather than reading as
+ * "no rate". Takes the Supabase client so it works with both server and browser clients.
+ */
+export async function lookupExchangeRate(
+  client: SupabaseClient,
+  userId: string,
+  from: string,
+  to: string,
+  onDate: string,
+): Promise<number | null> {
+  if (from === to) return 1
+
+  const latest = async (base: string, quote: string) => {
+    const { data, error } = await client
+      .from('exchange_rates')
+      .select('rate')
+      .eq('user_id', userId)
+      .eq('base_currency', base)
+      .eq('quote_currency', quote)
+      .lte('effective_on', onDate)
+      .order('effective_on', { ascending: false })
+      .limit(1)
+    if (error) throw new Error(`Failed to load exchange rate: ${error.message}`)
+    const rate = Number((data as { rate: number | string }[] | null)?.[0]?.rate)
+    return Number.isFinite(rate) && rate > 0 ? rate : null
+  }
+
+  const direct = await latest(from, to)
+  if (direct) return direct
+  const inverse = await latest(to, from)
+  return inverse ? 1 / inverse : null
+}
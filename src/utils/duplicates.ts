@@ -0,0 +1,86 @@
+/**
+ * CODE INSIGHT
+ * Duplicate-transaction scoring shared by the create route and the suspected-duplicates listing. A pair is only a
+ * candidate when the amounts are equal (in the primary currency, or the same original amount and currency) and the
+ * two occurred within DUPLICATE_WINDOW_HOURS; the score then weighs payee similarity (character trigrams, so
+ * "스타벅스 강남점" and "STARBUCKS 강남" style variants still overlap) against how close in time they are.
+ */
+
+export const DUPLICATE_WINDOW_HOURS = 72
+export const DUPLICATE_MIN_SCORE = 0.75
+
+export type DuplicateCandidate = {
+  id: string
+  kind?: string | null
+  amount: number | string
+  currency?: string | null
+  original_amount?: number | string | null
+  occurred_at: string
+  payee?: string | null
+}
+
+export type DuplicateScore = { score: number; reasons: string[] }
+
+const HOUR_MS = 60 * 60 * 1000
+
+function normalizePayee(payee: string | null | undefined) {
+  return (payee ?? '').toLowerCase().replace(/[\s\p{P}\p{S}]+/gu, '')
+}
+
+function trigrams(value: string) {
+  const padded = `  ${value} `
+  const grams = new Set<string>()
+  for (let i = 0; i < padded.length - 2; i++) grams.add(padded.slice(i, i + 3))
+  return grams
+}
+
+// Jaccard similarity of character trigrams, mirroring pg_trgm's similarity() closely enough for ranking
+export function payeeSimilarity(a: string | null | undefined, b: string | null | undefined) {
+  const na = normalizePayee(a)
+  const nb = normalizePayee(b)
+  if (!na && !nb) return 0.5
+  if (!na || !nb) return 0.25
+  if (na === nb) return 1
+  const ga = trigrams(na)
+  const gb = trigrams(nb)
+  let shared = 0
+  for (const g of ga) if (gb.has(g)) shared++
+  return shared / (ga.size + gb.size - shared)
+}
+
+function sameAmount(a: DuplicateCandidate, b: DuplicateCandidate) {
+  if (Number(a.amount) === Number(b.amount)) return true
+  return (
+    !!a.currency &&
+    a.currency === b.currency &&
+    a.original_amount != null &&
+    Number(a.original_amount) === Number(b.original_amount)
+  )
+}
+
+/** Returns null when the pair cannot be a duplicate at all, otherwise a 0..1 score with human-readable reasons. */
+export function scoreDuplicatePair(a: DuplicateCandidate, b: DuplicateCandidate): DuplicateScore | null {
+  if (a.id === b.id) return null
+  if ((a.kind ?? 'expense') !== (b.kind ?? 'expense')) return null
+  if (!sameAmount(a, b)) return null
+  const hoursApart = Math.abs(new Date(a.occurred_at).getTime() - new Date(b.occurred_at).getTime()) / HOUR_MS
+  if (!Number.isFinite(hoursApart) || hoursApart > DUPLICATE_WINDOW_HOURS) return null
+
+  const similarity = payeeSimilarity(a.payee, b.payee)
+  const closeness = 1 - hoursApart / DUPLICATE_WINDOW_HOURS
+  const score = Math.round((0.4 + 0.35 * similarity + 0.25 * closeness) * 100) / 100
+
+  const reasons = ['same amount']
+  if (similarity >= 0.99) reasons.push('same payee')
+  else if (similarity >= 0.4) reasons.push('similar payee')
+  if (hoursApart < 1) reasons.push('within an hour')
+  else if (hoursApart < 24) reasons.push('same day')
+  else reasons.push(`${Math.round(hoursApart / 24)} days apart`)
+
+  return { score, reasons }
+}
+
+/** Canonical key for an unordered pair, used to store and look up dismissals. */
+export function pairKey(a: string, b: string) {
+  return a < b ? `${a}:${b}` : `${b}:${a}`
+}
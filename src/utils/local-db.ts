@@ -0,0 +1,210 @@
+/**
+ * CODE INSIGHT
+ * This code's use case is the single definition of Tris's on-device database: every localForage store in the "tris"
+ * IndexedDB database is created here, and pages, the SyncProvider and @/utils/offline-store import their instances.
+ * runLocalMigrations() brings an older copy up to LOCAL_SCHEMA_VERSION (recorded in meta.schemaVersion) one migration at
+ * a time, serialized across tabs; a copy written by a newer build is reported as 'newer' and left untouched. To change a
+ * stored shape, add a migration with the next version, then change the writers.
+ * This code's full epic context is the offline-first sync flow; the SyncProvider awaits the migrations before draining the
+ * queue, and Settings shows the schema version, storageEstimate() and the exportLocalSnapshot() dump.
+ */
+
+import localforage from 'localforage'
+
+export const LOCAL_DB_NAME = 'tris'
+
+const store = (storeName: string) => localforage.createInstance({ name: LOCAL_DB_NAME, storeName })
+
+export const txStore = store('transactions')
+export const queueStore = store('syncQueue')
+export const receiptsStore = store('receipts')
+export const conflictsStore = store('conflicts')
+export const syncMetaStore = store('syncMeta')
+export const categoriesStore = store('categories')
+export const tagsStore = store('tags')
+export const presetsStore = store('presets')
+export const recurringStore = store('recurring')
+export const categoryBudgetsStore = store('categoryBudgets')
+export const overallBudgetsStore = store('overallBudgets')
+export const metaStore = store('meta')
+
+export type Store = typeof txStore
+
+export const LOCAL_STORES: Record<string, Store> = {
+  transactions: txStore,
+  syncQueue: queueStore,
+  receipts: receiptsStore,
+  conflicts: conflictsStore,
+  syncMeta: syncMetaStore,
+  categories: categoriesStore,
+  tags: tagsStore,
+  presets: presetsStore,
+  recurring: recurringStore,
+  categoryBudgets: categoryBudgetsStore,
+  overallBudgets: overallBudgetsStore,
+  meta: metaStore,
+}
+
+type Migration = { version: number; description: string; up: () => Promise<void> }
+
+export type MigrationStatus =
+  | { status: 'current' | 'migrated'; version: number }
+  | { status: 'newer'; version: number }
+  | { status: 'unsupported'; version: null }
+
+function toMillis(v: unknown) {
+  if (typeof v === 'number') return v
+  const t = typeof v === 'string' ? Date.parse(v) : NaN
+  return Number.isNaN(t) ? undefined : t
+}
+
+// Rows as older builds wrote them: only the fields a migration reads are known
+type LegacyQueueItem = { id?: string; createdAt?: unknown; updatedAt?: unknown; [field: string]: unknown }
+type LegacyReceipt = {
+  blob?: Blob
+  mime?: string
+  transactionRef?: unknown
+  metadata?: { mime?: string; size?: number; transactionRef?: unknown; [field: string]: unknown }
+  [field: string]: unknown
+}
+type LegacyTransaction = { occurred_at?: unknown; [field: string]: unknown }
+
+async function rewrite<T extends object>(target: Store, fn: (value: T, key: string) => T | undefined) {
+  const changed: [string, T][] = []
+  await target.iterate<T, void>((value: T, key: string) => {
+    if (!value) return
+    const next = fn(value, key)
+    if (next !== undefined) changed.push([key, next])
+  })
+  for (const [key, value] of changed) await target.setItem(key, value)
+}
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Queue timestamps as epoch ms, receipt refs under metadata, ISO occurred_at',
+    up: async () => {
+      // Queue items were written with ISO strings by the edit page and numbers elsewhere; /queue sorts numerically
+      await rewrite<LegacyQueueItem>(queueStore, (item, key) => ({
+        ...item,
+        id: item.id || key,
+        createdAt: toMillis(item.createdAt) ?? Date.now(),
+        ...(item.updatedAt !== undefined ? { updatedAt: toMillis(item.updatedAt) } : {}),
+      }))
+      await rewrite<LegacyReceipt>(receiptsStore, (entry) => {
+        if (!entry.blob) return undefined
+        const { transactionRef, ...rest } = entry
+        return {
+          ...rest,
+          metadata: {
+            ...entry.metadata,
+            mime: entry.metadata?.mime || entry.mime || entry.blob.type,
+            size: entry.metadata?.size ?? entry.blob.size,
+            transactionRef: entry.metadata?.transactionRef ?? transactionRef,
+          },
+        }
+      })
+      await rewrite<LegacyTransaction>(txStore, (row) => {
+        if (typeof row.occurred_at !== 'string') return undefined
+        const t = Date.parse(row.occurred_at)
+        if (Number.isNaN(t)) return undefined
+        const iso = new Date(t).toISOString()
+        return iso === row.occurred_at ? undefined : { ...row, occurred_at: iso }
+      })
+    },
+  },
+]
+
+export const LOCAL_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version
+
+export async function localSchemaVersion() {
+  const v = await metaStore.getItem<number>('schemaVersion')
+  return typeof v === 'number' ? v : 0
+}
+
+async function migrate(): Promise<MigrationStatus> {
+  let version = await localSchemaVersion()
+  if (version > LOCAL_SCHEMA_VERSION) return { status: 'newer', version }
+  if (version === LOCAL_SCHEMA_VERSION) return { status: 'current', version }
+
+  for (const m of MIGRATIONS) {
+    if (m.version <= version) continue
+    try {
+      await m.up()
+    } catch (e) {
+      await metaStore.setItem('lastMigrationError', { version: m.version, message: (e instanceof Error && e.message) || String(e), at: Date.now() })
+      throw e
+    }
+    version = m.version
+    await metaStore.setItem('schemaVersion', version)
+    await metaStore.setItem('migratedAt', Date.now())
+  }
+  await metaStore.removeItem('lastMigrationError')
+  return { status: 'migrated', version }
+}
+
+let running: Promise<MigrationStatus> | null = null
+
+/** Brings the local database up to LOCAL_SCHEMA_VERSION; safe to call from several places, runs once per page load */
+export function runLocalMigrations(): Promise<MigrationStatus> {
+  if (typeof indexedDB === 'undefined') return Promise.resolve({ status: 'unsupported', version: null })
+  if (!running) {
+    const locks = typeof navigator !== 'undefined' ? navigator.locks : undefined
+    running = (locks ? Promise.resolve(locks.request('tris-local-migrations', migrate)) : migrate()).catch((e) => {
+      // Let a later call try again instead of caching the failure
+      running = null
+      throw e
+    })
+  }
+  return running
+}
+
+export type StorageEstimate = { usage: number | null; quota: number | null; persisted: boolean | null }
+
+export async function storageEstimate(): Promise<StorageEstimate> {
+  const storage = typeof navigator !== 'undefined' ? navigator.storage : undefined
+  if (!storage?.estimate) return { usage: null, quota: null, persisted: null }
+  const [estimate, persisted] = await Promise.all([
+    storage.estimate(),
+    storage.persisted ? storage.persisted().catch(() => null) : Promise.resolve(null),
+  ])
+  return { usage: estimate.usage ?? null, quota: estimate.quota ?? null, persisted }
+}
+
+/** Asks the browser not to evict the offline copy under storage pressure */
+export async function requestPersistentStorage() {
+  const storage = typeof navigator !== 'undefined' ? navigator.storage : undefined
+  if (!storage?.persist) return false
+  return storage.persist().catch(() => false)
+}
+
+function describe(value: unknown): unknown {
+  if (typeof Blob !== 'undefined' && value instanceof Blob) return { $blob: { type: value.type, size: value.size } }
+  if (Array.isArray(value)) return value.map(describe)
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value as Record<string, unknown>).map(([k, v]) => [k, describe(v)]))
+  }
+  return value
+}
+
+/** Every store as JSON, with blobs replaced by { $blob: { type, size } } */
+export async function exportLocalSnapshot() {
+  const stores: Record<string, Record<string, unknown>> = {}
+  for (const [name, target] of Object.entries(LOCAL_STORES)) {
+    const rows: Record<string, unknown> = {}
+    await target.iterate<unknown, void>((value: unknown, key: string) => {
+      rows[key] = describe(value)
+    })
+    stores[name] = rows
+  }
+  const snapshot = {
+    database: LOCAL_DB_NAME,
+    schema_version: await localSchemaVersion(),
+    app_schema_version: LOCAL_SCHEMA_VERSION,
+    exported_at: new Date().toISOString(),
+    user_agent: typeof navigator !== 'undefined' ? navigator.userAgent : null,
+    storage: await storageEstimate(),
+    stores,
+  }
+  return new Blob([JSON.stringify(snapshot, null, 2)], { type: 'application/json' })
+}
@@ -0,0 +1,429 @@
+/**
+ * CODE INSIGHT
+ * This code's use case is the local copy of the user's data that lets Tris render without a network. applyPull() writes
+ * one /api/sync/pull page into localForage (tris/transactions, categories, tags, presets, recurring, categoryBudgets,
+ * overallBudgets) and applies its tombstones; readOffline() answers the GET endpoints the list, budget and report pages
+ * and the category and tag pickers use from that copy, in the same response shapes (archived rows left out likewise).
+ * Local rows with unsynced edits (pending or conflict) are never overwritten by a pull; the queue owns them until it
+ * drains. Pulled transactions are keyed by their server id, except rows created offline, which keep their local key and
+ * gain remoteId, so open pages and queued items keep resolving them.
+ * This code's full epic context is the offline-first sync flow; the SyncProvider calls applyPull() after draining the
+ * queue and stores the next cursor under syncMeta.pullCursor. The stores themselves are defined in @/utils/local-db.
+ */
+
+import { DateTime } from 'luxon'
+import {
+  CategoryLike,
+  CategoryTotals,
+  ancestorIds,
+  buildCategoryTree,
+  categoryPathLabel,
+  descendantIds,
+  flattenCategoryTree,
+  rollUpAmounts,
+  rollUpCategoryReport,
+} from '@/utils/category-tree'
+import {
+  categoriesStore,
+  categoryBudgetsStore,
+  overallBudgetsStore,
+  presetsStore,
+  recurringStore,
+  tagsStore,
+  txStore,
+  type Store,
+} from '@/utils/local-db'
+
+// A pulled row; only the columns the local reads below rely on are spelled out
+type SyncedRow = { id: string; [column: string]: unknown }
+
+// A transaction as the device keeps it: the pulled (or locally entered) row plus its sync bookkeeping
+export type LocalTransaction = SyncedRow & {
+  remoteId?: string | null
+  kind?: string
+  amount?: number
+  occurred_at: string
+  category_id?: string | null
+  payment_method?: string | null
+  has_splits?: boolean
+  splits?: { category_id?: string | null; amount?: number }[] | null
+  receipt_url?: string | null
+  receipt_urls?: string[] | null
+  baseVersion?: number | null
+  pending?: boolean
+  deleted?: boolean
+  conflict?: boolean
+  lastSyncedAt?: string
+}
+
+type LocalCategory = CategoryLike & { is_favorite?: boolean; archived_at?: string | null }
+
+type LocalTag = { id: string; name: string; is_favorite?: boolean; archived_at?: string | null; created_at?: string; updated_at?: string }
+
+type LocalBudget = { id: string; category_id?: string; period_start: string; amount: number; alert_threshold_percent: number | null }
+
+export type PullResponse = {
+  cursor: string
+  has_more: boolean
+  reset: boolean
+  server_time: string
+  changes: {
+    transactions: (SyncedRow & { version?: number | null })[]
+    categories: SyncedRow[]
+    tags: SyncedRow[]
+    presets: SyncedRow[]
+    recurring: SyncedRow[]
+    category_budgets: SyncedRow[]
+    overall_budgets: SyncedRow[]
+  }
+  tombstones: { entity: string; id: string; deleted_at: string }[]
+}
+
+const ENTITY_STORES: Record<string, Store> = {
+  categories: categoriesStore,
+  tags: tagsStore,
+  presets: presetsStore,
+  recurring_transactions: recurringStore,
+  category_budgets: categoryBudgetsStore,
+  overall_budgets: overallBudgetsStore,
+}
+
+const DEFAULT_THRESHOLD = 80
+
+function hasLocalChanges(row: LocalTransaction | null) {
+  return Boolean(row && (row.pending || row.conflict))
+}
+
+async function values<T>(store: Store) {
+  const list: T[] = []
+  await store.iterate<T, void>((value: T) => {
+    if (value) list.push(value)
+  })
+  return list
+}
+
+// server id → local key for every transaction already on the device
+async function transactionKeys() {
+  const keys = new Map<string, string>()
+  await txStore.iterate<LocalTransaction, void>((value: LocalTransaction, key: string) => {
+    if (!value) return
+    keys.set(value.remoteId || key, key)
+  })
+  return keys
+}
+
+/**
+ * Writes one pull page into the local stores. firstPage must be true for the first page of a pull so a reset clears the
+ * previous copy exactly once.
+ */
+export async function applyPull(page: PullResponse, firstPage: boolean) {
+  const syncedAt = new Date().toISOString()
+
+  if (page.reset && firstPage) {
+    await Promise.all(Object.values(ENTITY_STORES).map((store) => store.clear()))
+    const stale: string[] = []
+    await txStore.iterate<LocalTransaction, void>((value: LocalTransaction, key: string) => {
+      // Rows never pushed or still carrying edits survive the reset
+      if (value?.remoteId && !hasLocalChanges(value)) stale.push(key)
+    })
+    for (const key of stale) await txStore.removeItem(key)
+  }
+
+  const keys = await transactionKeys()
+  for (const row of page.changes.transactions) {
+    const key = keys.get(row.id) ?? row.id
+    const current = await txStore.getItem<LocalTransaction>(key)
+    if (hasLocalChanges(current)) continue
+    await txStore.setItem(key, {
+      ...current,
+      ...row,
+      id: key,
+      remoteId: row.id,
+      baseVersion: row.version ?? null,
+      pending: false,
+      deleted: false,
+      conflict: false,
+      lastSyncedAt: syncedAt,
+    })
+    keys.set(row.id, key)
+  }
+
+  const writeAll = async (store: Store, rows: SyncedRow[]) => {
+    for (const row of rows) await store.setItem(row.id, row)
+  }
+  await writeAll(categoriesStore, page.changes.categories)
+  await writeAll(tagsStore, page.changes.tags)
+  await writeAll(presetsStore, page.changes.presets)
+  await writeAll(recurringStore, page.changes.recurring)
+  await writeAll(categoryBudgetsStore, page.changes.category_budgets)
+  await writeAll(overallBudgetsStore, page.changes.overall_budgets)
+
+  for (const tomb of page.tombstones) {
+    if (tomb.entity === 'transactions') {
+      const key = keys.get(tomb.id) ?? tomb.id
+      const current = await txStore.getItem<LocalTransaction>(key)
+      if (current && !hasLocalChanges(current)) await txStore.removeItem(key)
+      continue
+    }
+    await ENTITY_STORES[tomb.entity]?.removeItem(tomb.id)
+  }
+}
+
+async function localTransactions() {
+  // Server rows carry +00:00 offsets and local ones Z; one format keeps the string comparisons below honest
+  const rows = (await values<LocalTransaction>(txStore))
+    .filter((t) => !t.deleted && !isNaN(new Date(t.occurred_at).getTime()))
+    .map((t) => ({ ...t, occurred_at: new Date(t.occurred_at).toISOString() }))
+  const categories = new Map((await values<LocalCategory>(categoriesStore)).map((c) => [c.id, c.name]))
+  return { rows, categories }
+}
+
+// Split rows count per line, like the server aggregates
+function parts(t: LocalTransaction): { category_id: string | null; amount: number }[] {
+  if (t.has_splits && Array.isArray(t.splits) && t.splits.length > 0) {
+    return t.splits.map((s) => ({ category_id: s.category_id ?? null, amount: Number(s.amount ?? 0) }))
+  }
+  return [{ category_id: t.category_id ?? null, amount: Number(t.amount ?? 0) }]
+}
+
+function encodeListCursor(occurredAt: string, id: string) {
+  return btoa(`${occurredAt}|${id}`).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function decodeListCursor(cursor: string) {
+  try {
+    const raw = atob(cursor.replace(/-/g, '+').replace(/_/g, '/'))
+    const sep = raw.lastIndexOf('|')
+    return sep > 0 ? { occurredAt: raw.slice(0, sep), id: raw.slice(sep + 1) } : null
+  } catch {
+    return null
+  }
+}
+
+async function listTransactions(params: URLSearchParams) {
+  const { rows, categories } = await localTransactions()
+  const limit = Math.min(Math.max(Number(params.get('limit')) || 20, 1), 100)
+  const method = params.get('payment_method')
+  const kind = params.get('kind')
+  const categoryIds = params.get('category_id')?.split(',').filter(Boolean)
+  const from = params.get('from')
+  const to = params.get('to')
+  const cursor = params.get('cursor') ? decodeListCursor(params.get('cursor') as string) : null
+
+  const sorted = rows
+    .filter((t) => !method || t.payment_method === method)
+    .filter((t) => !kind || t.kind === kind)
+    .filter((t) => !categoryIds || (t.category_id != null && categoryIds.includes(t.category_id)))
+    .filter((t) => !from || t.occurred_at >= new Date(from).toISOString())
+    .filter((t) => !to || t.occurred_at < new Date(to).toISOString())
+    .sort((a, b) => String(b.occurred_at).localeCompare(String(a.occurred_at)) || String(b.id).localeCompare(String(a.id)))
+
+  const after = cursor
+    ? sorted.filter((t) => t.occurred_at < cursor.occurredAt || (t.occurred_at === cursor.occurredAt && t.id < cursor.id))
+    : sorted
+  const page = after.slice(0, limit)
+  const items = page.map((t) => ({
+    ...t,
+    category: t.category_id ? { id: t.category_id, name: categories.get(t.category_id) ?? 'Unknown' } : null,
+  }))
+  const last = page[page.length - 1]
+  return { items, nextCursor: after.length > limit && last ? encodeListCursor(last.occurred_at, last.id) : null }
+}
+
+async function listCategories(params: URLSearchParams) {
+  const includeArchived = ['1', 'true'].includes(params.get('include_archived') ?? '')
+  const rows = (await values<LocalCategory>(categoriesStore)).filter((c) => includeArchived || !c.archived_at)
+  rows.sort((a, b) => Number(Boolean(b.is_favorite)) - Number(Boolean(a.is_favorite)) || String(a.name).localeCompare(String(b.name)))
+  return flattenCategoryTree(buildCategoryTree(rows)).map((c) => ({
+    id: c.id,
+    name: c.name,
+    favorite: Boolean(c.is_favorite),
+    parent_id: c.parent_id ?? null,
+    depth: c.depth,
+    path: categoryPathLabel(c.path),
+    archived_at: c.archived_at ?? null,
+  }))
+}
+
+async function listTags(params: URLSearchParams) {
+  const includeArchived = ['1', 'true'].includes(params.get('include_archived') ?? '')
+  const search = params.get('search')?.trim().toLowerCase() ?? ''
+  const rows = (await values<LocalTag>(tagsStore))
+    .filter((t) => includeArchived || !t.archived_at)
+    .filter((t) => !search || t.name.toLowerCase().startsWith(search))
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map((t) => ({
+      id: t.id,
+      name: t.name,
+      is_favorite: Boolean(t.is_favorite),
+      archived_at: t.archived_at ?? null,
+      created_at: t.created_at ?? null,
+      updated_at: t.updated_at ?? null,
+    }))
+  return search ? rows.slice(0, 20) : rows
+}
+
+function computeStatus(spent: number, budget: number | null, threshold: number) {
+  if (budget === null) return { percent: null, status: null, remaining: null }
+  if (budget <= 0) return { percent: spent > 0 ? 100 : 0, status: spent > 0 ? 'exceeded' : 'ok', remaining: 0 - spent }
+  const percent = Math.round((spent / budget) * 1000) / 10
+  const status = percent >= 100 ? 'exceeded' : percent >= threshold ? 'approaching' : 'ok'
+  return { percent, status, remaining: budget - spent }
+}
+
+async function budgetSummary(params: URLSearchParams) {
+  const month = params.get('month')
+  if (!month || !/^\d{4}-\d{2}$/.test(month)) return null
+  const [year, monthNo] = month.split('-').map(Number)
+  const start = new Date(Date.UTC(year, monthNo - 1, 1)).toISOString()
+  const end = new Date(Date.UTC(year, monthNo, 1)).toISOString()
+  const periodStart = start.slice(0, 10)
+
+  const { rows, categories } = await localTransactions()
+  const categoryBudgets = (await values<LocalBudget>(categoryBudgetsStore)).filter((b) => b.period_start === periodStart)
+  const overallBudget = (await values<LocalBudget>(overallBudgetsStore)).find((b) => b.period_start === periodStart) ?? null
+
+  let spent = 0
+  let income = 0
+  const byCategory = new Map<string, number>()
+  for (const t of rows) {
+    if (t.occurred_at < start || t.occurred_at >= end || t.kind === 'transfer' || !(Number(t.amount) > 0)) continue
+    if (t.kind === 'income') {
+      income += Number(t.amount)
+      continue
+    }
+    const sign = t.kind === 'refund' ? -1 : 1
+    spent += sign * Number(t.amount)
+    for (const part of parts(t)) {
+      if (!part.category_id) continue
+      byCategory.set(part.category_id, (byCategory.get(part.category_id) ?? 0) + sign * part.amount)
+    }
+  }
+
+  const budgets = new Map(
+    categoryBudgets.map((b) => [b.category_id as string, { amount: Number(b.amount ?? 0), threshold: b.alert_threshold_percent ?? DEFAULT_THRESHOLD }]),
+  )
+  const allCategories = await values<CategoryLike>(categoriesStore)
+  const rolledUp = rollUpAmounts(allCategories, byCategory)
+  const ids = new Set<string>([...budgets.keys(), ...byCategory.keys()])
+  for (const id of Array.from(ids)) for (const parent of ancestorIds(allCategories, id)) ids.add(parent)
+  const byName = [...allCategories].sort((a, b) => a.name.localeCompare(b.name, 'ko'))
+  const ordered = [
+    ...flattenCategoryTree(buildCategoryTree(byName))
+      .filter((n) => ids.has(n.id))
+      .map((n) => ({ id: n.id, parent_id: n.parent_id ?? null, depth: n.depth })),
+    ...Array.from(ids)
+      .filter((id) => !categories.has(id))
+      .map((id) => ({ id, parent_id: null, depth: 0 })),
+  ]
+  const thresholds: Record<string, number> = {}
+  const categoryRows = ordered.map(({ id, parent_id, depth }) => {
+    const budget = budgets.get(id)
+    const categorySpent = rolledUp.get(id) ?? 0
+    if (budget) thresholds[id] = budget.threshold
+    return {
+      category_id: id,
+      category_name: categories.get(id) ?? 'Unknown',
+      parent_id,
+      depth,
+      budget_amount: budget ? budget.amount : null,
+      spent: categorySpent,
+      own_spent: byCategory.get(id) ?? 0,
+      ...computeStatus(categorySpent, budget ? budget.amount : null, budget ? budget.threshold : DEFAULT_THRESHOLD),
+      threshold_pct_used: budget ? budget.threshold : null,
+    }
+  })
+  const overallAmount = overallBudget ? Number(overallBudget.amount ?? 0) : null
+  const overallThreshold = overallBudget?.alert_threshold_percent ?? DEFAULT_THRESHOLD
+  return {
+    month,
+    currency: 'KRW',
+    overall: {
+      budget_amount: overallAmount,
+      spent,
+      ...computeStatus(spent, overallAmount, overallThreshold),
+      threshold_pct_used: overallAmount !== null ? overallThreshold : null,
+    },
+    income,
+    categories: categoryRows,
+    thresholds_used: { default: DEFAULT_THRESHOLD, overall: overallThreshold, categories: thresholds },
+    period: { start, end_exclusive: end },
+  }
+}
+
+async function categoryReport(params: URLSearchParams) {
+  const tz = params.get('tz') || 'Asia/Seoul'
+  const start = DateTime.fromISO(params.get('start') || '', { zone: tz }).startOf('day')
+  const end = DateTime.fromISO(params.get('end') || '', { zone: tz }).startOf('day')
+  if (!start.isValid || !end.isValid || end <= start) return null
+  const startIso = start.toUTC().toISO() as string
+  const endIso = end.toUTC().toISO() as string
+  const method = params.get('method')
+  const { rows, categories } = await localTransactions()
+  const allCategories = await values<CategoryLike>(categoriesStore)
+  const categoryIds = Array.from(
+    new Set(
+      (params.get('categoryId') || '')
+        .split(',')
+        .filter(Boolean)
+        .flatMap((id) => descendantIds(allCategories, id)),
+    ),
+  )
+  const byCategory = new Map<string, CategoryTotals>()
+  for (const t of rows) {
+    const at = t.occurred_at
+    if (at < startIso || at >= endIso || t.kind === 'transfer') continue
+    if (method && t.payment_method !== method) continue
+    const seen = new Set<string>()
+    for (const part of parts(t)) {
+      if (categoryIds.length > 0 && !categoryIds.includes(part.category_id as string)) continue
+      const key = part.category_id ?? 'uncategorized'
+      const entry = byCategory.get(key) ?? {
+        categoryId: part.category_id,
+        categoryName: part.category_id ? categories.get(part.category_id) ?? 'Uncategorized' : 'Uncategorized',
+        total: 0,
+        count: 0,
+        refunded: 0,
+        income: 0,
+      }
+      if (t.kind === 'income') {
+        entry.income += part.amount
+      } else {
+        // A transaction with several lines in one category counts once
+        if (!seen.has(key)) entry.count += 1
+        if (t.kind === 'refund') {
+          entry.total -= part.amount
+          entry.refunded += part.amount
+        } else {
+          entry.total += part.amount
+        }
+      }
+      seen.add(key)
+      byCategory.set(key, entry)
+    }
+  }
+
+  return rollUpCategoryReport(Array.from(byCategory.values()), allCategories, 'KRW')
+}
+
+/**
+ * Answers a GET API url from the local copy, or null when the endpoint has no offline equivalent (or the params are
+ * invalid), in which case the caller should surface its original error.
+ */
+export async function readOffline(url: string): Promise<unknown | null> {
+  const parsed = new URL(url, 'http://offline.local')
+  switch (parsed.pathname) {
+    case '/api/transactions':
+      return listTransactions(parsed.searchParams)
+    case '/api/categories':
+      return listCategories(parsed.searchParams)
+    case '/api/tags':
+      return listTags(parsed.searchParams)
+    case '/api/budgets/summary':
+      return budgetSummary(parsed.searchParams)
+    case '/api/reports/categories':
+      return categoryReport(parsed.searchParams)
+    default:
+      return null
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * CODE INSIGHT
+ * Canonical payee resolution shared by the transaction, preset and recurring routes. Free-text payees are matched on a
+ * normalized form (lower-cased, whitespace collapsed — the same expression the payees migration backfilled with) against
+ * payee names first and aliases second, so "STARBUCKS  Korea" and "스타벅스" can land on one payee. Callers store the
+ * canonical name in their own payee column so renames can be written back across history. mergePayeesInto folds duplicate
+ * payees together when one's name is added as another's alias.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+export type ResolvedPayee = {
+  id: string
+  name: string
+  default_category_id: string | null
+  default_payment_method: string | null
+  default_tag_ids: string[]
+}
+
+export const PAYEE_NAME_MAX = 200
+
+const PAYEE_COLUMNS = 'id, name, default_category_id, default_payment_method, payee_tags ( tag_id )'
+
+// A payees row as selected with PAYEE_COLUMNS
+type PayeeRecord = {
+  id: string
+  name: string
+  default_category_id: string | null
+  default_payment_method: string | null
+  payee_tags: { tag_id: string }[] | null
+}
+
+export function cleanPayeeName(name: string) {
+  return name.replace(/\s+/g, ' ').trim()
+}
+
+export function normalizePayeeName(name: string) {
+  return cleanPayeeName(name).toLowerCase()
+}
+
+function shapePayee(row: PayeeRecord): ResolvedPayee {
+  return {
+    id: row.id,
+    name: row.name,
+    default_category_id: row.default_category_id ?? null,
+    default_payment_method: row.default_payment_method ?? null,
+    default_tag_ids: (row.payee_tags || []).map((t) => t.tag_id),
+  }
+}
+
+async function findPayee(client: SupabaseClient, userId: string, normalized: string) {
+  const { data: direct } = await client
+    .from('payees')
+    .select(PAYEE_COLUMNS)
+    .eq('user_id', userId)
+    .eq('normalized_name', normalized)
+    .maybeSingle()
+    .overrideTypes<PayeeRecord, { merge: false }>()
+  if (direct) return shapePayee(direct)
+
+  const { data: alias } = await client
+    .from('payee_aliases')
+    .select(`payees ( ${PAYEE_COLUMNS} )`)
+    .eq('user_id', userId)
+    .eq('normalized_alias', normalized)
+    .maybeSingle()
+    .overrideTypes<{ payees: PayeeRecord | null }, { merge: false }>()
+  return alias?.payees ? shapePayee(alias.payees) : null
+}
+
+/**
+ * Finds the payee a free-text name refers to. With `create`, an unknown name becomes a new payee (a concurrent insert
+ * of the same name is tolerated). Takes the Supabase client so it works with both server and browser clients.
+ */
+export async function resolvePayee(
+  client: SupabaseClient,
+  userId: string,
+  text: string | null | undefined,
+  options: { create?: boolean } = {},
+): Promise<ResolvedPayee | null> {
+  const name = cleanPayeeName(text ?? '')
+  if (!name || name.length > PAYEE_NAME_MAX) return null
+  const normalized = name.toLowerCase()
+
+  const found = await findPayee(client, userId, normalized)
+  if (found || !options.create) return found
+
+  const { data: created, error } = await client
+    .from('payees')
+    .insert({ user_id: userId, name, normalized_name: normalized })
+    .select(PAYEE_COLUMNS)
+    .single()
+    .overrideTypes<PayeeRecord, { merge: false }>()
+  if (created) return shapePayee(created)
+  if (error?.code === '23505') return findPayee(client, userId, normalized)
+  return null
+}
+
+/**
+ * Maps each normalized spelling to the payee that already owns it, either as its name or as one of its aliases.
+ * exceptPayeeId leaves the payee being edited out so it can keep its own spellings.
+ */
+export async function findSpellingOwners(client: SupabaseClient, userId: string, normalized: string[], exceptPayeeId: string | null = null) {
+  const names = new Map<string, string>()
+  const aliases = new Map<string, string>()
+  if (normalized.length === 0) return { names, aliases }
+  let nameQuery = client.from('payees').select('id, normalized_name').eq('user_id', userId).in('normalized_name', normalized)
+  let aliasQuery = client.from('payee_aliases').select('payee_id, normalized_alias').eq('user_id', userId).in('normalized_alias', normalized)
+  if (exceptPayeeId) {
+    nameQuery = nameQuery.neq('id', exceptPayeeId)
+    aliasQuery = aliasQuery.neq('payee_id', exceptPayeeId)
+  }
+  const [{ data: n }, { data: a }] = await Promise.all([
+    nameQuery.overrideTypes<{ id: string; normalized_name: string }[], { merge: false }>(),
+    aliasQuery.overrideTypes<{ payee_id: string; normalized_alias: string }[], { merge: false }>(),
+  ])
+  for (const r of n || []) names.set(r.normalized_name, r.id)
+  for (const r of a || []) aliases.set(r.normalized_alias, r.payee_id)
+  return { names, aliases }
+}
+
+/**
+ * Folds the source payees into the target: their transactions, presets and recurring rules are re-pointed (and their
+ * payee text rewritten to the target's name), their aliases and default tags move over, and each source name becomes an
+ * alias of the target so the old spelling keeps resolving. The sources are deleted afterwards.
+ */
+export async function mergePayeesInto(
+  client: SupabaseClient,
+  userId: string,
+  target: { id: string; name: string },
+  sourceIds: string[],
+) {
+  const ids = sourceIds.filter((id) => id !== target.id)
+  if (ids.length === 0) return null
+
+  const { data: sources, error: loadErr } = await client
+    .from('payees')
+    .select('id, name')
+    .eq('user_id', userId)
+    .in('id', ids)
+    .overrideTypes<{ id: string; name: string }[], { merge: false }>()
+  if (loadErr) return loadErr
+
+  for (const table of ['transactions', 'presets', 'recurring_transactions']) {
+    const { error } = await client.from(table).update({ payee_id: target.id, payee: target.name }).eq('user_id', userId).in('payee_id', ids)
+    if (error) return error
+  }
+
+  const { error: aliasErr } = await client.from('payee_aliases').update({ payee_id: target.id }).eq('user_id', userId).in('payee_id', ids)
+  if (aliasErr) return aliasErr
+
+  const { data: tags } = await client
+    .from('payee_tags')
+    .select('tag_id')
+    .in('payee_id', ids)
+    .overrideTypes<{ tag_id: string }[], { merge: false }>()
+  const tagIds = Array.from(new Set((tags || []).map((t) => t.tag_id)))
+  if (tagIds.length > 0) {
+    await client
+      .from('payee_tags')
+      .upsert(tagIds.map((tag_id) => ({ payee_id: target.id, tag_id })), { onConflict: 'payee_id,tag_id', ignoreDuplicates: true })
+  }
+
+  const { error: delErr } = await client.from('payees').delete().eq('user_id', userId).in('id', ids)
+  if (delErr) return delErr
+
+  const oldNames = (sources || []).map((s) => ({
+    user_id: userId,
+    payee_id: target.id,
+    alias: s.name,
+    normalized_alias: normalizePayeeName(s.name),
+  }))
+  if (oldNames.length > 0) {
+    const { error } = await client.from('payee_aliases').upsert(oldNames, { onConflict: 'user_id,normalized_alias', ignoreDuplicates: true })
+    if (error) return error
+  }
+  return null
+}
@@ -0,0 +1,85 @@
+/**
+ * CODE INSIGHT
+ * This code's use case is preparing a receipt photo before it is queued: camera shots are decoded, scaled down so the
+ * longest edge is at most MAX_RECEIPT_EDGE and re-encoded as WebP (JPEG where the browser cannot encode WebP).
+ * Re-encoding through a canvas writes only pixels, so EXIF metadata (GPS position, device, capture time) never leaves
+ * the device; the EXIF orientation is applied while decoding so the stripped image still stands upright.
+ * Files that are not raster images (PDFs) pass through unchanged, and so does an image the browser cannot decode
+ * (e.g. HEIC outside Safari) so the receipt is not lost.
+ * This code's full epic context is the offline-first receipt flow; the prepared file is what lands in tris/receipts and
+ * what the SyncProvider uploads, and queued entries carry prepared: true so it is not processed twice.
+ */
+
+export const MAX_RECEIPT_EDGE = 1600
+
+const WEBP_QUALITY = 0.8
+const JPEG_QUALITY = 0.82
+
+// Formats a canvas would flatten (animation, vectors) or that are already small enough to keep as they are
+const PASSTHROUGH_TYPES = new Set(['image/gif', 'image/svg+xml'])
+
+type Decoded = { source: CanvasImageSource; width: number; height: number; close: () => void }
+
+async function decode(file: Blob): Promise<Decoded | null> {
+  if (typeof createImageBitmap === 'function') {
+    try {
+      const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' })
+      return { source: bitmap, width: bitmap.width, height: bitmap.height, close: () => bitmap.close() }
+    } catch {
+      // Fall through to <img>, which some browsers decode more formats with
+    }
+  }
+  const url = URL.createObjectURL(file)
+  try {
+    const img = new Image()
+    img.decoding = 'async'
+    img.src = url
+    await img.decode()
+    return { source: img, width: img.naturalWidth, height: img.naturalHeight, close: () => URL.revokeObjectURL(url) }
+  } catch {
+    URL.revokeObjectURL(url)
+    return null
+  }
+}
+
+function toBlob(canvas: HTMLCanvasElement, type: string, quality: number) {
+  return new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, quality))
+}
+
+function renamed(name: string, ext: string) {
+  const base = name.replace(/\.[^./\\]+$/, '') || 'receipt'
+  return `${base}.${ext}`
+}
+
+/** Resized, re-encoded copy of a receipt photo without EXIF; non-images are returned as they are */
+export async function prepareReceipt(file: File): Promise<File> {
+  if (!file.type.startsWith('image/') || PASSTHROUGH_TYPES.has(file.type)) return file
+  if (typeof document === 'undefined') return file
+
+  const decoded = await decode(file)
+  if (!decoded || !decoded.width || !decoded.height) return file
+
+  try {
+    const scale = Math.min(1, MAX_RECEIPT_EDGE / Math.max(decoded.width, decoded.height))
+    const canvas = document.createElement('canvas')
+    canvas.width = Math.max(1, Math.round(decoded.width * scale))
+    canvas.height = Math.max(1, Math.round(decoded.height * scale))
+    const ctx = canvas.getContext('2d')
+    if (!ctx) return file
+    // WebP and JPEG have no alpha; keep transparent screenshots legible
+    ctx.fillStyle = '#ffffff'
+    ctx.fillRect(0, 0, canvas.width, canvas.height)
+    ctx.imageSmoothingQuality = 'high'
+    ctx.drawImage(decoded.source, 0, 0, canvas.width, canvas.height)
+
+    // Browsers without a WebP encoder silently return PNG; use JPEG there instead
+    let blob = await toBlob(canvas, 'image/webp', WEBP_QUALITY)
+    if (!blob || blob.type !== 'image/webp') blob = await toBlob(canvas, 'image/jpeg', JPEG_QUALITY)
+    if (!blob) return file
+
+    const ext = blob.type === 'image/webp' ? 'webp' : 'jpg'
+    return new File([blob], renamed(file.name, ext), { type: blob.type, lastModified: Date.now() })
+  } finally {
+    decoded.close()
+  }
+}
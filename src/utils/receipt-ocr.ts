@@ -0,0 +1,198 @@
+/**
+ * CODE INSIGHT
+ * This code's use case is reading a receipt photo on the device: recognizeReceipt() runs tesseract.js with the Korean
+ * and English models in a web worker and parseReceiptText() pulls the total (합계/결제금액/받을금액…), the date/time and
+ * the merchant out of the recognized lines. Every field comes with a 0–1 confidence (Tesseract's line confidence weighted
+ * by how the value was found) and the runner-up candidates, so the form can offer one-tap corrections.
+ * The worker, wasm core and language data are served from /ocr; tesseract.js keeps the language data in IndexedDB and
+ * the service worker caches the rest, so once warmUpReceiptOcr() has loaded them while online recognition works offline.
+ * Nothing leaves the device: the image is read in the worker and only the parsed values are returned.
+ * This code's full epic context is the receipt capture flow in /transactions/new; the worker is created lazily, reused
+ * across photos and terminated with terminateReceiptOcr() when the page goes away.
+ */
+
+export type OcrLine = { text: string; confidence: number }
+
+export type OcrCandidate<T> = { value: T; confidence: number }
+
+export type OcrField<T> = OcrCandidate<T> & { alternatives: OcrCandidate<T>[] }
+
+export type ReceiptOcrResult = {
+  total: OcrField<number> | null
+  date: OcrField<{ date: string; time: string | null }> | null
+  merchant: OcrField<string> | null
+  text: string
+}
+
+export const OCR_LANGUAGES = ['kor', 'eng']
+
+// Served from this origin (copied out of node_modules by scripts/copy-ocr-assets.mjs) rather than tesseract.js's CDNs
+const OCR_ASSETS = { workerPath: '/ocr/worker.min.js', corePath: '/ocr/core', langPath: '/ocr/lang' }
+
+// Labels in priority order: what was actually charged beats subtotals
+const TOTAL_LABELS: [RegExp, number][] = [
+  [/결제금액|승인금액|받을금액|카드결제|신용카드|청구금액/, 1],
+  [/합계|총액|총금액|총합계|판매금액|합계금액/, 0.9],
+  [/grandtotal|total|amountdue|amount/i, 0.85],
+]
+const NOT_TOTAL = /부가세|과세|면세|vat|tax|할인|거스름|잔액|포인트|공급가/i
+const MERCHANT_LABELS = /(?:상호|가맹점명?|매장명?|점포명|store|merchant)\s*[:：]?\s*(.+)/i
+const NOT_MERCHANT = /영수증|receipt|사업자|등록번호|대표|전화|tel|주소|address|www\.|http|카드|승인|일시|날짜|date|\d{2,}[-.)]\d{2,}/i
+
+let workerPromise: Promise<any> | null = null
+let progressListener: ((progress: number) => void) | null = null
+
+async function getWorker(onProgress?: (progress: number) => void) {
+  if (!workerPromise) {
+    workerPromise = import('tesseract.js')
+      .then(({ createWorker }) =>
+        createWorker(OCR_LANGUAGES, 1, {
+          ...OCR_ASSETS,
+          logger: (m: { status: string; progress: number }) => {
+            if (m.status === 'recognizing text') progressListener?.(m.progress)
+          },
+        })
+      )
+      .catch((e) => {
+        workerPromise = null
+        throw e
+      })
+  }
+  progressListener = onProgress ?? null
+  return workerPromise
+}
+
+/** Loads the worker and language data ahead of time so the first photo is read quickly, and offline */
+export async function warmUpReceiptOcr() {
+  await getWorker()
+}
+
+export async function terminateReceiptOcr() {
+  const pending = workerPromise
+  workerPromise = null
+  if (pending) await (await pending.catch(() => null))?.terminate()
+}
+
+export async function recognizeReceipt(image: Blob, onProgress?: (progress: number) => void): Promise<ReceiptOcrResult> {
+  const worker = await getWorker(onProgress)
+  const { data } = await worker.recognize(image)
+  const lines: OcrLine[] = ((data?.lines || []) as any[])
+    .map((l) => ({ text: String(l.text || '').trim(), confidence: Number(l.confidence) || 0 }))
+    .filter((l) => l.text.length > 0)
+  // Older builds only report text; give each line the page confidence instead
+  const fallback = lines.length
+    ? lines
+    : String(data?.text || '')
+        .split('\n')
+        .map((text) => ({ text: text.trim(), confidence: Number(data?.confidence) || 0 }))
+        .filter((l) => l.text.length > 0)
+  return parseReceiptText(fallback)
+}
+
+// Tesseract splits Hangul words into single characters ("합 계"); labels are matched without spaces
+function compact(text: string) {
+  return text.replace(/\s+/g, '')
+}
+
+function amountsIn(text: string) {
+  const out: number[] = []
+  for (const m of text.matchAll(/(?:₩|\\)?\s*(\d{1,3}(?:[,.]\d{3})+|\d{3,9})(?!\d)\s*(?:원)?/g)) {
+    const n = Number(m[1].replace(/[,.]/g, ''))
+    if (Number.isSafeInteger(n) && n > 0) out.push(n)
+  }
+  return out
+}
+
+function ranked<T>(candidates: OcrCandidate<T>[], key: (v: T) => string): OcrField<T> | null {
+  const best = new Map<string, OcrCandidate<T>>()
+  for (const c of candidates) {
+    const k = key(c.value)
+    const prev = best.get(k)
+    if (!prev || prev.confidence < c.confidence) best.set(k, c)
+  }
+  const sorted = Array.from(best.values()).sort((a, b) => b.confidence - a.confidence)
+  if (sorted.length === 0) return null
+  const [first, ...rest] = sorted
+  return { ...first, alternatives: rest.slice(0, 3) }
+}
+
+function round(n: number) {
+  return Math.round(Math.min(1, Math.max(0, n)) * 100) / 100
+}
+
+function findTotal(lines: OcrLine[]) {
+  const candidates: OcrCandidate<number>[] = []
+  lines.forEach((line, i) => {
+    const label = compact(line.text)
+    if (NOT_TOTAL.test(label)) return
+    const match = TOTAL_LABELS.find(([re]) => re.test(label))
+    if (!match) return
+    // The amount is usually on the label's line, sometimes on the next one
+    const own = amountsIn(line.text)
+    const source = own.length ? line : lines[i + 1]
+    const amounts = own.length ? own : source ? amountsIn(source.text) : []
+    if (amounts.length === 0) return
+    candidates.push({ value: Math.max(...amounts), confidence: round((source.confidence / 100) * match[1] * (own.length ? 1 : 0.9)) })
+  })
+  // Without a label the largest price on the receipt is the usual answer, but only a guess
+  const priced = lines
+    .filter((l) => /[,.]\d{3}(?!\d)|원|₩/.test(l.text) && !NOT_TOTAL.test(compact(l.text)))
+    .flatMap((l) => amountsIn(l.text).map((n) => ({ n, confidence: l.confidence })))
+    .sort((a, b) => b.n - a.n)
+  priced.slice(0, 3).forEach(({ n, confidence }, rank) => {
+    candidates.push({ value: n, confidence: round((confidence / 100) * (0.45 - rank * 0.1)) })
+  })
+  return ranked(candidates, (v) => String(v))
+}
+
+function pad(n: number) {
+  return String(n).padStart(2, '0')
+}
+
+function findDate(lines: OcrLine[]) {
+  const candidates: OcrCandidate<{ date: string; time: string | null }>[] = []
+  const thisYear = new Date().getFullYear()
+  for (const line of lines) {
+    const text = line.text
+    const full = text.match(/(20\d{2})\s*[.\-/년]\s*(\d{1,2})\s*[.\-/월]\s*(\d{1,2})/)
+    const short = full ? null : text.match(/(?<!\d)(\d{2})[.\-/](\d{1,2})[.\-/](\d{1,2})(?!\d)/)
+    const m = full || short
+    if (!m) continue
+    const year = full ? Number(m[1]) : 2000 + Number(m[1])
+    const month = Number(m[2])
+    const day = Number(m[3])
+    if (month < 1 || month > 12 || day < 1 || day > 31 || year > thisYear + 1) continue
+    const t = text.match(/(?<!\d)([01]?\d|2[0-3])\s*[:시]\s*([0-5]\d)(?:\s*[:분]\s*([0-5]\d))?/)
+    const time = t ? `${pad(Number(t[1]))}:${t[2]}` : null
+    const weight = (full ? 0.95 : 0.75) * (time ? 1 : 0.9)
+    candidates.push({ value: { date: `${year}-${pad(month)}-${pad(day)}`, time }, confidence: round((line.confidence / 100) * weight) })
+  }
+  return ranked(candidates, (v) => `${v.date} ${v.time ?? ''}`)
+}
+
+function findMerchant(lines: OcrLine[]) {
+  const candidates: OcrCandidate<string>[] = []
+  lines.forEach((line, i) => {
+    const labelled = line.text.match(MERCHANT_LABELS)
+    if (labelled) {
+      const name = labelled[1].replace(/\s{2,}/g, ' ').trim()
+      if (name.length >= 2) candidates.push({ value: name, confidence: round((line.confidence / 100) * 0.95) })
+      return
+    }
+    // Otherwise the shop name is normally one of the first lines, printed before the business details
+    if (i > 4 || NOT_MERCHANT.test(line.text)) return
+    const letters = (line.text.match(/[가-힣a-zA-Z]/g) || []).length
+    if (letters < 2 || letters / compact(line.text).length < 0.6) return
+    candidates.push({ value: line.text.replace(/\s{2,}/g, ' ').trim(), confidence: round((line.confidence / 100) * (0.7 - i * 0.08)) })
+  })
+  return ranked(candidates, (v) => v.toLowerCase())
+}
+
+export function parseReceiptText(lines: OcrLine[]): ReceiptOcrResult {
+  return {
+    total: findTotal(lines),
+    date: findDate(lines),
+    merchant: findMerchant(lines),
+    text: lines.map((l) => l.text).join('\n'),
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * CODE INSIGHT
+ * This code's use case is the chunked, resumable upload of a queued receipt into the receipts storage bucket, speaking
+ * the tus protocol that Supabase Storage serves at /storage/v1/upload/resumable. The upload session (tus url, object
+ * path and confirmed offset) is handed to onSession after it is created and after every chunk, so the caller can persist
+ * it next to the blob; the next attempt asks the server for its offset (HEAD) and continues from there instead of
+ * starting over. A session the server no longer knows (expired after 24h, or for another path) is replaced by a new one.
+ * Without a Supabase URL (local fake data) the file goes through the regular storage upload in one request.
+ * Failures throw ReceiptUploadError; permanent is set for rejections a retry cannot fix (file too large, type refused).
+ * This code's full epic context is the offline-first receipt flow; the SyncProvider runs it for UPLOAD_RECEIPT items and
+ * mirrors onProgress onto the queue item for /queue.
+ */
+
+import { supabaseBrowser } from '@/utils/supabase/client-browser'
+
+export type UploadSession = { url: string; path: string; offset: number; total: number }
+
+export class ReceiptUploadError extends Error {
+  constructor(
+    message: string,
+    public status?: number,
+    public permanent = false
+  ) {
+    super(message)
+  }
+}
+
+// Supabase Storage only accepts 6MB chunks (the last one may be shorter)
+export const CHUNK_SIZE = 6 * 1024 * 1024
+
+const BUCKET = 'receipts'
+const TUS_VERSION = '1.0.0'
+const PERMANENT_STATUSES = new Set([400, 413, 415])
+
+function encodeMetadata(meta: Record<string, string>) {
+  return Object.entries(meta)
+    .map(([k, v]) => `${k} ${btoa(String.fromCharCode(...new TextEncoder().encode(v)))}`)
+    .join(',')
+}
+
+async function failure(res: Response, fallback: string) {
+  const body = await res.json().catch(() => null)
+  const message = body?.message || body?.error || `${fallback} (${res.status})`
+  return new ReceiptUploadError(message, res.status, PERMANENT_STATUSES.has(res.status))
+}
+
+async function tusHeaders() {
+  const { data, error } = await supabaseBrowser.auth.getSession()
+  const token = data?.session?.access_token
+  if (error || !token) throw new ReceiptUploadError('Sign in to upload receipts', 401)
+  return {
+    authorization: `Bearer ${token}`,
+    apikey: process.env.NEXT_PUBLIC_SUPABASE_PUBLISHABLE_KEY!,
+    'tus-resumable': TUS_VERSION,
+  }
+}
+
+async function createSession(path: string, blob: Blob, contentType: string, headers: Record<string, string>) {
+  const res = await fetch(`${process.env.NEXT_PUBLIC_SUPABASE_URL}/storage/v1/upload/resumable`, {
+    method: 'POST',
+    headers: {
+      ...headers,
+      'upload-length': String(blob.size),
+      'upload-metadata': encodeMetadata({ bucketName: BUCKET, objectName: path, contentType, cacheControl: '3600' }),
+      // Retried uploads reuse their path; overwrite whatever an earlier attempt left behind
+      'x-upsert': 'true',
+    },
+  })
+  const location = res.headers.get('location')
+  if (!res.ok || !location) throw await failure(res, 'Could not start the upload')
+  return { url: new URL(location, res.url).toString(), path, offset: 0, total: blob.size } satisfies UploadSession
+}
+
+// Where the server says the upload stands; null when it has forgotten the session
+async function serverOffset(session: UploadSession, headers: Record<string, string>) {
+  const res = await fetch(session.url, { method: 'HEAD', headers, cache: 'no-store' })
+  if (res.status === 404 || res.status === 410 || res.status === 403) return null
+  if (!res.ok) throw await failure(res, 'Could not resume the upload')
+  const offset = Number(res.headers.get('upload-offset'))
+  return Number.isSafeInteger(offset) ? offset : null
+}
+
+export async function uploadReceipt(opts: {
+  path: string
+  blob: Blob
+  contentType: string
+  session?: UploadSession | null
+  onSession?: (session: UploadSession) => Promise<void> | void
+  onProgress?: (uploaded: number, total: number) => Promise<void> | void
+}) {
+  const { path, blob, contentType } = opts
+
+  if (!process.env.NEXT_PUBLIC_SUPABASE_URL) {
+    const { error } = await supabaseBrowser.storage.from(BUCKET).upload(path, blob, { contentType, upsert: true })
+    if (error) throw new ReceiptUploadError(error.message)
+    await opts.onProgress?.(blob.size, blob.size)
+    return
+  }
+
+  const headers = await tusHeaders()
+  let session: UploadSession | null = opts.session && opts.session.path === path && opts.session.total === blob.size ? opts.session : null
+  if (session) {
+    const offset = await serverOffset(session, headers)
+    session = offset === null ? null : { ...session, offset }
+  }
+  if (!session) {
+    session = await createSession(path, blob, contentType, headers)
+    await opts.onSession?.(session)
+  }
+  await opts.onProgress?.(session.offset, session.total)
+
+  while (session.offset < session.total) {
+    const chunk = blob.slice(session.offset, Math.min(session.offset + CHUNK_SIZE, session.total))
+    const res: Response = await fetch(session.url, {
+      method: 'PATCH',
+      headers: { ...headers, 'upload-offset': String(session.offset), 'content-type': 'application/offset+octet-stream' },
+      body: chunk,
+    })
+    if (res.status === 409) {
+      // Offsets drifted (a previous PATCH landed without us seeing the response); ask the server and continue
+      const offset = await serverOffset(session, headers)
+      if (offset === null) throw new ReceiptUploadError('Upload session expired', 410)
+      session = { ...session, offset }
+      continue
+    }
+    if (!res.ok) throw await failure(res, 'Chunk upload failed')
+    const offset: number = Number(res.headers.get('upload-offset'))
+    session = { ...session, offset: Number.isSafeInteger(offset) ? offset : session.offset + chunk.size }
+    await opts.onSession?.(session)
+    await opts.onProgress?.(session.offset, session.total)
+  }
+}
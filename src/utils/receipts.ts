@@ -0,0 +1,176 @@
+/**
+ * CODE INSIGHT
+ * This code's use case is the server side of receipt files shared by the receipt routes: validating an uploaded file
+ * (size, declared content type and the type its magic bytes actually show), generating a thumbnail with sharp, and
+ * turning transaction_receipts rows into API objects with short-lived signed download URLs.
+ * Receipts are images (JPEG, PNG, WebP, HEIC/HEIF) or PDFs such as emailed e-receipts. Image thumbnails are
+ * THUMBNAIL_SIZE px WebP files stored next to the original as <path>.thumb.webp, rotated upright and without metadata;
+ * PDFs have no server thumbnail and clients render their first page from the signed url instead.
+ * Rows uploaded straight to storage by the offline queue have no thumbnail yet; once such an upload completes the
+ * SyncProvider calls POST /api/transactions/[id]/receipts/thumbnails, where ensureThumbnails() fills them in.
+ * This code's full epic context is receipt management for transactions (/api/transactions/[id]/receipts).
+ */
+
+import { supabaseServer } from '@/utils/supabase/client-server'
+
+export const RECEIPTS_BUCKET = 'receipts'
+export const MAX_RECEIPT_BYTES = 10 * 1024 * 1024
+export const SIGNED_URL_TTL_SECONDS = 5 * 60
+export const THUMBNAIL_SIZE = 320
+
+// Content type → file extension for everything a receipt may be
+export const RECEIPT_TYPES: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/heic': 'heic',
+  'image/heif': 'heif',
+  'application/pdf': 'pdf',
+}
+
+const MAX_THUMBNAILS_PER_CALL = 3
+
+type FieldError = { field: string; message: string }
+
+export type ReceiptRow = {
+  id: string
+  transaction_id: string
+  url: string
+  content_type: string | null
+  size_bytes: number | null
+  file_name: string | null
+  thumbnail_url: string | null
+  created_at: string
+  updated_at: string
+}
+
+export const RECEIPT_COLUMNS = 'id, transaction_id, url, content_type, size_bytes, file_name, thumbnail_url, created_at, updated_at'
+
+export function receiptKind(contentType: string | null) {
+  if (contentType === 'application/pdf') return 'pdf'
+  if (contentType?.startsWith('image/')) return 'image'
+  return 'other'
+}
+
+// What the first bytes say the file is, regardless of what the client claimed
+function sniffContentType(bytes: Uint8Array): string | null {
+  const ascii = (start: number, end: number) => String.fromCharCode(...bytes.subarray(start, end))
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'image/jpeg'
+  if (bytes[0] === 0x89 && ascii(1, 4) === 'PNG') return 'image/png'
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') return 'image/webp'
+  if (ascii(0, 5) === '%PDF-') return 'application/pdf'
+  if (ascii(4, 8) === 'ftyp') {
+    const brand = ascii(8, 12)
+    if (['heic', 'heix', 'hevc', 'hevx'].includes(brand)) return 'image/heic'
+    if (['mif1', 'msf1', 'avif'].includes(brand)) return 'image/heif'
+  }
+  return null
+}
+
+export type ValidatedReceipt = { bytes: Buffer; contentType: string; ext: string; fileName: string; size: number }
+
+export async function validateReceiptFile(
+  file: unknown,
+): Promise<{ ok: true; receipt: ValidatedReceipt } | { ok: false; status: number; errors: FieldError[] }> {
+  if (!file || !(file instanceof File)) {
+    return { ok: false, status: 400, errors: [{ field: 'file', message: 'file is required (multipart/form-data)' }] }
+  }
+  if (file.size === 0) return { ok: false, status: 400, errors: [{ field: 'file', message: 'file is empty' }] }
+  if (file.size > MAX_RECEIPT_BYTES) {
+    return {
+      ok: false,
+      status: 413,
+      errors: [{ field: 'file', message: `file must be at most ${MAX_RECEIPT_BYTES / (1024 * 1024)}MB` }],
+    }
+  }
+  const bytes = Buffer.from(await file.arrayBuffer())
+  const sniffed = sniffContentType(bytes)
+  if (!sniffed || !RECEIPT_TYPES[sniffed]) {
+    return { ok: false, status: 415, errors: [{ field: 'file', message: 'file must be a JPEG, PNG, WebP, HEIC image or a PDF' }] }
+  }
+  // HEIC and HEIF share a container; anything else must match what was declared
+  const declared = (file.type || '').toLowerCase()
+  const compatible = !declared || declared === sniffed || (sniffed.startsWith('image/hei') && declared.startsWith('image/hei'))
+  if (!compatible) {
+    return { ok: false, status: 415, errors: [{ field: 'file', message: `file content is ${sniffed}, not ${declared}` }] }
+  }
+  const fileName = (file.name || `receipt.${RECEIPT_TYPES[sniffed]}`).replace(/[\\/\u0000-\u001f]/g, '_').slice(0, 200)
+  return { ok: true, receipt: { bytes, contentType: sniffed, ext: RECEIPT_TYPES[sniffed], fileName, size: file.size } }
+}
+
+/** WebP thumbnail of an image receipt; null for PDFs or images sharp cannot decode */
+export async function makeThumbnail(bytes: Buffer, contentType: string | null): Promise<Buffer | null> {
+  if (receiptKind(contentType) !== 'image') return null
+  try {
+    const { default: sharp } = await import('sharp')
+    return await sharp(bytes, { failOn: 'none' })
+      .rotate()
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'cover', withoutEnlargement: true })
+      .webp({ quality: 70 })
+      .toBuffer()
+  } catch {
+    return null
+  }
+}
+
+export function thumbnailPath(path: string) {
+  return `${path}.thumb.webp`
+}
+
+/** Stores the thumbnail next to the file; returns its path, or null when none could be made */
+export async function storeThumbnail(path: string, bytes: Buffer, contentType: string | null) {
+  const thumb = await makeThumbnail(bytes, contentType)
+  if (!thumb) return null
+  const target = thumbnailPath(path)
+  const { error } = await supabaseServer.storage
+    .from(RECEIPTS_BUCKET)
+    .upload(target, thumb, { contentType: 'image/webp', upsert: true })
+  return error ? null : target
+}
+
+/** Generates missing thumbnails for image rows (a few per call) and returns the rows with thumbnail_url filled in */
+export async function ensureThumbnails(rows: ReceiptRow[]) {
+  const missing = rows.filter((r) => !r.thumbnail_url && receiptKind(r.content_type) === 'image').slice(0, MAX_THUMBNAILS_PER_CALL)
+  for (const row of missing) {
+    const { data: blob } = await supabaseServer.storage.from(RECEIPTS_BUCKET).download(row.url)
+    if (!blob) continue
+    const bytes = Buffer.from(await blob.arrayBuffer())
+    const target = await storeThumbnail(row.url, bytes, row.content_type)
+    if (!target) continue
+    const patch = { thumbnail_url: target, size_bytes: row.size_bytes ?? bytes.length }
+    const { error } = await supabaseServer.from('transaction_receipts').update(patch).eq('id', row.id)
+    if (!error) Object.assign(row, patch)
+  }
+  return rows
+}
+
+/** API shape with signed urls; a missing storage object yields url: null rather than failing the list */
+export async function signReceipts(rows: ReceiptRow[]) {
+  const paths = Array.from(new Set(rows.flatMap((r) => [r.url, r.thumbnail_url]).filter((p): p is string => !!p)))
+  const signed = new Map<string, string>()
+  if (paths.length > 0) {
+    const { data } = await supabaseServer.storage.from(RECEIPTS_BUCKET).createSignedUrls(paths, SIGNED_URL_TTL_SECONDS)
+    for (const s of data || []) if (s.path && s.signedUrl) signed.set(s.path, s.signedUrl)
+  }
+  const expiresAt = new Date(Date.now() + SIGNED_URL_TTL_SECONDS * 1000).toISOString()
+  return rows.map((r) => ({
+    id: r.id,
+    transaction_id: r.transaction_id,
+    kind: receiptKind(r.content_type),
+    content_type: r.content_type,
+    file_name: r.file_name,
+    size_bytes: r.size_bytes,
+    path: r.url,
+    url: signed.get(r.url) ?? null,
+    thumbnail_url: r.thumbnail_url ? (signed.get(r.thumbnail_url) ?? null) : null,
+    expires_at: expiresAt,
+    created_at: r.created_at,
+    updated_at: r.updated_at,
+  }))
+}
+
+export async function removeReceiptObjects(rows: Pick<ReceiptRow, 'url' | 'thumbnail_url'>[]) {
+  const paths = rows.flatMap((r) => [r.url, r.thumbnail_url]).filter((p): p is string => !!p)
+  if (paths.length === 0) return
+  await supabaseServer.storage.from(RECEIPTS_BUCKET).remove(paths)
+}
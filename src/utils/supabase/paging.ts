@@ -0,0 +1,24 @@
+/**
+ * CODE INSIGHT
+ * Reads every row of a query despite PostgREST's per-request row cap (max_rows, 1000 by default) by requesting
+ * consecutive .range() windows until a short page comes back (or maxRows are in). The query must have a stable order
+ * (e.g. by id) or rows can shift between windows.
+ */
+
+export const PAGE_ROWS = 1000
+
+type PageResult<T> = { data: T[] | null; error: { message: string } | null }
+
+export async function selectAllPages<T>(
+  page: (from: number, to: number) => PromiseLike<PageResult<T>>,
+  maxRows = Infinity,
+): Promise<{ data: T[]; error: { message: string } | null }> {
+  const rows: T[] = []
+  for (let from = 0; from < maxRows; from += PAGE_ROWS) {
+    const { data, error } = await page(from, Math.min(from + PAGE_ROWS, maxRows) - 1)
+    if (error) return { data: rows, error }
+    rows.push(...(data || []))
+    if (!data || data.length < PAGE_ROWS) break
+  }
+  return { data: rows, error: null }
+}
@@ -0,0 +1,81 @@
+/**
+ * CODE INSIGHT
+ * This code's use case is choosing the one tab that drains the offline sync queue. With the Web Locks API the leader is
+ * whichever tab holds the "tris-sync-leader" lock; the lock is released when that tab closes or crashes, and the next
+ * waiting tab takes over. The service worker asks for the same lock before it flushes the queue on its own.
+ * Browsers without Web Locks fall back to a heartbeat lease in syncMeta.leader that the leader renews every
+ * HEARTBEAT_MS; another tab claims it once it has expired. That fallback can briefly yield two leaders when tabs claim
+ * an expired lease at the same moment; the per-item leases in the SyncProvider and the idempotent push cover that window.
+ * This code's full epic context is the offline-first sync flow; the SyncProvider only processes the queue while
+ * electSyncLeader() reports this tab as leader, and followers mirror the leader's state from SYNC_META_UPDATED.
+ */
+
+import { syncMetaStore } from '@/utils/local-db'
+
+export const LEADER_LOCK = 'tris-sync-leader'
+
+const HEARTBEAT_MS = 5000
+const LEADER_LEASE_MS = 3 * HEARTBEAT_MS
+
+type LeaderLease = { owner: string; until: number }
+
+/** Calls onChange whenever this tab gains or loses leadership; returns a function that steps down */
+export function electSyncLeader(tabId: string, onChange: (leader: boolean) => void): () => void {
+  const locks = typeof navigator !== 'undefined' && 'locks' in navigator ? navigator.locks : undefined
+
+  if (locks?.request) {
+    const abort = new AbortController()
+    let release: (() => void) | null = null
+    locks
+      .request(LEADER_LOCK, { signal: abort.signal }, () => {
+        // Granted after stepping down (abort no longer applies once granted): hand the lock straight on
+        if (abort.signal.aborted) return
+        onChange(true)
+        // Held until this tab steps down or goes away
+        return new Promise<void>((resolve) => {
+          release = resolve
+        })
+      })
+      .catch(() => {
+        // Aborted while still waiting for the lock
+      })
+    return () => {
+      abort.abort()
+      if (release) {
+        release()
+        onChange(false)
+      }
+    }
+  }
+
+  let leader = false
+  let stopped = false
+  const tick = async () => {
+    const now = Date.now()
+    const lease = await syncMetaStore.getItem<LeaderLease>('leader').catch(() => null)
+    if (stopped) return
+    if (!lease || lease.until < now || lease.owner === tabId) {
+      await syncMetaStore.setItem('leader', { owner: tabId, until: now + LEADER_LEASE_MS } satisfies LeaderLease)
+    }
+    const confirmed = await syncMetaStore.getItem<LeaderLease>('leader').catch(() => null)
+    const next = confirmed?.owner === tabId
+    if (!stopped && next !== leader) {
+      leader = next
+      onChange(next)
+    }
+  }
+  void tick()
+  const timer = window.setInterval(() => void tick(), HEARTBEAT_MS)
+  return () => {
+    stopped = true
+    window.clearInterval(timer)
+    if (leader) {
+      leader = false
+      onChange(false)
+      // Let the next tab take over right away instead of waiting for the lease to run out
+      void syncMetaStore.getItem<LeaderLease>('leader').then((lease: LeaderLease | null) => {
+        if (lease?.owner === tabId) return syncMetaStore.removeItem('leader')
+      })
+    }
+  }
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest'
+import {
+  CLAIM_TIMEOUT_MS,
+  hashOperation,
+  priorResult,
+  validateOperations,
+  type Operation,
+  type OperationResult,
+  type SyncOperationRow,
+} from '@/utils/sync-operations'
+
+const TX_ID = '5d1c0b9e-2a4f-4e7b-8c3d-6f1a2b3c4d5e'
+const NOW = Date.parse('2026-05-01T12:00:00Z')
+
+const update: Operation = {
+  idempotency_key: 'queue-item-1',
+  type: 'UPDATE_TRANSACTION',
+  id: TX_ID,
+  payload: { amount: 12000 },
+  base_version: 3,
+}
+
+function claimed(op: Operation, patch: Partial<SyncOperationRow> = {}): SyncOperationRow {
+  return {
+    idempotency_key: op.idempotency_key,
+    request_hash: hashOperation(op),
+    status: 'processing',
+    result: null,
+    updated_at: new Date(NOW).toISOString(),
+    ...patch,
+  }
+}
+
+describe('priorResult', () => {
+  it('replays the stored result of a completed operation', () => {
+    const stored: OperationResult = { idempotency_key: update.idempotency_key, type: update.type, status: 'applied', replayed: false, id: TX_ID, version: 4 }
+    expect(priorResult(update, claimed(update, { status: 'completed', result: stored }), NOW)).toEqual({ ...stored, replayed: true })
+  })
+
+  it('rejects a key reused for a different operation', () => {
+    const overwrite: Operation = { ...update, payload: { amount: 15000 }, unconditional: true }
+    const result = priorResult(overwrite, claimed(update, { status: 'completed' }), NOW)
+    expect(result?.status).toBe('invalid')
+    expect(result?.errors?.[0].field).toBe('idempotency_key')
+  })
+
+  it('lets a kept-mine overwrite through under its own key', () => {
+    const overwrite: Operation = { ...update, idempotency_key: `${update.idempotency_key}.mine`, unconditional: true }
+    expect(hashOperation(overwrite)).not.toBe(hashOperation(update))
+    expect(validateOperations({ operations: [update, overwrite] })).toEqual({ ok: true, operations: [update, overwrite] })
+  })
+
+  it('reports a fresh claim as in progress', () => {
+    expect(priorResult(update, claimed(update), NOW + CLAIM_TIMEOUT_MS - 1)?.status).toBe('in_progress')
+  })
+
+  it('takes over a stale claim', () => {
+    expect(priorResult(update, claimed(update), NOW + CLAIM_TIMEOUT_MS)).toBeNull()
+  })
+})
+
+describe('hashOperation', () => {
+  it('ignores the key and how optional fields are spelled', () => {
+    const del: Operation = { idempotency_key: 'queue-item-2', type: 'DELETE_TRANSACTION', id: TX_ID }
+    expect(hashOperation({ ...del, idempotency_key: 'queue-item-3', base_version: null, unconditional: false })).toBe(hashOperation(del))
+  })
+})
+
+describe('validateOperations', () => {
+  it('rejects a key repeated within one batch', () => {
+    const result = validateOperations({ operations: [update, { ...update }] })
+    expect(result).toEqual({
+      ok: false,
+      errors: [{ field: 'operations[1].idempotency_key', message: 'idempotency_key is repeated within the batch' }],
+    })
+  })
+
+  it('checks each operation for its type', () => {
+    const result = validateOperations({
+      operations: [
+        { idempotency_key: 'short', type: 'CREATE_TRANSACTION', payload: {} },
+        { idempotency_key: 'queue-item-4', type: 'UPDATE_TRANSACTION', id: 'x', payload: [] },
+        { idempotency_key: 'queue-item-5', type: 'MOVE_TRANSACTION', id: TX_ID },
+      ],
+    })
+    expect(result.ok).toBe(false)
+    if (result.ok) return
+    expect(result.errors.map((e) => e.field)).toEqual([
+      'operations[0].idempotency_key',
+      'operations[1].id',
+      'operations[1].payload',
+      'operations[2].type',
+      'operations[2].payload',
+    ])
+  })
+})
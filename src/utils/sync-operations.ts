@@ -0,0 +1,117 @@
+/**
+ * CODE INSIGHT
+ * The idempotency rules behind POST /api/sync/push. An operation is identified by its client-generated idempotency_key
+ * and fingerprinted by hashOperation(); priorResult() decides what a key already in sync_operations means for a new
+ * request carrying it: the stored result again (a replay), a rejection (the key was used for a different operation),
+ * in_progress (another request holds a fresh claim) or null when a stale claim may be taken over and the operation run.
+ */
+
+import { createHash } from 'node:crypto'
+import { UUID_V4_REGEX, type FieldError } from '@/utils/transactions'
+
+export type OperationType = 'CREATE_TRANSACTION' | 'UPDATE_TRANSACTION' | 'DELETE_TRANSACTION'
+
+export type ResultStatus = 'applied' | 'conflict' | 'invalid' | 'not_found' | 'failed' | 'in_progress'
+
+export type Operation = {
+  idempotency_key: string
+  type: OperationType
+  id?: string
+  payload?: Record<string, unknown>
+  base_version?: number | null
+  unconditional?: boolean
+}
+
+export type OperationResult = {
+  idempotency_key: string
+  type: OperationType
+  status: ResultStatus
+  replayed: boolean
+  id?: string
+  version?: number | null
+  conflict?: unknown
+  errors?: FieldError[]
+  message?: string
+}
+
+// A sync_operations row: the claimed key, the hash of the operation it was claimed for and, once done, its result
+export type SyncOperationRow = { idempotency_key: string; request_hash: string; status: string; result: unknown; updated_at: string }
+
+const OPERATION_TYPES: OperationType[] = ['CREATE_TRANSACTION', 'UPDATE_TRANSACTION', 'DELETE_TRANSACTION']
+
+const KEY_REGEX = /^[\w.:-]{8,200}$/
+
+const MAX_OPERATIONS = 50
+export const CLAIM_TIMEOUT_MS = 2 * 60 * 1000
+
+export function validateOperations(body: unknown): { ok: true; operations: Operation[] } | { ok: false; errors: FieldError[] } {
+  const errors: FieldError[] = []
+  const raw = (body as { operations?: unknown } | null)?.operations
+  if (!Array.isArray(raw) || raw.length === 0) {
+    return { ok: false, errors: [{ field: 'operations', message: 'operations must be a non-empty array' }] }
+  }
+  if (raw.length > MAX_OPERATIONS) {
+    return { ok: false, errors: [{ field: 'operations', message: `at most ${MAX_OPERATIONS} operations per batch` }] }
+  }
+
+  const seen = new Set<string>()
+  raw.forEach((value: unknown, i: number) => {
+    const at = `operations[${i}]`
+    if (!value || typeof value !== 'object') {
+      errors.push({ field: at, message: 'operation must be an object' })
+      return
+    }
+    const op = value as Record<string, unknown>
+    if (typeof op.idempotency_key !== 'string' || !KEY_REGEX.test(op.idempotency_key)) {
+      errors.push({ field: `${at}.idempotency_key`, message: 'idempotency_key must be 8-200 characters of letters, digits, _ . : or -' })
+    } else if (seen.has(op.idempotency_key)) {
+      errors.push({ field: `${at}.idempotency_key`, message: 'idempotency_key is repeated within the batch' })
+    } else {
+      seen.add(op.idempotency_key)
+    }
+    if (!(OPERATION_TYPES as unknown[]).includes(op.type)) {
+      errors.push({ field: `${at}.type`, message: `type must be one of ${OPERATION_TYPES.join(', ')}` })
+    }
+    if (op.type !== 'CREATE_TRANSACTION' && (typeof op.id !== 'string' || !UUID_V4_REGEX.test(op.id))) {
+      errors.push({ field: `${at}.id`, message: 'id must be a valid transaction id' })
+    }
+    if (op.type !== 'DELETE_TRANSACTION' && (!op.payload || typeof op.payload !== 'object' || Array.isArray(op.payload))) {
+      errors.push({ field: `${at}.payload`, message: 'payload must be an object' })
+    }
+    if (op.base_version !== undefined && op.base_version !== null && !Number.isSafeInteger(op.base_version)) {
+      errors.push({ field: `${at}.base_version`, message: 'base_version must be an integer or null' })
+    }
+  })
+
+  return errors.length ? { ok: false, errors } : { ok: true, operations: raw as Operation[] }
+}
+
+export function hashOperation(op: Operation) {
+  const canonical = JSON.stringify({
+    type: op.type,
+    id: op.id ?? null,
+    payload: op.payload ?? null,
+    base_version: op.base_version ?? null,
+    unconditional: op.unconditional === true,
+  })
+  return createHash('sha256').update(canonical).digest('hex')
+}
+
+/** What a request carrying an already-claimed key gets back, or null when the claim is stale and the operation should run */
+export function priorResult(op: Operation, prior: SyncOperationRow, now = Date.now()): OperationResult | null {
+  if (prior.request_hash !== hashOperation(op)) {
+    return {
+      idempotency_key: op.idempotency_key,
+      type: op.type,
+      status: 'invalid',
+      replayed: false,
+      errors: [{ field: 'idempotency_key', message: 'idempotency_key was already used for a different operation' }],
+    }
+  }
+  if (prior.status === 'completed') return { ...(prior.result as OperationResult), replayed: true }
+  // Another request is still applying this key, unless its claim has gone stale
+  if (now - new Date(prior.updated_at).getTime() < CLAIM_TIMEOUT_MS) {
+    return { idempotency_key: op.idempotency_key, type: op.type, status: 'in_progress', replayed: false }
+  }
+  return null
+}
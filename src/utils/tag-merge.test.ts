@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest'
+import { countLinks } from '@/utils/tag-merge'
+
+describe('countLinks', () => {
+  it('counts every owner linked to the source per link table', () => {
+    expect(
+      countLinks([
+        { key: 'transactions', source: ['t1', 't2'], target: [] },
+        { key: 'split_lines', source: ['s1'], target: ['s9'] },
+        { key: 'presets', source: [], target: ['p1'] },
+        { key: 'payee_defaults', source: ['y1'], target: [] },
+      ]),
+    ).toEqual({ transactions: 2, split_lines: 1, presets: 0, payee_defaults: 1, already_tagged: 0 })
+  })
+
+  it('counts owners carrying both tags as already tagged, since their (owner, tag) key already exists', () => {
+    expect(
+      countLinks([
+        { key: 'transactions', source: ['t1', 't2', 't3'], target: ['t2', 't3', 't4'] },
+        { key: 'split_lines', source: ['s1'], target: ['s1'] },
+        { key: 'presets', source: ['p1'], target: [] },
+        { key: 'payee_defaults', source: ['y1'], target: ['y1'] },
+      ]),
+    ).toEqual({ transactions: 3, split_lines: 1, presets: 1, payee_defaults: 1, already_tagged: 4 })
+  })
+
+  it('ignores duplicate owner ids coming back from paged reads', () => {
+    expect(countLinks([{ key: 'transactions', source: ['t1', 't1'], target: ['t1', 't1'] }])).toEqual({
+      transactions: 1,
+      split_lines: 0,
+      presets: 0,
+      payee_defaults: 0,
+      already_tagged: 1,
+    })
+  })
+})
@@ -0,0 +1,80 @@
+/**
+ * CODE INSIGHT
+ * Tag merge used by POST /api/tags/[id]/merge. The merge itself is the merge_tag database function: in one transaction
+ * every link to the source tag — on transactions, split lines, presets and payee default tags — is re-created on the
+ * target, skipping owners that already carry it so no link table ever holds a duplicate (owner, tag) key, and the source
+ * tag is deleted. countTagMerge() reports the same numbers without writing, for the dry run.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { selectAllPages } from '@/utils/supabase/paging'
+
+export type TagMergeCounts = {
+  transactions: number
+  split_lines: number
+  presets: number
+  payee_defaults: number
+  already_tagged: number
+}
+
+// Link table, the column naming its owner row, and the key the table counts toward
+const LINK_TABLES = [
+  ['transaction_tags', 'transaction_id', 'transactions'],
+  ['transaction_split_tags', 'split_id', 'split_lines'],
+  ['preset_tags', 'preset_id', 'presets'],
+  ['payee_tags', 'payee_id', 'payee_defaults'],
+] as const
+
+export type LinkOwners = { key: keyof TagMergeCounts; source: string[]; target: string[] }
+
+async function ownersOf(client: SupabaseClient, table: string, column: string, tagId: string) {
+  const { data, error } = await selectAllPages<Record<string, string>>((from, to) =>
+    client
+      .from(table)
+      .select(column)
+      .eq('tag_id', tagId)
+      .order(column, { ascending: true })
+      .range(from, to)
+      .overrideTypes<Record<string, string>[], { merge: false }>(),
+  )
+  return { owners: data.map((r) => r[column]), error }
+}
+
+/** Counts per link table; an owner linked to both tags moves nowhere and counts as already_tagged */
+export function countLinks(links: LinkOwners[]): TagMergeCounts {
+  const counts: TagMergeCounts = { transactions: 0, split_lines: 0, presets: 0, payee_defaults: 0, already_tagged: 0 }
+  for (const link of links) {
+    const target = new Set(link.target)
+    const source = new Set(link.source)
+    counts[link.key] += source.size
+    for (const owner of source) if (target.has(owner)) counts.already_tagged += 1
+  }
+  return counts
+}
+
+/** What merging source into target would touch; already_tagged rows carry both tags and keep only the target */
+export async function countTagMerge(
+  client: SupabaseClient,
+  sourceId: string,
+  targetId: string,
+): Promise<{ counts: TagMergeCounts | null; error: { message: string } | null }> {
+  const links: LinkOwners[] = []
+  for (const [table, column, key] of LINK_TABLES) {
+    const [source, target] = await Promise.all([ownersOf(client, table, column, sourceId), ownersOf(client, table, column, targetId)])
+    const error = source.error ?? target.error
+    if (error) return { counts: null, error }
+    links.push({ key, source: source.owners, target: target.owners })
+  }
+  return { counts: countLinks(links), error: null }
+}
+
+/** Moves every link from source to target and deletes source; both tags must belong to the signed-in user */
+export async function mergeTagInto(
+  client: SupabaseClient,
+  sourceId: string,
+  targetId: string,
+): Promise<{ counts: TagMergeCounts | null; error: { message: string } | null }> {
+  const { data, error } = await client.rpc('merge_tag', { p_source: sourceId, p_target: targetId })
+  if (error) return { counts: null, error }
+  return { counts: data as TagMergeCounts, error: null }
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest'
+import { mergeReceiptUrls, mergeTagNames, sameValue, threeWayMerge } from '@/utils/three-way-merge'
+
+const base = {
+  amount: 12000,
+  payee: 'Cafe',
+  notes: null,
+  occurred_at: '2026-05-01T09:00:00.000Z',
+  tag_names: ['coffee', 'work'],
+}
+
+describe('threeWayMerge', () => {
+  it('keeps edits to fields the server left alone', () => {
+    const server = { ...base, payee: 'Cafe Nero' }
+    expect(threeWayMerge(base, { amount: 13000 }, server)).toEqual({ payload: { amount: 13000 }, conflicts: [] })
+  })
+
+  it('drops a field both sides changed to the same value', () => {
+    const server = { ...base, amount: '13000' }
+    expect(threeWayMerge(base, { amount: 13000 }, server)).toEqual({ payload: {}, conflicts: [] })
+  })
+
+  it('reports a field both sides changed differently', () => {
+    const server = { ...base, amount: 14000 }
+    expect(threeWayMerge(base, { amount: 13000, notes: 'split with Jo' }, server)).toEqual({
+      payload: { notes: 'split with Jo' },
+      conflicts: ['amount'],
+    })
+  })
+
+  it('treats a field missing from base as a conflict when the values differ', () => {
+    const server = { ...base, category_id: 'b' }
+    expect(threeWayMerge(base, { category_id: 'a' }, server).conflicts).toEqual(['category_id'])
+  })
+
+  it('compares timestamps by instant', () => {
+    const server = { ...base, occurred_at: '2026-05-01T09:00:00+00:00' }
+    expect(threeWayMerge(base, { occurred_at: '2026-05-02T09:00:00.000Z' }, server).payload).toEqual({
+      occurred_at: '2026-05-02T09:00:00.000Z',
+    })
+  })
+
+  it('applies local tag additions and removals to the server set', () => {
+    const server = { ...base, tag_names: ['coffee', 'work', 'team'] }
+    const { payload, conflicts } = threeWayMerge(base, { tag_names: ['coffee', 'Client'] }, server)
+    expect(conflicts).toEqual([])
+    expect(new Set(payload.tag_names as string[])).toEqual(new Set(['coffee', 'team', 'client']))
+  })
+
+  it('sends no tags when the merge matches the server', () => {
+    const server = { ...base, tag_names: ['coffee'] }
+    expect(threeWayMerge(base, { tag_names: ['coffee'] }, server).payload).toEqual({})
+  })
+
+  it('assumes base tags when the server snapshot has none', () => {
+    const { payload } = threeWayMerge(base, { tag_names: ['coffee', 'work', 'late'] }, { amount: 12000 })
+    expect(new Set(payload.tag_names as string[])).toEqual(new Set(['coffee', 'work', 'late']))
+  })
+})
+
+describe('sameValue', () => {
+  it('treats empty strings and undefined as null', () => {
+    expect(sameValue('notes', '', null)).toBe(true)
+    expect(sameValue('notes', undefined, 'x')).toBe(false)
+  })
+
+  it('compares tag names as sets', () => {
+    expect(sameValue('tag_names', ['Work', 'coffee'], ['coffee', 'work'])).toBe(true)
+  })
+})
+
+describe('mergeTagNames', () => {
+  it('lets a local removal win over a server that kept the tag', () => {
+    expect(mergeTagNames(['a', 'b'], ['a'], ['a', 'b', 'c']).sort()).toEqual(['a', 'c'])
+  })
+})
+
+describe('mergeReceiptUrls', () => {
+  it('unions urls with local ones first', () => {
+    expect(mergeReceiptUrls(['r2', 'r1', ''], ['r1', 'r3', null])).toEqual(['r2', 'r1', 'r3'])
+  })
+})
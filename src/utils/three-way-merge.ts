@@ -0,0 +1,82 @@
+/**
+ * CODE INSIGHT
+ * This code's use case is the field-level three-way merge the SyncProvider runs when a queued UPDATE_TRANSACTION hits a
+ * version conflict. base is the snapshot the edit was made against (stored on the queue item), mine is the queued
+ * payload and server is the 409 snapshot. A field only one side changed takes that side's value, a field both sides set
+ * to the same value is dropped, and only a field both sides changed differently is reported as a conflict.
+ * tag_names never conflict: tags added or removed locally are applied to the server's set. Receipts are additive and are
+ * merged as a union by url.
+ * This code's full epic context is the offline-first sync flow; merged payloads are re-pushed through /api/sync/push and
+ * only the conflicting fields reach /conflicts/[id].
+ */
+
+import { normalizeTagName } from '@/utils/transactions'
+
+export type Snapshot = Record<string, unknown>
+
+export type MergeResult = {
+  // Fields to send to the server: non-conflicting local edits plus the merged tag set
+  payload: Snapshot
+  // Fields both sides changed to different values
+  conflicts: string[]
+}
+
+function tagSet(value: unknown) {
+  return new Set(Array.isArray(value) ? value.filter((t): t is string => typeof t === 'string').map(normalizeTagName) : [])
+}
+
+// Timestamps come back as +00:00 from the server and Z from the client; amounts may be numeric strings
+export function sameValue(field: string, a: unknown, b: unknown) {
+  const x = a === undefined || a === '' ? null : a
+  const y = b === undefined || b === '' ? null : b
+  if (x === null || y === null) return x === y
+  if (field === 'occurred_at') return Date.parse(String(x)) === Date.parse(String(y))
+  if (field === 'amount' || field === 'original_amount' || field === 'exchange_rate') return Number(x) === Number(y)
+  if (field === 'tag_names') {
+    const p = tagSet(x)
+    const q = tagSet(y)
+    return p.size === q.size && Array.from(p).every((t) => q.has(t))
+  }
+  return x === y
+}
+
+/** server's tags, plus what mine added relative to base, minus what mine removed */
+export function mergeTagNames(base: unknown, mine: unknown, server: unknown) {
+  const b = tagSet(base)
+  const m = tagSet(mine)
+  const out = tagSet(server)
+  for (const t of b) if (!m.has(t)) out.delete(t)
+  for (const t of m) if (!b.has(t)) out.add(t)
+  return Array.from(out)
+}
+
+/** Union of receipt urls, local first so a just-attached receipt stays the primary one */
+export function mergeReceiptUrls(mine: unknown, server: unknown) {
+  const urls = [...(Array.isArray(mine) ? mine : []), ...(Array.isArray(server) ? server : [])]
+  return Array.from(new Set(urls.filter((u): u is string => typeof u === 'string' && u.length > 0)))
+}
+
+export function threeWayMerge(base: Snapshot, mine: Snapshot, server: Snapshot): MergeResult {
+  const payload: Snapshot = {}
+  const conflicts: string[] = []
+
+  for (const [field, value] of Object.entries(mine)) {
+    if (field === 'tag_names') {
+      // A snapshot without tags means the server side is unknown; assume it still matches base
+      const serverTags = 'tag_names' in server ? server.tag_names : base.tag_names
+      const merged = mergeTagNames(base.tag_names, value, serverTags)
+      if (!sameValue('tag_names', merged, serverTags)) payload.tag_names = merged
+      continue
+    }
+    // Both sides arrived at the same value: nothing to send
+    if (sameValue(field, value, server[field])) continue
+    // Without a base value for the field there is no way to tell who changed it
+    if (field in base && sameValue(field, base[field], server[field])) {
+      payload[field] = value
+      continue
+    }
+    conflicts.push(field)
+  }
+
+  return { payload, conflicts }
+}
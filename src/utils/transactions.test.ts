@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest'
+import { MAX_SPLIT_LINES, parseSplitLines, splitSumError } from '@/utils/transactions'
+
+const CATEGORY_ID = '0b6f7a52-3c1e-4d2a-9f3b-5e8c7d6a4b21'
+
+describe('splitSumError', () => {
+  it('accepts lines that add up to the parent amount', () => {
+    expect(splitSumError([3000, 2000, 500], 5500)).toBeNull()
+  })
+
+  it('accepts a transaction without split lines', () => {
+    expect(splitSumError([], 5500)).toBeNull()
+  })
+
+  it('reports the sum and the parent amount when they differ', () => {
+    expect(splitSumError([3000, 2000], 5500)).toEqual({
+      field: 'splits',
+      message: 'split lines must sum to the transaction amount (5000 ≠ 5500)',
+    })
+  })
+})
+
+describe('parseSplitLines', () => {
+  it('normalizes valid lines', () => {
+    const result = parseSplitLines(
+      [
+        { amount: 4000, category_id: CATEGORY_ID, notes: '  lunch  ', tag_names: ['work'] },
+        { amount: 1000 },
+      ],
+      5000,
+    )
+    expect(result).toEqual({
+      ok: true,
+      lines: [
+        { amount: 4000, category_id: CATEGORY_ID, notes: 'lunch', tag_names: ['work'] },
+        { amount: 1000, category_id: null, notes: null, tag_names: [] },
+      ],
+    })
+  })
+
+  it('rejects lines that do not add up to the parent amount', () => {
+    const result = parseSplitLines([{ amount: 4000 }, { amount: 900 }], 5000)
+    expect(result).toEqual({
+      ok: false,
+      errors: [{ field: 'splits', message: 'split lines must sum to the transaction amount (4900 ≠ 5000)' }],
+    })
+  })
+
+  it('skips the sum check when the parent amount is settled later', () => {
+    const result = parseSplitLines([{ amount: 4000 }, { amount: 900 }])
+    expect(result.ok).toBe(true)
+  })
+
+  it('reports field errors per line and leaves the sum alone until they are fixed', () => {
+    const result = parseSplitLines([{ amount: -1 }, { amount: 1.5, category_id: 'nope', tag_names: [''] }], 0)
+    expect(result.ok).toBe(false)
+    if (result.ok) return
+    expect(result.errors.map((e) => e.field)).toEqual([
+      'splits[0].amount',
+      'splits[1].amount',
+      'splits[1].category_id',
+      'splits[1].tag_names',
+    ])
+  })
+
+  it('rejects a non-array and too many lines', () => {
+    expect(parseSplitLines({ amount: 1 })).toEqual({ ok: false, errors: [{ field: 'splits', message: 'splits must be an array' }] })
+    const many = Array.from({ length: MAX_SPLIT_LINES + 1 }, () => ({ amount: 1 }))
+    const result = parseSplitLines(many)
+    expect(result.ok).toBe(false)
+  })
+})
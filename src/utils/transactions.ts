@@ -0,0 +1,201 @@
+/**
+ * CODE INSIGHT
+ * Transaction vocabulary shared by the transaction, search, bulk, sync and payee routes and the offline merge: the
+ * kinds and payment methods the database accepts, the id format routes validate, and how tag names are normalized
+ * (whitespace collapsed, lower-cased — tags are unique per user on that form). resolveTags() turns free-text tag names
+ * into tag rows, creating the missing ones; the cursor helpers encode keyset positions for newest-first listings.
+ * parseSplitLines() validates request split lines and splitSumError() checks they add up to the parent amount.
+ * Writes go through the create_transaction / update_transaction database functions so a row, its tags and its split
+ * lines land together; the *ForWrite helpers shape their arguments and writeFieldError maps their rejections.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+export type TransactionKind = 'expense' | 'income' | 'refund' | 'transfer'
+
+export const TRANSACTION_KINDS: TransactionKind[] = ['expense', 'income', 'refund', 'transfer']
+
+export type PaymentMethod = 'cash' | 'card' | 'bank_transfer' | 'mobile' | 'other'
+
+export const PAYMENT_METHODS: PaymentMethod[] = ['cash', 'card', 'bank_transfer', 'mobile', 'other']
+
+export const UUID_V4_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i
+
+export const MAX_SPLIT_LINES = 50
+
+export type TagRow = { id: string; name: string }
+
+export type SplitLine = { amount: number; category_id: string | null; notes: string | null; tag_names: string[] }
+
+export type FieldError = { field: string; message: string }
+
+// A transactions row with the columns the transaction routes select
+export type TransactionRow = {
+  id: string
+  kind: TransactionKind
+  amount: number
+  currency: string
+  original_amount: number | null
+  exchange_rate: number
+  occurred_at: string
+  category_id: string | null
+  account_id: string | null
+  transfer_account_id: string | null
+  payee: string | null
+  payee_id: string | null
+  payment_method: PaymentMethod
+  notes: string | null
+  has_splits: boolean
+  version: number
+  created_at: string
+  updated_at: string
+}
+
+// A link row with its tag embedded as tags:tag_id ( name ), from any of the tag link tables
+export type TagLink = { tags: { name: string } | null }
+
+export function isTransactionKind(value: unknown): value is TransactionKind {
+  return typeof value === 'string' && (TRANSACTION_KINDS as string[]).includes(value)
+}
+
+export function isPaymentMethod(value: unknown): value is PaymentMethod {
+  return typeof value === 'string' && (PAYMENT_METHODS as string[]).includes(value)
+}
+
+export function isValidISODate(value: unknown): value is string {
+  if (typeof value !== 'string') return false
+  const d = new Date(value)
+  return !isNaN(d.getTime())
+}
+
+// Opaque cursor for keyset pagination over (occurred_at desc, id desc)
+export function encodeCursor(occurredAt: string, id: string) {
+  return Buffer.from(`${occurredAt}|${id}`, 'utf8').toString('base64url')
+}
+
+export function decodeCursor(cursor: string): { occurredAt: string; id: string } | null {
+  try {
+    const raw = Buffer.from(cursor, 'base64url').toString('utf8')
+    const sep = raw.lastIndexOf('|')
+    if (sep <= 0) return null
+    const occurredAt = raw.slice(0, sep)
+    const id = raw.slice(sep + 1)
+    if (!isValidISODate(occurredAt) || !UUID_V4_REGEX.test(id)) return null
+    return { occurredAt, id }
+  } catch {
+    return null
+  }
+}
+
+export function tagNamesOf(links: TagLink[] | null | undefined): string[] {
+  return (links || []).flatMap((l) => (l.tags?.name ? [l.tags.name] : []))
+}
+
+export function normalizeTagName(name: string) {
+  return name.replace(/\s+/g, ' ').trim().toLowerCase()
+}
+
+/**
+ * Ensures every tag name exists for the user and returns the tag rows, one per distinct normalized name. A tag created
+ * concurrently by another request is picked up rather than failing on the unique name.
+ */
+export async function resolveTags(
+  client: SupabaseClient,
+  userId: string,
+  names: string[],
+): Promise<{ tags: TagRow[]; error: { message: string } | null }> {
+  const normalized = Array.from(new Set(names.map(normalizeTagName).filter(Boolean)))
+  if (normalized.length === 0) return { tags: [], error: null }
+
+  const select = () => client.from('tags').select('id, name').eq('user_id', userId).in('name', normalized)
+  const { data: existing, error: selErr } = await select()
+  if (selErr) return { tags: [], error: selErr }
+  const known = new Set(((existing || []) as TagRow[]).map((t) => t.name))
+  const missing = normalized.filter((n) => !known.has(n))
+  if (missing.length === 0) return { tags: (existing || []) as TagRow[], error: null }
+
+  const { error: insErr } = await client
+    .from('tags')
+    .upsert(
+      missing.map((name) => ({ user_id: userId, name })),
+      { onConflict: 'user_id,name', ignoreDuplicates: true },
+    )
+  if (insErr) return { tags: [], error: insErr }
+  const { data: all, error: reselErr } = await select()
+  if (reselErr) return { tags: [], error: reselErr }
+  return { tags: (all || []) as TagRow[], error: null }
+}
+
+export function splitSumError(amounts: number[], parentAmount: number): FieldError | null {
+  const sum = amounts.reduce((acc, n) => acc + n, 0)
+  if (amounts.length === 0 || sum === parentAmount) return null
+  return { field: 'splits', message: `split lines must sum to the transaction amount (${sum} ≠ ${parentAmount})` }
+}
+
+/**
+ * Validates the split lines of a request body. With parentAmount the lines must also sum to it; leave it out when the
+ * parent amount is only settled later (converted on the server, or read from the stored row).
+ */
+export function parseSplitLines(raw: unknown, parentAmount?: number): { ok: true; lines: SplitLine[] } | { ok: false; errors: FieldError[] } {
+  if (!Array.isArray(raw)) return { ok: false, errors: [{ field: 'splits', message: 'splits must be an array' }] }
+  if (raw.length > MAX_SPLIT_LINES) {
+    return { ok: false, errors: [{ field: 'splits', message: `no more than ${MAX_SPLIT_LINES} split lines are allowed` }] }
+  }
+
+  const errors: FieldError[] = []
+  const lines: SplitLine[] = []
+  raw.forEach((value: unknown, i) => {
+    const field = `splits[${i}]`
+    if (typeof value !== 'object' || value === null) {
+      errors.push({ field, message: 'split line must be an object' })
+      return
+    }
+    const line = value as Record<string, unknown>
+    const amount = line.amount
+    if (typeof amount !== 'number' || !Number.isSafeInteger(amount) || amount < 0) {
+      errors.push({ field: `${field}.amount`, message: 'amount must be a non-negative safe integer (KRW)' })
+    }
+    const categoryId = line.category_id
+    if (categoryId != null && (typeof categoryId !== 'string' || !UUID_V4_REGEX.test(categoryId))) {
+      errors.push({ field: `${field}.category_id`, message: 'category_id must be a valid UUID' })
+    }
+    const notes = line.notes
+    if (notes != null && (typeof notes !== 'string' || notes.length > 200)) {
+      errors.push({ field: `${field}.notes`, message: 'notes must be a string of 200 characters or fewer' })
+    }
+    const tagNames = line.tag_names ?? []
+    if (!Array.isArray(tagNames) || tagNames.some((t: unknown) => typeof t !== 'string' || !t.trim() || t.length > 64)) {
+      errors.push({ field: `${field}.tag_names`, message: 'each tag name must be a non-empty string up to 64 chars' })
+    }
+    lines.push({
+      amount: amount as number,
+      category_id: (categoryId as string | null | undefined) ?? null,
+      notes: typeof notes === 'string' ? notes.trim() || null : null,
+      tag_names: Array.isArray(tagNames) ? (tagNames as string[]) : [],
+    })
+  })
+
+  if (errors.length === 0 && parentAmount !== undefined) {
+    const sumError = splitSumError(lines.map((l) => l.amount), parentAmount)
+    if (sumError) errors.push(sumError)
+  }
+  if (errors.length) return { ok: false, errors }
+  return { ok: true, lines }
+}
+
+export function tagNamesForWrite(names: string[]) {
+  return Array.from(new Set(names.map(normalizeTagName).filter(Boolean)))
+}
+
+export function splitsForWrite(lines: SplitLine[]) {
+  return lines.map((l) => ({ amount: l.amount, category_id: l.category_id, notes: l.notes, tag_names: tagNamesForWrite(l.tag_names) }))
+}
+
+// Field error for a write the database rejected because of the input, or null for any other failure
+export function writeFieldError(error: { code?: string; message: string }) {
+  if (error.code === '23514') return { field: 'splits', message: 'split lines must sum to the transaction amount' }
+  if (error.code !== '23503') return null
+  return error.message.includes('transaction_splits')
+    ? { field: 'splits', message: 'split category does not exist' }
+    : { field: 'category_id', message: 'category or account does not exist' }
+}